@@ -5,6 +5,8 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { AuthProvider, useAuth } from './src/auth/hooks/useAuth';
 import { LoginScreen } from './src/screens/auth/LoginScreen';
 import { RegisterScreen } from './src/screens/auth/RegisterScreen';
+import { ForgotPasswordScreen } from './src/screens/auth/ForgotPasswordScreen';
+import { VerifyEmailScreen } from './src/screens/auth/VerifyEmailScreen';
 import { MainScreen } from './src/screens/MainScreen';
 import { LoadingScreen } from './src/components/LoadingScreen';
 
@@ -12,6 +14,8 @@ import { LoadingScreen } from './src/components/LoadingScreen';
 export type RootStackParamList = {
   Login: undefined;
   Register: undefined;
+  ForgotPassword: undefined;
+  VerifyEmail: undefined;
   Main: undefined;
 };
 
@@ -22,11 +26,14 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
  * 
  * Handles navigation routing based on authentication state.
  * Shows loading screen during auth state initialization.
+ * Signed-in users with an unverified email only get the verification screen,
+ * unless their account predates email verification.
  */
 const AuthNavigator: React.FC = () => {
-  const { user, loading } = useAuth();
+  const { user, initializing } = useAuth();
 
-  if (loading) {
+  // Only the initial session restore; sign-in and password reset keep their screens mounted
+  if (initializing) {
     return <LoadingScreen />;
   }
 
@@ -38,7 +45,16 @@ const AuthNavigator: React.FC = () => {
           contentStyle: { backgroundColor: '#f8f9fa' },
         }}
       >
-        {user ? (
+        {user?.requiresEmailVerification ? (
+          // User still has to confirm their email address
+          <Stack.Screen
+            name="VerifyEmail"
+            component={VerifyEmailScreen}
+            options={{
+              gestureEnabled: false,
+            }}
+          />
+        ) : user ? (
           // User is authenticated - show main app
           <Stack.Screen
             name="Main"
@@ -74,6 +90,23 @@ const AuthNavigator: React.FC = () => {
                 },
               }}
             />
+            <Stack.Screen
+              name="ForgotPassword"
+              component={ForgotPasswordScreen}
+              options={{
+                title: 'Reset Password',
+                headerShown: true,
+                headerBackTitleVisible: false,
+                headerTintColor: '#007AFF',
+                headerStyle: {
+                  backgroundColor: '#f8f9fa',
+                },
+                headerTitleStyle: {
+                  fontSize: 18,
+                  fontWeight: '600',
+                },
+              }}
+            />
           </>
         )}
       </Stack.Navigator>
@@ -5,7 +5,6 @@ import {
   TextInput, 
   TouchableOpacity, 
   StyleSheet, 
-  Alert, 
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform 
@@ -22,9 +21,10 @@ import { useAuth } from '../hooks/useAuth';
 
 interface LoginFormProps {
   onNavigateToRegister?: () => void;
+  onForgotPassword?: () => void;
 }
 
-export const LoginForm: React.FC<LoginFormProps> = ({ onNavigateToRegister }) => {
+export const LoginForm: React.FC<LoginFormProps> = ({ onNavigateToRegister, onForgotPassword }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [emailError, setEmailError] = useState('');
@@ -100,14 +100,6 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onNavigateToRegister }) =>
     }
   };
 
-  const handleForgotPassword = () => {
-    Alert.alert(
-      'Reset Password',
-      'Password reset functionality would be implemented here. For now, please contact support.',
-      [{ text: 'OK' }]
-    );
-  };
-
   return (
     <KeyboardAvoidingView 
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -182,13 +174,15 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onNavigateToRegister }) =>
         </TouchableOpacity>
 
         {/* Forgot Password */}
-        <TouchableOpacity 
-          style={styles.forgotPassword}
-          onPress={handleForgotPassword}
-          disabled={loading}
-        >
-          <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
-        </TouchableOpacity>
+        {onForgotPassword && (
+          <TouchableOpacity 
+            style={styles.forgotPassword}
+            onPress={onForgotPassword}
+            disabled={loading}
+          >
+            <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
+          </TouchableOpacity>
+        )}
 
         {/* Navigate to Register */}
         {onNavigateToRegister && (
@@ -3,14 +3,32 @@ import {
   onAuthStateChanged, 
   signInWithEmailAndPassword, 
   createUserWithEmailAndPassword, 
+  sendPasswordResetEmail,
+  sendEmailVerification,
+  reload,
+  reauthenticateWithCredential,
+  updatePassword,
+  deleteUser,
+  EmailAuthProvider,
   signOut, 
   updateProfile,
   User as FirebaseUser 
 } from 'firebase/auth';
 import { auth } from '../../services/firebase';
 import { SecureStorageService } from '../../services/secureStorage';
-import { UserService } from '../../services/userService';
+import { StorageService } from '../../storage/storageService';
+import { AccountService } from '../../services/accountService';
+import { MessageCacheService } from '../../services/messageCacheService';
+import { MessageOutboxService } from '../../services/messageOutboxService';
+import { MedicalRecordService } from '../../services/medicalRecordService';
+import { UserService, UserProfileInput } from '../../services/userService';
+import { PresenceService } from '../../services/presenceService';
+import { ReminderNotificationService } from '../../services/reminderNotificationService';
+import { LostPetAlertService } from '../../services/lostPetAlertService';
+import { EventNotificationService } from '../../services/eventNotificationService';
 import type { User } from '../../types/auth';
+import type { PickedAttachment } from '../../types/chat';
+import { requiresEmailVerification } from '../../utils/authUtils';
 
 /**
  * AuthContext Hook
@@ -20,9 +38,15 @@ import type { User } from '../../types/auth';
  * 
  * Features:
  * - Firebase Auth integration with email/password
+ * - Password reset emails
+ * - Email verification for new accounts
+ * - Password changes with re-authentication
+ * - Account deletion with cleanup of the user's data
+ * - Profile edits kept in sync with the signed-in user
  * - Secure token storage using Expo SecureStore
  * - Automatic session rehydration on app launch
  * - Loading states and error handling
+ * - Presence tracking while signed in
  * - Type-safe operations
  */
 
@@ -34,6 +58,12 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, displayName: string) => Promise<void>;
   signOut: () => Promise<void>;
+  resetPassword: (email: string) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
+  refreshEmailVerified: () => Promise<boolean>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
+  updateUserProfile: (input: UserProfileInput, photo?: PickedAttachment | null) => Promise<void>;
   clearError: () => void;
 }
 
@@ -70,6 +100,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 email: firebaseUser.email!,
                 displayName: firebaseUser.displayName || 'User',
                 photoURL: firebaseUser.photoURL,
+                emailVerified: firebaseUser.emailVerified,
+                requiresEmailVerification: requiresEmailVerification(
+                  firebaseUser.emailVerified,
+                  firebaseUser.metadata.creationTime
+                ),
               };
 
               // Store user data and token securely
@@ -119,6 +154,30 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  // Keep the signed-in user's online status and heartbeat up to date
+  useEffect(() => {
+    if (!user) return;
+    return PresenceService.start(user.uid);
+  }, [user?.uid]);
+
+  // Schedule local notifications for the signed-in user's care reminders
+  useEffect(() => {
+    if (!user) return;
+    return ReminderNotificationService.start(user.uid);
+  }, [user?.uid]);
+
+  // Notify the signed-in user about lost pets reported nearby
+  useEffect(() => {
+    if (!user) return;
+    return LostPetAlertService.startNotifications(user.uid);
+  }, [user?.uid]);
+
+  // Remind the signed-in user before events they RSVPed to
+  useEffect(() => {
+    if (!user) return;
+    return EventNotificationService.start(user.uid);
+  }, [user?.uid]);
+
   const signIn = async (email: string, password: string): Promise<void> => {
     try {
       setLoading(true);
@@ -166,12 +225,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         displayName: displayName.trim() 
       });
 
+      // The account stays gated until the address is confirmed; the email can be resent from there
+      try {
+        await sendEmailVerification(userCredential.user);
+      } catch (verificationError) {
+        console.warn('Failed to send verification email:', verificationError);
+      }
+
       // Create user profile in Firestore
       const userData: User = {
         uid: userCredential.user.uid,
         email: userCredential.user.email!,
         displayName: displayName.trim(),
         photoURL: null,
+        emailVerified: false,
+        requiresEmailVerification: true,
       };
       
       try {
@@ -211,6 +279,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       setLoading(true);
       setError(null);
+
+      if (user) {
+        // Mark offline while still authenticated to write the profile
+        await PresenceService.goOffline(user.uid);
+        // Unsent messages must not be replayed by the next account on this device
+        await MessageOutboxService.clearAll(user.uid);
+        // Medical history is private to the account
+        await MedicalRecordService.clearAllCachedRecords(user.uid);
+      }
+
+      // Reminders belong to the account, not the device
+      await ReminderNotificationService.cancelAll();
+      await EventNotificationService.cancelAll();
       
       await signOut(auth);
       console.log('Sign out successful');
@@ -225,6 +306,241 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const resetPassword = async (email: string): Promise<void> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      await sendPasswordResetEmail(auth, email);
+      console.log('Password reset email sent to:', email);
+    } catch (error: any) {
+      console.error('Password reset error:', error);
+
+      const getErrorMessage = () => {
+        switch (error.code) {
+          case 'auth/user-not-found':
+            return 'No account found with this email address';
+          case 'auth/invalid-email':
+          case 'auth/missing-email':
+            return 'Invalid email address';
+          case 'auth/too-many-requests':
+            return 'Too many reset requests. Please try again later';
+          case 'auth/network-request-failed':
+            return 'Network error. Check your connection and try again';
+          default:
+            return error.message || 'An error occurred while sending the reset email';
+        }
+      };
+
+      const errorMessage = getErrorMessage();
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sendVerificationEmail = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!auth.currentUser) {
+        throw new Error('You need to be signed in to verify your email');
+      }
+
+      await sendEmailVerification(auth.currentUser);
+      console.log('Verification email sent to:', auth.currentUser.email);
+    } catch (error: any) {
+      console.error('Verification email error:', error);
+
+      const getErrorMessage = () => {
+        switch (error.code) {
+          case 'auth/too-many-requests':
+            return 'Too many verification emails sent. Please try again later';
+          case 'auth/network-request-failed':
+            return 'Network error. Check your connection and try again';
+          default:
+            return error.message || 'An error occurred while sending the verification email';
+        }
+      };
+
+      const errorMessage = getErrorMessage();
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshEmailVerified = async (): Promise<boolean> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser) {
+        return false;
+      }
+
+      // onAuthStateChanged doesn't fire on reload, so update the user ourselves
+      await reload(firebaseUser);
+      if (firebaseUser.emailVerified) {
+        // Refresh the ID token so security rules see the verified claim
+        const token = await firebaseUser.getIdToken(true);
+        await SecureStorageService.setAuthToken(token);
+        setUser(current => current && { ...current, emailVerified: true, requiresEmailVerification: false });
+      }
+
+      return firebaseUser.emailVerified;
+    } catch (error: any) {
+      console.error('Email verification refresh error:', error);
+      const errorMessage = error.code === 'auth/network-request-failed'
+        ? 'Network error. Check your connection and try again'
+        : 'Failed to check your verification status';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser?.email) {
+        throw new Error('You need to be signed in to change your password');
+      }
+
+      // Firebase requires a recent sign-in for sensitive changes
+      const credential = EmailAuthProvider.credential(firebaseUser.email, currentPassword);
+      await reauthenticateWithCredential(firebaseUser, credential);
+      await updatePassword(firebaseUser, newPassword);
+
+      // The old tokens were issued before the change; store fresh ones
+      const token = await firebaseUser.getIdToken(true);
+      await Promise.all([
+        SecureStorageService.setAuthToken(token),
+        SecureStorageService.setRefreshToken(firebaseUser.refreshToken),
+      ]);
+      console.log('Password changed for:', firebaseUser.email);
+    } catch (error: any) {
+      console.error('Change password error:', error);
+
+      const getErrorMessage = () => {
+        switch (error.code) {
+          case 'auth/wrong-password':
+          case 'auth/invalid-credential':
+            return 'Current password is incorrect';
+          case 'auth/weak-password':
+            return 'New password is too weak';
+          case 'auth/too-many-requests':
+            return 'Too many failed attempts. Please try again later';
+          case 'auth/requires-recent-login':
+            return 'Please sign in again before changing your password';
+          case 'auth/network-request-failed':
+            return 'Network error. Check your connection and try again';
+          default:
+            return error.message || 'An error occurred while changing your password';
+        }
+      };
+
+      const errorMessage = getErrorMessage();
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteAccount = async (password: string): Promise<void> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser?.email) {
+        throw new Error('You need to be signed in to delete your account');
+      }
+
+      // Re-authenticate first so a wrong password doesn't leave the data half deleted
+      const credential = EmailAuthProvider.credential(firebaseUser.email, password);
+      await reauthenticateWithCredential(firebaseUser, credential);
+
+      try {
+        await AccountService.deleteUserData(firebaseUser.uid);
+      } catch (dataError) {
+        console.error('Deleting account data failed:', dataError);
+        throw new Error('Some of your data could not be deleted, so your account was kept. Try again to finish deleting it');
+      }
+
+      await ReminderNotificationService.cancelAll();
+      await EventNotificationService.cancelAll();
+      await Promise.all([
+        SecureStorageService.clearAuthData(),
+        StorageService.clearAllData(),
+        MessageCacheService.clearAllMessages(),
+        MedicalRecordService.clearAllCachedRecords(firebaseUser.uid),
+      ]);
+
+      await deleteUser(firebaseUser);
+      console.log('Account deleted for:', firebaseUser.email);
+
+      // The onAuthStateChanged listener will handle clearing user state
+    } catch (error: any) {
+      console.error('Delete account error:', error);
+
+      const getErrorMessage = () => {
+        switch (error.code) {
+          case 'auth/wrong-password':
+          case 'auth/invalid-credential':
+            return 'Incorrect password';
+          case 'auth/too-many-requests':
+            return 'Too many failed attempts. Please try again later';
+          case 'auth/requires-recent-login':
+            return 'Please sign in again before deleting your account';
+          case 'auth/network-request-failed':
+            return 'Network error. Check your connection and try again';
+          default:
+            return error.message || 'An error occurred while deleting your account';
+        }
+      };
+
+      const errorMessage = getErrorMessage();
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateUserProfile = async (input: UserProfileInput, photo?: PickedAttachment | null): Promise<void> => {
+    if (!user) {
+      throw new Error('You need to be signed in to edit your profile');
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // onAuthStateChanged doesn't fire on profile updates, so update the user ourselves
+      const updatedUser = await UserService.updateProfile(user, input, photo);
+      setUser(current => current && { ...current, displayName: updatedUser.displayName, photoURL: updatedUser.photoURL });
+    } catch (error: any) {
+      console.error('Update profile error:', error);
+      const errorMessage = error.code === 'auth/network-request-failed'
+        ? 'Network error. Check your connection and try again'
+        : error.message || 'Failed to update your profile';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const clearError = () => {
     setError(null);
   };
@@ -237,6 +553,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     signIn,
     signUp,
     signOut: handleSignOut,
+    resetPassword,
+    sendVerificationEmail,
+    refreshEmailVerified,
+    changePassword,
+    deleteAccount,
+    updateUserProfile,
     clearError,
   }), [user, loading, initializing, error]);
 
@@ -1,82 +1,69 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { View, Text, FlatList, TextInput, TouchableOpacity, StyleSheet, KeyboardAvoidingView, Platform } from 'react-native';
-import { useMessages } from '../hooks/useMessages';
-import { useSendMessage } from '../hooks/useSendMessage';
-import type { Message } from '../../types/chat';
-
-/**
- * MessageBubble Component
- * 
- * Renders individual message bubbles with sender information.
- * Supports different styles for sent vs received messages.
- * Shows timestamp and delivery status.
- */
-interface MessageBubbleProps {
-  message: Message;
-  isOwnMessage: boolean;
-}
-
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isOwnMessage }) => {
-  const formatTime = (timestamp: Date) => {
-    return timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
-
-  return (
-    <View style={[styles.messageContainer, isOwnMessage ? styles.ownMessage : styles.otherMessage]}>
-      <View style={[styles.messageBubble, isOwnMessage ? styles.ownBubble : styles.otherBubble]}>
-        {!isOwnMessage && (
-          <Text style={styles.senderName}>{message.senderName}</Text>
-        )}
-        <Text style={[styles.messageText, isOwnMessage ? styles.ownText : styles.otherText]}>
-          {message.text}
-        </Text>
-        <Text style={[styles.timestamp, isOwnMessage ? styles.ownTimestamp : styles.otherTimestamp]}>
-          {formatTime(message.timestamp)}
-        </Text>
-      </View>
-    </View>
-  );
-};
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { View, Text, FlatList, TextInput, TouchableOpacity, StyleSheet, KeyboardAvoidingView, Platform, Alert, ActivityIndicator } from 'react-native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { useChatMessages } from '../../hooks/useChatMessages';
+import { useReadReceipts } from '../../hooks/useReadReceipts';
+import { AttachmentService } from '../../services/attachmentService';
+import MessageBubble from '../../components/MessageBubble';
+import { SwipeToReply } from '../../components/SwipeToReply';
+import { ReplyPreview } from '../../components/ReplyPreview';
+import { createMessageReply } from '../../utils/replyUtils';
+import type { Message, MessageReply, PickedAttachment } from '../../types/chat';
 
 /**
  * MessageInput Component
  * 
  * Input component for composing and sending messages.
- * Handles text input, send button, and message validation.
+ * Handles text input, send button, attach button and message validation.
+ * While editingText is set the composer holds that text and saves instead of sending.
  */
 interface MessageInputProps {
   onSendMessage: (text: string) => void;
-  loading: boolean;
+  onAttach: () => void;
+  onTextChange?: (text: string) => void;
+  editingText?: string | null;
 }
 
-const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, loading }) => {
+const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onAttach, onTextChange, editingText }) => {
   const [message, setMessage] = useState('');
 
+  // Load the message being edited, and clear it again once editing is cancelled
+  useEffect(() => {
+    setMessage(editingText ?? '');
+  }, [editingText]);
+
+  const handleChangeText = (text: string) => {
+    setMessage(text);
+    onTextChange?.(text);
+  };
+
   const handleSend = () => {
     const trimmedMessage = message.trim();
-    if (trimmedMessage && !loading) {
+    if (trimmedMessage) {
       onSendMessage(trimmedMessage);
-      setMessage('');
+      handleChangeText('');
     }
   };
 
   return (
     <View style={styles.inputContainer}>
+      <TouchableOpacity style={styles.attachButton} onPress={onAttach} disabled={editingText != null}>
+        <Text style={styles.attachButtonText}>📎</Text>
+      </TouchableOpacity>
       <TextInput
         style={styles.textInput}
         value={message}
-        onChangeText={setMessage}
+        onChangeText={handleChangeText}
         placeholder="Type a message..."
         multiline
         maxLength={1000}
-        editable={!loading}
       />
       <TouchableOpacity
-        style={[styles.sendButton, (!message.trim() || loading) && styles.sendButtonDisabled]}
+        style={[styles.sendButton, !message.trim() && styles.sendButtonDisabled]}
         onPress={handleSend}
-        disabled={!message.trim() || loading}
+        disabled={!message.trim()}
       >
-        <Text style={styles.sendButtonText}>Send</Text>
+        <Text style={styles.sendButtonText}>{editingText != null ? 'Save' : 'Send'}</Text>
       </TouchableOpacity>
     </View>
   );
@@ -86,62 +73,269 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, loading }) =
  * ChatRoom Component
  * 
  * Main chat screen for displaying messages and sending new ones.
- * Handles real-time message updates and auto-scrolling.
- * Integrates with useMessages and useSendMessage hooks.
+ * Handles real-time message updates and pages in older history on scroll.
+ * Integrates with the useChatMessages hook.
+ * Composer changes are reported through onInputChange (e.g. for typing indicators).
+ * When initialMessageId is given the room opens scrolled to that message.
  */
 interface ChatRoomProps {
   chatId: string;
+  initialMessageId?: string;
+  onInputChange?: (text: string) => void;
 }
 
-export const ChatRoom: React.FC<ChatRoomProps> = ({ chatId }) => {
+export const ChatRoom: React.FC<ChatRoomProps> = ({ chatId, initialMessageId, onInputChange }) => {
   const flatListRef = useRef<FlatList>(null);
-  
-  const { messages, loading, currentUserId } = useMessages(chatId);
-  const { sendMessage, sending } = useSendMessage(chatId);
+  const [replyingTo, setReplyingTo] = useState<MessageReply | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [scrollTargetId, setScrollTargetId] = useState<string | null>(null);
+  const jumpedToMessageRef = useRef<string | null>(null);
+
+  const { user } = useAuth();
+  const currentUserId = user?.uid || '';
+
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    error,
+    hasMore,
+    sendMessage,
+    sendAttachment,
+    retryMessage,
+    toggleReaction,
+    editMessage,
+    deleteMessage,
+    loadOlderMessages,
+    loadUntilMessage,
+    reconnect,
+  } = useChatMessages({
+    chatId,
+    currentUserId,
+    currentUserName: user?.displayName || 'Anonymous',
+  });
+  const { isGroup, markAsRead, getReceiptStatus, getSeenBy } = useReadReceipts(chatId, currentUserId || null);
+
+  // Viewing the room marks incoming messages as read
+  useEffect(() => {
+    markAsRead(messages);
+  }, [messages, markAsRead]);
+
+  // Messages are newest first, so the first own message is the latest
+  const latestOwnMessageId = useMemo(
+    () => messages.find(message => message.senderId === currentUserId)?.id,
+    [messages, currentUserId]
+  );
+
+  // Page in history until a message is loaded, then scroll to it once rendered
+  const jumpToMessage = useCallback(async (messageId: string): Promise<boolean> => {
+    const found = messages.some(message => message.id === messageId) || await loadUntilMessage(messageId);
+    if (found) {
+      setScrollTargetId(messageId);
+    }
+    return found;
+  }, [messages, loadUntilMessage]);
+
+  // Open at the requested message once the room has loaded, e.g. from search results
+  useEffect(() => {
+    if (!initialMessageId || loading || jumpedToMessageRef.current === initialMessageId) return;
+
+    jumpedToMessageRef.current = initialMessageId;
+    jumpToMessage(initialMessageId);
+  }, [initialMessageId, loading, jumpToMessage]);
 
-  // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
-    if (messages.length > 0) {
-      setTimeout(() => {
-        flatListRef.current?.scrollToEnd({ animated: true });
-      }, 100);
+    if (!scrollTargetId) return;
+
+    const index = messages.findIndex(message => message.id === scrollTargetId);
+    if (index >= 0) {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+      setScrollTargetId(null);
     }
-  }, [messages]);
+  }, [messages, scrollTargetId]);
 
   const handleSendMessage = async (text: string) => {
-    await sendMessage(text);
+    if (editingMessage) {
+      setEditingMessage(null);
+      try {
+        await editMessage(editingMessage, text);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to edit message.');
+      }
+      return;
+    }
+
+    const replyTo = replyingTo || undefined;
+    setReplyingTo(null);
+    await sendMessage(text, replyTo);
   };
 
-  const renderMessage = ({ item }: { item: Message }) => (
-    <MessageBubble
-      message={item}
-      isOwnMessage={item.senderId === currentUserId}
-    />
-  );
+  const pickAndSendAttachment = async (pick: () => Promise<PickedAttachment | null>) => {
+    try {
+      const attachment = await pick();
+      if (attachment) {
+        const replyTo = replyingTo || undefined;
+        setReplyingTo(null);
+        await sendAttachment(attachment, undefined, replyTo);
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send attachment.');
+    }
+  };
+
+  const handleAttach = () => {
+    Alert.alert('Share', 'What would you like to send?', [
+      { text: 'Photo', onPress: () => pickAndSendAttachment(() => AttachmentService.pickImage()) },
+      { text: 'Document', onPress: () => pickAndSendAttachment(() => AttachmentService.pickDocument()) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Queued and failed messages can be sent again by hand
+  const handleRetry = useCallback((message: Message) => {
+    retryMessage(message).catch(() => {
+      Alert.alert('Error', 'Failed to send message. Please try again.');
+    });
+  }, [retryMessage]);
+
+  const handleReact = useCallback((message: Message, emoji: string) => {
+    toggleReaction(message, emoji).catch(() => {
+      Alert.alert('Error', 'Failed to update reaction. Please try again.');
+    });
+  }, [toggleReaction]);
+
+  // Own text messages can be edited from the long-press menu within the edit window
+  const handleEdit = useCallback((message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+  }, []);
+
+  // Own messages can be unsent from the long-press menu
+  const handleDelete = useCallback((message: Message) => {
+    Alert.alert('Delete message?', 'This message will be removed for everyone in the chat.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteMessage(message).catch(() => {
+            Alert.alert('Error', 'Failed to delete message. Please try again.');
+          });
+        },
+      },
+    ]);
+  }, [deleteMessage]);
+
+  const handlePressReply = useCallback(async (reply: MessageReply) => {
+    if (!(await jumpToMessage(reply.id))) {
+      Alert.alert('Message unavailable', 'The original message could not be found.');
+    }
+  }, [jumpToMessage]);
+
+  // Rows are measured lazily, so jump close to the target before retrying
+  const handleScrollToIndexFailed = (info: { index: number; averageItemLength: number }) => {
+    flatListRef.current?.scrollToOffset({ offset: info.index * info.averageItemLength, animated: true });
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+    }, 250);
+  };
+
+  // Older history is at the top of the inverted list, i.e. its end
+  const handleEndReached = () => {
+    if (hasMore && !loadingOlder) {
+      loadOlderMessages();
+    }
+  };
+
+  const renderMessage = ({ item }: { item: Message }) => {
+    const isOwnMessage = item.senderId === currentUserId;
+    const showSeenBy = isOwnMessage && isGroup && item.id === latestOwnMessageId;
+
+    return (
+      <SwipeToReply onReply={() => setReplyingTo(createMessageReply(item))} enabled={!!item.id && !item.deleted}>
+        <MessageBubble
+          message={isOwnMessage ? { ...item, status: getReceiptStatus(item) } : item}
+          isOwn={isOwnMessage}
+          currentUserId={currentUserId}
+          seenBy={showSeenBy ? getSeenBy(item) : undefined}
+          onRetry={handleRetry}
+          onReact={handleReact}
+          onPressReply={handlePressReply}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+        />
+      </SwipeToReply>
+    );
+  };
 
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
-      <Text style={styles.emptyText}>No messages yet</Text>
-      <Text style={styles.emptySubtext}>Start the conversation!</Text>
+      {error ? (
+        <>
+          <Text style={styles.emptyText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={reconnect}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <Text style={styles.emptyText}>No messages yet</Text>
+          <Text style={styles.emptySubtext}>Start the conversation!</Text>
+        </>
+      )}
     </View>
   );
 
+  const renderHistoryLoader = () => (
+    loadingOlder ? (
+      <View style={styles.historyLoader}>
+        <ActivityIndicator size="small" color="#007AFF" />
+      </View>
+    ) : null
+  );
+
   return (
     <KeyboardAvoidingView 
       style={styles.container}
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
     >
-      <FlatList
-        ref={flatListRef}
-        data={messages}
-        keyExtractor={(item, index) => `${item.id || index}`}
-        renderItem={renderMessage}
-        ListEmptyComponent={!loading ? renderEmptyState : null}
-        contentContainerStyle={messages.length === 0 ? styles.emptyContainer : styles.messagesList}
-        showsVerticalScrollIndicator={false}
-      />
+      {/* An inverted list of an empty array would render its empty state upside down */}
+      {messages.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          {loading ? <ActivityIndicator size="large" color="#007AFF" /> : renderEmptyState()}
+        </View>
+      ) : (
+        <FlatList
+          ref={flatListRef}
+          data={messages}
+          keyExtractor={(item, index) => `${item.id || index}`}
+          renderItem={renderMessage}
+          inverted
+          contentContainerStyle={styles.messagesList}
+          showsVerticalScrollIndicator={false}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.3}
+          ListFooterComponent={renderHistoryLoader}
+          onScrollToIndexFailed={handleScrollToIndexFailed}
+        />
+      )}
+
+      {editingMessage ? (
+        <ReplyPreview
+          reply={createMessageReply(editingMessage)}
+          title="Editing message"
+          onCancel={() => setEditingMessage(null)}
+        />
+      ) : replyingTo && (
+        <ReplyPreview reply={replyingTo} onCancel={() => setReplyingTo(null)} />
+      )}
       
-      <MessageInput onSendMessage={handleSendMessage} loading={sending} />
+      <MessageInput
+        onSendMessage={handleSendMessage}
+        onAttach={handleAttach}
+        onTextChange={onInputChange}
+        editingText={editingMessage?.text ?? null}
+      />
     </KeyboardAvoidingView>
   );
 };
@@ -152,63 +346,17 @@ const styles = StyleSheet.create({
     backgroundColor: '#f8f9fa',
   },
   messagesList: {
-    padding: 16,
-    paddingBottom: 0,
+    paddingVertical: 8,
+  },
+  historyLoader: {
+    paddingVertical: 12,
+    alignItems: 'center',
   },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
   },
-  messageContainer: {
-    marginVertical: 4,
-  },
-  ownMessage: {
-    alignItems: 'flex-end',
-  },
-  otherMessage: {
-    alignItems: 'flex-start',
-  },
-  messageBubble: {
-    maxWidth: '80%',
-    borderRadius: 16,
-    padding: 12,
-  },
-  ownBubble: {
-    backgroundColor: '#007AFF',
-    borderBottomRightRadius: 4,
-  },
-  otherBubble: {
-    backgroundColor: '#e9ecef',
-    borderBottomLeftRadius: 4,
-  },
-  senderName: {
-    fontSize: 12,
-    fontWeight: '600',
-    color: '#666',
-    marginBottom: 4,
-  },
-  messageText: {
-    fontSize: 16,
-    lineHeight: 20,
-  },
-  ownText: {
-    color: 'white',
-  },
-  otherText: {
-    color: '#333',
-  },
-  timestamp: {
-    fontSize: 11,
-    marginTop: 4,
-  },
-  ownTimestamp: {
-    color: 'rgba(255, 255, 255, 0.7)',
-    textAlign: 'right',
-  },
-  otherTimestamp: {
-    color: '#666',
-  },
   inputContainer: {
     flexDirection: 'row',
     padding: 16,
@@ -217,6 +365,16 @@ const styles = StyleSheet.create({
     borderTopWidth: StyleSheet.hairlineWidth,
     borderTopColor: '#e1e1e1',
   },
+  attachButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  attachButtonText: {
+    fontSize: 22,
+  },
   textInput: {
     flex: 1,
     borderWidth: 1,
@@ -256,4 +414,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#999',
   },
+  retryButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
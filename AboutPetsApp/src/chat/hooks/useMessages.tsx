@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { collection, query, orderBy, onSnapshot, where } from 'firebase/firestore';
 import { db } from '../../services/firebase';
+import { MessageCacheService } from '../../services/messageCacheService';
 import { useAuth } from '../../auth/hooks/useAuth';
 import type { Message } from '../../types/chat';
 
@@ -49,11 +50,17 @@ export const useMessages = (chatId: string) => {
             senderName: data.senderName,
             timestamp: data.timestamp?.toDate() || new Date(),
             chatId: chatId,
+            replyTo: data.replyTo,
+            editedAt: data.editedAt?.toDate(),
+            deleted: data.deleted || undefined,
           });
         });
 
         setMessages(messageList);
         setLoading(false);
+
+        // Keep a local copy for offline viewing and search
+        MessageCacheService.saveMessages(chatId, messageList);
       },
       (error) => {
         console.error('Error fetching messages:', error);
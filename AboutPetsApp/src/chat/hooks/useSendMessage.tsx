@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { collection, addDoc, serverTimestamp, doc, updateDoc } from 'firebase/firestore';
 import { db } from '../../services/firebase';
 import { useAuth } from '../../auth/hooks/useAuth';
+import { tokenizeText } from '../../utils/searchUtils';
+import type { MessageReply } from '../../types/chat';
 
 /**
  * useSendMessage Hook
@@ -20,7 +22,7 @@ export const useSendMessage = (chatId: string) => {
   const [sending, setSending] = useState(false);
   const { user } = useAuth();
 
-  const sendMessage = async (text: string) => {
+  const sendMessage = async (text: string, replyTo?: MessageReply) => {
     if (!user || !chatId || !text.trim()) {
       throw new Error('Invalid message data');
     }
@@ -35,6 +37,8 @@ export const useSendMessage = (chatId: string) => {
         senderName: user.displayName || 'Anonymous',
         timestamp: serverTimestamp(),
         chatId,
+        searchTokens: tokenizeText(text.trim()),
+        ...(replyTo && { replyTo }),
       };
 
       const messageRef = await addDoc(
@@ -1,6 +1,11 @@
-import React from 'react';
-import { View, Text, StyleSheet, Dimensions } from 'react-native';
-import { Message } from '../types/chat';
+import React, { useState } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, Dimensions, Linking } from 'react-native';
+import { Message, MessageReply } from '../types/chat';
+import { formatFileSize } from '../utils/stringUtils';
+import { getUserReactions } from '../utils/reactionUtils';
+import { getReplyPreviewText } from '../utils/replyUtils';
+import { ChatFirestoreService, DELETED_MESSAGE_TEXT } from '../services/chatFirestoreService';
+import { ReactionPicker } from './ReactionPicker';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -8,15 +13,38 @@ interface MessageBubbleProps {
   message: Message;
   isOwn: boolean;
   currentUserId: string;
+  seenBy?: string[];
+  onRetry?: (message: Message) => void;
+  onReact?: (message: Message, emoji: string) => void;
+  onPressReply?: (reply: MessageReply) => void;
+  onEdit?: (message: Message) => void;
+  onDelete?: (message: Message) => void;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = React.memo(({ message, isOwn }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = React.memo(({
+  message,
+  isOwn,
+  currentUserId,
+  seenBy,
+  onRetry,
+  onReact,
+  onPressReply,
+  onEdit,
+  onDelete,
+}) => {
+  const [showMenu, setShowMenu] = useState(false);
+
   const getStatusIcon = () => {
     switch (message.status) {
       case 'sending':
         return '⏳';
+      case 'queued':
+        return '🕓';
       case 'sent':
         return '✓';
+      case 'delivered':
+      case 'read':
+        return '✓✓';
       case 'failed':
         return '❌';
       default:
@@ -24,6 +52,73 @@ const MessageBubble: React.FC<MessageBubbleProps> = React.memo(({ message, isOwn
     }
   };
 
+  const isUploading = message.status === 'sending' && message.uploadProgress !== undefined;
+
+  const openAttachment = () => {
+    const url = message.metadata?.url;
+    if (!url || isUploading) return;
+
+    Linking.openURL(url).catch(error => {
+      console.error('Error opening attachment:', error);
+    });
+  };
+
+  const renderAttachment = () => {
+    const { metadata } = message;
+
+    if (message.type === 'image' && metadata?.url) {
+      const aspectRatio = metadata.width && metadata.height ? metadata.width / metadata.height : 4 / 3;
+      return (
+        <TouchableOpacity onPress={openAttachment} disabled={isUploading} activeOpacity={0.8}>
+          <Image
+            source={{ uri: metadata.url }}
+            style={[styles.imageAttachment, { aspectRatio }]}
+            resizeMode="cover"
+          />
+        </TouchableOpacity>
+      );
+    }
+
+    if (message.type === 'file') {
+      return (
+        <TouchableOpacity
+          style={[styles.fileCard, isOwn ? styles.ownFileCard : styles.otherFileCard]}
+          onPress={openAttachment}
+          disabled={isUploading}
+        >
+          <Text style={styles.fileIcon}>📄</Text>
+          <View style={styles.fileInfo}>
+            <Text style={[styles.fileName, isOwn ? styles.ownText : styles.otherText]} numberOfLines={1}>
+              {metadata?.fileName || 'File'}
+            </Text>
+            <Text style={[styles.fileSize, isOwn ? styles.ownTimestamp : styles.otherTimestamp]}>
+              {formatFileSize(metadata?.fileSize)}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      );
+    }
+
+    return null;
+  };
+
+  const isSent = !!message.id && !['sending', 'queued', 'failed'].includes(message.status || '');
+  const canReact = !!onReact && isSent && !message.deleted;
+  const canEdit = !!onEdit && isSent && ChatFirestoreService.canEditMessage(message, currentUserId);
+  const canDelete = !!onDelete && isOwn && !!message.id && !message.deleted && message.status !== 'sending';
+  const myReactions = getUserReactions(message.reactions, currentUserId);
+  const reactionTallies = Object.entries(message.reactions || {}).filter(([, userIds]) => userIds.length > 0);
+
+  const handleReact = (emoji: string) => {
+    setShowMenu(false);
+    onReact?.(message, emoji);
+  };
+
+  const handleAction = (action?: (message: Message) => void) => {
+    setShowMenu(false);
+    action?.(message);
+  };
+
   const formatTime = (timestamp: Date) => {
     return timestamp.toLocaleTimeString('en-US', {
       hour: '2-digit',
@@ -34,24 +129,108 @@ const MessageBubble: React.FC<MessageBubbleProps> = React.memo(({ message, isOwn
 
   return (
     <View style={[styles.container, isOwn ? styles.ownMessage : styles.otherMessage]}>
-      <View style={[styles.bubble, isOwn ? styles.ownBubble : styles.otherBubble]}>
+      {showMenu && canReact && (
+        <ReactionPicker selected={myReactions} onSelect={handleReact} />
+      )}
+      {showMenu && (canEdit || canDelete) && (
+        <View style={[styles.actionRow, isOwn && styles.ownActionRow]}>
+          {canEdit && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleAction(onEdit)}>
+              <Text style={styles.actionText}>Edit</Text>
+            </TouchableOpacity>
+          )}
+          {canDelete && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleAction(onDelete)}>
+              <Text style={[styles.actionText, styles.deleteActionText]}>Delete</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      <TouchableOpacity
+        activeOpacity={0.9}
+        onLongPress={() => setShowMenu(visible => !visible)}
+        disabled={!canReact && !canEdit && !canDelete}
+        style={[styles.bubble, isOwn ? styles.ownBubble : styles.otherBubble]}
+      >
         {!isOwn && (
           <Text style={styles.senderName}>{message.senderName}</Text>
         )}
-        <Text style={[styles.messageText, isOwn ? styles.ownText : styles.otherText]}>
-          {message.text}
-        </Text>
+        {message.replyTo && (
+          <TouchableOpacity
+            style={[styles.quote, isOwn ? styles.ownQuote : styles.otherQuote]}
+            onPress={() => onPressReply?.(message.replyTo!)}
+            disabled={!onPressReply}
+          >
+            <Text style={[styles.quoteSender, isOwn ? styles.ownText : styles.otherText]} numberOfLines={1}>
+              {message.replyTo.senderName}
+            </Text>
+            <Text style={[styles.quoteText, isOwn ? styles.ownTimestamp : styles.otherTimestamp]} numberOfLines={2}>
+              {getReplyPreviewText(message.replyTo)}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {message.deleted ? (
+          <Text style={[styles.messageText, styles.deletedText, isOwn ? styles.ownTimestamp : styles.otherTimestamp]}>
+            🚫 {DELETED_MESSAGE_TEXT}
+          </Text>
+        ) : renderAttachment()}
+        {isUploading && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round((message.uploadProgress || 0) * 100)}%` }]} />
+          </View>
+        )}
+        {!!message.text && (
+          <Text style={[styles.messageText, isOwn ? styles.ownText : styles.otherText]}>
+            {message.text}
+          </Text>
+        )}
         <View style={styles.messageFooter}>
+          {message.editedAt && !message.deleted && (
+            <Text style={[styles.editedLabel, isOwn ? styles.ownTimestamp : styles.otherTimestamp]}>
+              edited
+            </Text>
+          )}
           <Text style={[styles.timestamp, isOwn ? styles.ownTimestamp : styles.otherTimestamp]}>
             {formatTime(message.timestamp)}
           </Text>
+          {isOwn && message.status === 'queued' && (
+            <Text style={styles.queuedLabel}>Waiting for network</Text>
+          )}
           {isOwn && (
-            <Text style={styles.statusIcon}>
+            <Text style={[styles.statusIcon, message.status === 'read' && styles.readStatusIcon]}>
               {getStatusIcon()}
             </Text>
           )}
         </View>
-      </View>
+      </TouchableOpacity>
+      {reactionTallies.length > 0 && (
+        <View style={[styles.reactionRow, isOwn && styles.ownReactionRow]}>
+          {reactionTallies.map(([emoji, userIds]) => (
+            <TouchableOpacity
+              key={emoji}
+              style={[styles.reactionChip, myReactions.includes(emoji) && styles.reactionChipSelected]}
+              onPress={() => handleReact(emoji)}
+              disabled={!canReact}
+            >
+              <Text style={styles.reactionText}>
+                {emoji} {userIds.length}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {isOwn && (message.status === 'failed' || message.status === 'queued') && onRetry && (
+        <TouchableOpacity onPress={() => onRetry(message)}>
+          <Text style={styles.retryText}>
+            {message.status === 'queued' ? 'Tap to send now' : 'Not sent. Tap to retry'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {isOwn && seenBy && seenBy.length > 0 && (
+        <Text style={styles.seenBy} numberOfLines={1}>
+          Seen by {seenBy.join(', ')}
+        </Text>
+      )}
     </View>
   );
 });
@@ -101,6 +280,77 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 20,
   },
+  quote: {
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginBottom: 6,
+  },
+  ownQuote: {
+    borderLeftColor: '#FFFFFF',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  otherQuote: {
+    borderLeftColor: '#007AFF',
+    backgroundColor: 'rgba(0, 0, 0, 0.06)',
+  },
+  quoteSender: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  quoteText: {
+    fontSize: 13,
+  },
+  deletedText: {
+    fontStyle: 'italic',
+  },
+  imageAttachment: {
+    width: screenWidth * 0.6,
+    borderRadius: 12,
+    marginBottom: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 4,
+    maxWidth: screenWidth * 0.6,
+  },
+  ownFileCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  otherFileCard: {
+    backgroundColor: 'rgba(0, 0, 0, 0.06)',
+  },
+  fileIcon: {
+    fontSize: 24,
+    marginRight: 8,
+  },
+  fileInfo: {
+    flexShrink: 1,
+  },
+  fileName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  fileSize: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#FFFFFF',
+  },
   ownText: {
     color: '#FFFFFF',
   },
@@ -117,16 +367,94 @@ const styles = StyleSheet.create({
     fontSize: 11,
     marginRight: 4,
   },
+  editedLabel: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    marginRight: 4,
+  },
   ownTimestamp: {
     color: 'rgba(255, 255, 255, 0.7)',
   },
   otherTimestamp: {
     color: '#666',
   },
+  queuedLabel: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginRight: 4,
+  },
   statusIcon: {
     fontSize: 10,
     color: 'rgba(255, 255, 255, 0.7)',
   },
+  readStatusIcon: {
+    color: '#A8E6FF',
+    fontWeight: '700',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  ownActionRow: {
+    justifyContent: 'flex-end',
+  },
+  actionButton: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginLeft: 6,
+  },
+  actionText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  deleteActionText: {
+    color: '#FF3B30',
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: -6,
+    paddingHorizontal: 8,
+  },
+  ownReactionRow: {
+    justifyContent: 'flex-end',
+  },
+  reactionChip: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginTop: 2,
+  },
+  reactionChipSelected: {
+    backgroundColor: '#E5F1FF',
+    borderColor: '#007AFF',
+  },
+  reactionText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  retryText: {
+    fontSize: 11,
+    color: '#FF3B30',
+    marginTop: 2,
+    textAlign: 'right',
+  },
+  seenBy: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+    textAlign: 'right',
+  },
 });
 
 export default MessageBubble;
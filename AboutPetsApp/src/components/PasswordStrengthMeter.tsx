@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { PasswordStrength } from '../types/auth';
+import { getPasswordStrengthLabel } from '../utils/passwordUtils';
+
+/**
+ * PasswordStrengthMeter Component
+ *
+ * Four bars that fill up with a password's strength score, its label
+ * and the first hint on how to improve it.
+ */
+
+export interface PasswordStrengthMeterProps {
+  strength: PasswordStrength;
+}
+
+const BAR_COUNT = 4;
+const SCORE_COLORS = ['#FF3B30', '#FF3B30', '#FF9500', '#34C759', '#34C759'];
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ strength }) => {
+  const color = SCORE_COLORS[strength.score];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.bars}>
+        {Array.from({ length: BAR_COUNT }, (_, index) => (
+          <View
+            key={index}
+            style={[styles.bar, index < Math.max(strength.score, 1) && { backgroundColor: color }]}
+          />
+        ))}
+      </View>
+      <Text style={[styles.label, { color }]}>{getPasswordStrengthLabel(strength.level)}</Text>
+      {strength.suggestions.length > 0 && (
+        <Text style={styles.suggestion}>{strength.suggestions[0]}</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  bars: {
+    flexDirection: 'row',
+    marginHorizontal: -2,
+  },
+  bar: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    marginHorizontal: 2,
+    backgroundColor: '#e1e1e1',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  suggestion: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,159 @@
+import React from 'react';
+import { View, Text, Image, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { Avatar } from './ui/Avatar';
+import { FeedPost } from '../types/feed';
+import { formatLastSeen } from '../utils/dateUtils';
+import { formatPetTypeTag } from '../utils/feedUtils';
+
+/**
+ * PostCard Component
+ *
+ * A community feed post with its author, photos, pet type tags and
+ * like and comment counts.
+ */
+
+export interface PostCardProps {
+  post: FeedPost;
+  liked: boolean;
+  onPressAuthor?: (post: FeedPost) => void;
+  onPressLike: (post: FeedPost) => void;
+  onPressComments?: (post: FeedPost) => void;
+  /** Show the whole text instead of a few lines, e.g. on the post screen */
+  expanded?: boolean;
+}
+
+export const PostCard: React.FC<PostCardProps> = React.memo(({
+  post,
+  liked,
+  onPressAuthor,
+  onPressLike,
+  onPressComments,
+  expanded = false,
+}) => {
+  return (
+    <View style={styles.card}>
+      <TouchableOpacity style={styles.author} onPress={() => onPressAuthor?.(post)} disabled={!onPressAuthor}>
+        <Avatar source={post.authorPhotoURL} name={post.authorName} size="small" />
+        <View style={styles.authorInfo}>
+          <Text style={styles.authorName}>{post.authorName}</Text>
+          <Text style={styles.time}>{formatLastSeen(post.createdAt)}</Text>
+        </View>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        activeOpacity={onPressComments ? 0.7 : 1}
+        onPress={() => onPressComments?.(post)}
+        disabled={!onPressComments}
+      >
+        {!!post.text && (
+          <Text style={styles.text} numberOfLines={expanded ? undefined : 6}>
+            {post.text}
+          </Text>
+        )}
+
+        {post.photoURLs.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photoRow}>
+            {post.photoURLs.map(url => (
+              <Image
+                key={url}
+                source={{ uri: url }}
+                style={[styles.photo, post.photoURLs.length === 1 && styles.singlePhoto]}
+              />
+            ))}
+          </ScrollView>
+        )}
+
+        {post.petTypes.length > 0 && (
+          <Text style={styles.tags}>{post.petTypes.map(formatPetTypeTag).join(' ')}</Text>
+        )}
+      </TouchableOpacity>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.action} onPress={() => onPressLike(post)}>
+          <Text style={[styles.actionText, liked && styles.likedText]}>
+            {liked ? '❤️' : '🤍'} {post.likeCount}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.action}
+          onPress={() => onPressComments?.(post)}
+          disabled={!onPressComments}
+        >
+          <Text style={styles.actionText}>💬 {post.commentCount}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+});
+
+PostCard.displayName = 'PostCard';
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  author: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  authorInfo: {
+    marginLeft: 10,
+  },
+  authorName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  time: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 1,
+  },
+  text: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 21,
+  },
+  photoRow: {
+    marginTop: 8,
+  },
+  photo: {
+    width: 220,
+    height: 220,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#e1e1e1',
+  },
+  singlePhoto: {
+    width: 300,
+    marginRight: 0,
+  },
+  tags: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 10,
+    paddingTop: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e1e1e1',
+  },
+  action: {
+    marginRight: 24,
+  },
+  actionText: {
+    fontSize: 15,
+    color: '#666',
+  },
+  likedText: {
+    color: '#FF3B30',
+  },
+});
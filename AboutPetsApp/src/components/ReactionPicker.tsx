@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+/**
+ * ReactionPicker Component
+ * 
+ * Compact row of emoji reactions shown when a message is long-pressed.
+ * Highlights reactions the current user has already added.
+ */
+
+export const REACTION_EMOJIS = ['❤️', '🐾', '😂', '😮', '😢', '👍'] as const;
+
+export interface ReactionPickerProps {
+  selected?: string[];
+  onSelect: (emoji: string) => void;
+}
+
+export const ReactionPicker: React.FC<ReactionPickerProps> = ({ selected = [], onSelect }) => {
+  return (
+    <View style={styles.container}>
+      {REACTION_EMOJIS.map(emoji => (
+        <TouchableOpacity
+          key={emoji}
+          style={[styles.option, selected.includes(emoji) && styles.optionSelected]}
+          onPress={() => onSelect(emoji)}
+        >
+          <Text style={styles.emoji}>{emoji}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 24,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    marginBottom: 4,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  option: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: 16,
+  },
+  optionSelected: {
+    backgroundColor: '#E5F1FF',
+  },
+  emoji: {
+    fontSize: 22,
+  },
+});
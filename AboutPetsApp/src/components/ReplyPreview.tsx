@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MessageReply } from '../types/chat';
+import { getReplyPreviewText } from '../utils/replyUtils';
+
+/**
+ * ReplyPreview Component
+ * 
+ * Bar shown above the composer while replying to or editing a message.
+ * Displays the quoted sender and snippet with a button to cancel.
+ */
+
+export interface ReplyPreviewProps {
+  reply: MessageReply;
+  title?: string;
+  onCancel: () => void;
+}
+
+export const ReplyPreview: React.FC<ReplyPreviewProps> = ({ reply, title, onCancel }) => {
+  return (
+    <View style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.title} numberOfLines={1}>
+          {title || `Replying to ${reply.senderName}`}
+        </Text>
+        <Text style={styles.text} numberOfLines={1}>
+          {getReplyPreviewText(reply)}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+        <Text style={styles.cancelText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    borderLeftWidth: 3,
+    borderLeftColor: '#007AFF',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  text: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  cancelButton: {
+    padding: 6,
+    marginLeft: 8,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#999',
+  },
+});
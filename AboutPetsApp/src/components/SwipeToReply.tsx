@@ -0,0 +1,79 @@
+import React, { useMemo, useRef } from 'react';
+import { Animated, PanResponder, StyleSheet, Text, View } from 'react-native';
+
+/**
+ * SwipeToReply Component
+ *
+ * Wraps a message row so it can be dragged to the right to reply.
+ * Releasing past the threshold triggers onReply; the row springs back either way.
+ */
+
+const SWIPE_THRESHOLD = 60;
+const MAX_SWIPE = 90;
+
+export interface SwipeToReplyProps {
+  onReply: () => void;
+  enabled?: boolean;
+  children: React.ReactNode;
+}
+
+export const SwipeToReply: React.FC<SwipeToReplyProps> = ({ onReply, enabled = true, children }) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const onReplyRef = useRef(onReply);
+  onReplyRef.current = onReply;
+
+  const panResponder = useMemo(() => {
+    const reset = () => {
+      Animated.spring(translateX, {
+        toValue: 0,
+        useNativeDriver: true,
+      }).start();
+    };
+
+    return PanResponder.create({
+      // Only claim clearly horizontal drags so the list can still scroll
+      onMoveShouldSetPanResponder: (_event, gesture) =>
+        enabled && gesture.dx > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_event, gesture) => {
+        translateX.setValue(Math.max(0, Math.min(gesture.dx, MAX_SWIPE)));
+      },
+      onPanResponderRelease: (_event, gesture) => {
+        if (gesture.dx >= SWIPE_THRESHOLD) {
+          onReplyRef.current();
+        }
+        reset();
+      },
+      onPanResponderTerminate: reset,
+    });
+  }, [enabled, translateX]);
+
+  const iconOpacity = translateX.interpolate({
+    inputRange: [0, SWIPE_THRESHOLD],
+    outputRange: [0, 1],
+    extrapolate: 'clamp',
+  });
+
+  return (
+    <View>
+      <Animated.View style={[styles.replyIcon, { opacity: iconOpacity }]}>
+        <Text style={styles.replyIconText}>↩️</Text>
+      </Animated.View>
+      <Animated.View style={{ transform: [{ translateX }] }} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  replyIcon: {
+    position: 'absolute',
+    left: 16,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  replyIconText: {
+    fontSize: 20,
+  },
+});
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline, Rect } from 'react-native-svg';
+
+/**
+ * TrendChart Component
+ *
+ * Line chart of daily values over time, with an optional shaded
+ * target range. Values are plotted by date, so gaps between
+ * measurements keep their real spacing.
+ */
+
+export interface TrendChartPoint {
+  date: Date;
+  value: number;
+}
+
+export interface TrendChartProps {
+  points: TrendChartPoint[];
+  targetRange?: { min: number; max: number } | null;
+  formatValue: (value: number) => string;
+  height?: number;
+  color?: string;
+}
+
+const PADDING = 12;
+
+const formatAxisDate = (date: Date): string => date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+export const TrendChart: React.FC<TrendChartProps> = ({
+  points,
+  targetRange,
+  formatValue,
+  height = 180,
+  color = '#007AFF',
+}) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (points.length === 0) {
+    return (
+      <View style={[styles.container, styles.empty, { height }]}>
+        <Text style={styles.emptyText}>No measurements yet</Text>
+      </View>
+    );
+  }
+
+  const values = points.map(point => point.value);
+  if (targetRange) {
+    values.push(targetRange.min, targetRange.max);
+  }
+  let minValue = Math.min(...values);
+  let maxValue = Math.max(...values);
+  if (minValue === maxValue) {
+    minValue -= 1;
+    maxValue += 1;
+  }
+
+  const firstTime = points[0].date.getTime();
+  const lastTime = points[points.length - 1].date.getTime();
+  const plotWidth = Math.max(width - PADDING * 2, 1);
+  const plotHeight = height - PADDING * 2;
+
+  const x = (date: Date) =>
+    PADDING + (lastTime === firstTime ? plotWidth / 2 : ((date.getTime() - firstTime) / (lastTime - firstTime)) * plotWidth);
+  const y = (value: number) => PADDING + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.axisRow}>
+        <Text style={styles.axisText}>{formatValue(maxValue)}</Text>
+      </View>
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            {targetRange && (
+              <Rect
+                x={PADDING}
+                y={y(targetRange.max)}
+                width={plotWidth}
+                height={Math.max(y(targetRange.min) - y(targetRange.max), 1)}
+                fill="#34C759"
+                opacity={0.15}
+              />
+            )}
+            <Line
+              x1={PADDING}
+              y1={height - PADDING}
+              x2={width - PADDING}
+              y2={height - PADDING}
+              stroke="#e1e1e1"
+              strokeWidth={1}
+            />
+            {points.length > 1 && (
+              <Polyline
+                points={points.map(point => `${x(point.date)},${y(point.value)}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+              />
+            )}
+            {points.map(point => (
+              <Circle key={point.date.getTime()} cx={x(point.date)} cy={y(point.value)} r={3.5} fill={color} />
+            ))}
+          </Svg>
+        )}
+      </View>
+      <View style={styles.axisRow}>
+        <Text style={styles.axisText}>{formatValue(minValue)}</Text>
+      </View>
+      <View style={[styles.axisRow, styles.dateRow]}>
+        <Text style={styles.axisText}>{formatAxisDate(points[0].date)}</Text>
+        {points.length > 1 && <Text style={styles.axisText}>{formatAxisDate(points[points.length - 1].date)}</Text>}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  empty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+  },
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  dateRow: {
+    marginTop: 4,
+  },
+  axisText: {
+    fontSize: 12,
+    color: '#999',
+  },
+});
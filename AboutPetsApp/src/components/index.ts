@@ -16,6 +16,22 @@ export type { AlertDialogProps } from './ui/AlertDialog';
 
 // Chat Components
 export { default as MessageBubble } from './MessageBubble';
+export { ReactionPicker, REACTION_EMOJIS } from './ReactionPicker';
+export type { ReactionPickerProps } from './ReactionPicker';
+export { SwipeToReply } from './SwipeToReply';
+export type { SwipeToReplyProps } from './SwipeToReply';
+export { ReplyPreview } from './ReplyPreview';
+export type { ReplyPreviewProps } from './ReplyPreview';
+export { TrendChart } from './TrendChart';
+export type { TrendChartProps, TrendChartPoint } from './TrendChart';
+
+// Feed Components
+export { PostCard } from './PostCard';
+export type { PostCardProps } from './PostCard';
+
+// Account Components
+export { PasswordStrengthMeter } from './PasswordStrengthMeter';
+export type { PasswordStrengthMeterProps } from './PasswordStrengthMeter';
 
 // Screen Components  
 export { LoadingScreen } from './LoadingScreen';
\ No newline at end of file
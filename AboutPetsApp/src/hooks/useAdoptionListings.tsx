@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import { AdoptionService } from '../services/adoptionService';
+import { AdoptionListing } from '../types/adoption';
+
+interface UseAdoptionListingsReturn {
+  listings: AdoptionListing[];
+  myListings: AdoptionListing[];
+  favoriteIds: string[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for browsing adoption listings, optionally of one pet type,
+ * together with the user's own listings and favorites
+ */
+export const useAdoptionListings = (
+  userId: string | null | undefined,
+  petType: string | null
+): UseAdoptionListingsReturn => {
+  const [listings, setListings] = useState<AdoptionListing[]>([]);
+  const [myListings, setMyListings] = useState<AdoptionListing[]>([]);
+  const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setListings([]);
+    setError(null);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return AdoptionService.subscribeToListings(
+      petType,
+      (updatedListings) => {
+        setListings(updatedListings);
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load adoption listings');
+        setLoading(false);
+      }
+    );
+  }, [userId, petType]);
+
+  useEffect(() => {
+    setMyListings([]);
+    setFavoriteIds([]);
+    if (!userId) return;
+
+    const handleError = () => setError('Failed to load adoption listings');
+    const unsubscribeMine = AdoptionService.subscribeToMyListings(userId, setMyListings, handleError);
+    const unsubscribeFavorites = AdoptionService.subscribeToFavoriteIds(userId, setFavoriteIds, handleError);
+
+    return () => {
+      unsubscribeMine();
+      unsubscribeFavorites();
+    };
+  }, [userId]);
+
+  return { listings, myListings, favoriteIds, loading, error };
+};
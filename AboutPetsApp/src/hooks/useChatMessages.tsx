@@ -1,7 +1,12 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Message } from '../types/chat';
-import { ChatFirestoreService } from '../services/chatFirestoreService';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { Message, MessageReply, PickedAttachment } from '../types/chat';
+import { ChatFirestoreService, MessageCursor } from '../services/chatFirestoreService';
 import { MessageCacheService } from '../services/messageCacheService';
+import { MessageOutboxService } from '../services/messageOutboxService';
+import { AttachmentService } from '../services/attachmentService';
+import { generateMessageId } from '../utils/stringUtils';
+import { toggleUserReaction } from '../utils/reactionUtils';
 
 interface UseChatMessagesProps {
   chatId: string;
@@ -12,14 +17,45 @@ interface UseChatMessagesProps {
 interface UseChatMessagesReturn {
   messages: Message[];
   loading: boolean;
+  loadingOlder: boolean;
   error: string | null;
-  sendMessage: (text: string) => Promise<void>;
+  hasMore: boolean;
+  sendMessage: (text: string, replyTo?: MessageReply) => Promise<void>;
+  sendAttachment: (attachment: PickedAttachment, caption?: string, replyTo?: MessageReply) => Promise<void>;
   retryMessage: (message: Message) => Promise<void>;
+  toggleReaction: (message: Message, emoji: string) => Promise<void>;
+  editMessage: (message: Message, text: string) => Promise<void>;
+  deleteMessage: (message: Message) => Promise<void>;
+  loadOlderMessages: () => Promise<void>;
+  loadUntilMessage: (messageId: string) => Promise<boolean>;
+  reconnect: () => void;
 }
 
 /**
- * Custom hook for managing chat messages with real-time updates
- * and optimistic updates for better UX
+ * Merge message lists newest first, dropping duplicates by ID.
+ * Earlier lists win, so pass the freshest source first.
+ */
+const mergeMessages = (...lists: Message[][]): Message[] => {
+  const seen = new Set<string>();
+  const merged: Message[] = [];
+
+  lists.forEach(list => {
+    list.forEach(message => {
+      if (message.id) {
+        if (seen.has(message.id)) return;
+        seen.add(message.id);
+      }
+      merged.push(message);
+    });
+  });
+
+  return merged.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+/**
+ * Custom hook for managing chat messages with real-time updates,
+ * optimistic updates for better UX and cursor-based history paging.
+ * Unsent messages are kept in a durable outbox and replayed when back online.
  */
 export const useChatMessages = ({
   chatId,
@@ -28,15 +64,70 @@ export const useChatMessages = ({
 }: UseChatMessagesProps): UseChatMessagesReturn => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [subscriptionKey, setSubscriptionKey] = useState(0);
+
+  // Live window and paged history are tracked separately so they can be re-merged
+  const liveMessagesRef = useRef<Message[]>([]);
+  const olderMessagesRef = useRef<Message[]>([]);
+  // Own messages that have not been acknowledged by Firestore yet
+  const pendingMessagesRef = useRef<Message[]>([]);
+  // Picked files of attachment messages, kept so failed uploads can be retried
+  const attachmentsRef = useRef<Record<string, PickedAttachment>>({});
+  const cursorRef = useRef<MessageCursor | null>(null);
+  const hasMoreRef = useRef(false);
+  const loadOlderRequestRef = useRef<Promise<void> | null>(null);
 
-  // Load cached messages on mount
+  const setMessageStatus = useCallback((messageId: string, status: NonNullable<Message['status']>) => {
+    setMessages(prevMessages =>
+      prevMessages.map(msg =>
+        msg.id === messageId
+          ? { ...msg, status }
+          : msg
+      )
+    );
+  }, []);
+
+  const updateMessage = useCallback((messageId: string, changes: Partial<Message>) => {
+    pendingMessagesRef.current = pendingMessagesRef.current.map(msg =>
+      msg.id === messageId ? { ...msg, ...changes } : msg
+    );
+    // Paged history is re-merged on every live update, so patch it as well
+    olderMessagesRef.current = olderMessagesRef.current.map(msg =>
+      msg.id === messageId ? { ...msg, ...changes } : msg
+    );
+    setMessages(prevMessages =>
+      prevMessages.map(msg =>
+        msg.id === messageId
+          ? { ...msg, ...changes }
+          : msg
+      )
+    );
+  }, []);
+
+  const markDelivered = useCallback((messageId: string) => {
+    pendingMessagesRef.current = pendingMessagesRef.current.filter(msg => msg.id !== messageId);
+    setMessageStatus(messageId, 'sent');
+  }, [setMessageStatus]);
+
+  // Load cached messages and the outbox on mount
   useEffect(() => {
+    pendingMessagesRef.current = [];
+
     const loadCachedMessages = async () => {
       try {
-        const cachedMessages = await MessageCacheService.loadMessages(chatId);
-        if (cachedMessages.length > 0) {
-          setMessages(cachedMessages);
+        const [cachedMessages, queuedMessages] = await Promise.all([
+          MessageCacheService.loadMessages(chatId),
+          MessageOutboxService.getQueuedMessages(currentUserId, chatId),
+        ]);
+
+        pendingMessagesRef.current = mergeMessages(pendingMessagesRef.current, queuedMessages);
+
+        if (cachedMessages.length > 0 || queuedMessages.length > 0) {
+          // Anything already received from the live listener takes precedence
+          setMessages(prevMessages => mergeMessages(prevMessages, queuedMessages, cachedMessages));
           setLoading(false);
         }
       } catch (error) {
@@ -45,14 +136,56 @@ export const useChatMessages = ({
     };
 
     loadCachedMessages();
-  }, [chatId]);
+  }, [chatId, currentUserId]);
+
+  // Replay this chat's outbox whenever connectivity returns
+  useEffect(() => {
+    let wasConnected = false;
+
+    return NetInfo.addEventListener(state => {
+      const isConnected = !!state.isConnected && state.isInternetReachable !== false;
+      if (isConnected && !wasConnected) {
+        MessageOutboxService.flush(currentUserId, chatId, (message) => markDelivered(message.id!));
+      }
+      wasConnected = isConnected;
+    });
+  }, [chatId, currentUserId, markDelivered]);
 
   // Subscribe to real-time messages
   useEffect(() => {
+    liveMessagesRef.current = [];
+    olderMessagesRef.current = [];
+    cursorRef.current = null;
+    hasMoreRef.current = false;
+    setHasMore(false);
+
     const unsubscribe = ChatFirestoreService.subscribeToMessages(
       chatId,
-      (newMessages: Message[]) => {
-        setMessages(newMessages);
+      (newMessages: Message[], liveCursor: MessageCursor | null, liveHasMore: boolean) => {
+        const previousLive = liveMessagesRef.current;
+        liveMessagesRef.current = newMessages;
+
+        if (olderMessagesRef.current.length > 0) {
+          // Keep messages that slid out of the live window when newer ones arrived,
+          // otherwise they would fall into a gap between the window and paged history
+          const liveIds = new Set(newMessages.map(message => message.id));
+          const slidOut = previousLive.filter(message => !liveIds.has(message.id));
+          olderMessagesRef.current = mergeMessages(slidOut, olderMessagesRef.current);
+        } else {
+          cursorRef.current = liveCursor;
+          hasMoreRef.current = liveHasMore;
+          setHasMore(liveHasMore);
+        }
+
+        // Drop pending messages once the server has acknowledged them
+        const confirmedIds = new Set(
+          newMessages.filter(message => message.status !== 'sending').map(message => message.id)
+        );
+        pendingMessagesRef.current = pendingMessagesRef.current.filter(
+          message => !confirmedIds.has(message.id)
+        );
+
+        setMessages(mergeMessages(newMessages, pendingMessagesRef.current, olderMessagesRef.current));
         setLoading(false);
         setError(null);
         
@@ -69,111 +202,313 @@ export const useChatMessages = ({
     );
 
     return unsubscribe;
+  }, [chatId, subscriptionKey]);
+
+  // Load the next page of history before the oldest loaded message
+  const loadOlderMessages = useCallback((): Promise<void> => {
+    // Share the in-flight request so callers can await the same page
+    if (loadOlderRequestRef.current) return loadOlderRequestRef.current;
+
+    const cursor = cursorRef.current;
+    if (!cursor || !hasMoreRef.current) return Promise.resolve();
+
+    setLoadingOlder(true);
+
+    const request = (async () => {
+      try {
+        const page = await ChatFirestoreService.loadOlderMessages(chatId, cursor);
+
+        olderMessagesRef.current = mergeMessages(olderMessagesRef.current, page.messages);
+        if (page.cursor) {
+          cursorRef.current = page.cursor;
+        }
+        hasMoreRef.current = page.hasMore;
+        setHasMore(page.hasMore);
+
+        setMessages(prevMessages => mergeMessages(prevMessages, page.messages));
+      } catch (loadError) {
+        console.error('Failed to load older messages:', loadError);
+        setError('Failed to load older messages');
+      } finally {
+        loadOlderRequestRef.current = null;
+        setLoadingOlder(false);
+      }
+    })();
+
+    loadOlderRequestRef.current = request;
+    return request;
   }, [chatId]);
 
-  // Send message with optimistic update
-  const sendMessage = useCallback(async (text: string) => {
+  // Page back through history until a message is loaded, e.g. to jump to a quoted message
+  const loadUntilMessage = useCallback(async (messageId: string): Promise<boolean> => {
+    const isLoaded = () =>
+      [liveMessagesRef.current, olderMessagesRef.current, pendingMessagesRef.current]
+        .some(list => list.some(message => message.id === messageId));
+
+    while (!isLoaded() && hasMoreRef.current && cursorRef.current) {
+      const previousCursor = cursorRef.current;
+      await loadOlderMessages();
+
+      // Stop if the page failed and the cursor did not move
+      if (cursorRef.current === previousCursor) break;
+    }
+
+    return isLoaded();
+  }, [loadOlderMessages]);
+
+  // Re-create the real-time listener after an error
+  const reconnect = useCallback(() => {
+    setError(null);
+    setLoading(true);
+    setSubscriptionKey(key => key + 1);
+  }, []);
+
+  // Replay the outbox and flag the message as queued if it is still waiting in it
+  const sendQueued = useCallback(async (messageId: string) => {
+    await MessageOutboxService.flush(currentUserId, chatId, (sent) => markDelivered(sent.id!));
+
+    const stillQueued = await MessageOutboxService.getQueuedMessages(currentUserId, chatId);
+    if (stillQueued.some(queued => queued.id === messageId)) {
+      setMessageStatus(messageId, 'queued');
+    } else {
+      markDelivered(messageId);
+    }
+  }, [currentUserId, chatId, markDelivered, setMessageStatus]);
+
+  // Send message with optimistic update through the outbox
+  const sendMessage = useCallback(async (text: string, replyTo?: MessageReply) => {
     if (!text.trim()) return;
 
     const messageText = text.trim();
 
-    // Create temporary message for optimistic update
+    // Client-generated ID doubles as the Firestore document ID for deduplication
     const tempMessage: Message = {
-      id: `temp-${Date.now()}`,
+      id: generateMessageId(),
       text: messageText,
       senderId: currentUserId,
       senderName: currentUserName,
       timestamp: new Date(),
       chatId,
       status: 'sending',
+      replyTo,
     };
 
     // Optimistic update - add message to local state immediately
+    pendingMessagesRef.current = [tempMessage, ...pendingMessagesRef.current];
     setMessages(prevMessages => [tempMessage, ...prevMessages]);
 
     try {
-      // Send to Firestore
-      const messageId = await ChatFirestoreService.sendMessage({
-        text: messageText,
-        senderId: currentUserId,
-        senderName: currentUserName,
-        chatId,
-      });
-
-      // Update local message with real ID and sent status
-      setMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === tempMessage.id
-            ? { ...msg, id: messageId, status: 'sent' }
-            : msg
-        )
-      );
+      // Persist before hitting the network so the message survives an app restart,
+      // and send through the queue so it never overtakes earlier queued messages
+      await MessageOutboxService.enqueue(currentUserId, tempMessage);
+      await sendQueued(tempMessage.id!);
     } catch (sendError) {
-      console.error('Failed to send message:', sendError);
-      
-      // Update message status to failed
-      setMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === tempMessage.id
-            ? { ...msg, status: 'failed' }
-            : msg
-        )
-      );
-
-      throw sendError;
+      console.error('Failed to send message, keeping it queued:', sendError);
+      setMessageStatus(tempMessage.id!, 'queued');
     }
-  }, [currentUserId, currentUserName, chatId]);
-
-  // Retry failed message
-  const retryMessage = useCallback(async (message: Message) => {
-    if (message.status !== 'failed') return;
+  }, [currentUserId, currentUserName, chatId, sendQueued, setMessageStatus]);
 
-    // Update status to sending
-    setMessages(prevMessages =>
-      prevMessages.map(msg =>
-        msg.id === message.id
-          ? { ...msg, status: 'sending' }
-          : msg
-      )
-    );
+  // Upload an attachment, then write its message with the download URL
+  const uploadAndSend = useCallback(async (message: Message, attachment: PickedAttachment) => {
+    const messageId = message.id!;
 
     try {
-      const messageId = await ChatFirestoreService.sendMessage({
+      const url = await AttachmentService.uploadAttachment(
+        chatId,
+        messageId,
+        attachment,
+        (progress) => updateMessage(messageId, { uploadProgress: progress })
+      );
+
+      const metadata = { ...message.metadata, url };
+      await ChatFirestoreService.sendMessage({
+        id: messageId,
         text: message.text,
         senderId: message.senderId,
         senderName: message.senderName,
-        chatId: message.chatId,
+        chatId,
+        type: message.type,
+        metadata,
+        replyTo: message.replyTo,
       });
 
-      // Update with real ID and sent status
-      setMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === message.id
-            ? { ...msg, id: messageId, status: 'sent' }
-            : msg
-        )
+      delete attachmentsRef.current[messageId];
+      updateMessage(messageId, { metadata, uploadProgress: undefined });
+      markDelivered(messageId);
+    } catch (sendError) {
+      console.error('Failed to send attachment:', sendError);
+      updateMessage(messageId, { status: 'failed', uploadProgress: undefined });
+      throw sendError;
+    }
+  }, [chatId, markDelivered, updateMessage]);
+
+  // Send a photo or file with an optimistic bubble showing upload progress.
+  // Attachments are not queued in the outbox since the picked file may not outlive the app.
+  const sendAttachment = useCallback(async (
+    attachment: PickedAttachment,
+    caption?: string,
+    replyTo?: MessageReply
+  ) => {
+    const tempMessage: Message = {
+      id: generateMessageId(),
+      text: caption?.trim() || '',
+      senderId: currentUserId,
+      senderName: currentUserName,
+      timestamp: new Date(),
+      chatId,
+      type: attachment.type,
+      status: 'sending',
+      uploadProgress: 0,
+      replyTo,
+      metadata: {
+        fileName: attachment.fileName,
+        fileSize: attachment.fileSize,
+        mimeType: attachment.mimeType,
+        width: attachment.width,
+        height: attachment.height,
+      },
+    };
+
+    attachmentsRef.current[tempMessage.id!] = attachment;
+
+    // Show the local file while the upload is in progress
+    const optimisticMessage = {
+      ...tempMessage,
+      metadata: { ...tempMessage.metadata, url: attachment.uri },
+    };
+    pendingMessagesRef.current = [optimisticMessage, ...pendingMessagesRef.current];
+    setMessages(prevMessages => [optimisticMessage, ...prevMessages]);
+
+    await uploadAndSend(tempMessage, attachment);
+  }, [currentUserId, currentUserName, chatId, uploadAndSend]);
+
+  // Retry a failed or queued message by replaying the outbox in order
+  const retryMessage = useCallback(async (message: Message) => {
+    if (!message.id || (message.status !== 'failed' && message.status !== 'queued')) return;
+
+    const attachment = attachmentsRef.current[message.id];
+    if (attachment) {
+      updateMessage(message.id, { status: 'sending', uploadProgress: 0 });
+      await uploadAndSend(
+        { ...message, metadata: { ...message.metadata, url: undefined } },
+        attachment
       );
+      return;
+    }
+
+    setMessageStatus(message.id, 'sending');
+
+    try {
+      await MessageOutboxService.enqueue(currentUserId, { ...message, status: 'queued' });
+      await sendQueued(message.id);
     } catch (retryError) {
       console.error('Failed to retry message:', retryError);
-      
-      // Update status back to failed
-      setMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === message.id
-            ? { ...msg, status: 'failed' }
-            : msg
-        )
-      );
-
+      setMessageStatus(message.id, 'failed');
       throw retryError;
     }
-  }, []);
+  }, [currentUserId, sendQueued, setMessageStatus, updateMessage, uploadAndSend]);
+
+  // Toggle the current user's reaction with an optimistic update
+  const toggleReaction = useCallback(async (message: Message, emoji: string) => {
+    // Messages that have not reached Firestore yet cannot be reacted to
+    if (!message.id || ['sending', 'queued', 'failed'].includes(message.status || '')) return;
+
+    const previousReactions = message.reactions;
+    updateMessage(message.id, {
+      reactions: toggleUserReaction(previousReactions, emoji, currentUserId),
+    });
+
+    try {
+      await ChatFirestoreService.toggleReaction(chatId, message.id, emoji, currentUserId);
+    } catch (reactionError) {
+      console.error('Failed to toggle reaction:', reactionError);
+      updateMessage(message.id, { reactions: previousReactions });
+      throw reactionError;
+    }
+  }, [chatId, currentUserId, updateMessage]);
+
+  // Edit an own message optimistically, reverting if the server rejects it
+  const editMessage = useCallback(async (message: Message, text: string) => {
+    const newText = text.trim();
+    if (!message.id || !newText || newText === message.text) return;
+
+    const previous = { text: message.text, editedAt: message.editedAt };
+    const changes = { text: newText, editedAt: new Date() };
+    updateMessage(message.id, changes);
+
+    try {
+      await ChatFirestoreService.editMessage(chatId, message.id, currentUserId, newText);
+    } catch (editError) {
+      console.error('Failed to edit message:', editError);
+      updateMessage(message.id, previous);
+      throw editError;
+    }
+
+    // The edit is on the server now, so the local copy is only patched up after it.
+    // The cache logs its own failures rather than throwing.
+    await MessageCacheService.updateMessage(chatId, message.id, changes);
+  }, [chatId, currentUserId, updateMessage]);
+
+  // Unsend an own message, leaving a tombstone for everyone in the chat
+  const deleteMessage = useCallback(async (message: Message) => {
+    if (!message.id || message.status === 'sending') return;
+    const messageId = message.id;
+
+    // Unsent messages never reached Firestore, so just discard them locally
+    if (message.status === 'queued' || message.status === 'failed') {
+      await MessageOutboxService.remove(currentUserId, chatId, messageId);
+      delete attachmentsRef.current[messageId];
+      pendingMessagesRef.current = pendingMessagesRef.current.filter(msg => msg.id !== messageId);
+      setMessages(prevMessages => prevMessages.filter(msg => msg.id !== messageId));
+      return;
+    }
+
+    const previous = {
+      text: message.text,
+      deleted: message.deleted,
+      metadata: message.metadata,
+      reactions: message.reactions,
+      replyTo: message.replyTo,
+    };
+    const tombstone = {
+      text: '',
+      deleted: true,
+      metadata: undefined,
+      reactions: undefined,
+      replyTo: undefined,
+    };
+    updateMessage(messageId, tombstone);
+
+    try {
+      await ChatFirestoreService.deleteMessage(chatId, messageId, currentUserId);
+    } catch (deleteError) {
+      console.error('Failed to delete message:', deleteError);
+      updateMessage(messageId, previous);
+      throw deleteError;
+    }
+
+    // The tombstone is on the server now, so clean-up happens outside the rollback.
+    // Both steps log their own failures rather than throwing.
+    await MessageCacheService.updateMessage(chatId, messageId, tombstone);
+    if (message.metadata?.url) {
+      await AttachmentService.deleteAttachment(message.metadata.url);
+    }
+  }, [chatId, currentUserId, updateMessage]);
 
   return {
     messages,
     loading,
+    loadingOlder,
     error,
+    hasMore,
     sendMessage,
+    sendAttachment,
     retryMessage,
+    toggleReaction,
+    editMessage,
+    deleteMessage,
+    loadOlderMessages,
+    loadUntilMessage,
+    reconnect,
   };
 };
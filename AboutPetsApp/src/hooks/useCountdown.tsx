@@ -0,0 +1,25 @@
+import { useState, useEffect, useCallback } from 'react';
+
+interface UseCountdownReturn {
+  secondsLeft: number;
+  start: (seconds: number) => void;
+}
+
+/**
+ * Custom hook for a one-second countdown, e.g. to hold back resending
+ * an email until the previous one had time to arrive.
+ */
+export const useCountdown = (): UseCountdownReturn => {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+
+    const timer = setTimeout(() => setSecondsLeft(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  const start = useCallback((seconds: number) => setSecondsLeft(seconds), []);
+
+  return { secondsLeft, start };
+};
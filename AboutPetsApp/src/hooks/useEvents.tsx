@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { EventService } from '../services/eventService';
+import { PetEvent } from '../types/event';
+
+interface UseEventsReturn {
+  events: PetEvent[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for the events a user hosts or was invited to, soonest first
+ */
+export const useEvents = (userId: string | null | undefined): UseEventsReturn => {
+  const [events, setEvents] = useState<PetEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEvents([]);
+    setError(null);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return EventService.subscribeToMyEvents(
+      userId,
+      (updatedEvents) => {
+        setEvents(updatedEvents);
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load events');
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  return { events, loading, error };
+};
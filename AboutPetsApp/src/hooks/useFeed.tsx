@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { FeedService, FeedCursor } from '../services/feedService';
+import { FeedPost, FeedSource } from '../types/feed';
+import { mergePosts } from '../utils/feedUtils';
+
+interface UseFeedReturn {
+  posts: FeedPost[];
+  likedPostIds: Set<string>;
+  loading: boolean;
+  loadingMore: boolean;
+  refreshing: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+  toggleLike: (post: FeedPost) => Promise<void>;
+  removePost: (postId: string) => void;
+}
+
+/**
+ * Custom hook for a paged feed of posts, newest first, with the
+ * current user's likes applied optimistically
+ */
+export const useFeed = (userId: string | null | undefined, source: FeedSource): UseFeedReturn => {
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [likedPostIds, setLikedPostIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const cursorRef = useRef<FeedCursor | null>(null);
+  // Ignore pages of a source that was replaced while they were loading
+  const requestIdRef = useRef(0);
+
+  // Sources are compared by value so callers can pass object literals
+  const sourceKey = JSON.stringify(source);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!userId) return;
+
+    const requestId = reset ? ++requestIdRef.current : requestIdRef.current;
+    const page = await FeedService.getPosts(JSON.parse(sourceKey), userId, reset ? null : cursorRef.current);
+    const liked = await FeedService.getLikedPostIds(userId, page.posts.map(post => post.id));
+    if (requestId !== requestIdRef.current) return;
+
+    cursorRef.current = page.cursor;
+    setHasMore(page.hasMore);
+    setPosts(current => (reset ? page.posts : mergePosts(current, page.posts)));
+    setLikedPostIds(current => new Set([...(reset ? [] : current), ...liked]));
+    setError(null);
+  }, [userId, sourceKey]);
+
+  useEffect(() => {
+    cursorRef.current = null;
+    setPosts([]);
+    setLikedPostIds(new Set());
+    setHasMore(false);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    loadPage(true)
+      .catch(() => setError('Failed to load posts'))
+      .finally(() => setLoading(false));
+  }, [userId, loadPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loading || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      await loadPage(false);
+    } catch (loadError) {
+      setError('Failed to load more posts');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [hasMore, loading, loadingMore, loadPage]);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadPage(true);
+    } catch (refreshError) {
+      setError('Failed to refresh posts');
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadPage]);
+
+  const applyLike = useCallback((postId: string, liked: boolean) => {
+    setLikedPostIds(current => {
+      const next = new Set(current);
+      if (liked) {
+        next.add(postId);
+      } else {
+        next.delete(postId);
+      }
+      return next;
+    });
+    setPosts(current =>
+      current.map(post =>
+        post.id === postId ? { ...post, likeCount: Math.max(0, post.likeCount + (liked ? 1 : -1)) } : post
+      )
+    );
+  }, []);
+
+  // Like or unlike with an optimistic update, reverting if the write fails
+  const toggleLike = useCallback(async (post: FeedPost) => {
+    if (!userId) return;
+
+    const liked = !likedPostIds.has(post.id);
+    applyLike(post.id, liked);
+    try {
+      await FeedService.setLiked(post.id, userId, liked);
+    } catch (likeError) {
+      applyLike(post.id, !liked);
+      throw likeError;
+    }
+  }, [userId, likedPostIds, applyLike]);
+
+  // Drop a post locally, e.g. after it was deleted
+  const removePost = useCallback((postId: string) => {
+    setPosts(current => current.filter(post => post.id !== postId));
+  }, []);
+
+  return {
+    posts,
+    likedPostIds,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    hasMore,
+    loadMore,
+    refresh,
+    toggleLike,
+    removePost,
+  };
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { HealthMetricService } from '../services/healthMetricService';
+import { HealthMetricEntry } from '../types/health';
+
+interface UseHealthMetricsReturn {
+  entries: HealthMetricEntry[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for a pet's health metric history, kept in sync with Firestore
+ */
+export const useHealthMetrics = (
+  userId: string | null | undefined,
+  petId: string | null | undefined
+): UseHealthMetricsReturn => {
+  const [entries, setEntries] = useState<HealthMetricEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEntries([]);
+    setError(null);
+    if (!userId || !petId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return HealthMetricService.subscribeToEntries(
+      userId,
+      petId,
+      (updatedEntries) => {
+        setEntries(updatedEntries);
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load health metrics');
+        setLoading(false);
+      }
+    );
+  }, [userId, petId]);
+
+  return { entries, loading, error };
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { LostPetAlertService } from '../services/lostPetAlertService';
+import { LostPetAlert, LostPetNotification } from '../types/lostPet';
+
+interface UseLostPetAlertsReturn {
+  myAlerts: LostPetAlert[];
+  notifications: LostPetNotification[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for the lost pet alerts a user published
+ * and the nearby alerts they were notified about
+ */
+export const useLostPetAlerts = (userId: string | null | undefined): UseLostPetAlertsReturn => {
+  const [myAlerts, setMyAlerts] = useState<LostPetAlert[]>([]);
+  const [notifications, setNotifications] = useState<LostPetNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMyAlerts([]);
+    setNotifications([]);
+    setError(null);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const handleError = () => {
+      setError('Failed to load lost pet alerts');
+      setLoading(false);
+    };
+
+    const unsubscribeAlerts = LostPetAlertService.subscribeToMyAlerts(
+      userId,
+      (updatedAlerts) => {
+        setMyAlerts(updatedAlerts);
+        setLoading(false);
+      },
+      handleError
+    );
+    const unsubscribeNotifications = LostPetAlertService.subscribeToNotifications(
+      userId,
+      setNotifications,
+      handleError
+    );
+
+    return () => {
+      unsubscribeAlerts();
+      unsubscribeNotifications();
+    };
+  }, [userId]);
+
+  return { myAlerts, notifications, loading, error };
+};
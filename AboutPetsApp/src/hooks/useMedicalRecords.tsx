@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { MedicalRecordService } from '../services/medicalRecordService';
+import { MedicalRecord } from '../types/medical';
+
+interface UseMedicalRecordsReturn {
+  records: MedicalRecord[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for a pet's medical records
+ * Shows the cached history first so it is available offline,
+ * then keeps it in sync with Firestore
+ */
+export const useMedicalRecords = (
+  userId: string | null | undefined,
+  petId: string | null | undefined
+): UseMedicalRecordsReturn => {
+  const [records, setRecords] = useState<MedicalRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRecords([]);
+    setError(null);
+    if (!userId || !petId) {
+      setLoading(false);
+      return;
+    }
+
+    let receivedSnapshot = false;
+    setLoading(true);
+
+    MedicalRecordService.loadCachedRecords(userId, petId).then(cachedRecords => {
+      if (!receivedSnapshot && cachedRecords.length > 0) {
+        setRecords(cachedRecords);
+        setLoading(false);
+      }
+    });
+
+    return MedicalRecordService.subscribeToRecords(
+      userId,
+      petId,
+      (updatedRecords) => {
+        receivedSnapshot = true;
+        setRecords(updatedRecords);
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load medical records');
+        setLoading(false);
+      }
+    );
+  }, [userId, petId]);
+
+  return { records, loading, error };
+};
@@ -0,0 +1,83 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  MessageSearchService,
+  MessageSearchGroup,
+  SearchableChat,
+} from '../services/messageSearchService';
+import { tokenizeText } from '../utils/searchUtils';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface UseMessageSearchReturn {
+  searchQuery: string;
+  setSearchQuery: (searchQuery: string) => void;
+  results: MessageSearchGroup[];
+  searching: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for keyword search across all of a user's chats.
+ * Shows matches from the local cache straight away and merges in
+ * results from the server-side index once they arrive.
+ */
+export const useMessageSearch = (userId: string | null): UseMessageSearchReturn => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [results, setResults] = useState<MessageSearchGroup[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const chatsRef = useRef<Promise<SearchableChat[]> | null>(null);
+  // Ignore responses of searches that were superseded by newer input
+  const searchIdRef = useRef(0);
+
+  useEffect(() => {
+    chatsRef.current = userId ? MessageSearchService.getSearchableChats(userId) : null;
+  }, [userId]);
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+
+    if (!chatsRef.current || tokenizeText(searchQuery).length === 0) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    setError(null);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const chats = await chatsRef.current!;
+
+        const cachedResults = await MessageSearchService.searchCache(chats, searchQuery);
+        if (searchId !== searchIdRef.current) return;
+        setResults(cachedResults);
+
+        const serverResults = await MessageSearchService.searchServer(chats, searchQuery);
+        if (searchId !== searchIdRef.current) return;
+        // Server copies go first so edits made elsewhere win over stale cache entries
+        setResults(MessageSearchService.mergeResults(serverResults, cachedResults));
+      } catch (searchError) {
+        console.error('Message search failed:', searchError);
+        if (searchId === searchIdRef.current) {
+          setError('Search is unavailable right now');
+        }
+      } finally {
+        if (searchId === searchIdRef.current) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  return {
+    searchQuery,
+    setSearchQuery,
+    results,
+    searching,
+    error,
+  };
+};
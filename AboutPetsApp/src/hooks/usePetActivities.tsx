@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { PetActivityService, ACTIVITY_HISTORY_DAYS } from '../services/petActivityService';
+import { PetActivity } from '../types/activity';
+
+interface UsePetActivitiesReturn {
+  activities: PetActivity[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for a pet's recent activity log, kept in sync with
+ * every co-owner's entries as they are logged
+ */
+export const usePetActivities = (
+  ownerId: string | null | undefined,
+  petId: string | null | undefined
+): UsePetActivitiesReturn => {
+  const [activities, setActivities] = useState<PetActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setActivities([]);
+    setError(null);
+    if (!ownerId || !petId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const since = new Date();
+    since.setDate(since.getDate() - (ACTIVITY_HISTORY_DAYS - 1));
+    since.setHours(0, 0, 0, 0);
+
+    return PetActivityService.subscribeToActivities(
+      ownerId,
+      petId,
+      since,
+      (updatedActivities) => {
+        setActivities(updatedActivities);
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load the activity log');
+        setLoading(false);
+      }
+    );
+  }, [ownerId, petId]);
+
+  return { activities, loading, error };
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { PetService } from '../services/petService';
+import { Pet } from '../types/pet';
+
+interface UsePetsReturn {
+  pets: Pet[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for a user's pets, kept in sync with Firestore
+ */
+export const usePets = (userId: string | null | undefined): UsePetsReturn => {
+  const [pets, setPets] = useState<Pet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPets([]);
+    setError(null);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return PetService.subscribeToPets(
+      userId,
+      (updatedPets) => {
+        setPets(updatedPets);
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load pets');
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  return { pets, loading, error };
+};
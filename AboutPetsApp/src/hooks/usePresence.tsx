@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { PresenceService, UserPresence, HEARTBEAT_INTERVAL_MS } from '../services/presenceService';
+import { formatLastSeen } from '../utils/dateUtils';
+
+interface UsePresenceReturn {
+  isOnline: boolean;
+  lastSeen: Date | null;
+  statusText: string | null;
+}
+
+const UNKNOWN_PRESENCE: UserPresence = { isOnline: false, lastSeen: null };
+
+/**
+ * Custom hook for another user's online status.
+ * Re-checks the heartbeat age periodically so users whose app stopped
+ * reporting drop to "Last seen" without a new snapshot.
+ */
+export const usePresence = (userId: string | null | undefined): UsePresenceReturn => {
+  const [presence, setPresence] = useState<UserPresence>(UNKNOWN_PRESENCE);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    setPresence(UNKNOWN_PRESENCE);
+    if (!userId) return;
+
+    return PresenceService.subscribeToPresence(userId, setPresence);
+  }, [userId]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), HEARTBEAT_INTERVAL_MS / 2);
+    return () => clearInterval(interval);
+  }, []);
+
+  const isOnline = PresenceService.isActive(presence.isOnline, presence.lastSeen, now);
+  let statusText: string | null = null;
+  if (isOnline) {
+    statusText = 'Online';
+  } else if (presence.lastSeen) {
+    statusText = `Last seen ${formatLastSeen(presence.lastSeen).toLowerCase()}`;
+  }
+
+  return {
+    isOnline,
+    lastSeen: presence.lastSeen,
+    statusText,
+  };
+};
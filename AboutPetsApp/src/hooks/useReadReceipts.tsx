@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatReceipts, Message } from '../types/chat';
+import { ChatFirestoreService } from '../services/chatFirestoreService';
+
+interface UseReadReceiptsReturn {
+  receipts: ChatReceipts;
+  isGroup: boolean;
+  markAsRead: (messages: Message[]) => void;
+  getReceiptStatus: (message: Message) => Message['status'];
+  getSeenBy: (message: Message) => string[];
+}
+
+const EMPTY_RECEIPTS: ChatReceipts = {
+  participantIds: [],
+  participantNames: {},
+  deliveredTo: {},
+  readBy: {},
+};
+
+const hasReached = (cursor: Date | undefined, message: Message): boolean => {
+  return !!cursor && cursor.getTime() >= message.timestamp.getTime();
+};
+
+/**
+ * Custom hook for delivery and read receipts of a chat.
+ * Tracks per-participant cursors on the chat document, marks the chat
+ * as read while it is on screen and derives ticks for own messages.
+ */
+export const useReadReceipts = (
+  chatId: string,
+  currentUserId: string | null
+): UseReadReceiptsReturn => {
+  const [receipts, setReceipts] = useState<ChatReceipts>(EMPTY_RECEIPTS);
+  const lastMarkedIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setReceipts(EMPTY_RECEIPTS);
+    lastMarkedIdRef.current = null;
+
+    return ChatFirestoreService.subscribeToReceipts(chatId, setReceipts);
+  }, [chatId]);
+
+  // Advance our read cursor when a newer message from someone else is visible
+  const markAsRead = useCallback((messages: Message[]) => {
+    if (!currentUserId) return;
+
+    const latestIncoming = messages
+      .filter(message => message.senderId !== currentUserId && message.id)
+      .reduce<Message | null>(
+        (latest, message) =>
+          !latest || message.timestamp.getTime() > latest.timestamp.getTime() ? message : latest,
+        null
+      );
+
+    if (!latestIncoming || latestIncoming.id === lastMarkedIdRef.current) return;
+    if (hasReached(receipts.readBy[currentUserId], latestIncoming)) return;
+
+    lastMarkedIdRef.current = latestIncoming.id!;
+    ChatFirestoreService.markAsRead(chatId, currentUserId);
+  }, [chatId, currentUserId, receipts]);
+
+  // Only acknowledged messages get delivery ticks; local states win otherwise
+  const getReceiptStatus = useCallback((message: Message): Message['status'] => {
+    if (message.status && message.status !== 'sent') {
+      return message.status;
+    }
+
+    const recipients = receipts.participantIds.filter(id => id !== message.senderId);
+    if (recipients.length === 0) {
+      return message.status;
+    }
+
+    if (recipients.every(id => hasReached(receipts.readBy[id], message))) {
+      return 'read';
+    }
+
+    const delivered = recipients.every(id =>
+      hasReached(receipts.deliveredTo[id], message) || hasReached(receipts.readBy[id], message)
+    );
+    return delivered ? 'delivered' : 'sent';
+  }, [receipts]);
+
+  const getSeenBy = useCallback((message: Message): string[] => {
+    return receipts.participantIds
+      .filter(id => id !== message.senderId && hasReached(receipts.readBy[id], message))
+      .map(id => receipts.participantNames[id] || 'Someone');
+  }, [receipts]);
+
+  return {
+    receipts,
+    isGroup: receipts.participantIds.length > 2,
+    markAsRead,
+    getReceiptStatus,
+    getSeenBy,
+  };
+};
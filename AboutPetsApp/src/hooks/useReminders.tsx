@@ -0,0 +1,57 @@
+import { useState, useEffect } from 'react';
+import { ReminderService, MISSED_LOOKBACK_DAYS } from '../services/reminderService';
+import { Reminder, ReminderLog } from '../types/reminder';
+
+interface UseRemindersReturn {
+  reminders: Reminder[];
+  logs: ReminderLog[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for a user's care reminders and the recent occurrence logs
+ * needed to tell done, snoozed and missed tasks apart
+ */
+export const useReminders = (userId: string | null | undefined): UseRemindersReturn => {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [logs, setLogs] = useState<ReminderLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReminders([]);
+    setLogs([]);
+    setError(null);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const handleError = () => {
+      setError('Failed to load reminders');
+      setLoading(false);
+    };
+
+    const since = new Date(Date.now() - MISSED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    since.setHours(0, 0, 0, 0);
+
+    const unsubscribeReminders = ReminderService.subscribeToReminders(
+      userId,
+      (updatedReminders) => {
+        setReminders(updatedReminders);
+        setLoading(false);
+      },
+      handleError
+    );
+    const unsubscribeLogs = ReminderService.subscribeToLogs(userId, since, setLogs, handleError);
+
+    return () => {
+      unsubscribeReminders();
+      unsubscribeLogs();
+    };
+  }, [userId]);
+
+  return { reminders, logs, loading, error };
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { PetService } from '../services/petService';
+import { PetSharingService } from '../services/petSharingService';
+import { Pet, PetInvite } from '../types/pet';
+
+interface UseSharedPetsReturn {
+  sharedPets: Pet[];
+  invites: PetInvite[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for the pets other users share with a user
+ * and the co-ownership invites waiting for an answer
+ */
+export const useSharedPets = (userId: string | null | undefined): UseSharedPetsReturn => {
+  const [sharedPets, setSharedPets] = useState<Pet[]>([]);
+  const [invites, setInvites] = useState<PetInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSharedPets([]);
+    setInvites([]);
+    setError(null);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const handleError = () => {
+      setError('Failed to load shared pets');
+      setLoading(false);
+    };
+
+    const unsubscribePets = PetService.subscribeToSharedPets(
+      userId,
+      (updatedPets) => {
+        setSharedPets(updatedPets);
+        setLoading(false);
+      },
+      handleError
+    );
+    const unsubscribeInvites = PetSharingService.subscribeToIncomingInvites(userId, setInvites, handleError);
+
+    return () => {
+      unsubscribePets();
+      unsubscribeInvites();
+    };
+  }, [userId]);
+
+  return { sharedPets, invites, loading, error };
+};
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { TypingService, TypingUser } from '../services/typingService';
+import { formatTypingText } from '../utils/stringUtils';
+
+// Re-send the marker before its TTL runs out while the user keeps typing
+const TYPING_REFRESH_MS = 3000;
+// Treat the user as done typing after this long without keystrokes
+const TYPING_IDLE_MS = 4000;
+
+interface UseTypingIndicatorReturn {
+  typingText: string | null;
+  typingNames: string[];
+  onTextChange: (text: string) => void;
+  stopTyping: () => void;
+}
+
+/**
+ * Custom hook for typing indicators in a chat.
+ * Debounces the local user's keystrokes into typing markers and
+ * formats the other participants who are currently typing.
+ */
+export const useTypingIndicator = (
+  chatId: string,
+  currentUserId: string | null,
+  currentUserName: string
+): UseTypingIndicatorReturn => {
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  const isTypingRef = useRef(false);
+  const lastSentRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Subscribe to other participants' typing markers
+  useEffect(() => {
+    setTypingUsers([]);
+
+    return TypingService.subscribeToTyping(chatId, (users) => {
+      setTypingUsers(users.filter(typingUser => typingUser.uid !== currentUserId));
+      setNow(Date.now());
+    });
+  }, [chatId, currentUserId]);
+
+  // Markers expire without a write, so re-check them while any are shown
+  useEffect(() => {
+    if (typingUsers.length === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [typingUsers.length]);
+
+  const stopTyping = useCallback(() => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+
+    if (isTypingRef.current && currentUserId) {
+      isTypingRef.current = false;
+      lastSentRef.current = 0;
+      TypingService.clearTyping(chatId, currentUserId);
+    }
+  }, [chatId, currentUserId]);
+
+  const onTextChange = useCallback((text: string) => {
+    if (!currentUserId) return;
+
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+
+    const nowMs = Date.now();
+    if (!isTypingRef.current || nowMs - lastSentRef.current > TYPING_REFRESH_MS) {
+      isTypingRef.current = true;
+      lastSentRef.current = nowMs;
+      TypingService.setTyping(chatId, currentUserId, currentUserName);
+    }
+
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+    }
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [chatId, currentUserId, currentUserName, stopTyping]);
+
+  // Clear our marker when leaving the chat
+  useEffect(() => stopTyping, [stopTyping]);
+
+  const typingNames = useMemo(
+    () => typingUsers
+      .filter(typingUser => typingUser.expiresAt.getTime() > now)
+      .map(typingUser => typingUser.displayName),
+    [typingUsers, now]
+  );
+
+  return {
+    typingText: formatTypingText(typingNames),
+    typingNames,
+    onTextChange,
+    stopTyping,
+  };
+};
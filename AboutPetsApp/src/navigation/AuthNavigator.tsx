@@ -2,6 +2,7 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { LoginScreen } from '../screens/auth/LoginScreen';
 import { RegisterScreen } from '../screens/auth/RegisterScreen';
+import { ForgotPasswordScreen } from '../screens/auth/ForgotPasswordScreen';
 import type { AuthStackParamList } from '../types';
 
 /**
@@ -32,6 +33,11 @@ export const AuthNavigator: React.FC = () => {
         component={RegisterScreen}
         options={{ title: 'Create Account' }}
       />
+      <Stack.Screen 
+        name="ForgotPassword" 
+        component={ForgotPasswordScreen}
+        options={{ title: 'Reset Password' }}
+      />
     </Stack.Navigator>
   );
 };
\ No newline at end of file
@@ -3,13 +3,14 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import DynamicChatListScreen from '../screens/chat/DynamicChatListScreen';
 import { ChatRoomScreen } from '../screens/chat/ChatRoomScreen';
 import UserDiscoveryScreen from '../screens/chat/UserDiscoveryScreen';
+import MessageSearchScreen from '../screens/chat/MessageSearchScreen';
 import type { ChatStackParamList } from '../types';
 
 /**
  * ChatNavigator
  * 
  * Navigation stack for chat-related screens.
- * Handles chat list, individual chat rooms, and user discovery.
+ * Handles chat list, individual chat rooms, user discovery and message search.
  */
 
 const Stack = createNativeStackNavigator<ChatStackParamList>();
@@ -52,6 +53,14 @@ export const ChatNavigator: React.FC = () => {
           headerBackTitleVisible: false,
         }}
       />
+      <Stack.Screen 
+        name="MessageSearch" 
+        component={MessageSearchScreen}
+        options={{
+          title: 'Search Messages',
+          headerBackTitleVisible: false,
+        }}
+      />
     </Stack.Navigator>
   );
 };
\ No newline at end of file
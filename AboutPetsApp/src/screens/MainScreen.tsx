@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import {
   Text,
   StyleSheet,
@@ -6,18 +6,67 @@ import {
   Alert,
 } from 'react-native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import { NavigatorScreenParams, useNavigation } from '@react-navigation/native';
 import { useAuth } from '../auth/hooks/useAuth';
 import { ChatNavigator } from '../navigation/ChatNavigator';
+import { ProfileScreen } from './profile/ProfileScreen';
+import { PetFormScreen } from './profile/PetFormScreen';
+import { MedicalRecordsScreen } from './profile/MedicalRecordsScreen';
+import { MedicalRecordFormScreen } from './profile/MedicalRecordFormScreen';
+import { HealthMetricsScreen } from './profile/HealthMetricsScreen';
+import { HealthMetricFormScreen } from './profile/HealthMetricFormScreen';
+import { PetSharingScreen } from './profile/PetSharingScreen';
+import { TodayScreen } from './care/TodayScreen';
+import { ReminderFormScreen } from './care/ReminderFormScreen';
+import { PetActivityScreen } from './care/PetActivityScreen';
+import { LostPetAlertsScreen } from './community/LostPetAlertsScreen';
+import { LostPetReportScreen } from './community/LostPetReportScreen';
+import { LostPetAlertScreen } from './community/LostPetAlertScreen';
+import { AdoptionListingsScreen } from './adoption/AdoptionListingsScreen';
+import { AdoptionListingScreen } from './adoption/AdoptionListingScreen';
+import { AdoptionListingFormScreen } from './adoption/AdoptionListingFormScreen';
+import { EventsScreen } from './events/EventsScreen';
+import { EventScreen } from './events/EventScreen';
+import { EventFormScreen } from './events/EventFormScreen';
+import { EventInviteScreen } from './events/EventInviteScreen';
+import { FeedScreen } from './feed/FeedScreen';
+import { PostFormScreen } from './feed/PostFormScreen';
+import { PostScreen } from './feed/PostScreen';
+import { UserProfileScreen } from './feed/UserProfileScreen';
+import { ChangePasswordScreen } from './profile/ChangePasswordScreen';
+import { DeleteAccountScreen } from './profile/DeleteAccountScreen';
+import { EditProfileScreen } from './profile/EditProfileScreen';
+import { MessageOutboxService } from '../services/messageOutboxService';
+import type { ChatStackParamList, ProfileStackParamList } from '../types/navigation';
 
-const Stack = createNativeStackNavigator();
+type MainStackParamList = ProfileStackParamList & {
+  ChatMain: NavigatorScreenParams<ChatStackParamList> | undefined;
+};
+
+const Stack = createNativeStackNavigator<MainStackParamList>();
 
 /**
  * MainScreen
  * 
  * Main application screen shown after successful authentication.
- * Now displays the chat interface as the primary feature.
+ * Now displays the chat interface as the primary feature,
+ * with the profile and pet screens reachable from the header.
  */
 
+// Header profile button component
+const ProfileButton: React.FC = () => {
+  const navigation = useNavigation<any>();
+
+  return (
+    <TouchableOpacity
+      style={styles.profileButton}
+      onPress={() => navigation.navigate('Profile')}
+    >
+      <Text style={styles.logoutButtonText}>Profile</Text>
+    </TouchableOpacity>
+  );
+};
+
 // Header logout button component
 const LogoutButton: React.FC = () => {
   const { signOut, loading } = useAuth();
@@ -59,8 +108,15 @@ const LogoutButton: React.FC = () => {
 };
 
 const headerRightComponent = () => <LogoutButton />;
+const headerLeftComponent = () => <ProfileButton />;
 
 export const MainScreen: React.FC = () => {
+  const { user } = useAuth();
+  const userId = user?.uid;
+
+  // Deliver messages queued while offline, including those from previous sessions
+  useEffect(() => (userId ? MessageOutboxService.startAutoReplay(userId) : undefined), [userId]);
+
   return (
     <Stack.Navigator
       screenOptions={{
@@ -78,14 +134,238 @@ export const MainScreen: React.FC = () => {
         component={ChatNavigator}
         options={{
           title: 'About Pets Chat',
+          headerLeft: headerLeftComponent,
           headerRight: headerRightComponent,
         }}
       />
+      <Stack.Screen 
+        name="Profile" 
+        component={ProfileScreen}
+        options={{
+          title: 'Profile',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="PetForm" 
+        component={PetFormScreen}
+        options={{
+          title: 'Pet',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="MedicalRecords" 
+        component={MedicalRecordsScreen}
+        options={{
+          title: 'Health',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="MedicalRecordForm" 
+        component={MedicalRecordFormScreen}
+        options={{
+          title: 'Record',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="HealthMetrics" 
+        component={HealthMetricsScreen}
+        options={{
+          title: 'Health Metrics',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="HealthMetricForm" 
+        component={HealthMetricFormScreen}
+        options={{
+          title: 'Measurement',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="PetSharing" 
+        component={PetSharingScreen}
+        options={{
+          title: 'Sharing',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="PetActivity" 
+        component={PetActivityScreen}
+        options={{
+          title: 'Activity Log',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="Today" 
+        component={TodayScreen}
+        options={{
+          title: 'Today',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="ReminderForm" 
+        component={ReminderFormScreen}
+        options={{
+          title: 'Reminder',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="LostPetAlerts" 
+        component={LostPetAlertsScreen}
+        options={{
+          title: 'Lost & Found',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="LostPetReport" 
+        component={LostPetReportScreen}
+        options={{
+          title: 'Report Lost Pet',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="LostPetAlert" 
+        component={LostPetAlertScreen}
+        options={{
+          title: 'Lost Pet',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="AdoptionListings" 
+        component={AdoptionListingsScreen}
+        options={{
+          title: 'Adoption',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="AdoptionListing" 
+        component={AdoptionListingScreen}
+        options={{
+          title: 'Listing',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="AdoptionListingForm" 
+        component={AdoptionListingFormScreen}
+        options={{
+          title: 'Listing',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="Events" 
+        component={EventsScreen}
+        options={{
+          title: 'Playdates & Meetups',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="Event" 
+        component={EventScreen}
+        options={{
+          title: 'Event',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="EventForm" 
+        component={EventFormScreen}
+        options={{
+          title: 'Event',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="EventInvite" 
+        component={EventInviteScreen}
+        options={{
+          title: 'Invite People',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="Feed" 
+        component={FeedScreen}
+        options={{
+          title: 'Community Feed',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="PostForm" 
+        component={PostFormScreen}
+        options={{
+          title: 'New Post',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="Post" 
+        component={PostScreen}
+        options={{
+          title: 'Post',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="UserProfile" 
+        component={UserProfileScreen}
+        options={{
+          title: 'Profile',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="ChangePassword" 
+        component={ChangePasswordScreen}
+        options={{
+          title: 'Change Password',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="DeleteAccount" 
+        component={DeleteAccountScreen}
+        options={{
+          title: 'Delete Account',
+          headerBackTitleVisible: false,
+        }}
+      />
+      <Stack.Screen 
+        name="EditProfile" 
+        component={EditProfileScreen}
+        options={{
+          title: 'Edit Profile',
+          headerBackTitleVisible: false,
+        }}
+      />
     </Stack.Navigator>
   );
 };
 
 const styles = StyleSheet.create({
+  profileButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginLeft: 10,
+  },
   logoutButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
     paddingHorizontal: 12,
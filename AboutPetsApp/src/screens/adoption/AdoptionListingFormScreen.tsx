@@ -0,0 +1,423 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { AdoptionService } from '../../services/adoptionService';
+import { AttachmentService } from '../../services/attachmentService';
+import {
+  AdoptionListing,
+  AdoptionListingInput,
+  ListerType,
+  ADOPTION_REQUIREMENTS,
+  MAX_LISTING_PHOTOS,
+} from '../../types/adoption';
+import { PickedAttachment } from '../../types/chat';
+import { PetSex, PetSpecies, PET_SPECIES } from '../../types/pet';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { validateAdoptionListingForm } from '../../utils/validation';
+
+/**
+ * AdoptionListingFormScreen
+ *
+ * Creates or edits an adoption listing. New listings can be saved
+ * as a draft or published right away.
+ */
+
+type AdoptionListingFormScreenRouteProp = RouteProp<ProfileStackParamList, 'AdoptionListingForm'>;
+
+interface AdoptionListingFormScreenProps {
+  route: AdoptionListingFormScreenRouteProp;
+  navigation: any;
+}
+
+const LISTER_TYPES: { value: ListerType; label: string }[] = [
+  { value: 'individual', label: 'Individual' },
+  { value: 'shelter', label: 'Shelter / rescue' },
+];
+
+const SEX_OPTIONS: { value: PetSex; label: string }[] = [
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+  { value: 'unknown', label: 'Unknown' },
+];
+
+export const AdoptionListingFormScreen: React.FC<AdoptionListingFormScreenProps> = ({ route, navigation }) => {
+  const listingId = route.params?.listingId;
+  const { user } = useAuth();
+
+  const [listing, setListing] = useState<AdoptionListing | null>(null);
+  const [listerType, setListerType] = useState<ListerType>('individual');
+  const [name, setName] = useState('');
+  const [species, setSpecies] = useState<PetSpecies>('dog');
+  const [breed, setBreed] = useState('');
+  const [ageYears, setAgeYears] = useState('');
+  const [ageMonths, setAgeMonths] = useState('');
+  const [sex, setSex] = useState<PetSex>('unknown');
+  const [location, setLocation] = useState('');
+  const [requirements, setRequirements] = useState<string[]>([]);
+  const [description, setDescription] = useState('');
+  const [photoURLs, setPhotoURLs] = useState<string[]>([]);
+  const [photos, setPhotos] = useState<PickedAttachment[]>([]);
+
+  const [loading, setLoading] = useState(!!listingId);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: listingId ? 'Edit Listing' : 'New Listing' });
+  }, [navigation, listingId]);
+
+  useEffect(() => {
+    if (!listingId) return;
+
+    let mounted = true;
+    AdoptionService.getListings([listingId])
+      .then(([loaded]) => {
+        if (!mounted) return;
+        if (!loaded) {
+          Alert.alert('Error', 'This listing no longer exists.');
+          navigation.goBack();
+          return;
+        }
+
+        setListing(loaded);
+        setListerType(loaded.listerType);
+        setName(loaded.name);
+        setSpecies(loaded.species);
+        setBreed(loaded.breed || '');
+        if (loaded.ageMonths !== undefined) {
+          setAgeYears(String(Math.floor(loaded.ageMonths / 12)));
+          setAgeMonths(String(loaded.ageMonths % 12));
+        }
+        setSex(loaded.sex);
+        setLocation(loaded.location);
+        setRequirements(loaded.requirements);
+        setDescription(loaded.description || '');
+        setPhotoURLs(loaded.photoURLs);
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [listingId, navigation]);
+
+  const toggleRequirement = (requirement: string) => {
+    setRequirements(current =>
+      current.includes(requirement) ? current.filter(item => item !== requirement) : [...current, requirement]
+    );
+  };
+
+  const handleAddPhoto = async () => {
+    try {
+      const picked = await AttachmentService.pickImage();
+      if (picked) {
+        setPhotos(current => [...current, picked]);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pick photo.');
+    }
+  };
+
+  const handleSave = async (publish: boolean) => {
+    if (!user) return;
+
+    const validation = validateAdoptionListingForm(name, ageYears, ageMonths, location);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    const input: AdoptionListingInput = {
+      listerType,
+      name,
+      species,
+      breed,
+      ageMonths:
+        ageYears.trim() || ageMonths.trim() ? Number(ageYears || 0) * 12 + Number(ageMonths || 0) : undefined,
+      sex,
+      location,
+      requirements,
+      description,
+      photoURLs,
+    };
+
+    setSaving(true);
+    try {
+      if (listing) {
+        await AdoptionService.updateListing(listing, input, photos);
+        navigation.goBack();
+      } else {
+        const newListingId = await AdoptionService.createListing(user, input, photos, publish ? 'active' : 'draft');
+        navigation.replace('AdoptionListing', { listingId: newListingId });
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the listing. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const photoCount = photoURLs.length + photos.length;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Listed by</Text>
+          <View style={styles.chipRow}>
+            {LISTER_TYPES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, listerType === option.value && styles.chipSelected]}
+                onPress={() => setListerType(option.value)}
+              >
+                <Text style={[styles.chipText, listerType === option.value && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input label="Name" required value={name} onChangeText={setName} placeholder="e.g. Buddy" maxLength={50} />
+
+          <Text style={styles.label}>Species</Text>
+          <View style={styles.chipRow}>
+            {PET_SPECIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, species === option.value && styles.chipSelected]}
+                onPress={() => setSpecies(option.value)}
+              >
+                <Text style={[styles.chipText, species === option.value && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input label="Breed" value={breed} onChangeText={setBreed} placeholder="e.g. Labrador mix" />
+
+          <Text style={styles.label}>Age</Text>
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Input value={ageYears} onChangeText={setAgeYears} placeholder="Years" keyboardType="number-pad" maxLength={2} />
+            </View>
+            <View style={styles.rowField}>
+              <Input value={ageMonths} onChangeText={setAgeMonths} placeholder="Months" keyboardType="number-pad" maxLength={2} />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Sex</Text>
+          <View style={styles.chipRow}>
+            {SEX_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, sex === option.value && styles.chipSelected]}
+                onPress={() => setSex(option.value)}
+              >
+                <Text style={[styles.chipText, sex === option.value && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label="Location"
+            required
+            value={location}
+            onChangeText={setLocation}
+            placeholder="e.g. Portland, OR"
+            maxLength={80}
+          />
+
+          <Text style={styles.label}>Requirements</Text>
+          <View style={styles.chipRow}>
+            {ADOPTION_REQUIREMENTS.map(requirement => (
+              <TouchableOpacity
+                key={requirement}
+                style={[styles.chip, requirements.includes(requirement) && styles.chipSelected]}
+                onPress={() => toggleRequirement(requirement)}
+              >
+                <Text style={[styles.chipText, requirements.includes(requirement) && styles.chipTextSelected]}>
+                  {requirement}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label="About"
+            value={description}
+            onChangeText={setDescription}
+            placeholder="Personality, health, why they need a new home..."
+            multiline
+            maxLength={1000}
+          />
+
+          <Text style={styles.label}>Photos</Text>
+          <View style={styles.photoRow}>
+            {photoURLs.map(url => (
+              <TouchableOpacity
+                key={url}
+                onPress={() => setPhotoURLs(current => current.filter(item => item !== url))}
+                disabled={saving}
+              >
+                <Image source={{ uri: url }} style={styles.photo} />
+                <Text style={styles.removePhotoText}>Remove</Text>
+              </TouchableOpacity>
+            ))}
+            {photos.map(photo => (
+              <TouchableOpacity
+                key={photo.uri}
+                onPress={() => setPhotos(current => current.filter(item => item.uri !== photo.uri))}
+                disabled={saving}
+              >
+                <Image source={{ uri: photo.uri }} style={styles.photo} />
+                <Text style={styles.removePhotoText}>Remove</Text>
+              </TouchableOpacity>
+            ))}
+            {photoCount < MAX_LISTING_PHOTOS && (
+              <TouchableOpacity style={[styles.photo, styles.addPhoto]} onPress={handleAddPhoto} disabled={saving}>
+                <Text style={styles.addPhotoText}>+</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          {listing ? (
+            <Button title="Save" onPress={() => handleSave(false)} loading={saving} fullWidth />
+          ) : (
+            <>
+              <Button title="Publish" onPress={() => handleSave(true)} loading={saving} fullWidth />
+              <View style={styles.secondaryAction}>
+                <Button
+                  title="Save as Draft"
+                  variant="secondary"
+                  onPress={() => handleSave(false)}
+                  disabled={saving}
+                  fullWidth
+                />
+              </View>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  rowField: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#e1e1e1',
+  },
+  addPhoto: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addPhotoText: {
+    fontSize: 28,
+    color: '#666',
+  },
+  removePhotoText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 4,
+    marginRight: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+  secondaryAction: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,346 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, LoadingSpinner } from '../../components';
+import { AdoptionService } from '../../services/adoptionService';
+import { AdoptionListing, AdoptionListingStatus, ADOPTION_STATUSES } from '../../types/adoption';
+import { PET_SPECIES } from '../../types/pet';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatListingAge, getListingStatusLabel } from '../../utils/adoptionUtils';
+
+/**
+ * AdoptionListingScreen
+ *
+ * Details of an adoption listing. Other users can favorite it and
+ * inquire in a direct chat with the lister; the lister can edit it
+ * and move it through its lifecycle.
+ */
+
+type AdoptionListingScreenRouteProp = RouteProp<ProfileStackParamList, 'AdoptionListing'>;
+
+interface AdoptionListingScreenProps {
+  route: AdoptionListingScreenRouteProp;
+  navigation: any;
+}
+
+const getStatusActionLabel = (from: AdoptionListingStatus, to: AdoptionListingStatus): string => {
+  switch (to) {
+    case 'active':
+      return from === 'draft' ? 'Publish' : from === 'withdrawn' ? 'Relist' : 'Mark as Available';
+    case 'pending':
+      return 'Mark Adoption Pending';
+    case 'adopted':
+      return 'Mark as Adopted';
+    case 'withdrawn':
+      return 'Withdraw';
+    default:
+      return getListingStatusLabel(to);
+  }
+};
+
+export const AdoptionListingScreen: React.FC<AdoptionListingScreenProps> = ({ route, navigation }) => {
+  const { listingId } = route.params;
+  const { user } = useAuth();
+
+  const [listing, setListing] = useState<AdoptionListing | null>(null);
+  const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const isLister = !!listing && listing.listerId === user?.uid;
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: listing?.name || 'Listing',
+      headerRight: isLister
+        ? () => (
+            <TouchableOpacity onPress={() => navigation.navigate('AdoptionListingForm', { listingId })}>
+              <Text style={styles.headerButton}>Edit</Text>
+            </TouchableOpacity>
+          )
+        : undefined,
+    });
+  }, [navigation, listing, isLister, listingId]);
+
+  useEffect(() => {
+    const unsubscribe = AdoptionService.subscribeToListing(
+      listingId,
+      (updatedListing) => {
+        if (!updatedListing) {
+          navigation.goBack();
+          return;
+        }
+        setListing(updatedListing);
+        setLoading(false);
+      },
+      () => {
+        Alert.alert('Error', 'This listing is no longer available.');
+        navigation.goBack();
+      }
+    );
+
+    return unsubscribe;
+  }, [listingId, navigation]);
+
+  useEffect(() => {
+    if (!user) return;
+    return AdoptionService.subscribeToFavoriteIds(user.uid, setFavoriteIds);
+  }, [user]);
+
+  const isFavorite = favoriteIds.includes(listingId);
+
+  const handleToggleFavorite = async () => {
+    if (!user) return;
+
+    try {
+      await AdoptionService.setFavorite(user.uid, listingId, !isFavorite);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update favorites. Please try again.');
+    }
+  };
+
+  const handleInquire = async () => {
+    if (!user || !listing) return;
+
+    setBusy(true);
+    try {
+      const chatId = await AdoptionService.inquire(user, listing);
+      navigation.navigate('ChatMain', { screen: 'Chat', params: { chatId, chatName: listing.listerName } });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to contact the lister. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChangeStatus = async (status: AdoptionListingStatus) => {
+    if (!listing) return;
+
+    setBusy(true);
+    try {
+      await AdoptionService.setStatus(listing, status);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update the listing. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!listing) return;
+
+    Alert.alert('Delete Listing', `Delete the listing for ${listing.name}? This cannot be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setBusy(true);
+          try {
+            await AdoptionService.deleteListing(listing);
+          } catch (error) {
+            Alert.alert('Error', 'Failed to delete the listing. Please try again.');
+            setBusy(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading || !listing) {
+    return <LoadingSpinner />;
+  }
+
+  const species = PET_SPECIES.find(option => option.value === listing.species);
+  const nextStatuses = ADOPTION_STATUSES.find(option => option.value === listing.status)?.next || [];
+  const details = [
+    species?.label,
+    listing.breed,
+    listing.ageMonths !== undefined && formatListingAge(listing.ageMonths),
+    listing.sex !== 'unknown' && (listing.sex === 'male' ? 'Male' : 'Female'),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {listing.photoURLs.length > 0 ? (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photoRow}>
+            {listing.photoURLs.map(url => (
+              <Image key={url} source={{ uri: url }} style={styles.photo} />
+            ))}
+          </ScrollView>
+        ) : (
+          <View style={[styles.photo, styles.photoPlaceholder]}>
+            <Text style={styles.photoEmoji}>{species?.emoji || '🐾'}</Text>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <View style={styles.titleRow}>
+            <Text style={styles.name}>{listing.name}</Text>
+            {!isLister && (
+              <TouchableOpacity onPress={handleToggleFavorite}>
+                <Text style={styles.favoriteText}>{isFavorite ? '♥' : '♡'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={[styles.statusText, listing.status === 'active' && styles.statusActive]}>
+            {getListingStatusLabel(listing.status)}
+          </Text>
+          {!!details && <Text style={styles.detailText}>{details}</Text>}
+          <Text style={styles.detailText}>📍 {listing.location}</Text>
+          <Text style={styles.detailText}>
+            Listed by {isLister ? 'you' : listing.listerName}
+            {listing.listerType === 'shelter' ? ' (shelter)' : ''}
+          </Text>
+          {!!listing.description && <Text style={styles.description}>{listing.description}</Text>}
+        </View>
+
+        {listing.requirements.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Requirements</Text>
+            <View style={styles.chipRow}>
+              {listing.requirements.map(requirement => (
+                <View key={requirement} style={styles.chip}>
+                  <Text style={styles.chipText}>{requirement}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {!isLister && (listing.status === 'active' || listing.status === 'pending') && (
+          <Button title={`Inquire about ${listing.name}`} onPress={handleInquire} loading={busy} fullWidth />
+        )}
+
+        {isLister && (
+          <View style={styles.actions}>
+            {nextStatuses.map(status => (
+              <View key={status} style={styles.action}>
+                <Button
+                  title={getStatusActionLabel(listing.status, status)}
+                  variant={status === 'withdrawn' ? 'secondary' : 'primary'}
+                  onPress={() => handleChangeStatus(status)}
+                  disabled={busy}
+                  fullWidth
+                />
+              </View>
+            ))}
+            <View style={styles.action}>
+              <Button title="Delete Listing" variant="danger" onPress={handleDelete} disabled={busy} fullWidth />
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  photoRow: {
+    marginBottom: 16,
+  },
+  photo: {
+    width: 240,
+    height: 240,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#e1e1e1',
+  },
+  photoPlaceholder: {
+    alignSelf: 'center',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 0,
+    marginBottom: 16,
+  },
+  photoEmoji: {
+    fontSize: 64,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#333',
+  },
+  favoriteText: {
+    fontSize: 28,
+    color: '#FF3B30',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  statusActive: {
+    color: '#34C759',
+  },
+  detailText: {
+    fontSize: 15,
+    color: '#666',
+    marginTop: 4,
+  },
+  description: {
+    fontSize: 15,
+    color: '#333',
+    marginTop: 12,
+    lineHeight: 21,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  actions: {
+    marginTop: 8,
+  },
+  action: {
+    marginBottom: 12,
+  },
+});
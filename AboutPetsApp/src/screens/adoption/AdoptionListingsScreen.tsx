@@ -0,0 +1,329 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Input } from '../../components';
+import { useAdoptionListings } from '../../hooks/useAdoptionListings';
+import { AdoptionService } from '../../services/adoptionService';
+import { AdoptionListing } from '../../types/adoption';
+import { PET_SPECIES, PET_TYPES } from '../../types/pet';
+import { formatListingAge, getListingStatusLabel, matchesListingSearch } from '../../utils/adoptionUtils';
+
+/**
+ * AdoptionListingsScreen
+ *
+ * Browse pets looking for a new home, filtered by pet type and a
+ * free-text search over breed and location, plus the user's
+ * favorites and their own listings.
+ */
+
+interface AdoptionListingsScreenProps {
+  navigation: any;
+}
+
+type ListingsTab = 'browse' | 'favorites' | 'mine';
+
+const TABS: { value: ListingsTab; label: string }[] = [
+  { value: 'browse', label: 'Browse' },
+  { value: 'favorites', label: 'Favorites' },
+  { value: 'mine', label: 'My listings' },
+];
+
+export const AdoptionListingsScreen: React.FC<AdoptionListingsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [tab, setTab] = useState<ListingsTab>('browse');
+  const [petType, setPetType] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const { listings, myListings, favoriteIds, loading, error } = useAdoptionListings(user?.uid, petType);
+
+  const [favorites, setFavorites] = useState<AdoptionListing[]>([]);
+  const [favoritesLoading, setFavoritesLoading] = useState(false);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity onPress={() => navigation.navigate('AdoptionListingForm')}>
+          <Text style={styles.headerButton}>New</Text>
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation]);
+
+  // Favorites may be of any pet type, so they are loaded separately
+  const favoriteKey = favoriteIds.join(',');
+  useEffect(() => {
+    if (tab !== 'favorites') return;
+    if (!favoriteKey) {
+      setFavorites([]);
+      return;
+    }
+
+    let mounted = true;
+    setFavoritesLoading(true);
+    AdoptionService.getListings(favoriteKey.split(','))
+      .then(loaded => {
+        if (mounted) setFavorites(loaded);
+      })
+      .finally(() => {
+        if (mounted) setFavoritesLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [favoriteKey, tab]);
+
+  const handleToggleFavorite = async (listing: AdoptionListing) => {
+    if (!user) return;
+
+    try {
+      await AdoptionService.setFavorite(user.uid, listing.id, !favoriteIds.includes(listing.id));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update favorites. Please try again.');
+    }
+  };
+
+  const renderListing = (listing: AdoptionListing) => {
+    const species = PET_SPECIES.find(option => option.value === listing.species);
+    const isMine = listing.listerId === user?.uid;
+    const details = [
+      listing.breed || species?.label,
+      listing.ageMonths !== undefined && formatListingAge(listing.ageMonths),
+      listing.location,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+    return (
+      <TouchableOpacity
+        key={listing.id}
+        style={styles.card}
+        onPress={() => navigation.navigate('AdoptionListing', { listingId: listing.id })}
+      >
+        <View style={styles.photo}>
+          {listing.photoURLs[0] ? (
+            <Image source={{ uri: listing.photoURLs[0] }} style={styles.photoImage} />
+          ) : (
+            <Text style={styles.photoEmoji}>{species?.emoji || '🐾'}</Text>
+          )}
+        </View>
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardTitle}>{listing.name}</Text>
+          {!!details && <Text style={styles.cardDetails}>{details}</Text>}
+          <Text style={styles.cardLister}>
+            {listing.listerType === 'shelter' ? '🏠 ' : ''}
+            {listing.listerName}
+          </Text>
+          {(isMine || listing.status !== 'active') && (
+            <Text style={[styles.statusText, listing.status === 'active' && styles.statusActive]}>
+              {getListingStatusLabel(listing.status)}
+            </Text>
+          )}
+        </View>
+        {!isMine && (
+          <TouchableOpacity style={styles.favoriteButton} onPress={() => handleToggleFavorite(listing)}>
+            <Text style={styles.favoriteText}>{favoriteIds.includes(listing.id) ? '♥' : '♡'}</Text>
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const visibleListings = (
+    tab === 'browse' ? listings : tab === 'favorites' ? favorites : myListings
+  ).filter(listing => matchesListingSearch(listing, searchTerm));
+  const isLoading = (tab === 'browse' && loading) || (tab === 'favorites' && favoritesLoading);
+
+  const emptyText =
+    tab === 'browse'
+      ? 'No pets are looking for a home here yet.'
+      : tab === 'favorites'
+        ? 'Tap ♡ on a listing to keep it here.'
+        : 'Rehoming a pet or running a shelter? Tap New to create a listing.';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.tabs}>
+          {TABS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.tab, tab === option.value && styles.tabSelected]}
+              onPress={() => setTab(option.value)}
+            >
+              <Text style={[styles.tabText, tab === option.value && styles.tabTextSelected]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Input
+          value={searchTerm}
+          onChangeText={setSearchTerm}
+          placeholder="Search by breed or location"
+          autoCorrect={false}
+        />
+
+        {tab === 'browse' && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+            {PET_TYPES.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, petType === option && styles.chipSelected]}
+                onPress={() => setPetType(current => (current === option ? null : option))}
+              >
+                <Text style={[styles.chipText, petType === option && styles.chipTextSelected]}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color="#007AFF" />
+        ) : visibleListings.length === 0 ? (
+          <Text style={styles.emptyText}>{searchTerm.trim() ? 'No listings match your search.' : emptyText}</Text>
+        ) : (
+          visibleListings.map(renderListing)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#e9e9eb',
+    borderRadius: 8,
+    padding: 2,
+    marginBottom: 12,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  tabSelected: {
+    backgroundColor: 'white',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  tabTextSelected: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  filters: {
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    marginRight: 12,
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  photoEmoji: {
+    fontSize: 32,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  cardLister: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  statusActive: {
+    color: '#34C759',
+  },
+  favoriteButton: {
+    padding: 8,
+  },
+  favoriteText: {
+    fontSize: 24,
+    color: '#FF3B30',
+  },
+  loading: {
+    marginTop: 24,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,306 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { useCountdown } from '../../hooks/useCountdown';
+import { EMAIL_RESEND_COOLDOWN_SECONDS } from '../../types/auth';
+import { validateEmail } from '../../utils/validation';
+
+/**
+ * ForgotPasswordScreen
+ *
+ * Sends a Firebase password reset email, then confirms where it went.
+ * Resending is held back by a countdown so the inbox isn't flooded.
+ */
+
+interface ForgotPasswordScreenProps {
+  navigation: any;
+}
+
+export const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({ navigation }) => {
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { secondsLeft: cooldown, start: startCooldown } = useCountdown();
+
+  const { resetPassword, loading, error, clearError } = useAuth();
+
+  // Don't leave a reset error behind for the login form
+  useEffect(() => {
+    clearError();
+    return clearError;
+  }, []);
+
+  const checkEmail = (value: string): boolean => {
+    if (!value.trim()) {
+      setEmailError('Email is required');
+      return false;
+    }
+    if (!validateEmail(value.trim())) {
+      setEmailError('Please enter a valid email address');
+      return false;
+    }
+    setEmailError('');
+    return true;
+  };
+
+  const handleEmailChange = (text: string) => {
+    setEmail(text);
+    if (error) {
+      clearError();
+    }
+    if (emailError) {
+      checkEmail(text);
+    }
+  };
+
+  const sendResetEmail = async (address: string) => {
+    try {
+      await resetPassword(address);
+      setSentTo(address);
+      startCooldown(EMAIL_RESEND_COOLDOWN_SECONDS);
+    } catch (error) {
+      // Error is handled by the AuthContext and displayed via the error state
+    }
+  };
+
+  const handleSend = () => {
+    if (!checkEmail(email)) return;
+    sendResetEmail(email.trim().toLowerCase());
+  };
+
+  const handleResend = () => {
+    if (!sentTo || cooldown > 0) return;
+    sendResetEmail(sentTo);
+  };
+
+  const handleUseDifferentEmail = () => {
+    clearError();
+    setSentTo(null);
+  };
+
+  const renderError = () => error && (
+    <View style={styles.authErrorContainer}>
+      <Text style={styles.authErrorText}>{error}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <View style={styles.content}>
+          {sentTo ? (
+            <View style={styles.form}>
+              <Text style={styles.icon}>📬</Text>
+              <Text style={styles.title}>Check Your Email</Text>
+              <Text style={styles.subtitle}>
+                We sent a password reset link to <Text style={styles.emailText}>{sentTo}</Text>.
+                Follow it to choose a new password, then sign in again.
+              </Text>
+
+              {renderError()}
+
+              <TouchableOpacity
+                style={[styles.button, (loading || cooldown > 0) && styles.buttonDisabled]}
+                onPress={handleResend}
+                disabled={loading || cooldown > 0}
+              >
+                {loading ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.buttonText}>
+                    {cooldown > 0 ? `Resend Email in ${cooldown}s` : 'Resend Email'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.secondaryAction}
+                onPress={handleUseDifferentEmail}
+                disabled={loading}
+              >
+                <Text style={styles.secondaryActionText}>Use a different email</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.form}>
+              <Text style={styles.title}>Reset Password</Text>
+              <Text style={styles.subtitle}>
+                Enter the email you signed up with and we'll send you a link to reset your password.
+              </Text>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>Email</Text>
+                <TextInput
+                  style={[styles.input, emailError ? styles.inputError : null]}
+                  placeholder="Enter your email"
+                  value={email}
+                  onChangeText={handleEmailChange}
+                  onBlur={() => email && checkEmail(email)}
+                  onSubmitEditing={handleSend}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoComplete="email"
+                  returnKeyType="send"
+                  editable={!loading}
+                />
+                {emailError ? <Text style={styles.errorText}>{emailError}</Text> : null}
+              </View>
+
+              {renderError()}
+
+              <TouchableOpacity
+                style={[styles.button, loading && styles.buttonDisabled]}
+                onPress={handleSend}
+                disabled={loading}
+              >
+                {loading ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.buttonText}>Send Reset Link</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => navigation.navigate('Login')}
+            >
+              <Text style={styles.linkText}>
+                Remembered it? <Text style={styles.linkTextBold}>Sign in</Text>
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  form: {
+    gap: 20,
+  },
+  icon: {
+    fontSize: 48,
+    textAlign: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: '#1a1a1a',
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    color: '#666',
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  emailText: {
+    fontWeight: '600',
+    color: '#333',
+  },
+  inputContainer: {
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 14,
+    fontSize: 16,
+    backgroundColor: 'white',
+  },
+  inputError: {
+    borderColor: '#FF6B6B',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF6B6B',
+    marginTop: 4,
+  },
+  authErrorContainer: {
+    backgroundColor: '#FFE6E6',
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF6B6B',
+  },
+  authErrorText: {
+    color: '#D63031',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryAction: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  secondaryActionText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  footer: {
+    alignItems: 'center',
+    marginTop: 32,
+  },
+  linkButton: {
+    padding: 8,
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  linkTextBold: {
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
@@ -26,7 +26,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             <Text style={styles.subtitle}>Welcome back! Please sign in to your account.</Text>
           </View>
 
-          <LoginForm />
+          <LoginForm onForgotPassword={() => navigation.navigate('ForgotPassword')} />
 
           <View style={styles.footer}>
             <TouchableOpacity
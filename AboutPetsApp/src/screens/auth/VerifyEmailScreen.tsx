@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { useCountdown } from '../../hooks/useCountdown';
+import { EMAIL_RESEND_COOLDOWN_SECONDS } from '../../types/auth';
+
+/**
+ * VerifyEmailScreen
+ *
+ * Shown instead of the app until the signed-in user confirms their
+ * email address. Once they follow the link, "I've Verified" reloads
+ * the account and lets them in.
+ */
+
+export const VerifyEmailScreen: React.FC = () => {
+  const { user, loading, error, sendVerificationEmail, refreshEmailVerified, signOut, clearError } = useAuth();
+  const { secondsLeft: cooldown, start: startCooldown } = useCountdown();
+  const [notice, setNotice] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    clearError();
+    return clearError;
+  }, []);
+
+  const handleCheck = async () => {
+    setNotice(null);
+    setChecking(true);
+    try {
+      const verified = await refreshEmailVerified();
+      if (!verified) {
+        setNotice("We couldn't confirm your email yet. Open the link in the email, then try again.");
+      }
+      // Once verified the app navigator swaps this screen for the main app
+    } catch (error) {
+      // Error is handled by the AuthContext and displayed via the error state
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (cooldown > 0) return;
+
+    setNotice(null);
+    try {
+      await sendVerificationEmail();
+      setNotice('A new verification email is on its way.');
+      startCooldown(EMAIL_RESEND_COOLDOWN_SECONDS);
+    } catch (error) {
+      // Error is handled by the AuthContext and displayed via the error state
+    }
+  };
+
+  const handleSignOut = () => {
+    signOut().catch(() => {});
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.icon}>✉️</Text>
+        <Text style={styles.title}>Verify Your Email</Text>
+        <Text style={styles.subtitle}>
+          We sent a verification link to <Text style={styles.emailText}>{user?.email}</Text>.
+          Confirm your address to start using About Pets.
+        </Text>
+
+        {notice && <Text style={styles.noticeText}>{notice}</Text>}
+
+        {error && (
+          <View style={styles.authErrorContainer}>
+            <Text style={styles.authErrorText}>{error}</Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.buttonDisabled]}
+          onPress={handleCheck}
+          disabled={loading}
+        >
+          {checking ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.buttonText}>I've Verified</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.secondaryButton, (loading || cooldown > 0) && styles.buttonDisabled]}
+          onPress={handleResend}
+          disabled={loading || cooldown > 0}
+        >
+          {loading && !checking ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <Text style={styles.secondaryButtonText}>
+              {cooldown > 0 ? `Resend Email in ${cooldown}s` : 'Resend Email'}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.linkButton} onPress={handleSignOut} disabled={loading}>
+            <Text style={styles.linkText}>
+              Wrong email? <Text style={styles.linkTextBold}>Sign out</Text>
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    gap: 20,
+  },
+  icon: {
+    fontSize: 48,
+    textAlign: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: '#1a1a1a',
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    color: '#666',
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  emailText: {
+    fontWeight: '600',
+    color: '#333',
+  },
+  noticeText: {
+    fontSize: 14,
+    textAlign: 'center',
+    color: '#666',
+  },
+  authErrorContainer: {
+    backgroundColor: '#FFE6E6',
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF6B6B',
+  },
+  authErrorText: {
+    color: '#D63031',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footer: {
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  linkButton: {
+    padding: 8,
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  linkTextBold: {
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,368 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { usePetActivities } from '../../hooks/usePetActivities';
+import { PetActivityService } from '../../services/petActivityService';
+import { PetService } from '../../services/petService';
+import { PetActivity, PetActivityType, PET_ACTIVITY_TYPES } from '../../types/activity';
+import type { ProfileStackParamList } from '../../types/navigation';
+import {
+  findRecentDuplicate,
+  formatActivity,
+  formatActivityTime,
+  groupActivitiesByDay,
+  summarizeDay,
+} from '../../utils/activityUtils';
+import { isToday, isYesterday } from '../../utils/dateUtils';
+
+/**
+ * PetActivityScreen
+ *
+ * Care log shared by a pet's owner and co-owners. Entries from every
+ * household member appear instantly, with a summary of today on top
+ * and a warning before feeding or medicating twice.
+ */
+
+type PetActivityScreenRouteProp = RouteProp<ProfileStackParamList, 'PetActivity'>;
+
+interface PetActivityScreenProps {
+  route: PetActivityScreenRouteProp;
+  navigation: any;
+}
+
+const formatDayTitle = (date: Date): string => {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return date.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' });
+};
+
+export const PetActivityScreen: React.FC<PetActivityScreenProps> = ({ route, navigation }) => {
+  const { ownerId, petId, petName } = route.params;
+  const { user } = useAuth();
+  const { activities, loading, error } = usePetActivities(ownerId, petId);
+
+  const [type, setType] = useState<PetActivityType>('fed');
+  const [duration, setDuration] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const leavingRef = useRef(false);
+
+  const isOwner = user?.uid === ownerId;
+  const selectedType = PET_ACTIVITY_TYPES.find(option => option.value === type)!;
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: `${petName}'s Log` });
+  }, [navigation, petName]);
+
+  // Leave when the pet is deleted or the user is no longer a co-owner
+  useEffect(() => {
+    if (!user || isOwner) return;
+
+    return PetService.subscribeToPet(ownerId, petId, (pet) => {
+      if (!pet || !pet.coOwnerIds.includes(user.uid)) {
+        if (!leavingRef.current) {
+          Alert.alert('Pet no longer shared', `${petName} is no longer shared with you.`);
+        }
+        navigation.goBack();
+      }
+    });
+  }, [navigation, ownerId, petId, petName, user, isOwner]);
+
+  const today = useMemo(() => summarizeDay(activities, new Date()), [activities]);
+  const days = useMemo(() => groupActivitiesByDay(activities), [activities]);
+
+  const saveActivity = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await PetActivityService.logActivity(ownerId, petId, user, {
+        type,
+        note,
+        durationMinutes: selectedType.tracksDuration ? parseInt(duration, 10) || undefined : undefined,
+        occurredAt: new Date(),
+      });
+      setDuration('');
+      setNote('');
+    } catch (saveError) {
+      Alert.alert('Error', 'Failed to log the activity. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLog = () => {
+    const duplicate = findRecentDuplicate(activities, type);
+    if (!duplicate) {
+      saveActivity();
+      return;
+    }
+
+    Alert.alert(
+      'Already done?',
+      `${formatActivity(duplicate)}. Log it again?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Log Again', onPress: saveActivity },
+      ]
+    );
+  };
+
+  const handleDelete = (activity: PetActivity) => {
+    Alert.alert(
+      'Delete Entry',
+      `Remove "${formatActivity(activity)}" from the log?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await PetActivityService.deleteActivity(ownerId, petId, activity.id);
+            } catch (deleteError) {
+              Alert.alert('Error', 'Failed to delete the entry. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLeave = () => {
+    if (!user) return;
+
+    Alert.alert(
+      'Stop Sharing',
+      `You will no longer see ${petName}'s log. The owner can invite you again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Stop Sharing',
+          style: 'destructive',
+          onPress: async () => {
+            leavingRef.current = true;
+            try {
+              await PetService.removeCoOwner(ownerId, petId, user.uid);
+            } catch (leaveError) {
+              leavingRef.current = false;
+              Alert.alert('Error', 'Failed to stop sharing. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderActivity = (activity: PetActivity) => {
+    const option = PET_ACTIVITY_TYPES.find(item => item.value === activity.type);
+    const canDelete = isOwner || activity.userId === user?.uid;
+
+    return (
+      <TouchableOpacity
+        key={activity.id}
+        style={styles.activityRow}
+        onLongPress={canDelete ? () => handleDelete(activity) : undefined}
+        activeOpacity={canDelete ? 0.7 : 1}
+      >
+        <Text style={styles.activityEmoji}>{option?.emoji || '📝'}</Text>
+        <View style={styles.activityInfo}>
+          <Text style={styles.activityText}>{formatActivity(activity)}</Text>
+          {!!activity.note && <Text style={styles.activityNote}>{activity.note}</Text>}
+        </View>
+        {!!activity.durationMinutes && (
+          <Text style={styles.activityTime}>{formatActivityTime(activity.occurredAt)}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryTitle}>Today</Text>
+            <Text style={styles.summaryLine}>
+              🍖 {today.lastFed ? `${formatActivity(today.lastFed)} (${today.counts.fed}× today)` : 'Not fed yet'}
+            </Text>
+            <Text style={styles.summaryLine}>
+              💊 {today.lastMedication ? formatActivity(today.lastMedication) : 'No meds given yet'}
+            </Text>
+            <Text style={styles.summaryLine}>🦮 {today.activeMinutes} min walked or played</Text>
+          </View>
+
+          <Text style={styles.sectionTitle}>Log activity</Text>
+          <View style={styles.chipRow}>
+            {PET_ACTIVITY_TYPES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, type === option.value && styles.chipSelected]}
+                onPress={() => setType(option.value)}
+              >
+                <Text style={[styles.chipText, type === option.value && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {selectedType.tracksDuration && (
+            <Input
+              label="Minutes"
+              value={duration}
+              onChangeText={setDuration}
+              placeholder="e.g. 30"
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+          )}
+          <Input label="Note" value={note} onChangeText={setNote} placeholder="Optional" maxLength={200} />
+          <Button title={`Log "${selectedType.label}"`} onPress={handleLog} loading={saving} fullWidth />
+
+          <View style={styles.history}>
+            {days.length === 0 && (
+              <Text style={styles.emptyText}>Nothing logged this week. Entries from everyone caring for {petName} show up here.</Text>
+            )}
+            {days.map(day => (
+              <View key={day.date.getTime()} style={styles.day}>
+                <Text style={styles.sectionTitle}>{formatDayTitle(day.date)}</Text>
+                {day.activities.map(renderActivity)}
+              </View>
+            ))}
+          </View>
+
+          {!isOwner && (
+            <Button title="Stop Sharing" variant="danger" onPress={handleLeave} fullWidth />
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  summaryCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 24,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  summaryLine: {
+    fontSize: 15,
+    color: '#333',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e1e1e1',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  history: {
+    marginTop: 24,
+    marginBottom: 16,
+  },
+  day: {
+    marginBottom: 16,
+  },
+  activityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  activityEmoji: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  activityInfo: {
+    flex: 1,
+  },
+  activityText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  activityNote: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  activityTime: {
+    fontSize: 13,
+    color: '#999',
+    marginLeft: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,459 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { usePets } from '../../hooks/usePets';
+import { ReminderService } from '../../services/reminderService';
+import { RecurrenceFrequency, ReminderCategory, ReminderInput, REMINDER_CATEGORIES } from '../../types/reminder';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatDateInput, formatTimeInput, parseDateInput, parseTimeInput } from '../../utils/dateUtils';
+import { describeRecurrence } from '../../utils/recurrenceUtils';
+import { validateReminderForm } from '../../utils/validation';
+
+/**
+ * ReminderFormScreen
+ *
+ * Creates or edits a recurring care reminder for one of the user's pets,
+ * e.g. daily at 8am, every 3 weeks on Monday, or monthly on the 1st.
+ */
+
+type ReminderFormScreenRouteProp = RouteProp<ProfileStackParamList, 'ReminderForm'>;
+
+interface ReminderFormScreenProps {
+  route: ReminderFormScreenRouteProp;
+  navigation: any;
+}
+
+const FREQUENCIES: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'once', label: 'Once', unit: '' },
+  { value: 'daily', label: 'Daily', unit: 'days' },
+  { value: 'weekly', label: 'Weekly', unit: 'weeks' },
+  { value: 'monthly', label: 'Monthly', unit: 'months' },
+];
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export const ReminderFormScreen: React.FC<ReminderFormScreenProps> = ({ route, navigation }) => {
+  const reminderId = route.params?.reminderId;
+  const { user } = useAuth();
+  const { pets } = usePets(user?.uid);
+
+  const [petId, setPetId] = useState<string | null>(route.params?.petId || null);
+  const [title, setTitle] = useState('');
+  const [category, setCategory] = useState<ReminderCategory>('feeding');
+  const [startDate, setStartDate] = useState(formatDateInput(new Date()));
+  const [time, setTime] = useState('08:00');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('daily');
+  const [repeatEvery, setRepeatEvery] = useState('1');
+  const [byWeekday, setByWeekday] = useState<number[]>([]);
+  const [byMonthDay, setByMonthDay] = useState('');
+  const [untilDate, setUntilDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [active, setActive] = useState(true);
+
+  const [loading, setLoading] = useState(!!reminderId);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: reminderId ? 'Edit Reminder' : 'New Reminder' });
+  }, [navigation, reminderId]);
+
+  // Preselect the only pet
+  useEffect(() => {
+    if (!petId && pets.length === 1) {
+      setPetId(pets[0].id);
+    }
+  }, [petId, pets]);
+
+  useEffect(() => {
+    if (!reminderId || !user) return;
+
+    let mounted = true;
+    ReminderService.getReminder(user.uid, reminderId)
+      .then(reminder => {
+        if (!mounted) return;
+        if (!reminder) {
+          Alert.alert('Error', 'This reminder no longer exists.');
+          navigation.goBack();
+          return;
+        }
+
+        setPetId(reminder.petId);
+        setTitle(reminder.title);
+        setCategory(reminder.category);
+        setStartDate(formatDateInput(reminder.startAt));
+        setTime(formatTimeInput(reminder.startAt));
+        setFrequency(reminder.rule.frequency);
+        setRepeatEvery(String(reminder.rule.interval));
+        setByWeekday(reminder.rule.byWeekday || []);
+        setByMonthDay(reminder.rule.byMonthDay ? String(reminder.rule.byMonthDay) : '');
+        setUntilDate(reminder.rule.until ? formatDateInput(reminder.rule.until) : '');
+        setNotes(reminder.notes || '');
+        setActive(reminder.active);
+      })
+      .catch(() => {
+        if (mounted) {
+          Alert.alert('Error', 'Failed to load reminder. Please try again.');
+        }
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [navigation, reminderId, user]);
+
+  const toggleWeekday = (day: number) => {
+    setByWeekday(current =>
+      current.includes(day) ? current.filter(item => item !== day) : [...current, day].sort((a, b) => a - b)
+    );
+  };
+
+  const buildInput = (): ReminderInput | null => {
+    const date = parseDateInput(startDate);
+    const timeOfDay = parseTimeInput(time);
+    if (!date || !timeOfDay) return null;
+
+    const startAt = new Date(date);
+    startAt.setHours(timeOfDay.hours, timeOfDay.minutes, 0, 0);
+    const until = parseDateInput(untilDate);
+    until?.setHours(23, 59, 59, 999);
+    const monthDay = Number(byMonthDay);
+
+    return {
+      petId: petId || '',
+      petName: pets.find(pet => pet.id === petId)?.name || '',
+      title,
+      category,
+      startAt,
+      rule: {
+        frequency,
+        interval: frequency === 'once' ? 1 : Number(repeatEvery) || 1,
+        byWeekday: frequency === 'weekly' && byWeekday.length > 0 ? byWeekday : undefined,
+        byMonthDay: frequency === 'monthly' && monthDay >= 1 && monthDay <= 31 ? monthDay : undefined,
+        until: frequency === 'once' ? undefined : until || undefined,
+      },
+      notes,
+      active,
+    };
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validation = validateReminderForm(petId, title, startDate, time, repeatEvery, untilDate);
+    setErrors(validation.errors);
+    const input = buildInput();
+    if (!validation.isValid || !input) return;
+
+    setSaving(true);
+    try {
+      if (reminderId) {
+        await ReminderService.updateReminder(user.uid, reminderId, input);
+      } else {
+        await ReminderService.addReminder(user.uid, input);
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save reminder. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!user || !reminderId) return;
+
+    Alert.alert(
+      'Delete Reminder',
+      'Are you sure you want to delete this reminder and its history?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            try {
+              await ReminderService.deleteReminder(user.uid, reminderId);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete reminder. Please try again.');
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const preview = buildInput();
+  const unit = FREQUENCIES.find(option => option.value === frequency)?.unit;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Pet</Text>
+          {pets.length === 0 ? (
+            <Text style={styles.hintText}>Add a pet in your profile first.</Text>
+          ) : (
+            <View style={styles.chipRow}>
+              {pets.map(pet => (
+                <TouchableOpacity
+                  key={pet.id}
+                  style={[styles.chip, petId === pet.id && styles.chipSelected]}
+                  onPress={() => setPetId(pet.id)}
+                >
+                  <Text style={[styles.chipText, petId === pet.id && styles.chipTextSelected]}>{pet.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <Text style={styles.label}>Category</Text>
+          <View style={styles.chipRow}>
+            {REMINDER_CATEGORIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, category === option.value && styles.chipSelected]}
+                onPress={() => setCategory(option.value)}
+              >
+                <Text style={[styles.chipText, category === option.value && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input label="Title" required value={title} onChangeText={setTitle} placeholder="e.g. Breakfast" />
+
+          <View style={styles.row}>
+            <View style={styles.rowItem}>
+              <Input
+                label="Starts"
+                required
+                value={startDate}
+                onChangeText={setStartDate}
+                placeholder="YYYY-MM-DD"
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+            </View>
+            <View style={styles.rowItem}>
+              <Input
+                label="Time"
+                required
+                value={time}
+                onChangeText={setTime}
+                placeholder="HH:MM"
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Repeat</Text>
+          <View style={styles.chipRow}>
+            {FREQUENCIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, frequency === option.value && styles.chipSelected]}
+                onPress={() => setFrequency(option.value)}
+              >
+                <Text style={[styles.chipText, frequency === option.value && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {frequency !== 'once' && (
+            <Input
+              label={`Every how many ${unit}?`}
+              value={repeatEvery}
+              onChangeText={setRepeatEvery}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+          )}
+
+          {frequency === 'weekly' && (
+            <>
+              <Text style={styles.label}>On</Text>
+              <View style={styles.chipRow}>
+                {WEEKDAYS.map((label, day) => (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.dayChip, byWeekday.includes(day) && styles.chipSelected]}
+                    onPress={() => toggleWeekday(day)}
+                  >
+                    <Text style={[styles.chipText, byWeekday.includes(day) && styles.chipTextSelected]}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          {frequency === 'monthly' && (
+            <Input
+              label="Day of the month"
+              value={byMonthDay}
+              onChangeText={setByMonthDay}
+              placeholder="Defaults to the start date's day"
+              keyboardType="number-pad"
+              maxLength={2}
+              helperText="Days past the end of a month fall on its last day"
+            />
+          )}
+
+          {frequency !== 'once' && (
+            <Input
+              label="Ends"
+              value={untilDate}
+              onChangeText={setUntilDate}
+              placeholder="YYYY-MM-DD (optional)"
+              keyboardType="numbers-and-punctuation"
+              maxLength={10}
+            />
+          )}
+
+          {preview && <Text style={styles.previewText}>{describeRecurrence(preview.startAt, preview.rule)}</Text>}
+
+          <Input
+            label="Notes"
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="e.g. Half a cup of kibble"
+            multiline
+            style={styles.notesInput}
+          />
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <Button title={reminderId ? 'Save Changes' : 'Add Reminder'} onPress={handleSave} loading={saving} fullWidth />
+          {reminderId && (
+            <View style={styles.deleteButton}>
+              <Button title="Delete Reminder" variant="danger" onPress={handleDelete} disabled={saving} fullWidth />
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  dayChip: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginBottom: 16,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+  deleteButton: {
+    marginTop: 12,
+  },
+});
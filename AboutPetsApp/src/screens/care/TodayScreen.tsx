@@ -0,0 +1,290 @@
+import React, { useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { LoadingSpinner } from '../../components';
+import { useReminders } from '../../hooks/useReminders';
+import { ReminderService, MISSED_LOOKBACK_DAYS } from '../../services/reminderService';
+import { SNOOZE_MINUTES } from '../../services/reminderNotificationService';
+import { ReminderOccurrence, REMINDER_CATEGORIES } from '../../types/reminder';
+import { isToday } from '../../utils/dateUtils';
+import { describeRecurrence } from '../../utils/recurrenceUtils';
+
+/**
+ * TodayScreen
+ *
+ * Agenda of today's care tasks across all pets, tasks missed in the
+ * last week, and the list of all reminders. Tasks can be completed,
+ * snoozed or reopened from here as well as from their notification.
+ */
+
+interface TodayScreenProps {
+  navigation: any;
+}
+
+const formatTime = (date: Date): string => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const { reminders, logs, loading, error } = useReminders(user?.uid);
+  const [now, setNow] = useState(() => new Date());
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity onPress={() => navigation.navigate('ReminderForm')}>
+          <Text style={styles.headerButton}>Add</Text>
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation]);
+
+  // Due and missed states change with the clock
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { missed, today } = useMemo(() => {
+    const todayStart = new Date(now);
+    todayStart.setHours(0, 0, 0, 0);
+    const todayEnd = new Date(todayStart);
+    todayEnd.setDate(todayEnd.getDate() + 1);
+    todayEnd.setMilliseconds(-1);
+    const since = new Date(todayStart);
+    since.setDate(since.getDate() - MISSED_LOOKBACK_DAYS);
+
+    const occurrences = ReminderService.getOccurrences(reminders, logs, since, todayEnd, now);
+    return {
+      missed: occurrences.filter(occurrence => occurrence.status === 'missed').reverse(),
+      today: occurrences.filter(occurrence => occurrence.status !== 'missed' && isToday(occurrence.occurrenceAt)),
+    };
+  }, [reminders, logs, now]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (actionError) {
+      Alert.alert('Error', 'Failed to update the task. Please try again.');
+    }
+  };
+
+  const handleComplete = (occurrence: ReminderOccurrence) => {
+    if (!user) return;
+    runAction(() => ReminderService.completeOccurrence(user.uid, occurrence.reminder.id, occurrence.occurrenceAt));
+  };
+
+  const handleSnooze = (occurrence: ReminderOccurrence) => {
+    if (!user) return;
+    const snoozedUntil = new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000);
+    runAction(() =>
+      ReminderService.snoozeOccurrence(user.uid, occurrence.reminder.id, occurrence.occurrenceAt, snoozedUntil)
+    );
+  };
+
+  const handleReopen = (occurrence: ReminderOccurrence) => {
+    if (!user) return;
+    runAction(() => ReminderService.resetOccurrence(user.uid, occurrence.reminder.id, occurrence.occurrenceAt));
+  };
+
+  const handleToggleActive = (reminderId: string, active: boolean) => {
+    if (!user) return;
+    runAction(() => ReminderService.setActive(user.uid, reminderId, active));
+  };
+
+  const renderOccurrence = (occurrence: ReminderOccurrence) => {
+    const { reminder, occurrenceAt, status, snoozedUntil } = occurrence;
+    const category = REMINDER_CATEGORIES.find(option => option.value === reminder.category);
+    const isDone = status === 'done';
+    const when = isToday(occurrenceAt)
+      ? formatTime(occurrenceAt)
+      : `${occurrenceAt.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })} ${formatTime(occurrenceAt)}`;
+
+    return (
+      <View key={`${reminder.id}-${occurrenceAt.getTime()}`} style={[styles.taskRow, isDone && styles.taskDone]}>
+        <Text style={styles.taskEmoji}>{category?.emoji}</Text>
+        <View style={styles.taskInfo}>
+          <Text style={[styles.taskTitle, isDone && styles.taskTitleDone]} numberOfLines={1}>
+            {reminder.title}
+          </Text>
+          <Text style={styles.taskMeta} numberOfLines={1}>
+            {[when, reminder.petName].filter(Boolean).join(' · ')}
+            {status === 'snoozed' && snoozedUntil ? ` · snoozed until ${formatTime(snoozedUntil)}` : ''}
+          </Text>
+        </View>
+        {isDone ? (
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleReopen(occurrence)}>
+            <Text style={styles.actionText}>Undo</Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleSnooze(occurrence)}>
+              <Text style={styles.actionText}>Snooze</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.doneButton]} onPress={() => handleComplete(occurrence)}>
+              <Text style={[styles.actionText, styles.doneText]}>Done</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const remaining = today.filter(occurrence => occurrence.status !== 'done').length;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {missed.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, styles.missedTitle]}>Missed ({missed.length})</Text>
+            {missed.map(renderOccurrence)}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Today{today.length > 0 ? ` · ${remaining} of ${today.length} left` : ''}
+          </Text>
+          {today.length > 0 ? (
+            today.map(renderOccurrence)
+          ) : (
+            <Text style={styles.emptyText}>Nothing scheduled for today 🎉</Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>All reminders</Text>
+          {reminders.length === 0 && (
+            <Text style={styles.emptyText}>
+              Add reminders for feeding, walks, medication and vaccines to see them here.
+            </Text>
+          )}
+          {reminders.map(reminder => (
+            <TouchableOpacity
+              key={reminder.id}
+              style={styles.reminderRow}
+              onPress={() => navigation.navigate('ReminderForm', { reminderId: reminder.id })}
+            >
+              <View style={styles.taskInfo}>
+                <Text style={[styles.taskTitle, !reminder.active && styles.taskTitleDone]} numberOfLines={1}>
+                  {REMINDER_CATEGORIES.find(option => option.value === reminder.category)?.emoji} {reminder.title}
+                </Text>
+                <Text style={styles.taskMeta} numberOfLines={2}>
+                  {[reminder.petName, describeRecurrence(reminder.startAt, reminder.rule)].filter(Boolean).join(' · ')}
+                </Text>
+              </View>
+              <Switch value={reminder.active} onValueChange={active => handleToggleActive(reminder.id, active)} />
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  missedTitle: {
+    color: '#FF3B30',
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  taskDone: {
+    opacity: 0.6,
+  },
+  taskEmoji: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  taskInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  taskTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  taskTitleDone: {
+    textDecorationLine: 'line-through',
+    color: '#999',
+  },
+  taskMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  actionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    marginLeft: 6,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  doneButton: {
+    backgroundColor: '#007AFF',
+  },
+  doneText: {
+    color: 'white',
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+  },
+});
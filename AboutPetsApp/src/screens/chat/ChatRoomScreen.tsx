@@ -1,29 +1,76 @@
-import React from 'react';
-import { View, StyleSheet, SafeAreaView } from 'react-native';
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import { View, Text, StyleSheet, SafeAreaView } from 'react-native';
 import { RouteProp } from '@react-navigation/native';
 import { ChatRoom } from '../../chat/components/ChatRoom';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { useTypingIndicator } from '../../hooks/useTypingIndicator';
+import { usePresence } from '../../hooks/usePresence';
+import { DynamicChatService } from '../../services/dynamicChatService';
 import type { ChatStackParamList } from '../../types/navigation';
 
 /**
  * ChatRoomScreen
  * 
  * Screen that displays an individual chat room with messages.
- * Wraps the ChatRoom component and provides screen-level context.
+ * Wraps the ChatRoom component and provides screen-level context,
+ * including the typing indicator and, for direct chats, the other
+ * participant's online status shown in the header.
  */
 
 type ChatRoomScreenRouteProp = RouteProp<ChatStackParamList, 'Chat'>;
 
 interface ChatRoomScreenProps {
   route: ChatRoomScreenRouteProp;
+  navigation: any;
 }
 
-export const ChatRoomScreen: React.FC<ChatRoomScreenProps> = ({ route }) => {
-  const { chatId } = route.params;
+export const ChatRoomScreen: React.FC<ChatRoomScreenProps> = ({ route, navigation }) => {
+  const { chatId, chatName, messageId } = route.params;
+  const { user } = useAuth();
+  const { typingText, onTextChange } = useTypingIndicator(
+    chatId,
+    user?.uid || null,
+    user?.displayName || 'Anonymous'
+  );
+  const [otherUserId, setOtherUserId] = useState<string | null>(null);
+  const { statusText } = usePresence(otherUserId);
+
+  // Direct chats show the other participant's presence
+  useEffect(() => {
+    let mounted = true;
+
+    DynamicChatService.getChatById(chatId).then(chat => {
+      if (mounted && chat?.type === 'direct') {
+        setOtherUserId(chat.participantIds.find(id => id !== user?.uid) || null);
+      }
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [chatId, user?.uid]);
+
+  const subtitle = typingText || statusText;
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: () => (
+        <View style={styles.headerTitleContainer}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{chatName || 'Chat'}</Text>
+          {subtitle && (
+            <Text style={[styles.headerSubtitle, !typingText && styles.headerPresence]} numberOfLines={1}>
+              {subtitle}
+            </Text>
+          )}
+        </View>
+      ),
+    });
+  }, [navigation, chatName, subtitle, typingText]);
 
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
-        <ChatRoom chatId={chatId} />
+        <ChatRoom chatId={chatId} initialMessageId={messageId} onInputChange={onTextChange} />
       </View>
     </SafeAreaView>
   );
@@ -37,4 +84,20 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  headerTitleContainer: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    color: 'white',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  headerSubtitle: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  headerPresence: {
+    fontStyle: 'normal',
+  },
 });
\ No newline at end of file
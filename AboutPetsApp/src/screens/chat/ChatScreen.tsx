@@ -11,13 +11,19 @@ import {
   Alert,
   Dimensions,
   ListRenderItemInfo,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { RouteProp, useRoute } from '@react-navigation/native';
-import { Message } from '../../types/chat';
-import { ChatFirestoreService } from '../../services/chatFirestoreService';
-import { MessageCacheService } from '../../services/messageCacheService';
+import { RouteProp, useIsFocused, useRoute } from '@react-navigation/native';
+import { Message, MessageReply, PickedAttachment } from '../../types/chat';
+import { AttachmentService } from '../../services/attachmentService';
 import MessageBubble from '../../components/MessageBubble';
+import { SwipeToReply } from '../../components/SwipeToReply';
+import { ReplyPreview } from '../../components/ReplyPreview';
+import { createMessageReply } from '../../utils/replyUtils';
+import { useChatMessages } from '../../hooks/useChatMessages';
+import { useReadReceipts } from '../../hooks/useReadReceipts';
+import { useTypingIndicator } from '../../hooks/useTypingIndicator';
 
 const { height: screenHeight } = Dimensions.get('window');
 
@@ -45,58 +51,56 @@ const ChatScreen: React.FC<ChatScreenProps> = ({
   const route = useRoute<ChatScreenRouteProp>();
   const { chatId, chatName } = route.params;
 
-  const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<MessageReply | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [scrollTargetId, setScrollTargetId] = useState<string | null>(null);
   
   const flatListRef = useRef<FlatList>(null);
-  const unsubscribeRef = useRef<(() => void) | null>(null);
 
-  // Load cached messages on mount
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    error,
+    hasMore,
+    sendMessage: sendChatMessage,
+    sendAttachment,
+    retryMessage,
+    toggleReaction,
+    editMessage,
+    deleteMessage,
+    loadOlderMessages,
+    loadUntilMessage,
+    reconnect,
+  } = useChatMessages({
+    chatId,
+    currentUserId,
+    currentUserName,
+  });
+
+  const { typingText, onTextChange, stopTyping } = useTypingIndicator(chatId, currentUserId, currentUserName);
+
+  const handleChangeText = useCallback((text: string) => {
+    setInputText(text);
+    onTextChange(text);
+  }, [onTextChange]);
+
+  const isFocused = useIsFocused();
+  const { isGroup, markAsRead, getReceiptStatus, getSeenBy } = useReadReceipts(chatId, currentUserId);
+
+  // Mark incoming messages as read while the chat is on screen
   useEffect(() => {
-    const loadCachedMessages = async () => {
-      try {
-        const cachedMessages = await MessageCacheService.loadMessages(chatId);
-        if (cachedMessages.length > 0) {
-          setMessages(cachedMessages);
-          setLoading(false);
-        }
-      } catch (error) {
-        console.error('Error loading cached messages:', error);
-      }
-    };
-
-    loadCachedMessages();
-  }, [chatId]);
-
-  // Subscribe to real-time messages
-  useEffect(() => {
-    const unsubscribe = ChatFirestoreService.subscribeToMessages(
-      chatId,
-      (newMessages: Message[]) => {
-        setMessages(newMessages);
-        setLoading(false);
-        setError(null);
-        
-        // Save to cache (async, but don't await to avoid blocking UI)
-        MessageCacheService.saveMessages(chatId, newMessages).catch(error => {
-          console.error('Error saving messages to cache:', error);
-        });
-      },
-      (err: Error) => {
-        console.error('Real-time listener error:', err);
-        setError('Failed to load messages');
-        setLoading(false);
-      }
-    );
-
-    unsubscribeRef.current = unsubscribe;
+    if (isFocused) {
+      markAsRead(messages);
+    }
+  }, [isFocused, messages, markAsRead]);
 
-    return () => {
-      unsubscribe();
-    };
-  }, [chatId]);
+  // Messages are newest first, so the first own message is the latest
+  const latestOwnMessageId = useMemo(
+    () => messages.find(message => message.senderId === currentUserId)?.id,
+    [messages, currentUserId]
+  );
 
   // Optimized item layout for better performance
   const getItemLayout = useCallback((_data: ArrayLike<Message> | null | undefined, index: number) => ({
@@ -105,124 +109,173 @@ const ChatScreen: React.FC<ChatScreenProps> = ({
     index,
   }), []);
 
+  const handleRetryMessage = useCallback(async (message: Message) => {
+    try {
+      await retryMessage(message);
+    } catch (error) {
+      console.error('Failed to retry message:', error);
+      Alert.alert('Error', 'Failed to send message. Please try again.');
+    }
+  }, [retryMessage]);
+
+  const handleReact = useCallback(async (message: Message, emoji: string) => {
+    try {
+      await toggleReaction(message, emoji);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update reaction. Please try again.');
+    }
+  }, [toggleReaction]);
+
+  const handleEdit = useCallback((message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setInputText(message.text);
+  }, []);
+
+  const cancelEdit = useCallback(() => {
+    setEditingMessage(null);
+    setInputText('');
+  }, []);
+
+  const handleDelete = useCallback((message: Message) => {
+    Alert.alert('Delete message?', 'This message will be removed for everyone in the chat.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteMessage(message);
+          } catch (error) {
+            Alert.alert('Error', 'Failed to delete message. Please try again.');
+          }
+        },
+      },
+    ]);
+  }, [deleteMessage]);
+
+  // Jump to a quoted message, paging in older history if it is not loaded yet
+  const handlePressReply = useCallback(async (reply: MessageReply) => {
+    const found = messages.some(message => message.id === reply.id) || await loadUntilMessage(reply.id);
+    if (found) {
+      setScrollTargetId(reply.id);
+    } else {
+      Alert.alert('Message unavailable', 'The original message could not be found.');
+    }
+  }, [messages, loadUntilMessage]);
+
+  // Scroll once the target message has been rendered into the list
+  useEffect(() => {
+    if (!scrollTargetId) return;
+
+    const index = messages.findIndex(message => message.id === scrollTargetId);
+    if (index >= 0) {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+      setScrollTargetId(null);
+    }
+  }, [messages, scrollTargetId]);
+
   // Memoized render item for performance
   const renderMessage = useCallback(({ item }: ListRenderItemInfo<Message>) => {
     const isOwn = item.senderId === currentUserId;
+    const showSeenBy = isOwn && isGroup && item.id === latestOwnMessageId;
     return (
-      <MessageBubble
-        message={item}
-        isOwn={isOwn}
-        currentUserId={currentUserId}
-      />
+      <SwipeToReply onReply={() => setReplyingTo(createMessageReply(item))} enabled={!!item.id && !item.deleted}>
+        <MessageBubble
+          message={isOwn ? { ...item, status: getReceiptStatus(item) } : item}
+          isOwn={isOwn}
+          currentUserId={currentUserId}
+          seenBy={showSeenBy ? getSeenBy(item) : undefined}
+          onRetry={handleRetryMessage}
+          onReact={handleReact}
+          onPressReply={handlePressReply}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+        />
+      </SwipeToReply>
     );
-  }, [currentUserId]);
+  }, [
+    currentUserId,
+    isGroup,
+    latestOwnMessageId,
+    getReceiptStatus,
+    getSeenBy,
+    handleRetryMessage,
+    handleReact,
+    handlePressReply,
+    handleEdit,
+    handleDelete,
+  ]);
 
   // Memoized key extractor
   const keyExtractor = useCallback((item: Message, index: number) => {
     return item.id || `temp-${index}-${item.timestamp.getTime()}`;
   }, []);
 
-  // Send message with optimistic update
+  // Send message (optimistic update is handled by useChatMessages)
   const sendMessage = useCallback(async () => {
     if (!inputText.trim()) return;
 
     const messageText = inputText.trim();
+    const replyTo = replyingTo || undefined;
     setInputText('');
+    setReplyingTo(null);
+    stopTyping();
 
-    // Create temporary message for optimistic update
-    const tempMessage: Message = {
-      id: `temp-${Date.now()}`,
-      text: messageText,
-      senderId: currentUserId,
-      senderName: currentUserName,
-      timestamp: new Date(),
-      chatId,
-      status: 'sending',
-    };
-
-    // Optimistic update - add message to local state immediately
-    setMessages(prevMessages => [tempMessage, ...prevMessages]);
+    if (editingMessage) {
+      setEditingMessage(null);
+      try {
+        await editMessage(editingMessage, messageText);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to edit message.');
+      }
+      return;
+    }
 
     try {
-      // Send to Firestore
-      const messageId = await ChatFirestoreService.sendMessage({
-        text: messageText,
-        senderId: currentUserId,
-        senderName: currentUserName,
-        chatId,
-      });
-
-      // Update local message with real ID and sent status
-      setMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === tempMessage.id
-            ? { ...msg, id: messageId, status: 'sent' }
-            : msg
-        )
-      );
+      await sendChatMessage(messageText, replyTo);
     } catch (error) {
       console.error('Failed to send message:', error);
-      
-      // Update message status to failed
-      setMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === tempMessage.id
-            ? { ...msg, status: 'failed' }
-            : msg
-        )
-      );
-
       Alert.alert('Error', 'Failed to send message. Please try again.');
     }
-  }, [inputText, currentUserId, currentUserName, chatId]);
-
-  // Retry failed message functionality (currently unused but available for future features)
-  const retryFailedMessage = useCallback(async (message: Message) => {
-    if (message.status !== 'failed') return;
-
-    // Update status to sending
-    setMessages(prevMessages =>
-      prevMessages.map(msg =>
-        msg.id === message.id
-          ? { ...msg, status: 'sending' }
-          : msg
-      )
-    );
+  }, [inputText, replyingTo, editingMessage, editMessage, sendChatMessage, stopTyping]);
 
+  const pickAndSendAttachment = useCallback(async (pick: () => Promise<PickedAttachment | null>) => {
     try {
-      const messageId = await ChatFirestoreService.sendMessage({
-        text: message.text,
-        senderId: message.senderId,
-        senderName: message.senderName,
-        chatId: message.chatId,
-      });
-
-      // Update with real ID and sent status
-      setMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === message.id
-            ? { ...msg, id: messageId, status: 'sent' }
-            : msg
-        )
-      );
+      const attachment = await pick();
+      if (attachment) {
+        const replyTo = replyingTo || undefined;
+        setReplyingTo(null);
+        await sendAttachment(attachment, undefined, replyTo);
+      }
     } catch (error) {
-      console.error('Failed to retry message:', error);
-      
-      // Update status back to failed
-      setMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === message.id
-            ? { ...msg, status: 'failed' }
-            : msg
-        )
-      );
-
-      Alert.alert('Error', 'Failed to send message. Please try again.');
+      console.error('Failed to send attachment:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send attachment.');
     }
-  }, []);
+  }, [replyingTo, sendAttachment]);
+
+  const handleAttach = useCallback(() => {
+    Alert.alert('Share', 'What would you like to send?', [
+      { text: 'Photo', onPress: () => pickAndSendAttachment(AttachmentService.pickImage) },
+      { text: 'Document', onPress: () => pickAndSendAttachment(AttachmentService.pickDocument) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [pickAndSendAttachment]);
+
+  // Older history is at the top of the inverted list, i.e. its end
+  const handleEndReached = useCallback(() => {
+    if (hasMore && !loadingOlder) {
+      loadOlderMessages();
+    }
+  }, [hasMore, loadingOlder, loadOlderMessages]);
 
-  // Keep retryFailedMessage available for future use
-  console.log('Retry function available:', !!retryFailedMessage);
+  const renderHistoryLoader = useCallback(() => (
+    loadingOlder ? (
+      <View style={styles.historyLoader}>
+        <ActivityIndicator size="small" color="#007AFF" />
+      </View>
+    ) : null
+  ), [loadingOlder]);
 
   // Memoized FlatList for performance
   const messagesList = useMemo(() => (
@@ -239,10 +292,13 @@ const ChatScreen: React.FC<ChatScreenProps> = ({
       updateCellsBatchingPeriod={50}
       removeClippedSubviews={true}
       initialNumToRender={15}
+      onEndReached={handleEndReached}
+      onEndReachedThreshold={0.3}
+      ListFooterComponent={renderHistoryLoader}
       style={styles.messagesList}
       contentContainerStyle={styles.messagesContainer}
     />
-  ), [messages, renderMessage, keyExtractor, getItemLayout]);
+  ), [messages, renderMessage, keyExtractor, getItemLayout, handleEndReached, renderHistoryLoader]);
 
   if (loading && messages.length === 0) {
     return (
@@ -267,10 +323,7 @@ const ChatScreen: React.FC<ChatScreenProps> = ({
           <Text style={styles.errorText}>{error}</Text>
           <TouchableOpacity
             style={styles.retryButton}
-            onPress={() => {
-              setError(null);
-              setLoading(true);
-            }}
+            onPress={reconnect}
           >
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
@@ -283,7 +336,9 @@ const ChatScreen: React.FC<ChatScreenProps> = ({
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>{chatName}</Text>
-        {error && (
+        {typingText ? (
+          <Text style={styles.headerTyping}>{typingText}</Text>
+        ) : error && (
           <Text style={styles.headerError}>Connection issues</Text>
         )}
       </View>
@@ -295,11 +350,24 @@ const ChatScreen: React.FC<ChatScreenProps> = ({
       >
         {messagesList}
 
+        {editingMessage ? (
+          <ReplyPreview reply={createMessageReply(editingMessage)} title="Editing message" onCancel={cancelEdit} />
+        ) : replyingTo && (
+          <ReplyPreview reply={replyingTo} onCancel={() => setReplyingTo(null)} />
+        )}
+
         <View style={styles.inputContainer}>
+          <TouchableOpacity
+            style={styles.attachButton}
+            onPress={handleAttach}
+            disabled={!!editingMessage}
+          >
+            <Text style={styles.attachButtonText}>📎</Text>
+          </TouchableOpacity>
           <TextInput
             style={styles.textInput}
             value={inputText}
-            onChangeText={setInputText}
+            onChangeText={handleChangeText}
             placeholder="Type a message..."
             placeholderTextColor="#999"
             multiline
@@ -316,7 +384,7 @@ const ChatScreen: React.FC<ChatScreenProps> = ({
             onPress={sendMessage}
             disabled={!inputText.trim()}
           >
-            <Text style={styles.sendButtonText}>Send</Text>
+            <Text style={styles.sendButtonText}>{editingMessage ? 'Save' : 'Send'}</Text>
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
@@ -342,6 +410,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#000',
   },
+  headerTyping: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
   headerError: {
     fontSize: 12,
     color: '#FF3B30',
@@ -357,6 +431,10 @@ const styles = StyleSheet.create({
   messagesContainer: {
     paddingVertical: 8,
   },
+  historyLoader: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -393,6 +471,16 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#E0E0E0',
   },
+  attachButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  attachButtonText: {
+    fontSize: 22,
+  },
   textInput: {
     flex: 1,
     borderWidth: 1,
@@ -14,8 +14,11 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { RouteProp, useRoute } from '@react-navigation/native';
-import { Message } from '../../types/chat';
+import { Message, MessageReply } from '../../types/chat';
 import MessageBubble from '../../components/MessageBubble';
+import { SwipeToReply } from '../../components/SwipeToReply';
+import { ReplyPreview } from '../../components/ReplyPreview';
+import { createMessageReply } from '../../utils/replyUtils';
 import { useChatMessages } from '../../hooks/useChatMessages';
 
 const { height: screenHeight } = Dimensions.get('window');
@@ -45,11 +48,22 @@ const ChatScreenSimple: React.FC<ChatScreenSimpleProps> = ({
   const { chatId, chatName } = route.params;
 
   const [inputText, setInputText] = useState('');
+  const [replyingTo, setReplyingTo] = useState<MessageReply | null>(null);
   
   const flatListRef = useRef<FlatList>(null);
 
   // Use custom hook for chat functionality
-  const { messages, loading, error, sendMessage, retryMessage } = useChatMessages({
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    error,
+    hasMore,
+    sendMessage,
+    retryMessage,
+    loadOlderMessages,
+    reconnect,
+  } = useChatMessages({
     chatId,
     currentUserId,
     currentUserName,
@@ -66,11 +80,13 @@ const ChatScreenSimple: React.FC<ChatScreenSimpleProps> = ({
   const renderMessage = useCallback(({ item }: ListRenderItemInfo<Message>) => {
     const isOwn = item.senderId === currentUserId;
     return (
-      <MessageBubble
-        message={item}
-        isOwn={isOwn}
-        currentUserId={currentUserId}
-      />
+      <SwipeToReply onReply={() => setReplyingTo(createMessageReply(item))} enabled={!!item.id}>
+        <MessageBubble
+          message={item}
+          isOwn={isOwn}
+          currentUserId={currentUserId}
+        />
+      </SwipeToReply>
     );
   }, [currentUserId]);
 
@@ -84,15 +100,17 @@ const ChatScreenSimple: React.FC<ChatScreenSimpleProps> = ({
     if (!inputText.trim()) return;
 
     const messageText = inputText.trim();
+    const replyTo = replyingTo || undefined;
     setInputText('');
+    setReplyingTo(null);
 
     try {
-      await sendMessage(messageText);
+      await sendMessage(messageText, replyTo);
     } catch (error) {
       console.error('Failed to send message:', error);
       Alert.alert('Error', 'Failed to send message. Please try again.');
     }
-  }, [inputText, sendMessage]);
+  }, [inputText, replyingTo, sendMessage]);
 
   // Handle retry message (available for future features like tap-to-retry)
   const handleRetryMessage = useCallback(async (message: Message) => {
@@ -107,6 +125,13 @@ const ChatScreenSimple: React.FC<ChatScreenSimpleProps> = ({
   // Keep function available for future use
   console.log('Retry handler available:', !!handleRetryMessage);
 
+  // Page in older history when the top of the inverted list is reached
+  const handleEndReached = useCallback(() => {
+    if (hasMore && !loadingOlder) {
+      loadOlderMessages();
+    }
+  }, [hasMore, loadingOlder, loadOlderMessages]);
+
   // Memoized FlatList for performance
   const messagesList = useMemo(() => (
     <FlatList
@@ -122,10 +147,12 @@ const ChatScreenSimple: React.FC<ChatScreenSimpleProps> = ({
       updateCellsBatchingPeriod={50}
       removeClippedSubviews={true}
       initialNumToRender={15}
+      onEndReached={handleEndReached}
+      onEndReachedThreshold={0.3}
       style={styles.messagesList}
       contentContainerStyle={styles.messagesContainer}
     />
-  ), [messages, renderMessage, keyExtractor, getItemLayout]);
+  ), [messages, renderMessage, keyExtractor, getItemLayout, handleEndReached]);
 
   if (loading && messages.length === 0) {
     return (
@@ -150,10 +177,7 @@ const ChatScreenSimple: React.FC<ChatScreenSimpleProps> = ({
           <Text style={styles.errorText}>{error}</Text>
           <TouchableOpacity
             style={styles.retryButton}
-            onPress={() => {
-              // Trigger reconnection by remounting the hook
-              window.location.reload?.();
-            }}
+            onPress={reconnect}
           >
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
@@ -178,6 +202,10 @@ const ChatScreenSimple: React.FC<ChatScreenSimpleProps> = ({
       >
         {messagesList}
 
+        {replyingTo && (
+          <ReplyPreview reply={replyingTo} onCancel={() => setReplyingTo(null)} />
+        )}
+
         <View style={styles.inputContainer}>
           <TextInput
             style={styles.textInput}
@@ -14,11 +14,20 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../../auth/hooks/useAuth';
 import { UserService } from '../../services/userService';
 import { DynamicChatService, DynamicChat } from '../../services/dynamicChatService';
+import { ChatFirestoreService } from '../../services/chatFirestoreService';
 
 interface DynamicChatListScreenProps {
   navigation: any;
 }
 
+// Whether the chat's last message from someone else is newer than the given cursor
+const hasIncomingAfter = (chat: DynamicChat, userId: string, cursor?: Date): boolean => {
+  if (!chat.lastMessage || chat.lastMessage.senderId === userId) {
+    return false;
+  }
+  return !cursor || cursor.getTime() < chat.lastMessage.timestamp.getTime();
+};
+
 const DynamicChatListScreen: React.FC<DynamicChatListScreenProps> = ({ navigation }) => {
   const { user } = useAuth();
   const [chats, setChats] = useState<DynamicChat[]>([]);
@@ -44,6 +53,11 @@ const DynamicChatListScreen: React.FC<DynamicChatListScreenProps> = ({ navigatio
           setChats(userChats);
           setLoading(false);
         }
+
+        // Receiving the chat list means new messages reached this device
+        userChats
+          .filter(chat => hasIncomingAfter(chat, user.uid, chat.deliveredTo?.[user.uid]))
+          .forEach(chat => ChatFirestoreService.markAsDelivered(chat.id, user.uid));
       },
       (error) => {
         console.error('Error loading chats:', error);
@@ -139,6 +153,10 @@ const DynamicChatListScreen: React.FC<DynamicChatListScreenProps> = ({ navigatio
     navigation.navigate('UserDiscovery');
   }, [navigation]);
 
+  const navigateToSearch = useCallback(() => {
+    navigation.navigate('MessageSearch');
+  }, [navigation]);
+
   const formatLastMessageTime = (timestamp: Date): string => {
     const now = new Date();
     const diff = now.getTime() - timestamp.getTime();
@@ -220,7 +238,9 @@ const DynamicChatListScreen: React.FC<DynamicChatListScreenProps> = ({ navigatio
         </View>
 
         <View style={styles.chatMeta}>
-          <View style={styles.unreadIndicator} />
+          {user && hasIncomingAfter(item, user.uid, item.readBy?.[user.uid]) && (
+            <View style={styles.unreadIndicator} />
+          )}
         </View>
       </TouchableOpacity>
     );
@@ -257,12 +277,20 @@ const DynamicChatListScreen: React.FC<DynamicChatListScreenProps> = ({ navigatio
       <View style={styles.header}>
         <View style={styles.titleContainer}>
           <Text style={styles.title}>Chats</Text>
-          <TouchableOpacity
-            style={styles.newChatButton}
-            onPress={navigateToUserDiscovery}
-          >
-            <Text style={styles.newChatButtonText}>+</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.searchButton}
+              onPress={navigateToSearch}
+            >
+              <Text style={styles.searchButtonText}>🔍</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.newChatButton}
+              onPress={navigateToUserDiscovery}
+            >
+              <Text style={styles.newChatButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
         </View>
       </View>
 
@@ -301,6 +329,22 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F2F2F7',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  searchButtonText: {
+    fontSize: 16,
+  },
   newChatButton: {
     width: 36,
     height: 36,
@@ -0,0 +1,211 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SectionListRenderItemInfo,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { useMessageSearch } from '../../hooks/useMessageSearch';
+import { Message } from '../../types/chat';
+import { splitHighlights } from '../../utils/searchUtils';
+import { formatChatListTime } from '../../utils/dateUtils';
+
+/**
+ * MessageSearchScreen
+ *
+ * Finds messages by keyword across all of the user's chats.
+ * Results are grouped by chat with matches highlighted;
+ * tapping a result opens the chat scrolled to that message.
+ */
+
+interface MessageSearchScreenProps {
+  navigation: any;
+}
+
+interface SearchSection {
+  chatId: string;
+  chatName: string;
+  data: Message[];
+}
+
+const MessageSearchScreen: React.FC<MessageSearchScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const { searchQuery, setSearchQuery, results, searching, error } = useMessageSearch(user?.uid || null);
+
+  const sections = useMemo<SearchSection[]>(
+    () => results.map(group => ({ chatId: group.chatId, chatName: group.chatName, data: group.messages })),
+    [results]
+  );
+
+  const openMessage = useCallback((section: SearchSection, message: Message) => {
+    navigation.navigate('Chat', {
+      chatId: section.chatId,
+      chatName: section.chatName,
+      messageId: message.id,
+    });
+  }, [navigation]);
+
+  const renderResult = useCallback(({ item, section }: SectionListRenderItemInfo<Message, SearchSection>) => (
+    <TouchableOpacity style={styles.resultItem} onPress={() => openMessage(section, item)}>
+      <View style={styles.resultHeader}>
+        <Text style={styles.senderName} numberOfLines={1}>{item.senderName}</Text>
+        <Text style={styles.resultTime}>{formatChatListTime(item.timestamp)}</Text>
+      </View>
+      <Text style={styles.resultText} numberOfLines={2}>
+        {splitHighlights(item.text || item.metadata?.fileName || '', searchQuery).map((segment, index) => (
+          <Text key={index} style={segment.highlight && styles.highlight}>
+            {segment.text}
+          </Text>
+        ))}
+      </Text>
+    </TouchableOpacity>
+  ), [openMessage, searchQuery]);
+
+  const renderSectionHeader = useCallback(({ section }: { section: SearchSection }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionTitle} numberOfLines={1}>{section.chatName}</Text>
+      <Text style={styles.sectionCount}>{section.data.length}</Text>
+    </View>
+  ), []);
+
+  const renderEmptyState = () => {
+    if (searching) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>
+          {error || (searchQuery.trim() ? 'No messages found' : 'Search messages in all your chats')}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <View style={styles.searchContainer}>
+        <TextInput
+          style={styles.searchInput}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder="Search messages..."
+          placeholderTextColor="#999"
+          autoFocus
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+        {searching && <ActivityIndicator style={styles.searchSpinner} size="small" color="#007AFF" />}
+      </View>
+
+      <SectionList
+        sections={sections}
+        renderItem={renderResult}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={(item, index) => item.id || `${item.chatId}-${index}`}
+        ListEmptyComponent={renderEmptyState}
+        keyboardShouldPersistTaps="handled"
+        stickySectionHeadersEnabled
+        contentContainerStyle={sections.length === 0 && styles.emptyList}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  searchSpinner: {
+    marginLeft: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#F8F8F8',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sectionCount: {
+    fontSize: 12,
+    color: '#999',
+    marginLeft: 8,
+  },
+  resultItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E0E0E0',
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  senderName: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  resultTime: {
+    fontSize: 12,
+    color: '#999',
+    marginLeft: 8,
+  },
+  resultText: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 20,
+  },
+  highlight: {
+    backgroundColor: '#FFF3B0',
+    fontWeight: '600',
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
+
+export default MessageSearchScreen;
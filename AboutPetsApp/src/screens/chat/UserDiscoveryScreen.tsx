@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,13 +13,75 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../../auth/hooks/useAuth';
-import { UserService, UserProfile } from '../../services/userService';
+import { UserService, UserProfile, UserSearchCursor, UserSearchPage } from '../../services/userService';
 import { DynamicChatService } from '../../services/dynamicChatService';
+import { usePresence } from '../../hooks/usePresence';
+import { PET_TYPES } from '../../types/pet';
 
 interface UserDiscoveryScreenProps {
   navigation: any;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+// Filtered pages can come back empty, so look a few pages ahead before giving up
+const MAX_PAGES_PER_FETCH = 3;
+
+interface UserRowProps {
+  item: UserProfile;
+  onPress: (profile: UserProfile) => void;
+}
+
+/**
+ * A discoverable user with live presence
+ */
+const UserRow: React.FC<UserRowProps> = React.memo(({ item, onPress }) => {
+  const { isOnline, statusText } = usePresence(item.uid);
+
+  return (
+    <TouchableOpacity
+      style={styles.userItem}
+      onPress={() => onPress(item)}
+    >
+      <View style={styles.userAvatar}>
+        {item.photoURL ? (
+          <Image source={{ uri: item.photoURL }} style={styles.avatarImage} />
+        ) : (
+          <View style={[styles.avatarImage, styles.avatarPlaceholder]}>
+            <Text style={styles.avatarText}>
+              {item.displayName.charAt(0).toUpperCase()}
+            </Text>
+          </View>
+        )}
+        <View style={[styles.onlineIndicator, isOnline ? styles.online : styles.offline]} />
+      </View>
+      
+      <View style={styles.userInfo}>
+        <Text style={styles.userName}>{item.displayName}</Text>
+        {statusText && (
+          <Text style={[styles.presenceText, isOnline && styles.presenceTextOnline]}>{statusText}</Text>
+        )}
+        <Text style={styles.userBio} numberOfLines={1}>{item.bio}</Text>
+        <View style={styles.petInfo}>
+          <Text style={styles.petCount}>🐾 {item.petCount || 0} pets</Text>
+          <View style={styles.petTypes}>
+            {item.petTypes?.slice(0, 2).map((petType, index) => (
+              <Text key={petType} style={styles.petType}>
+                {petType}{index < (item.petTypes?.length || 0) - 1 && index < 1 ? ', ' : ''}
+              </Text>
+            ))}
+          </View>
+        </View>
+      </View>
+      
+      <View style={styles.chatButton}>
+        <Text style={styles.chatButtonText}>💬</Text>
+      </View>
+    </TouchableOpacity>
+  );
+});
+
+UserRow.displayName = 'UserRow';
+
 const UserDiscoveryScreen: React.FC<UserDiscoveryScreenProps> = ({ navigation }) => {
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
@@ -28,8 +90,12 @@ const UserDiscoveryScreen: React.FC<UserDiscoveryScreenProps> = ({ navigation })
   const [loading, setLoading] = useState(true);
   const [searching, setSearching] = useState(false);
   const [selectedPetFilter, setSelectedPetFilter] = useState<string | null>(null);
-
-  const petTypes = ['dogs', 'cats', 'birds', 'fish', 'reptiles', 'small-pets'];
+  const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const searchCursorRef = useRef<UserSearchCursor | null>(null);
+  // Ignore responses of searches that were superseded by newer input
+  const searchIdRef = useRef(0);
 
   // Load all users on mount
   useEffect(() => {
@@ -52,33 +118,93 @@ const UserDiscoveryScreen: React.FC<UserDiscoveryScreenProps> = ({ navigation })
     loadUsers();
   }, [user]);
 
-  // Handle search
-  const handleSearch = useCallback(async (term: string) => {
+  const fetchSearchResults = useCallback(async (
+    term: string,
+    cursor: UserSearchCursor | null
+  ): Promise<UserSearchPage> => {
+    const users: UserProfile[] = [];
+    let page: UserSearchPage = { users: [], cursor, hasMore: true };
+
+    for (let i = 0; i < MAX_PAGES_PER_FETCH && users.length === 0 && page.hasMore; i++) {
+      page = await UserService.searchUsers(term, user!.uid, page.cursor);
+      users.push(...page.users);
+    }
+
+    return { ...page, users };
+  }, [user]);
+
+  // Run a debounced search whenever the term changes
+  useEffect(() => {
     if (!user) return;
 
-    setSearchTerm(term);
-    
-    if (!term.trim()) {
-      // If search is empty, show all users or filtered users
-      if (selectedPetFilter) {
-        const petFilteredUsers = await UserService.getUsersByPetType(selectedPetFilter, user.uid);
-        setFilteredUsers(petFilteredUsers);
-      } else {
-        setFilteredUsers(users);
-      }
+    const searchId = ++searchIdRef.current;
+    searchCursorRef.current = null;
+    setSearchResults([]);
+    setHasMoreResults(false);
+
+    if (!searchTerm.trim()) {
+      setSearching(false);
       return;
     }
 
+    setSearching(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const page = await fetchSearchResults(searchTerm, null);
+        if (searchId !== searchIdRef.current) return;
+
+        searchCursorRef.current = page.cursor;
+        setSearchResults(page.users);
+        setHasMoreResults(page.hasMore);
+      } catch (error) {
+        console.error('Error searching users:', error);
+      } finally {
+        if (searchId === searchIdRef.current) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [user, searchTerm, fetchSearchResults]);
+
+  // Load the next page of search results
+  const loadMoreResults = useCallback(async () => {
+    if (!searchTerm.trim() || !hasMoreResults || searching || loadingMore) return;
+
+    const searchId = searchIdRef.current;
+    setLoadingMore(true);
+
     try {
-      setSearching(true);
-      const searchResults = await UserService.searchUsers(term, user.uid);
-      setFilteredUsers(searchResults);
+      const page = await fetchSearchResults(searchTerm, searchCursorRef.current);
+      if (searchId !== searchIdRef.current) return;
+
+      searchCursorRef.current = page.cursor;
+      setSearchResults(prevResults => [
+        ...prevResults,
+        ...page.users.filter(result => !prevResults.some(prev => prev.uid === result.uid)),
+      ]);
+      setHasMoreResults(page.hasMore);
     } catch (error) {
-      console.error('Error searching users:', error);
+      console.error('Error loading more users:', error);
     } finally {
-      setSearching(false);
+      setLoadingMore(false);
     }
-  }, [user, users, selectedPetFilter]);
+  }, [searchTerm, hasMoreResults, searching, loadingMore, fetchSearchResults]);
+
+  // Best matches first across every page loaded so far, since the index returns pages
+  // unranked. Loading more can still move better matches to the top.
+  // The pet filter narrows search results locally.
+  const rankedResults = useMemo(() => {
+    return searchResults
+      .filter(result => !selectedPetFilter || result.petTypes?.includes(selectedPetFilter))
+      .map(result => ({ result, score: UserService.getSearchScore(result, searchTerm) }))
+      .sort((a, b) => b.score - a.score || a.result.displayName.localeCompare(b.result.displayName))
+      .map(({ result }) => result);
+  }, [searchResults, selectedPetFilter, searchTerm]);
+
+  const isSearching = !!searchTerm.trim();
 
   // Handle pet type filter
   const handlePetFilter = useCallback(async (petType: string) => {
@@ -141,42 +267,7 @@ const UserDiscoveryScreen: React.FC<UserDiscoveryScreenProps> = ({ navigation })
   }, [user, navigation]);
 
   const renderUserItem = useCallback(({ item }: ListRenderItemInfo<UserProfile>) => (
-    <TouchableOpacity
-      style={styles.userItem}
-      onPress={() => startChatWithUser(item)}
-    >
-      <View style={styles.userAvatar}>
-        {item.photoURL ? (
-          <Image source={{ uri: item.photoURL }} style={styles.avatarImage} />
-        ) : (
-          <View style={[styles.avatarImage, styles.avatarPlaceholder]}>
-            <Text style={styles.avatarText}>
-              {item.displayName.charAt(0).toUpperCase()}
-            </Text>
-          </View>
-        )}
-        <View style={[styles.onlineIndicator, item.isOnline ? styles.online : styles.offline]} />
-      </View>
-      
-      <View style={styles.userInfo}>
-        <Text style={styles.userName}>{item.displayName}</Text>
-        <Text style={styles.userBio} numberOfLines={1}>{item.bio}</Text>
-        <View style={styles.petInfo}>
-          <Text style={styles.petCount}>🐾 {item.petCount || 0} pets</Text>
-          <View style={styles.petTypes}>
-            {item.petTypes?.slice(0, 2).map((petType, index) => (
-              <Text key={petType} style={styles.petType}>
-                {petType}{index < (item.petTypes?.length || 0) - 1 && index < 1 ? ', ' : ''}
-              </Text>
-            ))}
-          </View>
-        </View>
-      </View>
-      
-      <View style={styles.chatButton}>
-        <Text style={styles.chatButtonText}>💬</Text>
-      </View>
-    </TouchableOpacity>
+    <UserRow item={item} onPress={startChatWithUser} />
   ), [startChatWithUser]);
 
   const renderEmptyComponent = useCallback(() => (
@@ -196,7 +287,7 @@ const UserDiscoveryScreen: React.FC<UserDiscoveryScreenProps> = ({ navigation })
       <FlatList
         horizontal
         showsHorizontalScrollIndicator={false}
-        data={petTypes}
+        data={PET_TYPES}
         renderItem={({ item }) => (
           <TouchableOpacity
             style={[
@@ -240,9 +331,9 @@ const UserDiscoveryScreen: React.FC<UserDiscoveryScreenProps> = ({ navigation })
       <View style={styles.searchContainer}>
         <TextInput
           style={styles.searchInput}
-          placeholder="Search by name..."
+          placeholder="Search by name, email, location or pet..."
           value={searchTerm}
-          onChangeText={handleSearch}
+          onChangeText={setSearchTerm}
           autoCapitalize="none"
           autoCorrect={false}
         />
@@ -252,12 +343,15 @@ const UserDiscoveryScreen: React.FC<UserDiscoveryScreenProps> = ({ navigation })
       {renderPetFilter()}
 
       <FlatList
-        data={filteredUsers}
+        data={isSearching ? rankedResults : filteredUsers}
         renderItem={renderUserItem}
         keyExtractor={(item) => item.uid}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.listContent}
-        ListEmptyComponent={renderEmptyComponent}
+        ListEmptyComponent={searching ? null : renderEmptyComponent}
+        ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.footerLoader} /> : null}
+        onEndReached={isSearching ? loadMoreResults : undefined}
+        onEndReachedThreshold={0.5}
         refreshing={loading}
         onRefresh={async () => {
           if (!user) return;
@@ -315,6 +409,9 @@ const styles = StyleSheet.create({
   searchIndicator: {
     marginLeft: 12,
   },
+  footerLoader: {
+    paddingVertical: 16,
+  },
   filtersContainer: {
     backgroundColor: '#F8F8F8',
     paddingVertical: 12,
@@ -406,6 +503,14 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 2,
   },
+  presenceText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 2,
+  },
+  presenceTextOnline: {
+    color: '#4CAF50',
+  },
   userBio: {
     fontSize: 14,
     color: '#666',
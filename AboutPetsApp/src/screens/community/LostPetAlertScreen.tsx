@@ -0,0 +1,289 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  Linking,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { LostPetAlertService } from '../../services/lostPetAlertService';
+import { LostPetAlert } from '../../types/lostPet';
+import { PET_SPECIES } from '../../types/pet';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatLastSeen } from '../../utils/dateUtils';
+
+/**
+ * LostPetAlertScreen
+ *
+ * Shows a lost pet alert. Other users can message the owner, which
+ * opens a direct chat; the owner can mark the pet as found to close it.
+ */
+
+type LostPetAlertScreenRouteProp = RouteProp<ProfileStackParamList, 'LostPetAlert'>;
+
+interface LostPetAlertScreenProps {
+  route: LostPetAlertScreenRouteProp;
+  navigation: any;
+}
+
+const getMapUrl = ({ latitude, longitude }: LostPetAlert['lastSeenLocation']): string =>
+  Platform.OS === 'ios'
+    ? `http://maps.apple.com/?q=${latitude},${longitude}`
+    : `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+
+export const LostPetAlertScreen: React.FC<LostPetAlertScreenProps> = ({ route, navigation }) => {
+  const { alertId } = route.params;
+  const { user } = useAuth();
+
+  const [alert, setAlert] = useState<LostPetAlert | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const [closing, setClosing] = useState(false);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: alert ? `Lost: ${alert.petName}` : 'Lost Pet' });
+  }, [navigation, alert]);
+
+  useEffect(() => {
+    const unsubscribe = LostPetAlertService.subscribeToAlert(
+      alertId,
+      (updatedAlert) => {
+        if (!updatedAlert) {
+          Alert.alert('Alert Removed', 'This alert no longer exists.');
+          navigation.goBack();
+          return;
+        }
+        setAlert(updatedAlert);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+
+    return unsubscribe;
+  }, [alertId, navigation]);
+
+  // Opening the alert counts as reading its notification
+  useEffect(() => {
+    if (!user) return;
+    LostPetAlertService.markNotificationRead(user.uid, alertId);
+  }, [alertId, user]);
+
+  const handleOpenMap = () => {
+    if (!alert) return;
+    Linking.openURL(getMapUrl(alert.lastSeenLocation)).catch(() => {
+      Alert.alert('Error', 'Could not open the map.');
+    });
+  };
+
+  const handleReply = async () => {
+    if (!user || !alert || !reply.trim()) return;
+
+    setSending(true);
+    try {
+      const chatId = await LostPetAlertService.replyToAlert(user, alert, reply);
+      setReply('');
+      navigation.navigate('ChatMain', { screen: 'Chat', params: { chatId, chatName: alert.ownerName } });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to send your message. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleMarkFound = () => {
+    if (!alert) return;
+
+    Alert.alert(
+      'Mark as Found',
+      `Close the alert for ${alert.petName}? Nearby users will see that ${alert.petName} is home.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark as Found',
+          onPress: async () => {
+            setClosing(true);
+            try {
+              await LostPetAlertService.markFound(alert);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to close the alert. Please try again.');
+            } finally {
+              setClosing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading || !alert) {
+    return <LoadingSpinner />;
+  }
+
+  const isOwner = alert.ownerId === user?.uid;
+  const isActive = alert.status === 'active';
+  const species = PET_SPECIES.find(option => option.value === alert.species);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={[styles.statusBanner, !isActive && styles.statusBannerFound]}>
+            <Text style={styles.statusText}>
+              {isActive
+                ? `🚨 ${alert.petName} is missing`
+                : `🏠 ${alert.petName} was found${alert.foundAt ? ` ${formatLastSeen(alert.foundAt).toLowerCase()}` : ''}`}
+            </Text>
+          </View>
+
+          {alert.photoURLs.length > 0 ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photoRow}>
+              {alert.photoURLs.map(url => (
+                <Image key={url} source={{ uri: url }} style={styles.photo} />
+              ))}
+            </ScrollView>
+          ) : (
+            <View style={[styles.photo, styles.photoPlaceholder]}>
+              <Text style={styles.photoEmoji}>{species?.emoji || '🐾'}</Text>
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.petName}>{alert.petName}</Text>
+            <Text style={styles.detailText}>
+              {species?.label || 'Pet'} · reported by {isOwner ? 'you' : alert.ownerName}
+            </Text>
+            <Text style={styles.detailText}>
+              Last seen {alert.lastSeenAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+            </Text>
+            {!!alert.locationDescription && <Text style={styles.detailText}>📍 {alert.locationDescription}</Text>}
+            <TouchableOpacity onPress={handleOpenMap}>
+              <Text style={styles.linkText}>Open last seen location in maps</Text>
+            </TouchableOpacity>
+            {!!alert.description && <Text style={styles.description}>{alert.description}</Text>}
+          </View>
+
+          {isOwner && isActive && (
+            <Button title="Mark as Found" onPress={handleMarkFound} loading={closing} fullWidth />
+          )}
+
+          {!isOwner && isActive && (
+            <View style={styles.replySection}>
+              <Text style={styles.sectionTitle}>Seen {alert.petName}?</Text>
+              <Input
+                value={reply}
+                onChangeText={setReply}
+                placeholder={`Tell ${alert.ownerName} where and when`}
+                multiline
+                maxLength={500}
+              />
+              <Button
+                title={`Message ${alert.ownerName}`}
+                onPress={handleReply}
+                loading={sending}
+                disabled={!reply.trim()}
+                fullWidth
+              />
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  statusBanner: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statusBannerFound: {
+    backgroundColor: '#34C759',
+  },
+  statusText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+    textAlign: 'center',
+  },
+  photoRow: {
+    marginBottom: 16,
+  },
+  photo: {
+    width: 200,
+    height: 200,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#e1e1e1',
+  },
+  photoPlaceholder: {
+    alignSelf: 'center',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 0,
+    marginBottom: 16,
+  },
+  photoEmoji: {
+    fontSize: 64,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  petName: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 15,
+    color: '#666',
+    marginTop: 4,
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#007AFF',
+    marginTop: 8,
+  },
+  description: {
+    fontSize: 15,
+    color: '#333',
+    marginTop: 12,
+    lineHeight: 21,
+  },
+  replySection: {
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, LoadingSpinner } from '../../components';
+import { useLostPetAlerts } from '../../hooks/useLostPetAlerts';
+import { usePets } from '../../hooks/usePets';
+import { LocationService } from '../../services/locationService';
+import { LostPetAlertService } from '../../services/lostPetAlertService';
+import { UserService } from '../../services/userService';
+import { GeoCoordinates, LostPetAlert, LostPetNotification } from '../../types/lostPet';
+import { PET_SPECIES, PetSpecies } from '../../types/pet';
+import { formatLastSeen } from '../../utils/dateUtils';
+
+/**
+ * LostPetAlertsScreen
+ *
+ * Lost & found hub: active alerts near the user's saved position,
+ * alerts they were notified about, their own alerts, and a shortcut
+ * to report one of their pets as lost.
+ */
+
+interface LostPetAlertsScreenProps {
+  navigation: any;
+}
+
+/** How far around the user's position the nearby list looks */
+const NEARBY_RADIUS_KM = 25;
+
+const speciesEmoji = (species: PetSpecies): string =>
+  PET_SPECIES.find(option => option.value === species)?.emoji || '🐾';
+
+const formatDistance = (distanceKm: number): string =>
+  distanceKm < 1 ? 'under 1 km away' : `${Math.round(distanceKm)} km away`;
+
+export const LostPetAlertsScreen: React.FC<LostPetAlertsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const { myAlerts, notifications, loading, error } = useLostPetAlerts(user?.uid);
+  const { pets } = usePets(user?.uid);
+
+  const [coordinates, setCoordinates] = useState<GeoCoordinates | null>(null);
+  const [nearby, setNearby] = useState<{ alert: LostPetAlert; distanceKm: number }[]>([]);
+  const [nearbyLoading, setNearbyLoading] = useState(true);
+  const [locating, setLocating] = useState(false);
+
+  const loadNearby = useCallback(async (center: GeoCoordinates) => {
+    setNearbyLoading(true);
+    try {
+      setNearby(await LostPetAlertService.getNearbyAlerts(center, NEARBY_RADIUS_KM));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load nearby alerts. Please try again.');
+    } finally {
+      setNearbyLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let mounted = true;
+    UserService.getUserProfile(user.uid)
+      .then(profile => {
+        if (!mounted) return;
+        if (profile?.coordinates) {
+          setCoordinates(profile.coordinates);
+          loadNearby(profile.coordinates);
+        } else {
+          setNearbyLoading(false);
+        }
+      })
+      .catch(() => {
+        if (mounted) setNearbyLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [loadNearby, user]);
+
+  const handleUpdateLocation = async () => {
+    if (!user) return;
+
+    setLocating(true);
+    try {
+      const current = await LocationService.getCurrentCoordinates();
+      if (!current) {
+        Alert.alert('Location Needed', 'Allow location access to get alerts about lost pets near you.');
+        return;
+      }
+      await UserService.updateCoordinates(user.uid, current);
+      setCoordinates(current);
+      await loadNearby(current);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update your location. Please try again.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const openAlert = (alertId: string) => navigation.navigate('LostPetAlert', { alertId });
+
+  const renderNotification = (notification: LostPetNotification) => (
+    <TouchableOpacity
+      key={notification.alertId}
+      style={[styles.item, !notification.read && styles.itemUnread]}
+      onPress={() => openAlert(notification.alertId)}
+    >
+      <Text style={styles.itemEmoji}>{speciesEmoji(notification.species)}</Text>
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle}>{notification.petName} is missing</Text>
+        <Text style={styles.itemDetails}>
+          {notification.ownerName} · {formatDistance(notification.distanceKm)} · {formatLastSeen(notification.createdAt)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderAlert = (alert: LostPetAlert, details: string) => (
+    <TouchableOpacity key={alert.id} style={styles.item} onPress={() => openAlert(alert.id)}>
+      <Text style={styles.itemEmoji}>{speciesEmoji(alert.species)}</Text>
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle}>{alert.petName}</Text>
+        <Text style={styles.itemDetails}>{details}</Text>
+      </View>
+      {alert.status === 'found' && <Text style={styles.foundBadge}>Found</Text>}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const otherNearby = nearby.filter(({ alert }) => alert.ownerId !== user?.uid);
+  const reportablePets = pets.filter(pet => !pet.lostAlertId);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Near you</Text>
+          {!coordinates && !nearbyLoading && (
+            <Text style={styles.emptyText}>
+              Save your location to see lost pets nearby and get notified when one goes missing.
+            </Text>
+          )}
+          {nearbyLoading ? (
+            <ActivityIndicator color="#007AFF" />
+          ) : (
+            otherNearby.map(({ alert, distanceKm }) =>
+              renderAlert(alert, `Last seen ${formatDistance(distanceKm)} · ${formatLastSeen(alert.lastSeenAt)}`)
+            )
+          )}
+          {coordinates && !nearbyLoading && otherNearby.length === 0 && (
+            <Text style={styles.emptyText}>No lost pets within {NEARBY_RADIUS_KM} km. 🎉</Text>
+          )}
+          <Button
+            title={coordinates ? 'Update My Location' : 'Use My Location'}
+            variant="secondary"
+            onPress={handleUpdateLocation}
+            loading={locating}
+            fullWidth
+          />
+        </View>
+
+        {notifications.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notifications</Text>
+            {notifications.map(renderNotification)}
+          </View>
+        )}
+
+        {myAlerts.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Your alerts</Text>
+            {myAlerts.map(alert =>
+              renderAlert(
+                alert,
+                alert.status === 'found'
+                  ? `Closed ${formatLastSeen(alert.foundAt || alert.createdAt)}`
+                  : `Reported ${formatLastSeen(alert.createdAt)} · ${alert.radiusKm} km radius`
+              )
+            )}
+          </View>
+        )}
+
+        {reportablePets.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Report a lost pet</Text>
+            {reportablePets.map(pet => (
+              <TouchableOpacity
+                key={pet.id}
+                style={styles.item}
+                onPress={() => navigation.navigate('LostPetReport', { petId: pet.id })}
+              >
+                <Text style={styles.itemEmoji}>{speciesEmoji(pet.species)}</Text>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemTitle}>{pet.name}</Text>
+                </View>
+                <Text style={styles.chevron}>›</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  itemUnread: {
+    borderColor: '#FF3B30',
+    borderWidth: 1,
+  },
+  itemEmoji: {
+    fontSize: 28,
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  foundBadge: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#34C759',
+  },
+  chevron: {
+    fontSize: 20,
+    color: '#999',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,380 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { AttachmentService } from '../../services/attachmentService';
+import { LocationService } from '../../services/locationService';
+import { LostPetAlertService } from '../../services/lostPetAlertService';
+import { PetService } from '../../services/petService';
+import { PickedAttachment } from '../../types/chat';
+import { ALERT_RADIUS_OPTIONS_KM, GeoCoordinates, MAX_ALERT_PHOTOS } from '../../types/lostPet';
+import { Pet } from '../../types/pet';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatDateInput, formatTimeInput, parseDateInput, parseTimeInput } from '../../utils/dateUtils';
+import { validateLostPetReport } from '../../utils/validation';
+
+/**
+ * LostPetReportScreen
+ *
+ * Marks one of the user's pets as lost. The alert is published with
+ * the last-seen time, place and photos, and users within the chosen
+ * radius are notified.
+ */
+
+type LostPetReportScreenRouteProp = RouteProp<ProfileStackParamList, 'LostPetReport'>;
+
+interface LostPetReportScreenProps {
+  route: LostPetReportScreenRouteProp;
+  navigation: any;
+}
+
+const DEFAULT_RADIUS_KM = 5;
+
+export const LostPetReportScreen: React.FC<LostPetReportScreenProps> = ({ route, navigation }) => {
+  const { petId } = route.params;
+  const { user } = useAuth();
+
+  const [pet, setPet] = useState<Pet | null>(null);
+  const [date, setDate] = useState(() => formatDateInput(new Date()));
+  const [time, setTime] = useState(() => formatTimeInput(new Date()));
+  const [location, setLocation] = useState<GeoCoordinates | null>(null);
+  const [locationDescription, setLocationDescription] = useState('');
+  const [description, setDescription] = useState('');
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_RADIUS_KM);
+  const [includeProfilePhoto, setIncludeProfilePhoto] = useState(true);
+  const [photos, setPhotos] = useState<PickedAttachment[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [locating, setLocating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: pet ? `${pet.name} is lost` : 'Report Lost Pet' });
+  }, [navigation, pet]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let mounted = true;
+    PetService.getPet(user.uid, petId)
+      .then(loadedPet => {
+        if (!mounted) return;
+        if (!loadedPet) {
+          Alert.alert('Error', 'This pet no longer exists.');
+          navigation.goBack();
+          return;
+        }
+        if (loadedPet.lostAlertId) {
+          navigation.replace('LostPetAlert', { alertId: loadedPet.lostAlertId });
+          return;
+        }
+        setPet(loadedPet);
+      })
+      .catch(() => {
+        if (mounted) {
+          Alert.alert('Error', 'Failed to load pet. Please try again.');
+        }
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [navigation, petId, user]);
+
+  const handleUseCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      const coordinates = await LocationService.getCurrentCoordinates();
+      if (coordinates) {
+        setLocation(coordinates);
+      } else {
+        Alert.alert('Location Needed', 'Allow location access to set where your pet was last seen.');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to get your location. Please try again.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const photoCount = photos.length + (includeProfilePhoto && pet?.photoURL ? 1 : 0);
+
+  const handleAddPhoto = async () => {
+    try {
+      const picked = await AttachmentService.pickImage();
+      if (picked) {
+        setPhotos(current => [...current, picked]);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pick photo.');
+    }
+  };
+
+  const handleRemovePhoto = (uri: string) => {
+    setPhotos(current => current.filter(photo => photo.uri !== uri));
+  };
+
+  const handlePublish = async () => {
+    if (!user || !pet) return;
+
+    const validation = validateLostPetReport(date, time, !!location);
+    setErrors(validation.errors);
+    if (!validation.isValid || !location) return;
+
+    const lastSeenAt = parseDateInput(date)!;
+    const { hours, minutes } = parseTimeInput(time)!;
+    lastSeenAt.setHours(hours, minutes);
+
+    setSaving(true);
+    try {
+      const { alertId, notifiedCount } = await LostPetAlertService.reportLost(
+        user,
+        pet,
+        {
+          lastSeenAt,
+          lastSeenLocation: location,
+          locationDescription,
+          description,
+          radiusKm,
+          photoURLs: includeProfilePhoto && pet.photoURL ? [pet.photoURL] : [],
+        },
+        photos
+      );
+      Alert.alert(
+        'Alert Published',
+        notifiedCount === 1
+          ? '1 user nearby was notified.'
+          : `${notifiedCount} users nearby were notified.`
+      );
+      navigation.replace('LostPetAlert', { alertId });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to publish the alert. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  if (loading || !pet) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Last seen</Text>
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Input
+                value={date}
+                onChangeText={setDate}
+                placeholder="YYYY-MM-DD"
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Input
+                value={time}
+                onChangeText={setTime}
+                placeholder="HH:MM"
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Last seen location</Text>
+          <TouchableOpacity style={styles.locationButton} onPress={handleUseCurrentLocation} disabled={locating || saving}>
+            {locating ? (
+              <ActivityIndicator color="#007AFF" />
+            ) : (
+              <Text style={styles.locationButtonText}>
+                📍 {location ? 'Location set · update to current position' : 'Use my current location'}
+              </Text>
+            )}
+          </TouchableOpacity>
+          <Input
+            value={locationDescription}
+            onChangeText={setLocationDescription}
+            placeholder="e.g. Near the park entrance on Elm St"
+            maxLength={120}
+          />
+
+          <Input
+            label="Description"
+            value={description}
+            onChangeText={setDescription}
+            placeholder="Collar, markings, behaviour around strangers..."
+            multiline
+            maxLength={500}
+          />
+
+          <Text style={styles.label}>Notify users within</Text>
+          <View style={styles.chipRow}>
+            {ALERT_RADIUS_OPTIONS_KM.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, radiusKm === option && styles.chipSelected]}
+                onPress={() => setRadiusKm(option)}
+              >
+                <Text style={[styles.chipText, radiusKm === option && styles.chipTextSelected]}>{option} km</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Photos</Text>
+          <View style={styles.photoRow}>
+            {pet.photoURL && includeProfilePhoto && (
+              <TouchableOpacity onPress={() => setIncludeProfilePhoto(false)} disabled={saving}>
+                <Image source={{ uri: pet.photoURL }} style={styles.photo} />
+                <Text style={styles.removePhotoText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+            {photos.map(photo => (
+              <TouchableOpacity key={photo.uri} onPress={() => handleRemovePhoto(photo.uri)} disabled={saving}>
+                <Image source={{ uri: photo.uri }} style={styles.photo} />
+                <Text style={styles.removePhotoText}>Remove</Text>
+              </TouchableOpacity>
+            ))}
+            {photoCount < MAX_ALERT_PHOTOS && (
+              <TouchableOpacity style={[styles.photo, styles.addPhoto]} onPress={handleAddPhoto} disabled={saving}>
+                <Text style={styles.addPhotoText}>+</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <Button title="Publish Alert" variant="danger" onPress={handlePublish} loading={saving} fullWidth />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  rowField: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  locationButton: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+    alignItems: 'center',
+  },
+  locationButtonText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#e1e1e1',
+  },
+  addPhoto: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addPhotoText: {
+    fontSize: 28,
+    color: '#666',
+  },
+  removePhotoText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 4,
+    marginRight: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+});
@@ -0,0 +1,350 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { EventService } from '../../services/eventService';
+import { PetEvent, PetEventInput, PetEventType, PetSize, PET_EVENT_TYPES, PET_SIZES } from '../../types/event';
+import { PetSpecies, PET_SPECIES } from '../../types/pet';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatDateInput, formatTimeInput, parseDateInput, parseTimeInput } from '../../utils/dateUtils';
+import { validateEventForm } from '../../utils/validation';
+
+/**
+ * EventFormScreen
+ *
+ * Creates or edits a playdate or meetup. Leaving the species and size
+ * chips unselected welcomes every pet.
+ */
+
+type EventFormScreenRouteProp = RouteProp<ProfileStackParamList, 'EventForm'>;
+
+interface EventFormScreenProps {
+  route: EventFormScreenRouteProp;
+  navigation: any;
+}
+
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+const atTime = (date: string, time: string): Date => {
+  const result = parseDateInput(date)!;
+  const { hours, minutes } = parseTimeInput(time)!;
+  result.setHours(hours, minutes);
+  return result;
+};
+
+export const EventFormScreen: React.FC<EventFormScreenProps> = ({ route, navigation }) => {
+  const eventId = route.params?.eventId;
+  const { user } = useAuth();
+
+  const [event, setEvent] = useState<PetEvent | null>(null);
+  const [type, setType] = useState<PetEventType>('playdate');
+  const [title, setTitle] = useState('');
+  const [location, setLocation] = useState('');
+  const [date, setDate] = useState(() => formatDateInput(new Date()));
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [allowedSpecies, setAllowedSpecies] = useState<PetSpecies[]>([]);
+  const [allowedSizes, setAllowedSizes] = useState<PetSize[]>([]);
+  const [capacity, setCapacity] = useState('');
+  const [description, setDescription] = useState('');
+
+  const [loading, setLoading] = useState(!!eventId);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: eventId ? 'Edit Event' : 'New Event' });
+  }, [navigation, eventId]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    let mounted = true;
+    EventService.getEvent(eventId)
+      .then((loaded) => {
+        if (!mounted) return;
+        if (!loaded) {
+          Alert.alert('Error', 'This event no longer exists.');
+          navigation.goBack();
+          return;
+        }
+
+        setEvent(loaded);
+        setType(loaded.type);
+        setTitle(loaded.title);
+        setLocation(loaded.location);
+        setDate(formatDateInput(loaded.startsAt));
+        setStartTime(formatTimeInput(loaded.startsAt));
+        setEndTime(formatTimeInput(loaded.endsAt));
+        setAllowedSpecies(loaded.allowedSpecies);
+        setAllowedSizes(loaded.allowedSizes);
+        setCapacity(loaded.capacity !== undefined ? String(loaded.capacity) : '');
+        setDescription(loaded.description || '');
+      })
+      .catch(() => {
+        if (mounted) Alert.alert('Error', 'Failed to load the event.');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [eventId, navigation]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validation = validateEventForm(title, location, date, startTime, endTime, capacity);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    const input: PetEventInput = {
+      type,
+      title,
+      description,
+      location,
+      startsAt: atTime(date, startTime),
+      endsAt: atTime(date, endTime),
+      allowedSpecies,
+      allowedSizes,
+      capacity: capacity.trim() ? Number(capacity) : undefined,
+    };
+
+    setSaving(true);
+    try {
+      if (event) {
+        await EventService.updateEvent(user, event, input);
+        navigation.goBack();
+      } else {
+        const newEventId = await EventService.createEvent(user, input);
+        navigation.replace('Event', { eventId: newEventId });
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save the event. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.chipRow}>
+            {PET_EVENT_TYPES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, type === option.value && styles.chipSelected]}
+                onPress={() => setType(option.value)}
+              >
+                <Text style={[styles.chipText, type === option.value && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label="Title"
+            required
+            value={title}
+            onChangeText={setTitle}
+            placeholder="e.g. Saturday morning at the dog park"
+            maxLength={80}
+          />
+
+          <Input
+            label="Location"
+            required
+            value={location}
+            onChangeText={setLocation}
+            placeholder="e.g. Laurelhurst Park, east entrance"
+            maxLength={120}
+          />
+
+          <Input
+            label="Date"
+            required
+            value={date}
+            onChangeText={setDate}
+            placeholder="YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+          />
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Input
+                label="Starts"
+                required
+                value={startTime}
+                onChangeText={setStartTime}
+                placeholder="HH:MM"
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Input
+                label="Ends"
+                required
+                value={endTime}
+                onChangeText={setEndTime}
+                placeholder="HH:MM"
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Species welcome</Text>
+          <View style={styles.chipRow}>
+            {PET_SPECIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, allowedSpecies.includes(option.value) && styles.chipSelected]}
+                onPress={() => setAllowedSpecies(current => toggleValue(current, option.value))}
+              >
+                <Text style={[styles.chipText, allowedSpecies.includes(option.value) && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Sizes welcome</Text>
+          <View style={styles.chipRow}>
+            {PET_SIZES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, allowedSizes.includes(option.value) && styles.chipSelected]}
+                onPress={() => setAllowedSizes(current => toggleValue(current, option.value))}
+              >
+                <Text style={[styles.chipText, allowedSizes.includes(option.value) && styles.chipTextSelected]}>
+                  {option.label} ({option.description})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>Leave empty to welcome every pet.</Text>
+
+          <Input
+            label="Capacity"
+            value={capacity}
+            onChangeText={setCapacity}
+            placeholder="No limit"
+            keyboardType="number-pad"
+            maxLength={3}
+          />
+
+          <Input
+            label="Details"
+            value={description}
+            onChangeText={setDescription}
+            placeholder="What to bring, where to meet..."
+            multiline
+            maxLength={1000}
+          />
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <Button title={event ? 'Save' : 'Create Event'} onPress={handleSave} loading={saving} fullWidth />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  rowField: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+});
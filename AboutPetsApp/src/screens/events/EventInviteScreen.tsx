@@ -0,0 +1,262 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Avatar, Input, LoadingSpinner } from '../../components';
+import { DynamicChatService, DynamicChat } from '../../services/dynamicChatService';
+import { EventService } from '../../services/eventService';
+import { UserService, UserProfile } from '../../services/userService';
+import { PetEvent } from '../../types/event';
+import type { ProfileStackParamList } from '../../types/navigation';
+
+/**
+ * EventInviteScreen
+ *
+ * Lets the host invite users found by search, or everyone in one of
+ * their group chats. Invitees join the event's group chat.
+ */
+
+type EventInviteScreenRouteProp = RouteProp<ProfileStackParamList, 'EventInvite'>;
+
+interface EventInviteScreenProps {
+  route: EventInviteScreenRouteProp;
+  navigation: any;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const EventInviteScreen: React.FC<EventInviteScreenProps> = ({ route, navigation }) => {
+  const { eventId } = route.params;
+  const { user } = useAuth();
+
+  const [event, setEvent] = useState<PetEvent | null>(null);
+  const [groupChats, setGroupChats] = useState<DynamicChat[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [invitingId, setInvitingId] = useState<string | null>(null);
+  // Ignore responses of searches that were superseded by newer input
+  const searchIdRef = useRef(0);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: 'Invite People' });
+  }, [navigation]);
+
+  useEffect(() => {
+    const unsubscribe = EventService.subscribeToEvent(
+      eventId,
+      (updatedEvent) => {
+        if (!updatedEvent) {
+          navigation.goBack();
+          return;
+        }
+        setEvent(updatedEvent);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+
+    return unsubscribe;
+  }, [eventId, navigation]);
+
+  // The event's own chat is left out; its members are already invited
+  const chatId = event?.chatId;
+  useEffect(() => {
+    if (!user || !chatId) return;
+
+    let mounted = true;
+    DynamicChatService.getUserChats(user.uid)
+      .then(chats => {
+        if (mounted) {
+          setGroupChats(chats.filter(chat => chat.type === 'group' && chat.id !== chatId));
+        }
+      })
+      .catch(error => console.error('Error loading group chats:', error));
+
+    return () => {
+      mounted = false;
+    };
+  }, [user, chatId]);
+
+  // Run a debounced user search whenever the term changes
+  useEffect(() => {
+    if (!user) return;
+
+    const searchId = ++searchIdRef.current;
+    setSearchResults([]);
+    if (!searchTerm.trim()) {
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const page = await UserService.searchUsers(searchTerm, user.uid);
+        if (searchId === searchIdRef.current) {
+          setSearchResults(page.users);
+        }
+      } catch (error) {
+        console.error('Error searching users:', error);
+      } finally {
+        if (searchId === searchIdRef.current) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [user, searchTerm]);
+
+  const handleInviteUser = async (profile: UserProfile) => {
+    if (!event) return;
+
+    setInvitingId(profile.uid);
+    try {
+      await EventService.inviteUsers(event, [{ uid: profile.uid, displayName: profile.displayName }]);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to send the invite. Please try again.');
+    } finally {
+      setInvitingId(null);
+    }
+  };
+
+  const handleInviteChat = (chat: DynamicChat) => {
+    if (!user || !event) return;
+
+    const newCount = chat.participantIds.filter(uid => !event.memberIds.includes(uid)).length;
+    Alert.alert(
+      'Invite Group',
+      newCount > 0
+        ? `Invite ${newCount} ${newCount === 1 ? 'person' : 'people'} from ${chat.name || 'this group'} and post the invitation there?`
+        : `Everyone in ${chat.name || 'this group'} is already invited. Post the invitation there anyway?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Invite',
+          onPress: async () => {
+            setInvitingId(chat.id);
+            try {
+              await EventService.inviteChat(user, event, chat);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to invite the group. Please try again.');
+            } finally {
+              setInvitingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading || !event) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>People</Text>
+          <Input
+            value={searchTerm}
+            onChangeText={setSearchTerm}
+            placeholder="Search by name or email"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {searching && <ActivityIndicator color="#007AFF" />}
+          {!searching && !!searchTerm.trim() && searchResults.length === 0 && (
+            <Text style={styles.emptyText}>No users found</Text>
+          )}
+          {searchResults.map(profile => (
+            <View key={profile.uid} style={styles.row}>
+              <Avatar source={profile.photoURL} name={profile.displayName} size="small" />
+              <Text style={styles.rowName}>{profile.displayName}</Text>
+              {event.memberIds.includes(profile.uid) ? (
+                <Text style={styles.invitedText}>Invited</Text>
+              ) : (
+                <TouchableOpacity onPress={() => handleInviteUser(profile)} disabled={invitingId !== null}>
+                  {invitingId === profile.uid ? (
+                    <ActivityIndicator color="#007AFF" />
+                  ) : (
+                    <Text style={styles.inviteText}>Invite</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Group chats</Text>
+          {groupChats.length === 0 && <Text style={styles.emptyText}>You are not in any other group chats.</Text>}
+          {groupChats.map(chat => (
+            <View key={chat.id} style={styles.row}>
+              <Text style={styles.rowName}>
+                {chat.name || 'Group chat'} ({chat.participantIds.length})
+              </Text>
+              <TouchableOpacity onPress={() => handleInviteChat(chat)} disabled={invitingId !== null}>
+                {invitingId === chat.id ? (
+                  <ActivityIndicator color="#007AFF" />
+                ) : (
+                  <Text style={styles.inviteText}>Invite all</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 12,
+  },
+  inviteText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  invitedText: {
+    fontSize: 15,
+    color: '#999',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+  },
+});
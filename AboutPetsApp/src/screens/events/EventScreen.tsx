@@ -0,0 +1,345 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, LoadingSpinner } from '../../components';
+import { EventService } from '../../services/eventService';
+import { PetEvent, RsvpStatus, PET_EVENT_TYPES, RSVP_OPTIONS } from '../../types/event';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { countRsvps, formatEventRestrictions, formatEventTime, isEventFull } from '../../utils/eventUtils';
+
+/**
+ * EventScreen
+ *
+ * Shows a playdate or meetup with its guest list. Members RSVP here and
+ * can jump to the event's group chat; the host can edit, invite more
+ * people or cancel.
+ */
+
+type EventScreenRouteProp = RouteProp<ProfileStackParamList, 'Event'>;
+
+interface EventScreenProps {
+  route: EventScreenRouteProp;
+  navigation: any;
+}
+
+export const EventScreen: React.FC<EventScreenProps> = ({ route, navigation }) => {
+  const { eventId } = route.params;
+  const { user } = useAuth();
+
+  const [event, setEvent] = useState<PetEvent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState<RsvpStatus | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const isHost = !!event && event.hostId === user?.uid;
+  const isUpcoming = !!event && !event.cancelled && event.endsAt.getTime() >= Date.now();
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: event?.title || 'Event',
+      headerRight: isHost && isUpcoming
+        ? () => (
+          <TouchableOpacity onPress={() => navigation.navigate('EventForm', { eventId })}>
+            <Text style={styles.headerButton}>Edit</Text>
+          </TouchableOpacity>
+        )
+        : undefined,
+    });
+  }, [navigation, event, eventId, isHost, isUpcoming]);
+
+  useEffect(() => {
+    const unsubscribe = EventService.subscribeToEvent(
+      eventId,
+      (updatedEvent) => {
+        if (!updatedEvent) {
+          Alert.alert('Event Removed', 'This event no longer exists.');
+          navigation.goBack();
+          return;
+        }
+        setEvent(updatedEvent);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+
+    return unsubscribe;
+  }, [eventId, navigation]);
+
+  const handleRespond = async (status: RsvpStatus) => {
+    if (!user) return;
+
+    setResponding(status);
+    try {
+      await EventService.respond(user, eventId, status);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save your RSVP. Please try again.');
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!event) return;
+
+    setExporting(true);
+    try {
+      await EventService.exportIcs(event);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export the event.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCancelEvent = () => {
+    if (!user || !event) return;
+
+    Alert.alert(
+      'Cancel Event',
+      `Cancel ${event.title}? Everyone in the event chat will be told.`,
+      [
+        { text: 'Keep Event', style: 'cancel' },
+        {
+          text: 'Cancel Event',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await EventService.cancelEvent(user, event);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to cancel the event. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading || !event) {
+    return <LoadingSpinner />;
+  }
+
+  const type = PET_EVENT_TYPES.find(option => option.value === event.type);
+  const restrictions = formatEventRestrictions(event);
+  const myStatus = user ? event.rsvps[user.uid]?.status : undefined;
+  const full = isEventFull(event);
+  const invitedCount = event.memberIds.filter(memberId => !event.rsvps[memberId]).length;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {event.cancelled && (
+          <View style={styles.cancelledBanner}>
+            <Text style={styles.cancelledText}>This event has been cancelled</Text>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.typeText}>{type?.emoji} {type?.label}</Text>
+          <Text style={styles.title}>{event.title}</Text>
+          <Text style={styles.detailText}>🕒 {formatEventTime(event)}</Text>
+          <Text style={styles.detailText}>📍 {event.location}</Text>
+          <Text style={styles.detailText}>🐾 {restrictions || 'All pets welcome'}</Text>
+          <Text style={styles.detailText}>Hosted by {isHost ? 'you' : event.hostName}</Text>
+          {!!event.description && <Text style={styles.description}>{event.description}</Text>}
+        </View>
+
+        {isUpcoming && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Are you going?</Text>
+            <View style={styles.rsvpRow}>
+              {RSVP_OPTIONS.map(option => {
+                const selected = myStatus === option.value;
+                const blocked = option.value === 'going' && full && !selected;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.rsvpButton, selected && styles.rsvpButtonSelected, blocked && styles.rsvpButtonDisabled]}
+                    onPress={() => handleRespond(option.value)}
+                    disabled={selected || blocked || responding !== null}
+                  >
+                    <Text style={[styles.rsvpButtonText, selected && styles.rsvpButtonTextSelected]}>
+                      {responding === option.value ? '...' : option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {full && myStatus !== 'going' && <Text style={styles.hint}>This event is full.</Text>}
+          </View>
+        )}
+
+        <View style={styles.actions}>
+          <Button
+            title="Open Group Chat"
+            onPress={() =>
+              navigation.navigate('ChatMain', { screen: 'Chat', params: { chatId: event.chatId, chatName: event.title } })
+            }
+            fullWidth
+          />
+          {isUpcoming && (
+            <View style={styles.secondaryAction}>
+              <Button title="Add to Calendar" variant="secondary" onPress={handleExport} loading={exporting} fullWidth />
+            </View>
+          )}
+          {isHost && isUpcoming && (
+            <View style={styles.secondaryAction}>
+              <Button
+                title="Invite People"
+                variant="secondary"
+                onPress={() => navigation.navigate('EventInvite', { eventId })}
+                fullWidth
+              />
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Guests{event.capacity !== undefined ? ` (${countRsvps(event, 'going')}/${event.capacity} going)` : ''}
+          </Text>
+          {RSVP_OPTIONS.map(option => {
+            const names = Object.entries(event.rsvps)
+              .filter(([, rsvp]) => rsvp.status === option.value)
+              .map(([memberId, rsvp]) => (memberId === user?.uid ? 'You' : rsvp.userName));
+            if (names.length === 0) return null;
+            return (
+              <View key={option.value} style={styles.guestGroup}>
+                <Text style={styles.guestLabel}>{option.label} ({names.length})</Text>
+                <Text style={styles.guestNames}>{names.join(', ')}</Text>
+              </View>
+            );
+          })}
+          {invitedCount > 0 && (
+            <Text style={styles.hint}>
+              {invitedCount} invited {invitedCount === 1 ? 'person has' : 'people have'} not answered yet
+            </Text>
+          )}
+        </View>
+
+        {isHost && isUpcoming && (
+          <Button title="Cancel Event" variant="danger" onPress={handleCancelEvent} fullWidth />
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelledBanner: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  cancelledText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  typeText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 15,
+    color: '#666',
+    marginTop: 4,
+  },
+  description: {
+    fontSize: 15,
+    color: '#333',
+    marginTop: 12,
+    lineHeight: 21,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  rsvpRow: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  rsvpButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginHorizontal: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: 'white',
+  },
+  rsvpButtonSelected: {
+    backgroundColor: '#007AFF',
+  },
+  rsvpButtonDisabled: {
+    opacity: 0.4,
+  },
+  rsvpButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  rsvpButtonTextSelected: {
+    color: 'white',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 8,
+  },
+  actions: {
+    marginBottom: 24,
+  },
+  secondaryAction: {
+    marginTop: 12,
+  },
+  guestGroup: {
+    marginBottom: 12,
+  },
+  guestLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  guestNames: {
+    fontSize: 15,
+    color: '#666',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,199 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { useEvents } from '../../hooks/useEvents';
+import { PetEvent, PET_EVENT_TYPES, RSVP_OPTIONS } from '../../types/event';
+import { countRsvps, formatEventTime } from '../../utils/eventUtils';
+
+/**
+ * EventsScreen
+ *
+ * Playdates and meetups the user hosts or was invited to: invitations
+ * waiting for an answer, upcoming events and past ones.
+ */
+
+interface EventsScreenProps {
+  navigation: any;
+}
+
+export const EventsScreen: React.FC<EventsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const { events, loading, error } = useEvents(user?.uid);
+  const [showPast, setShowPast] = useState(false);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity onPress={() => navigation.navigate('EventForm')}>
+          <Text style={styles.headerButton}>New</Text>
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation]);
+
+  const renderEvent = (event: PetEvent) => {
+    const type = PET_EVENT_TYPES.find(option => option.value === event.type);
+    const rsvp = user ? event.rsvps[user.uid] : undefined;
+    const going = countRsvps(event, 'going');
+    const details = [
+      event.hostId === user?.uid ? 'Hosting' : `by ${event.hostName}`,
+      event.capacity !== undefined ? `${going}/${event.capacity} going` : `${going} going`,
+    ].join(' · ');
+
+    return (
+      <TouchableOpacity
+        key={event.id}
+        style={styles.card}
+        onPress={() => navigation.navigate('Event', { eventId: event.id })}
+      >
+        <Text style={styles.cardEmoji}>{type?.emoji || '📅'}</Text>
+        <View style={styles.cardInfo}>
+          <Text style={[styles.cardTitle, event.cancelled && styles.cancelledTitle]}>{event.title}</Text>
+          <Text style={styles.cardTime}>{formatEventTime(event)}</Text>
+          <Text style={styles.cardDetails}>{event.location}</Text>
+          <Text style={styles.cardDetails}>{details}</Text>
+        </View>
+        {event.cancelled ? (
+          <Text style={styles.cancelledText}>Cancelled</Text>
+        ) : (
+          rsvp && (
+            <Text style={[styles.rsvpText, rsvp.status === 'going' && styles.rsvpGoing]}>
+              {RSVP_OPTIONS.find(option => option.value === rsvp.status)?.label}
+            </Text>
+          )
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} color="#007AFF" />;
+  }
+
+  const now = Date.now();
+  const upcoming = events.filter(event => event.endsAt.getTime() >= now);
+  const invitations = upcoming.filter(event => !event.cancelled && user && !event.rsvps[user.uid]);
+  const scheduled = upcoming.filter(event => !invitations.includes(event));
+  const past = events.filter(event => event.endsAt.getTime() < now).reverse();
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {invitations.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Invitations</Text>
+            {invitations.map(renderEvent)}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Upcoming</Text>
+          {scheduled.length === 0 ? (
+            <Text style={styles.emptyText}>No upcoming events. Tap New to plan a playdate.</Text>
+          ) : (
+            scheduled.map(renderEvent)
+          )}
+        </View>
+
+        {past.length > 0 && (
+          <View style={styles.section}>
+            <TouchableOpacity onPress={() => setShowPast(current => !current)}>
+              <Text style={styles.sectionTitle}>
+                Past events ({past.length}) {showPast ? '▾' : '▸'}
+              </Text>
+            </TouchableOpacity>
+            {showPast && past.map(renderEvent)}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  cardEmoji: {
+    fontSize: 28,
+    marginRight: 12,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancelledTitle: {
+    textDecorationLine: 'line-through',
+    color: '#999',
+  },
+  cardTime: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  cardDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  rsvpText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF9500',
+  },
+  rsvpGoing: {
+    color: '#34C759',
+  },
+  cancelledText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ListRenderItemInfo,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useIsFocused } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { PostCard } from '../../components';
+import { useFeed } from '../../hooks/useFeed';
+import { FeedPost, FeedSource } from '../../types/feed';
+import { PET_TYPES } from '../../types/pet';
+
+/**
+ * FeedScreen
+ *
+ * The community feed: posts by the user and the people they follow,
+ * or every post, optionally of one pet type, to discover new people.
+ */
+
+interface FeedScreenProps {
+  navigation: any;
+}
+
+type FeedTab = 'following' | 'discover';
+
+const TABS: { value: FeedTab; label: string }[] = [
+  { value: 'following', label: 'Following' },
+  { value: 'discover', label: 'Discover' },
+];
+
+export const FeedScreen: React.FC<FeedScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const isFocused = useIsFocused();
+  const [tab, setTab] = useState<FeedTab>('following');
+  const [petType, setPetType] = useState<string | null>(null);
+
+  const source: FeedSource = tab === 'following' ? { type: 'following' } : { type: 'discover', petType };
+  const { posts, likedPostIds, loading, loadingMore, refreshing, error, hasMore, loadMore, refresh, toggleLike } =
+    useFeed(user?.uid, source);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity onPress={() => navigation.navigate('PostForm')}>
+          <Text style={styles.headerButton}>New</Text>
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation]);
+
+  // Pick up new posts, deletions and counts changed on other screens when coming back
+  const wasFocusedRef = useRef(isFocused);
+  useEffect(() => {
+    if (isFocused && !wasFocusedRef.current) {
+      refresh();
+    }
+    wasFocusedRef.current = isFocused;
+  }, [isFocused, refresh]);
+
+  const handleLike = useCallback((post: FeedPost) => {
+    toggleLike(post).catch(() => Alert.alert('Error', 'Failed to update your like. Please try again.'));
+  }, [toggleLike]);
+
+  const handleOpenAuthor = useCallback((post: FeedPost) => {
+    navigation.navigate('UserProfile', { userId: post.authorId });
+  }, [navigation]);
+
+  const handleOpenPost = useCallback((post: FeedPost) => {
+    navigation.navigate('Post', { postId: post.id });
+  }, [navigation]);
+
+  const renderPost = useCallback(({ item }: ListRenderItemInfo<FeedPost>) => (
+    <PostCard
+      post={item}
+      liked={likedPostIds.has(item.id)}
+      onPressAuthor={handleOpenAuthor}
+      onPressLike={handleLike}
+      onPressComments={handleOpenPost}
+    />
+  ), [likedPostIds, handleOpenAuthor, handleLike, handleOpenPost]);
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.tabs}>
+        {TABS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.tab, tab === option.value && styles.tabSelected]}
+            onPress={() => setTab(option.value)}
+          >
+            <Text style={[styles.tabText, tab === option.value && styles.tabTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {tab === 'discover' && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+          {PET_TYPES.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, petType === option && styles.chipSelected]}
+              onPress={() => setPetType(current => (current === option ? null : option))}
+            >
+              <Text style={[styles.chipText, petType === option && styles.chipTextSelected]}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color="#007AFF" />;
+    }
+    return (
+      <Text style={styles.emptyText}>
+        {tab === 'following'
+          ? 'Posts from you and the people you follow show up here. Find people to follow under Discover.'
+          : 'No posts yet. Tap New to share the first one.'}
+      </Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <FlatList
+        data={posts}
+        renderItem={renderPost}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#007AFF" /> : null}
+        onEndReached={hasMore ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+        refreshing={refreshing}
+        onRefresh={refresh}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#e9e9eb',
+    borderRadius: 8,
+    padding: 2,
+    marginBottom: 12,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  tabSelected: {
+    backgroundColor: 'white',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  tabTextSelected: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  filters: {
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 40,
+    paddingHorizontal: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+  },
+});
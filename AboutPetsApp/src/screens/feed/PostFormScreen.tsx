@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input } from '../../components';
+import { AttachmentService } from '../../services/attachmentService';
+import { FeedService } from '../../services/feedService';
+import { PickedAttachment } from '../../types/chat';
+import { MAX_POST_LENGTH, MAX_POST_PHOTOS } from '../../types/feed';
+import { PET_TYPES } from '../../types/pet';
+import { validatePostForm } from '../../utils/validation';
+
+/**
+ * PostFormScreen
+ *
+ * Shares a post to the community feed. Pet type tags make the post
+ * show up when others browse that pet type.
+ */
+
+interface PostFormScreenProps {
+  navigation: any;
+}
+
+export const PostFormScreen: React.FC<PostFormScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+
+  const [text, setText] = useState('');
+  const [petTypes, setPetTypes] = useState<string[]>([]);
+  const [photos, setPhotos] = useState<PickedAttachment[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const togglePetType = (petType: string) => {
+    setPetTypes(current =>
+      current.includes(petType) ? current.filter(item => item !== petType) : [...current, petType]
+    );
+  };
+
+  const handleAddPhoto = async () => {
+    try {
+      const picked = await AttachmentService.pickImage();
+      if (picked) {
+        setPhotos(current => [...current, picked]);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pick photo.');
+    }
+  };
+
+  const handlePost = async () => {
+    if (!user) return;
+
+    const validation = validatePostForm(text, photos.length);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    setSaving(true);
+    try {
+      const postId = await FeedService.createPost(user, { text, petTypes }, photos);
+      navigation.replace('Post', { postId });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to share your post. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Input
+            value={text}
+            onChangeText={setText}
+            placeholder="What are your pets up to?"
+            multiline
+            maxLength={MAX_POST_LENGTH}
+            style={styles.textInput}
+          />
+
+          <Text style={styles.label}>Photos</Text>
+          <View style={styles.photoRow}>
+            {photos.map(photo => (
+              <TouchableOpacity
+                key={photo.uri}
+                onPress={() => setPhotos(current => current.filter(item => item.uri !== photo.uri))}
+                disabled={saving}
+              >
+                <Image source={{ uri: photo.uri }} style={styles.photo} />
+                <Text style={styles.removePhotoText}>Remove</Text>
+              </TouchableOpacity>
+            ))}
+            {photos.length < MAX_POST_PHOTOS && (
+              <TouchableOpacity style={[styles.photo, styles.addPhoto]} onPress={handleAddPhoto} disabled={saving}>
+                <Text style={styles.addPhotoText}>+</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <Text style={styles.label}>Tags</Text>
+          <View style={styles.chipRow}>
+            {PET_TYPES.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, petTypes.includes(option) && styles.chipSelected]}
+                onPress={() => togglePetType(option)}
+              >
+                <Text style={[styles.chipText, petTypes.includes(option) && styles.chipTextSelected]}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <Button title="Post" onPress={handlePost} loading={saving} fullWidth />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  textInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#e1e1e1',
+  },
+  addPhoto: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addPhotoText: {
+    fontSize: 28,
+    color: '#666',
+  },
+  removePhotoText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 4,
+    marginRight: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+});
@@ -0,0 +1,362 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Avatar, LoadingSpinner, PostCard } from '../../components';
+import { FeedService } from '../../services/feedService';
+import { FeedPost, PostComment, MAX_COMMENT_LENGTH } from '../../types/feed';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatLastSeen } from '../../utils/dateUtils';
+import { buildCommentThreads } from '../../utils/feedUtils';
+
+/**
+ * PostScreen
+ *
+ * A feed post with its comment threads. Replies attach to a top-level
+ * comment; the post's author can delete the post and any comment.
+ */
+
+type PostScreenRouteProp = RouteProp<ProfileStackParamList, 'Post'>;
+
+interface PostScreenProps {
+  route: PostScreenRouteProp;
+  navigation: any;
+}
+
+export const PostScreen: React.FC<PostScreenProps> = ({ route, navigation }) => {
+  const { postId } = route.params;
+  const { user } = useAuth();
+
+  const [post, setPost] = useState<FeedPost | null>(null);
+  const [comments, setComments] = useState<PostComment[]>([]);
+  const [liked, setLiked] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [commentText, setCommentText] = useState('');
+  const [replyTo, setReplyTo] = useState<PostComment | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const isAuthor = !!post && post.authorId === user?.uid;
+
+  const handleDeletePost = useCallback(() => {
+    if (!post) return;
+
+    Alert.alert('Delete Post', 'Delete this post with all its comments?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await FeedService.deletePost(post);
+          } catch (error) {
+            Alert.alert('Error', 'Failed to delete the post. Please try again.');
+          }
+        },
+      },
+    ]);
+  }, [post]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: isAuthor
+        ? () => (
+          <TouchableOpacity onPress={handleDeletePost}>
+            <Text style={styles.headerButton}>Delete</Text>
+          </TouchableOpacity>
+        )
+        : undefined,
+    });
+  }, [navigation, isAuthor, handleDeletePost]);
+
+  useEffect(() => {
+    const unsubscribePost = FeedService.subscribeToPost(
+      postId,
+      (updatedPost) => {
+        if (!updatedPost) {
+          navigation.goBack();
+          return;
+        }
+        setPost(updatedPost);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+    const unsubscribeComments = FeedService.subscribeToComments(postId, setComments);
+
+    return () => {
+      unsubscribePost();
+      unsubscribeComments();
+    };
+  }, [postId, navigation]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let mounted = true;
+    FeedService.getLikedPostIds(user.uid, [postId])
+      .then(likedIds => {
+        if (mounted) setLiked(likedIds.has(postId));
+      })
+      .catch(() => {});
+
+    return () => {
+      mounted = false;
+    };
+  }, [postId, user]);
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+
+  const handleLike = async () => {
+    if (!user) return;
+
+    // The like count follows the live post; only the heart is optimistic
+    const nextLiked = !liked;
+    setLiked(nextLiked);
+    try {
+      await FeedService.setLiked(postId, user.uid, nextLiked);
+    } catch (error) {
+      setLiked(!nextLiked);
+      Alert.alert('Error', 'Failed to update your like. Please try again.');
+    }
+  };
+
+  const handleSendComment = async () => {
+    if (!user || !commentText.trim()) return;
+
+    setSending(true);
+    try {
+      await FeedService.addComment(user, postId, commentText, replyTo ? replyTo.parentId || replyTo.id : undefined);
+      setCommentText('');
+      setReplyTo(null);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to post your comment. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleDeleteComment = (comment: PostComment) => {
+    Alert.alert('Delete Comment', 'Delete this comment?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await FeedService.deleteComment(postId, comment.id);
+          } catch (error) {
+            Alert.alert('Error', 'Failed to delete the comment. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderComment = (comment: PostComment, isReply: boolean) => (
+    <View key={comment.id} style={[styles.comment, isReply && styles.reply]}>
+      <TouchableOpacity onPress={() => navigation.navigate('UserProfile', { userId: comment.authorId })}>
+        <Avatar source={comment.authorPhotoURL} name={comment.authorName} size="small" />
+      </TouchableOpacity>
+      <View style={styles.commentBody}>
+        <Text style={styles.commentAuthor}>{comment.authorName}</Text>
+        <Text style={styles.commentText}>{comment.text}</Text>
+        <View style={styles.commentMeta}>
+          <Text style={styles.commentTime}>{formatLastSeen(comment.createdAt)}</Text>
+          <TouchableOpacity onPress={() => setReplyTo(comment)}>
+            <Text style={styles.commentAction}>Reply</Text>
+          </TouchableOpacity>
+          {(comment.authorId === user?.uid || isAuthor) && (
+            <TouchableOpacity onPress={() => handleDeleteComment(comment)}>
+              <Text style={[styles.commentAction, styles.deleteText]}>Delete</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+
+  if (loading || !post) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 100 : 0}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <PostCard
+            post={post}
+            liked={liked}
+            onPressAuthor={() => navigation.navigate('UserProfile', { userId: post.authorId })}
+            onPressLike={handleLike}
+            expanded
+          />
+
+          <Text style={styles.sectionTitle}>Comments</Text>
+          {threads.length === 0 && <Text style={styles.emptyText}>No comments yet. Start the conversation!</Text>}
+          {threads.map(thread => (
+            <View key={thread.comment.id}>
+              {renderComment(thread.comment, false)}
+              {thread.replies.map(reply => renderComment(reply, true))}
+            </View>
+          ))}
+        </ScrollView>
+
+        {replyTo && (
+          <View style={styles.replyBanner}>
+            <Text style={styles.replyBannerText} numberOfLines={1}>Replying to {replyTo.authorName}</Text>
+            <TouchableOpacity onPress={() => setReplyTo(null)}>
+              <Text style={styles.commentAction}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            value={commentText}
+            onChangeText={setCommentText}
+            placeholder={replyTo ? 'Write a reply...' : 'Add a comment...'}
+            placeholderTextColor="#999"
+            multiline
+            maxLength={MAX_COMMENT_LENGTH}
+          />
+          <TouchableOpacity onPress={handleSendComment} disabled={sending || !commentText.trim()}>
+            {sending ? (
+              <ActivityIndicator color="#007AFF" />
+            ) : (
+              <Text style={[styles.sendText, !commentText.trim() && styles.sendTextDisabled]}>Send</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+  },
+  comment: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  reply: {
+    marginLeft: 40,
+  },
+  commentBody: {
+    flex: 1,
+    marginLeft: 10,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  commentAuthor: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  commentText: {
+    fontSize: 15,
+    color: '#333',
+    marginTop: 2,
+    lineHeight: 20,
+  },
+  commentMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  commentTime: {
+    fontSize: 12,
+    color: '#999',
+    marginRight: 16,
+  },
+  commentAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginRight: 16,
+  },
+  deleteText: {
+    color: '#FF3B30',
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#e9e9eb',
+  },
+  replyBannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: 'white',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e1e1e1',
+  },
+  input: {
+    flex: 1,
+    maxHeight: 100,
+    fontSize: 15,
+    color: '#333',
+    backgroundColor: '#f1f1f3',
+    borderRadius: 18,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 10,
+  },
+  sendText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  sendTextDisabled: {
+    color: '#ccc',
+  },
+});
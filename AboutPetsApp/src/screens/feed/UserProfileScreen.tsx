@@ -0,0 +1,344 @@
+import React, { useCallback, useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  Alert,
+  ActivityIndicator,
+  ListRenderItemInfo,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, LoadingSpinner, PostCard } from '../../components';
+import { useFeed } from '../../hooks/useFeed';
+import { usePresence } from '../../hooks/usePresence';
+import { DynamicChatService } from '../../services/dynamicChatService';
+import { FollowService, FollowCounts } from '../../services/followService';
+import { UserService, UserProfile } from '../../services/userService';
+import { FeedPost } from '../../types/feed';
+import type { ProfileStackParamList } from '../../types/navigation';
+
+/**
+ * UserProfileScreen
+ *
+ * Another user's public profile as shown in discovery, with their
+ * follower counts and posts. From here the user can be followed or
+ * messaged.
+ */
+
+type UserProfileScreenRouteProp = RouteProp<ProfileStackParamList, 'UserProfile'>;
+
+interface UserProfileScreenProps {
+  route: UserProfileScreenRouteProp;
+  navigation: any;
+}
+
+export const UserProfileScreen: React.FC<UserProfileScreenProps> = ({ route, navigation }) => {
+  const { userId } = route.params;
+  const { user } = useAuth();
+  const { isOnline, statusText } = usePresence(userId);
+  const { posts, likedPostIds, loading, loadingMore, hasMore, loadMore, toggleLike } =
+    useFeed(user?.uid, { type: 'author', authorId: userId });
+
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profileLoading, setProfileLoading] = useState(true);
+  const [counts, setCounts] = useState<FollowCounts | null>(null);
+  const [following, setFollowing] = useState(false);
+  const [updatingFollow, setUpdatingFollow] = useState(false);
+  const [startingChat, setStartingChat] = useState(false);
+
+  const isSelf = userId === user?.uid;
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: profile?.displayName || 'Profile' });
+  }, [navigation, profile]);
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([UserService.getUserProfile(userId), FollowService.getFollowCounts(userId).catch(() => null)])
+      .then(([loadedProfile, loadedCounts]) => {
+        if (!mounted) return;
+        setProfile(loadedProfile);
+        setCounts(loadedCounts);
+      })
+      .finally(() => {
+        if (mounted) setProfileLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!user || isSelf) return;
+
+    return FollowService.subscribeToFollowingIds(user.uid, (followingIds) => {
+      setFollowing(followingIds.includes(userId));
+    });
+  }, [user, userId, isSelf]);
+
+  const handleToggleFollow = async () => {
+    if (!user || !profile) return;
+
+    setUpdatingFollow(true);
+    try {
+      if (following) {
+        await FollowService.unfollow(user.uid, userId);
+      } else {
+        await FollowService.follow(user, profile);
+      }
+      setCounts(current => current && { ...current, followers: current.followers + (following ? -1 : 1) });
+    } catch (error) {
+      Alert.alert('Error', `Failed to ${following ? 'unfollow' : 'follow'} ${profile.displayName}. Please try again.`);
+    } finally {
+      setUpdatingFollow(false);
+    }
+  };
+
+  const handleMessage = async () => {
+    if (!user || !profile) return;
+
+    setStartingChat(true);
+    try {
+      const chatId = await DynamicChatService.createDirectChat(
+        user.uid,
+        user.displayName,
+        profile.uid,
+        profile.displayName
+      );
+      navigation.navigate('ChatMain', { screen: 'Chat', params: { chatId, chatName: profile.displayName } });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to start chat. Please try again.');
+    } finally {
+      setStartingChat(false);
+    }
+  };
+
+  const handleLike = useCallback((post: FeedPost) => {
+    toggleLike(post).catch(() => Alert.alert('Error', 'Failed to update your like. Please try again.'));
+  }, [toggleLike]);
+
+  const handleOpenPost = useCallback((post: FeedPost) => {
+    navigation.navigate('Post', { postId: post.id });
+  }, [navigation]);
+
+  const renderPost = useCallback(({ item }: ListRenderItemInfo<FeedPost>) => (
+    <PostCard
+      post={item}
+      liked={likedPostIds.has(item.id)}
+      onPressLike={handleLike}
+      onPressComments={handleOpenPost}
+    />
+  ), [likedPostIds, handleLike, handleOpenPost]);
+
+  if (profileLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!profile) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <Text style={styles.emptyText}>This user no longer exists.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.avatarContainer}>
+        {profile.photoURL ? (
+          <Image source={{ uri: profile.photoURL }} style={styles.avatarImage} />
+        ) : (
+          <View style={[styles.avatarImage, styles.avatarPlaceholder]}>
+            <Text style={styles.avatarText}>{profile.displayName.charAt(0).toUpperCase()}</Text>
+          </View>
+        )}
+        <View style={[styles.onlineIndicator, isOnline ? styles.online : styles.offline]} />
+      </View>
+
+      <Text style={styles.userName}>{profile.displayName}</Text>
+      {statusText && (
+        <Text style={[styles.presenceText, isOnline && styles.presenceTextOnline]}>{statusText}</Text>
+      )}
+      {!!profile.bio && <Text style={styles.userBio}>{profile.bio}</Text>}
+      <Text style={styles.petInfo}>
+        🐾 {profile.petCount || 0} pets
+        {profile.petTypes && profile.petTypes.length > 0 ? ` · ${profile.petTypes.join(', ')}` : ''}
+        {profile.location ? ` · 📍 ${profile.location}` : ''}
+      </Text>
+
+      {counts && (
+        <View style={styles.counts}>
+          <View style={styles.count}>
+            <Text style={styles.countValue}>{counts.followers}</Text>
+            <Text style={styles.countLabel}>Followers</Text>
+          </View>
+          <View style={styles.count}>
+            <Text style={styles.countValue}>{counts.following}</Text>
+            <Text style={styles.countLabel}>Following</Text>
+          </View>
+        </View>
+      )}
+
+      {!isSelf && (
+        <View style={styles.actions}>
+          <View style={styles.action}>
+            <Button
+              title={following ? 'Following' : 'Follow'}
+              variant={following ? 'secondary' : 'primary'}
+              onPress={handleToggleFollow}
+              loading={updatingFollow}
+              fullWidth
+            />
+          </View>
+          <View style={styles.action}>
+            <Button title="Message" variant="secondary" onPress={handleMessage} loading={startingChat} fullWidth />
+          </View>
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>Posts</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <FlatList
+        data={posts}
+        renderItem={renderPost}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={
+          loading
+            ? <ActivityIndicator color="#007AFF" />
+            : <Text style={styles.emptyText}>{isSelf ? "You haven't posted yet." : 'No posts yet.'}</Text>
+        }
+        ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#007AFF" /> : null}
+        onEndReached={hasMore ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    alignItems: 'center',
+  },
+  avatarContainer: {
+    position: 'relative',
+    marginBottom: 12,
+  },
+  avatarImage: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    color: '#FFFFFF',
+    fontSize: 32,
+    fontWeight: 'bold',
+  },
+  onlineIndicator: {
+    position: 'absolute',
+    bottom: 4,
+    right: 4,
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  online: {
+    backgroundColor: '#4CAF50',
+  },
+  offline: {
+    backgroundColor: '#999999',
+  },
+  userName: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#333',
+  },
+  presenceText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  presenceTextOnline: {
+    color: '#4CAF50',
+  },
+  userBio: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  petInfo: {
+    fontSize: 13,
+    color: '#007AFF',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  counts: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  count: {
+    alignItems: 'center',
+    marginHorizontal: 20,
+  },
+  countValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  countLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    marginTop: 16,
+    marginHorizontal: -4,
+  },
+  action: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  sectionTitle: {
+    alignSelf: 'flex-start',
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, PasswordStrengthMeter } from '../../components';
+import { MIN_PASSWORD_LENGTH } from '../../types/auth';
+import { getPasswordStrength } from '../../utils/passwordUtils';
+import { validateNewPassword } from '../../utils/validation';
+
+/**
+ * ChangePasswordScreen
+ *
+ * Changes the signed-in user's password. The current password is asked
+ * for again to re-authenticate, and the new one has to pass a stricter
+ * policy than sign-up, with a live strength meter.
+ */
+
+interface ChangePasswordScreenProps {
+  navigation: any;
+}
+
+export const ChangePasswordScreen: React.FC<ChangePasswordScreenProps> = ({ navigation }) => {
+  const { user, loading, error, changePassword, clearError } = useAuth();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    clearError();
+    return clearError;
+  }, []);
+
+  const personalInfo = useMemo(
+    () => [user?.email, user?.displayName].filter((info): info is string => !!info),
+    [user]
+  );
+  const strength = useMemo(() => getPasswordStrength(newPassword, personalInfo), [newPassword, personalInfo]);
+
+  const handleSave = async () => {
+    clearError();
+    const validation = validateNewPassword(currentPassword, newPassword, confirmPassword, personalInfo);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    try {
+      await changePassword(currentPassword, newPassword);
+      Alert.alert('Password Changed', 'Your password has been updated.', [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error) {
+      // Error is handled by the AuthContext and displayed via the error state
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Input
+            label="Current Password"
+            value={currentPassword}
+            onChangeText={setCurrentPassword}
+            secureTextEntry={!showPasswords}
+            autoCapitalize="none"
+            autoComplete="password"
+            textContentType="password"
+            editable={!loading}
+            required
+          />
+
+          <Input
+            label="New Password"
+            value={newPassword}
+            onChangeText={setNewPassword}
+            secureTextEntry={!showPasswords}
+            autoCapitalize="none"
+            autoComplete="password-new"
+            textContentType="newPassword"
+            helperText={newPassword ? undefined : `At least ${MIN_PASSWORD_LENGTH} characters`}
+            editable={!loading}
+            required
+          />
+          {!!newPassword && <PasswordStrengthMeter strength={strength} />}
+
+          <Input
+            label="Confirm New Password"
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            secureTextEntry={!showPasswords}
+            autoCapitalize="none"
+            autoComplete="password-new"
+            textContentType="newPassword"
+            editable={!loading}
+            required
+          />
+
+          <TouchableOpacity style={styles.toggle} onPress={() => setShowPasswords(current => !current)}>
+            <Text style={styles.toggleText}>{showPasswords ? 'Hide passwords' : 'Show passwords'}</Text>
+          </TouchableOpacity>
+
+          {(errors.length > 0 || error) && (
+            <View style={styles.errorContainer}>
+              {errors.map(validationError => (
+                <Text key={validationError} style={styles.errorText}>{validationError}</Text>
+              ))}
+              {error && <Text style={styles.errorText}>{error}</Text>}
+            </View>
+          )}
+
+          <Button title="Change Password" onPress={handleSave} loading={loading} fullWidth />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  toggle: {
+    alignSelf: 'flex-start',
+    marginBottom: 16,
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+});
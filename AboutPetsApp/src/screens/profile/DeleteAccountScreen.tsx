@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input } from '../../components';
+
+/**
+ * DeleteAccountScreen
+ *
+ * Permanently deletes the signed-in user's account after they confirm
+ * with their password. Lists what is removed and what stays behind.
+ */
+
+interface DeleteAccountScreenProps {
+  navigation: any;
+}
+
+const DELETED_DATA = [
+  'Your profile, followers and follows',
+  'Your pets with their photos, health history, medical records and reminders',
+  'Your feed posts and adoption listings',
+  'Your place in every chat, and the photos and files you sent there',
+];
+
+export const DeleteAccountScreen: React.FC<DeleteAccountScreenProps> = ({ navigation }) => {
+  const { loading, error, deleteAccount, clearError } = useAuth();
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | undefined>();
+
+  useEffect(() => {
+    clearError();
+    return clearError;
+  }, []);
+
+  const handleDelete = () => {
+    clearError();
+    if (!password) {
+      setPasswordError('Enter your password to confirm');
+      return;
+    }
+    setPasswordError(undefined);
+
+    Alert.alert(
+      'Delete Account',
+      'This permanently deletes your account and data. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAccount(password);
+              // Signing out swaps the whole app for the sign-in screens
+            } catch (error) {
+              // Error is handled by the AuthContext and displayed via the error state
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.title}>This will permanently delete:</Text>
+          {DELETED_DATA.map(item => (
+            <Text key={item} style={styles.listItem}>• {item}</Text>
+          ))}
+          <Text style={styles.note}>
+            Messages you sent stay in their chats for the other members, shown as sent by a deleted user.
+          </Text>
+
+          <Input
+            label="Password"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+            autoCapitalize="none"
+            autoComplete="password"
+            textContentType="password"
+            error={passwordError}
+            editable={!loading}
+            required
+          />
+
+          {error && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          <Button title="Delete My Account" variant="danger" onPress={handleDelete} loading={loading} fullWidth />
+          <View style={styles.cancel}>
+            <Button
+              title="Cancel"
+              variant="secondary"
+              onPress={() => navigation.goBack()}
+              disabled={loading}
+              fullWidth
+            />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  listItem: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 22,
+  },
+  note: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+  cancel: {
+    marginTop: 12,
+  },
+});
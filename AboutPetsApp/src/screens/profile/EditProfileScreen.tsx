@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { AttachmentService } from '../../services/attachmentService';
+import { UserService } from '../../services/userService';
+import { PickedAttachment } from '../../types/chat';
+import { MAX_BIO_LENGTH, MAX_LOCATION_LENGTH, validateProfileForm } from '../../utils/validation';
+
+/**
+ * EditProfileScreen
+ *
+ * Edits the signed-in user's public profile: name, avatar, bio and location.
+ * Pet types are shown read-only, since they follow the user's pets. Name
+ * and avatar changes also show up in the user's chats.
+ */
+
+interface EditProfileScreenProps {
+  navigation: any;
+}
+
+export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({ navigation }) => {
+  const { user, updateUserProfile } = useAuth();
+
+  const [displayName, setDisplayName] = useState(user?.displayName || '');
+  const [bio, setBio] = useState('');
+  const [location, setLocation] = useState('');
+  const [petTypes, setPetTypes] = useState<string[]>([]);
+  const [photoURL, setPhotoURL] = useState<string | undefined>(user?.photoURL || undefined);
+  const [photo, setPhoto] = useState<PickedAttachment | null>(null);
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let mounted = true;
+    UserService.getUserProfile(user.uid)
+      .then(profile => {
+        if (!mounted || !profile) return;
+        setBio(profile.bio || '');
+        setLocation(profile.location || '');
+        setPetTypes(profile.petTypes || []);
+      })
+      .catch(() => {
+        if (mounted) {
+          Alert.alert('Error', 'Failed to load your profile. Please try again.');
+        }
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [user?.uid]);
+
+  const handlePickPhoto = async () => {
+    try {
+      const picked = await AttachmentService.pickImage({ cropSquare: true });
+      if (picked) {
+        setPhoto(picked);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pick photo.');
+    }
+  };
+
+  const handleRemovePhoto = () => {
+    setPhoto(null);
+    setPhotoURL(undefined);
+  };
+
+  const handleSave = async () => {
+    const validation = validateProfileForm(displayName, bio, location);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    setSaving(true);
+    try {
+      await updateUserProfile({ displayName, bio, location, photoURL }, photo);
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save your profile. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const previewUri = photo?.uri || photoURL;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.photoSection}>
+            <TouchableOpacity style={styles.photo} onPress={handlePickPhoto} disabled={saving}>
+              {previewUri ? (
+                <Image source={{ uri: previewUri }} style={styles.photoImage} />
+              ) : (
+                <Text style={styles.photoPlaceholder}>{displayName.trim().charAt(0).toUpperCase() || '?'}</Text>
+              )}
+            </TouchableOpacity>
+            <View style={styles.photoActions}>
+              <TouchableOpacity onPress={handlePickPhoto} disabled={saving}>
+                <Text style={styles.linkText}>{previewUri ? 'Change photo' : 'Add photo'}</Text>
+              </TouchableOpacity>
+              {previewUri && (
+                <TouchableOpacity onPress={handleRemovePhoto} disabled={saving}>
+                  <Text style={[styles.linkText, styles.removeText]}>Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          <Input
+            label="Display Name"
+            value={displayName}
+            onChangeText={setDisplayName}
+            placeholder="How other pet lovers see you"
+            maxLength={50}
+            required
+          />
+
+          <Input
+            label="Bio"
+            value={bio}
+            onChangeText={setBio}
+            placeholder="Tell others about you and your pets"
+            multiline
+            maxLength={MAX_BIO_LENGTH}
+            helperText={`${bio.length}/${MAX_BIO_LENGTH}`}
+            style={styles.bioInput}
+          />
+
+          <Input
+            label="Location"
+            value={location}
+            onChangeText={setLocation}
+            placeholder="e.g. Brooklyn, NY"
+            maxLength={MAX_LOCATION_LENGTH}
+          />
+
+          <Text style={styles.label}>Pet Types</Text>
+          {petTypes.length > 0 && (
+            <View style={styles.chipRow}>
+              {petTypes.map(petType => (
+                <View key={petType} style={styles.chip}>
+                  <Text style={styles.chipText}>{petType}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+          <Text style={styles.helperText}>
+            {petTypes.length > 0
+              ? 'Based on your pets. Add or remove a pet to change them.'
+              : 'Add a pet and its type will show up here.'}
+          </Text>
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <Button title="Save" onPress={handleSave} loading={saving} fullWidth />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  photoSection: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  photo: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  photoPlaceholder: {
+    fontSize: 40,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  photoActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+    gap: 20,
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  removeText: {
+    color: '#FF3B30',
+  },
+  bioInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 16,
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+});
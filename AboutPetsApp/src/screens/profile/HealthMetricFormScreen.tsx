@@ -0,0 +1,212 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input } from '../../components';
+import { HealthMetricService } from '../../services/healthMetricService';
+import { HealthMetricType, HEALTH_METRICS, WeightUnit } from '../../types/health';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatDateInput, formatTimeInput, parseDateInput, parseTimeInput } from '../../utils/dateUtils';
+import { weightUnitToKg } from '../../utils/healthUtils';
+import { validateHealthMetricForm } from '../../utils/validation';
+
+/**
+ * HealthMetricFormScreen
+ *
+ * Records a weight, body condition score, food or water intake
+ * measurement. Weights are entered in the unit chosen on the
+ * health screen and stored in kilograms.
+ */
+
+type HealthMetricFormScreenRouteProp = RouteProp<ProfileStackParamList, 'HealthMetricForm'>;
+
+interface HealthMetricFormScreenProps {
+  route: HealthMetricFormScreenRouteProp;
+  navigation: any;
+}
+
+const VALUE_PLACEHOLDERS: Record<HealthMetricType, string> = {
+  weight: 'e.g. 12.5',
+  'body-condition': '1 (very thin) to 9 (obese)',
+  'food-intake': 'Grams eaten',
+  'water-intake': 'Millilitres drunk',
+};
+
+export const HealthMetricFormScreen: React.FC<HealthMetricFormScreenProps> = ({ route, navigation }) => {
+  const { petId } = route.params;
+  const { user } = useAuth();
+
+  const [type, setType] = useState<HealthMetricType>(route.params.type || 'weight');
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>('kg');
+  const [value, setValue] = useState('');
+  const [date, setDate] = useState(() => formatDateInput(new Date()));
+  const [time, setTime] = useState(() => formatTimeInput(new Date()));
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: 'New Measurement' });
+  }, [navigation]);
+
+  useEffect(() => {
+    HealthMetricService.getWeightUnit().then(setWeightUnit);
+  }, []);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validation = validateHealthMetricForm(type, value, date, time);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    const recordedAt = parseDateInput(date)!;
+    const { hours, minutes } = parseTimeInput(time)!;
+    recordedAt.setHours(hours, minutes);
+    const number = Number(value.replace(',', '.'));
+
+    setSaving(true);
+    try {
+      await HealthMetricService.addEntry(user.uid, petId, {
+        type,
+        value: type === 'weight' ? weightUnitToKg(number, weightUnit) : number,
+        recordedAt,
+        note,
+      });
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the measurement. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  const unitLabel = type === 'weight' ? weightUnit : HEALTH_METRICS.find(metric => metric.value === type)?.unit;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Metric</Text>
+          <View style={styles.chipRow}>
+            {HEALTH_METRICS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, type === option.value && styles.chipSelected]}
+                onPress={() => setType(option.value)}
+              >
+                <Text style={[styles.chipText, type === option.value && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label={`Value (${unitLabel})`}
+            required
+            value={value}
+            onChangeText={setValue}
+            placeholder={VALUE_PLACEHOLDERS[type]}
+            keyboardType={type === 'body-condition' ? 'number-pad' : 'decimal-pad'}
+            maxLength={8}
+          />
+          <Input
+            label="Date"
+            required
+            value={date}
+            onChangeText={setDate}
+            placeholder="YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+          />
+          <Input
+            label="Time"
+            required
+            value={time}
+            onChangeText={setTime}
+            placeholder="HH:MM"
+            keyboardType="numbers-and-punctuation"
+            maxLength={5}
+          />
+          <Input label="Note" value={note} onChangeText={setNote} placeholder="e.g. after a walk" maxLength={200} />
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <Button title="Save" onPress={handleSave} loading={saving} fullWidth />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+});
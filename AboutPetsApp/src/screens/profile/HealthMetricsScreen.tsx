@@ -0,0 +1,451 @@
+import React, { useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner, TrendChart } from '../../components';
+import { useHealthMetrics } from '../../hooks/useHealthMetrics';
+import { HealthMetricService } from '../../services/healthMetricService';
+import { PetService } from '../../services/petService';
+import { HealthMetricEntry, HealthMetricType, HEALTH_METRICS, WeightUnit } from '../../types/health';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { Pet } from '../../types/pet';
+import {
+  DEFAULT_WEIGHT_ALERT,
+  detectWeightChange,
+  formatMetricValue,
+  getDailyPoints,
+  getMetricTargetRange,
+  kgToWeightUnit,
+} from '../../utils/healthUtils';
+
+/**
+ * HealthMetricsScreen
+ *
+ * Trends of a pet's weight, body condition and food and water intake
+ * against their target ranges, with an alert for sudden weight changes
+ * and a CSV export to take to the vet.
+ */
+
+type HealthMetricsScreenRouteProp = RouteProp<ProfileStackParamList, 'HealthMetrics'>;
+
+interface HealthMetricsScreenProps {
+  route: HealthMetricsScreenRouteProp;
+  navigation: any;
+}
+
+const formatEntryDate = (date: Date): string =>
+  date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const HealthMetricsScreen: React.FC<HealthMetricsScreenProps> = ({ route, navigation }) => {
+  const { petId, petName } = route.params;
+  const { user } = useAuth();
+  const { entries, loading, error } = useHealthMetrics(user?.uid, petId);
+
+  const [pet, setPet] = useState<Pet | null>(null);
+  const [metric, setMetric] = useState<HealthMetricType>('weight');
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>('kg');
+  const [alertPercent, setAlertPercent] = useState('');
+  const [alertDays, setAlertDays] = useState('');
+  const [savingAlert, setSavingAlert] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: `${petName}'s Health Metrics`,
+      headerRight: () => (
+        <TouchableOpacity onPress={() => navigation.navigate('HealthMetricForm', { petId, type: metric })}>
+          <Text style={styles.headerButton}>Add</Text>
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, petId, petName, metric]);
+
+  useEffect(() => {
+    HealthMetricService.getWeightUnit().then(setWeightUnit);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return PetService.subscribeToPet(user.uid, petId, (updatedPet) => {
+      setPet(updatedPet);
+      const settings = updatedPet?.weightAlert || DEFAULT_WEIGHT_ALERT;
+      setAlertPercent(String(settings.changePercent));
+      setAlertDays(String(settings.periodDays));
+    });
+  }, [petId, user]);
+
+  const weightAlert = useMemo(
+    () => detectWeightChange(entries, pet?.weightAlert || DEFAULT_WEIGHT_ALERT),
+    [entries, pet]
+  );
+
+  const metricEntries = useMemo(
+    () => entries.filter(entry => entry.type === metric).reverse(),
+    [entries, metric]
+  );
+
+  const latestWeightKg = [...entries].reverse().find(entry => entry.type === 'weight')?.value;
+  const targetRange = pet ? getMetricTargetRange(metric, pet, latestWeightKg) : null;
+
+  // Charts show weights in the chosen unit
+  const toDisplay = (value: number) => (metric === 'weight' ? kgToWeightUnit(value, weightUnit) : value);
+  const points = getDailyPoints(entries, metric).map(point => ({ ...point, value: toDisplay(point.value) }));
+  const displayRange = targetRange ? { min: toDisplay(targetRange.min), max: toDisplay(targetRange.max) } : null;
+  const formatDisplay = (value: number) =>
+    metric === 'weight' ? `${Math.round(value * 10) / 10} ${weightUnit}` : formatMetricValue(metric, value, weightUnit);
+
+  const latestPoint = points[points.length - 1];
+  const targetStatus =
+    latestPoint && displayRange
+      ? latestPoint.value < displayRange.min
+        ? 'Below target'
+        : latestPoint.value > displayRange.max
+          ? 'Above target'
+          : 'Within target'
+      : null;
+
+  const handleUnitChange = (unit: WeightUnit) => {
+    setWeightUnit(unit);
+    HealthMetricService.setWeightUnit(unit);
+  };
+
+  const handleSaveAlert = async () => {
+    if (!user) return;
+
+    const changePercent = Number(alertPercent.replace(',', '.'));
+    const periodDays = Number(alertDays);
+    if (!(changePercent > 0 && changePercent <= 100) || !Number.isInteger(periodDays) || periodDays < 1 || periodDays > 365) {
+      Alert.alert('Invalid Alert', 'Use a change between 0 and 100% and a period of 1 to 365 days.');
+      return;
+    }
+
+    setSavingAlert(true);
+    try {
+      await PetService.updateWeightAlert(user.uid, petId, { changePercent, periodDays });
+    } catch (saveError) {
+      Alert.alert('Error', 'Failed to save the alert. Please try again.');
+    } finally {
+      setSavingAlert(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (entries.length === 0) {
+      Alert.alert('Nothing to Export', 'Add some measurements first.');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      await HealthMetricService.exportCsv(petName, entries, weightUnit);
+    } catch (exportError: any) {
+      Alert.alert('Error', exportError.message || 'Failed to export. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDelete = (entry: HealthMetricEntry) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Delete Measurement',
+      `Delete ${formatMetricValue(entry.type, entry.value, weightUnit)} from ${formatEntryDate(entry.recordedAt)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await HealthMetricService.deleteEntry(user.uid, petId, entry);
+            } catch (deleteError) {
+              Alert.alert('Error', 'Failed to delete the measurement. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {weightAlert && (
+            <View style={styles.alertBanner}>
+              <Text style={styles.alertTitle}>
+                ⚠️ Weight {weightAlert.changePercent > 0 ? 'up' : 'down'} {Math.abs(Math.round(weightAlert.changePercent))}%
+              </Text>
+              <Text style={styles.alertText}>
+                {formatMetricValue('weight', weightAlert.from.value, weightUnit)} on{' '}
+                {weightAlert.from.recordedAt.toLocaleDateString()} →{' '}
+                {formatMetricValue('weight', weightAlert.to.value, weightUnit)} on{' '}
+                {weightAlert.to.recordedAt.toLocaleDateString()}. Consider checking in with your vet.
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.chipRow}>
+            {HEALTH_METRICS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, metric === option.value && styles.chipSelected]}
+                onPress={() => setMetric(option.value)}
+              >
+                <Text style={[styles.chipText, metric === option.value && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {metric === 'weight' && (
+            <View style={styles.unitRow}>
+              {(['kg', 'lb'] as WeightUnit[]).map(unit => (
+                <TouchableOpacity
+                  key={unit}
+                  style={[styles.unitOption, weightUnit === unit && styles.unitOptionSelected]}
+                  onPress={() => handleUnitChange(unit)}
+                >
+                  <Text style={[styles.unitText, weightUnit === unit && styles.unitTextSelected]}>{unit}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <TrendChart points={points} targetRange={displayRange} formatValue={formatDisplay} />
+
+          <View style={styles.summary}>
+            {latestPoint && (
+              <Text style={styles.summaryText}>
+                Latest: {formatDisplay(latestPoint.value)}
+                {metric === 'food-intake' || metric === 'water-intake' ? ' per day' : ''}
+                {targetStatus ? ` · ${targetStatus}` : ''}
+              </Text>
+            )}
+            {displayRange ? (
+              <Text style={styles.summaryHint}>
+                Target {formatDisplay(displayRange.min)} – {formatDisplay(displayRange.max)}
+                {metric === 'water-intake' ? ' per day, based on the latest weight' : ''}
+              </Text>
+            ) : (
+              metric === 'weight' && (
+                <Text style={styles.summaryHint}>Add the breed to the pet's profile to see a target range.</Text>
+              )
+            )}
+          </View>
+
+          {metric === 'weight' && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Weight alert</Text>
+              <View style={styles.alertInputs}>
+                <View style={styles.alertInput}>
+                  <Input
+                    label="Change (%)"
+                    value={alertPercent}
+                    onChangeText={setAlertPercent}
+                    keyboardType="decimal-pad"
+                    maxLength={5}
+                  />
+                </View>
+                <View style={styles.alertInput}>
+                  <Input
+                    label="Within (days)"
+                    value={alertDays}
+                    onChangeText={setAlertDays}
+                    keyboardType="number-pad"
+                    maxLength={3}
+                  />
+                </View>
+              </View>
+              <Button title="Save Alert" variant="secondary" onPress={handleSaveAlert} loading={savingAlert} fullWidth />
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>History</Text>
+            {metricEntries.length === 0 && <Text style={styles.emptyText}>No measurements yet.</Text>}
+            {metricEntries.map(entry => (
+              <TouchableOpacity key={entry.id} style={styles.entryRow} onLongPress={() => handleDelete(entry)}>
+                <View style={styles.entryInfo}>
+                  <Text style={styles.entryValue}>{formatMetricValue(entry.type, entry.value, weightUnit)}</Text>
+                  {!!entry.note && <Text style={styles.entryNote}>{entry.note}</Text>}
+                </View>
+                <Text style={styles.entryDate}>{formatEntryDate(entry.recordedAt)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Button title="Export CSV for Vet" onPress={handleExport} loading={exporting} fullWidth />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  alertBanner: {
+    backgroundColor: '#FFF4E5',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#FF9500',
+  },
+  alertTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  alertText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  unitRow: {
+    flexDirection: 'row',
+    alignSelf: 'flex-end',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  unitOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 4,
+  },
+  unitOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  unitText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  unitTextSelected: {
+    color: 'white',
+  },
+  summary: {
+    marginTop: 12,
+    marginBottom: 24,
+  },
+  summaryText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  summaryHint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  alertInputs: {
+    flexDirection: 'row',
+  },
+  alertInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryValue: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  entryNote: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  entryDate: {
+    fontSize: 13,
+    color: '#999',
+    marginLeft: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+  },
+});
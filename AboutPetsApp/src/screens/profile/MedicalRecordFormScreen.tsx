@@ -0,0 +1,421 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { AttachmentService } from '../../services/attachmentService';
+import { MedicalRecordService } from '../../services/medicalRecordService';
+import { AttachmentMetadata, PickedAttachment } from '../../types/chat';
+import { MedicalRecord, MedicalRecordInput, MedicalRecordType, MEDICAL_RECORD_TYPES } from '../../types/medical';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatDateInput, parseDateInput } from '../../utils/dateUtils';
+import { addMonths } from '../../utils/medicalUtils';
+import { formatFileSize } from '../../utils/stringUtils';
+import { validateMedicalRecordForm } from '../../utils/validation';
+
+/**
+ * MedicalRecordFormScreen
+ *
+ * Adds or edits a vaccination, vet visit, allergy or prescription record,
+ * including attached documents such as certificates or lab results.
+ */
+
+type MedicalRecordFormScreenRouteProp = RouteProp<ProfileStackParamList, 'MedicalRecordForm'>;
+
+interface MedicalRecordFormScreenProps {
+  route: MedicalRecordFormScreenRouteProp;
+  navigation: any;
+}
+
+const TITLE_PLACEHOLDERS: Record<MedicalRecordType, string> = {
+  vaccination: 'e.g. Rabies',
+  'vet-visit': 'e.g. Annual checkup',
+  allergy: 'e.g. Chicken',
+  prescription: 'e.g. Amoxicillin',
+};
+
+const SEVERITIES: NonNullable<MedicalRecord['severity']>[] = ['mild', 'moderate', 'severe'];
+
+export const MedicalRecordFormScreen: React.FC<MedicalRecordFormScreenProps> = ({ route, navigation }) => {
+  const { petId, recordId } = route.params;
+  const { user } = useAuth();
+
+  const [type, setType] = useState<MedicalRecordType>('vaccination');
+  const [title, setTitle] = useState('');
+  const [date, setDate] = useState(formatDateInput(new Date()));
+  const [clinic, setClinic] = useState('');
+  const [notes, setNotes] = useState('');
+  const [intervalMonths, setIntervalMonths] = useState('');
+  const [nextDueDate, setNextDueDate] = useState('');
+  const [dosage, setDosage] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [severity, setSeverity] = useState<MedicalRecord['severity']>();
+  const [attachments, setAttachments] = useState<AttachmentMetadata[]>([]);
+  const [newDocuments, setNewDocuments] = useState<PickedAttachment[]>([]);
+
+  const [loading, setLoading] = useState(!!recordId);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: recordId ? 'Edit Record' : 'Add Record' });
+  }, [navigation, recordId]);
+
+  useEffect(() => {
+    if (!recordId || !user) return;
+
+    let mounted = true;
+    MedicalRecordService.getRecord(user.uid, petId, recordId)
+      .then(record => {
+        if (!mounted) return;
+        if (!record) {
+          Alert.alert('Error', 'This record no longer exists.');
+          navigation.goBack();
+          return;
+        }
+
+        setType(record.type);
+        setTitle(record.title);
+        setDate(formatDateInput(record.date));
+        setClinic(record.clinic || '');
+        setNotes(record.notes || '');
+        setIntervalMonths(record.intervalMonths ? String(record.intervalMonths) : '');
+        setNextDueDate(record.nextDueDate ? formatDateInput(record.nextDueDate) : '');
+        setDosage(record.dosage || '');
+        setEndDate(record.endDate ? formatDateInput(record.endDate) : '');
+        setSeverity(record.severity);
+        setAttachments(record.attachments);
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [navigation, petId, recordId, user]);
+
+  const handleAddDocument = async () => {
+    try {
+      const document = await AttachmentService.pickDocument();
+      if (document) {
+        setNewDocuments(current => [...current, document]);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pick document.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validation = validateMedicalRecordForm(title, date, intervalMonths, nextDueDate, endDate);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    const input: MedicalRecordInput = {
+      type,
+      title,
+      date: parseDateInput(date)!,
+      clinic,
+      notes,
+      attachments,
+      intervalMonths: intervalMonths.trim() ? Number(intervalMonths) : undefined,
+      nextDueDate: parseDateInput(nextDueDate) || undefined,
+      dosage,
+      endDate: parseDateInput(endDate) || undefined,
+      severity,
+    };
+
+    setSaving(true);
+    try {
+      if (recordId) {
+        await MedicalRecordService.updateRecord(user.uid, petId, recordId, input, newDocuments);
+      } else {
+        await MedicalRecordService.addRecord(user.uid, petId, input, newDocuments);
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save record. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!user || !recordId) return;
+
+    Alert.alert(
+      'Delete Record',
+      'Are you sure you want to delete this record and its documents?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            try {
+              await MedicalRecordService.deleteRecord(user.uid, petId, recordId);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete record. Please try again.');
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  // Preview of the booster date computed from the interval
+  const parsedDate = parseDateInput(date);
+  const computedDueDate =
+    parsedDate && !nextDueDate.trim() && Number(intervalMonths) > 0
+      ? addMonths(parsedDate, Number(intervalMonths))
+      : null;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.chipRow}>
+            {MEDICAL_RECORD_TYPES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, type === option.value && styles.chipSelected]}
+                onPress={() => setType(option.value)}
+              >
+                <Text style={[styles.chipText, type === option.value && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input label="Title" required value={title} onChangeText={setTitle} placeholder={TITLE_PLACEHOLDERS[type]} />
+          <Input
+            label="Date"
+            required
+            value={date}
+            onChangeText={setDate}
+            placeholder="YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+          />
+          <Input label="Clinic" value={clinic} onChangeText={setClinic} placeholder="Clinic or vet name" />
+
+          {type === 'vaccination' && (
+            <>
+              <Input
+                label="Booster interval (months)"
+                value={intervalMonths}
+                onChangeText={setIntervalMonths}
+                placeholder="e.g. 12"
+                keyboardType="number-pad"
+                maxLength={3}
+                helperText={computedDueDate ? `Next due ${computedDueDate.toLocaleDateString()}` : undefined}
+              />
+              <Input
+                label="Next due date"
+                value={nextDueDate}
+                onChangeText={setNextDueDate}
+                placeholder="YYYY-MM-DD (overrides interval)"
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+            </>
+          )}
+
+          {type === 'prescription' && (
+            <>
+              <Input label="Dosage" value={dosage} onChangeText={setDosage} placeholder="e.g. 250 mg twice daily" />
+              <Input
+                label="End date"
+                value={endDate}
+                onChangeText={setEndDate}
+                placeholder="YYYY-MM-DD"
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+            </>
+          )}
+
+          {type === 'allergy' && (
+            <>
+              <Text style={styles.label}>Severity</Text>
+              <View style={styles.chipRow}>
+                {SEVERITIES.map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, severity === option && styles.chipSelected]}
+                    onPress={() => setSeverity(severity === option ? undefined : option)}
+                  >
+                    <Text style={[styles.chipText, severity === option && styles.chipTextSelected]}>
+                      {option}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Input
+            label="Notes"
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Anything worth remembering"
+            multiline
+            style={styles.notesInput}
+          />
+
+          <Text style={styles.label}>Documents</Text>
+          {attachments.map(attachment => (
+            <View key={attachment.url} style={styles.documentRow}>
+              <Text style={styles.documentName} numberOfLines={1}>📄 {attachment.fileName || 'Document'}</Text>
+              <TouchableOpacity
+                onPress={() => setAttachments(current => current.filter(item => item.url !== attachment.url))}
+              >
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          {newDocuments.map((document, index) => (
+            <View key={`${document.uri}-${index}`} style={styles.documentRow}>
+              <Text style={styles.documentName} numberOfLines={1}>
+                📄 {document.fileName} ({formatFileSize(document.fileSize)})
+              </Text>
+              <TouchableOpacity onPress={() => setNewDocuments(current => current.filter(item => item !== document))}>
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TouchableOpacity style={styles.addDocument} onPress={handleAddDocument} disabled={saving}>
+            <Text style={styles.addDocumentText}>+ Attach document</Text>
+          </TouchableOpacity>
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <Button title={recordId ? 'Save Changes' : 'Add Record'} onPress={handleSave} loading={saving} fullWidth />
+          {recordId && (
+            <View style={styles.deleteButton}>
+              <Button title="Delete Record" variant="danger" onPress={handleDelete} disabled={saving} fullWidth />
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  documentName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  removeText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginLeft: 12,
+  },
+  addDocument: {
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  addDocumentText: {
+    fontSize: 15,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+  deleteButton: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,341 @@
+import React, { useCallback, useLayoutEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  Linking,
+  SectionListRenderItemInfo,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { LoadingSpinner } from '../../components';
+import { useMedicalRecords } from '../../hooks/useMedicalRecords';
+import { AttachmentMetadata } from '../../types/chat';
+import { MedicalRecord, MEDICAL_RECORD_TYPES, VaccineStatus } from '../../types/medical';
+import type { ProfileStackParamList } from '../../types/navigation';
+import {
+  getCurrentVaccinations,
+  getVaccineNextDueDate,
+  getVaccineStatus,
+  groupRecordsByYear,
+} from '../../utils/medicalUtils';
+
+/**
+ * MedicalRecordsScreen
+ *
+ * Timeline of a pet's vaccinations, vet visits, allergies and prescriptions.
+ * Shows which vaccines are due on top; works offline from the local cache.
+ */
+
+type MedicalRecordsScreenRouteProp = RouteProp<ProfileStackParamList, 'MedicalRecords'>;
+
+interface MedicalRecordsScreenProps {
+  route: MedicalRecordsScreenRouteProp;
+  navigation: any;
+}
+
+interface TimelineSection {
+  title: string;
+  data: MedicalRecord[];
+}
+
+const STATUS_BADGES: Record<VaccineStatus, { label: string; color: string }> = {
+  'up-to-date': { label: 'Up to date', color: '#34C759' },
+  'due-soon': { label: 'Due soon', color: '#FF9500' },
+  overdue: { label: 'Overdue', color: '#FF3B30' },
+};
+
+const formatRecordDate = (date: Date): string =>
+  date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+
+const openDocument = (attachment: AttachmentMetadata) => {
+  if (!attachment.url) return;
+
+  Linking.openURL(attachment.url).catch(error => {
+    console.error('Error opening document:', error);
+  });
+};
+
+export const MedicalRecordsScreen: React.FC<MedicalRecordsScreenProps> = ({ route, navigation }) => {
+  const { petId, petName } = route.params;
+  const { user } = useAuth();
+  const { records, loading, error } = useMedicalRecords(user?.uid, petId);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: `${petName}'s Health`,
+      headerRight: () => (
+        <TouchableOpacity onPress={() => navigation.navigate('MedicalRecordForm', { petId })}>
+          <Text style={styles.headerButton}>Add</Text>
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, petId, petName]);
+
+  const sections = useMemo<TimelineSection[]>(
+    () => groupRecordsByYear(records).map(group => ({ title: String(group.year), data: group.data })),
+    [records]
+  );
+
+  const dueVaccines = useMemo(
+    () =>
+      getCurrentVaccinations(records)
+        .map(record => ({ record, dueDate: getVaccineNextDueDate(record) }))
+        .filter((item): item is { record: MedicalRecord; dueDate: Date } => !!item.dueDate)
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime()),
+    [records]
+  );
+
+  const renderDetails = (record: MedicalRecord) => {
+    if (record.type === 'vaccination') {
+      const dueDate = getVaccineNextDueDate(record);
+      return dueDate ? <Text style={styles.recordDetail}>Next due {formatRecordDate(dueDate)}</Text> : null;
+    }
+
+    if (record.type === 'prescription' && (record.dosage || record.endDate)) {
+      return (
+        <Text style={styles.recordDetail}>
+          {[record.dosage, record.endDate && `until ${formatRecordDate(record.endDate)}`].filter(Boolean).join(' · ')}
+        </Text>
+      );
+    }
+
+    if (record.type === 'allergy' && record.severity) {
+      return <Text style={styles.recordDetail}>Severity: {record.severity}</Text>;
+    }
+
+    return null;
+  };
+
+  const renderRecord = useCallback(({ item, index, section }: SectionListRenderItemInfo<MedicalRecord, TimelineSection>) => {
+    const type = MEDICAL_RECORD_TYPES.find(option => option.value === item.type);
+    const isLast = index === section.data.length - 1;
+
+    return (
+      <View style={styles.timelineRow}>
+        <View style={styles.timelineRail}>
+          <View style={styles.timelineDot}>
+            <Text style={styles.timelineEmoji}>{type?.emoji}</Text>
+          </View>
+          {!isLast && <View style={styles.timelineLine} />}
+        </View>
+
+        <TouchableOpacity
+          style={styles.recordCard}
+          onPress={() => navigation.navigate('MedicalRecordForm', { petId, recordId: item.id })}
+        >
+          <View style={styles.recordHeader}>
+            <Text style={styles.recordTitle} numberOfLines={1}>{item.title}</Text>
+            <Text style={styles.recordDate}>{formatRecordDate(item.date)}</Text>
+          </View>
+          <Text style={styles.recordType}>
+            {[type?.label, item.clinic].filter(Boolean).join(' · ')}
+          </Text>
+          {renderDetails(item)}
+          {!!item.notes && <Text style={styles.recordNotes} numberOfLines={2}>{item.notes}</Text>}
+          {item.attachments.map((attachment, attachmentIndex) => (
+            <TouchableOpacity key={attachment.url || attachmentIndex} onPress={() => openDocument(attachment)}>
+              <Text style={styles.documentLink} numberOfLines={1}>📄 {attachment.fileName || 'Document'}</Text>
+            </TouchableOpacity>
+          ))}
+        </TouchableOpacity>
+      </View>
+    );
+  }, [navigation, petId]);
+
+  const renderSectionHeader = useCallback(({ section }: { section: TimelineSection }) => (
+    <Text style={styles.sectionHeader}>{section.title}</Text>
+  ), []);
+
+  const renderVaccineSummary = () => {
+    if (dueVaccines.length === 0) return null;
+
+    return (
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryTitle}>Vaccines</Text>
+        {dueVaccines.map(({ record, dueDate }) => {
+          const badge = STATUS_BADGES[getVaccineStatus(dueDate)];
+          return (
+            <View key={record.id} style={styles.summaryRow}>
+              <Text style={styles.summaryName} numberOfLines={1}>{record.title}</Text>
+              <Text style={styles.summaryDate}>{formatRecordDate(dueDate)}</Text>
+              <View style={[styles.statusBadge, { backgroundColor: badge.color }]}>
+                <Text style={styles.statusText}>{badge.label}</Text>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <SectionList
+        sections={sections}
+        renderItem={renderRecord}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={item => item.id}
+        ListHeaderComponent={renderVaccineSummary}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              {error || `No records yet. Add ${petName}'s vaccinations, vet visits, allergies and prescriptions.`}
+            </Text>
+          </View>
+        }
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.content}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  headerButton: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  summaryCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  summaryName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  summaryDate: {
+    fontSize: 13,
+    color: '#666',
+    marginHorizontal: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'white',
+  },
+  sectionHeader: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineRail: {
+    width: 36,
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#E8F0FE',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineEmoji: {
+    fontSize: 16,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#D0D7E2',
+  },
+  recordCard: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginLeft: 8,
+    marginBottom: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  recordHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  recordTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  recordDate: {
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 8,
+  },
+  recordType: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  recordDetail: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 6,
+  },
+  recordNotes: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 6,
+  },
+  documentLink: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 6,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
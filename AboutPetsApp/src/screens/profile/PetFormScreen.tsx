@@ -0,0 +1,497 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Switch,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Button, Input, LoadingSpinner } from '../../components';
+import { AttachmentService } from '../../services/attachmentService';
+import { PetService } from '../../services/petService';
+import { PickedAttachment } from '../../types/chat';
+import { PetInput, PetSex, PetSpecies, PET_SPECIES, PET_TEMPERAMENTS } from '../../types/pet';
+import type { ProfileStackParamList } from '../../types/navigation';
+import { formatDateInput, parseDateInput } from '../../utils/dateUtils';
+import { validatePetForm } from '../../utils/validation';
+
+/**
+ * PetFormScreen
+ *
+ * Adds a new pet or edits an existing one, including its photo.
+ * Saving updates the owner's pet types and count automatically.
+ */
+
+type PetFormScreenRouteProp = RouteProp<ProfileStackParamList, 'PetForm'>;
+
+interface PetFormScreenProps {
+  route: PetFormScreenRouteProp;
+  navigation: any;
+}
+
+const SEX_OPTIONS: { value: PetSex; label: string }[] = [
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+  { value: 'unknown', label: 'Unknown' },
+];
+
+export const PetFormScreen: React.FC<PetFormScreenProps> = ({ route, navigation }) => {
+  const petId = route.params?.petId;
+  const { user } = useAuth();
+
+  const [name, setName] = useState('');
+  const [species, setSpecies] = useState<PetSpecies>('dog');
+  const [breed, setBreed] = useState('');
+  const [birthday, setBirthday] = useState('');
+  const [sex, setSex] = useState<PetSex>('unknown');
+  const [weight, setWeight] = useState('');
+  const [neutered, setNeutered] = useState(false);
+  const [microchipId, setMicrochipId] = useState('');
+  const [temperament, setTemperament] = useState<string[]>([]);
+  const [photoURL, setPhotoURL] = useState<string | undefined>();
+  const [photo, setPhoto] = useState<PickedAttachment | null>(null);
+  const [lostAlertId, setLostAlertId] = useState<string | undefined>();
+
+  const [loading, setLoading] = useState(!!petId);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: petId ? 'Edit Pet' : 'Add Pet' });
+  }, [navigation, petId]);
+
+  useEffect(() => {
+    if (!petId || !user) return;
+
+    let mounted = true;
+    PetService.getPet(user.uid, petId)
+      .then(pet => {
+        if (!mounted) return;
+        if (!pet) {
+          Alert.alert('Error', 'This pet no longer exists.');
+          navigation.goBack();
+          return;
+        }
+
+        setName(pet.name);
+        setSpecies(pet.species);
+        setBreed(pet.breed || '');
+        setBirthday(pet.birthday ? formatDateInput(pet.birthday) : '');
+        setSex(pet.sex);
+        setWeight(pet.weight !== undefined ? String(pet.weight) : '');
+        setNeutered(pet.neutered);
+        setMicrochipId(pet.microchipId || '');
+        setTemperament(pet.temperament);
+        setPhotoURL(pet.photoURL);
+      })
+      .catch(() => {
+        if (mounted) {
+          Alert.alert('Error', 'Failed to load pet. Please try again.');
+        }
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [navigation, petId, user]);
+
+  // The alert is opened and closed on other screens, so follow it live
+  useEffect(() => {
+    if (!petId || !user) return;
+    return PetService.subscribeToPet(user.uid, petId, pet => setLostAlertId(pet?.lostAlertId));
+  }, [petId, user]);
+
+  const handlePickPhoto = async () => {
+    try {
+      const picked = await AttachmentService.pickImage();
+      if (picked) {
+        setPhoto(picked);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pick photo.');
+    }
+  };
+
+  const handleRemovePhoto = () => {
+    setPhoto(null);
+    setPhotoURL(undefined);
+  };
+
+  const toggleTemperament = (tag: string) => {
+    setTemperament(current =>
+      current.includes(tag) ? current.filter(item => item !== tag) : [...current, tag]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validation = validatePetForm(name, birthday, weight, microchipId);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    const input: PetInput = {
+      name,
+      species,
+      breed,
+      birthday: birthday.trim() ? parseDateInput(birthday) || undefined : undefined,
+      sex,
+      weight: weight.trim() ? Number(weight.replace(',', '.')) : undefined,
+      photoURL,
+      neutered,
+      microchipId,
+      temperament,
+    };
+
+    setSaving(true);
+    try {
+      if (petId) {
+        await PetService.updatePet(user.uid, petId, input, photo);
+      } else {
+        await PetService.addPet(user.uid, input, photo);
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save pet. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!user || !petId) return;
+
+    Alert.alert(
+      'Remove Pet',
+      `Are you sure you want to remove ${name || 'this pet'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            try {
+              await PetService.deletePet(user.uid, petId);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to remove pet. Please try again.');
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const previewUri = photo?.uri || photoURL;
+  const speciesEmoji = PET_SPECIES.find(option => option.value === species)?.emoji;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.photoSection}>
+            <TouchableOpacity style={styles.photo} onPress={handlePickPhoto} disabled={saving}>
+              {previewUri ? (
+                <Image source={{ uri: previewUri }} style={styles.photoImage} />
+              ) : (
+                <Text style={styles.photoPlaceholder}>{speciesEmoji}</Text>
+              )}
+            </TouchableOpacity>
+            <View style={styles.photoActions}>
+              <TouchableOpacity onPress={handlePickPhoto} disabled={saving}>
+                <Text style={styles.linkText}>{previewUri ? 'Change photo' : 'Add photo'}</Text>
+              </TouchableOpacity>
+              {previewUri && (
+                <TouchableOpacity onPress={handleRemovePhoto} disabled={saving}>
+                  <Text style={[styles.linkText, styles.removeText]}>Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          {petId && user && (
+            <View style={styles.menu}>
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => navigation.navigate('MedicalRecords', { petId, petName: name })}
+              >
+                <Text style={styles.menuItemText}>🩺 Medical records</Text>
+                <Text style={styles.menuItemChevron}>›</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => navigation.navigate('HealthMetrics', { petId, petName: name })}
+              >
+                <Text style={styles.menuItemText}>📈 Weight & health metrics</Text>
+                <Text style={styles.menuItemChevron}>›</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => navigation.navigate('PetActivity', { ownerId: user.uid, petId, petName: name })}
+              >
+                <Text style={styles.menuItemText}>📝 Activity log</Text>
+                <Text style={styles.menuItemChevron}>›</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('PetSharing', { petId })}>
+                <Text style={styles.menuItemText}>👪 Share with family</Text>
+                <Text style={styles.menuItemChevron}>›</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() =>
+                  lostAlertId
+                    ? navigation.navigate('LostPetAlert', { alertId: lostAlertId })
+                    : navigation.navigate('LostPetReport', { petId })
+                }
+              >
+                <Text style={[styles.menuItemText, styles.lostText]}>
+                  🚨 {lostAlertId ? 'View lost pet alert' : 'Report lost'}
+                </Text>
+                <Text style={styles.menuItemChevron}>›</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <Input label="Name" required value={name} onChangeText={setName} placeholder="e.g. Buddy" maxLength={50} />
+
+          <Text style={styles.label}>Species</Text>
+          <View style={styles.chipRow}>
+            {PET_SPECIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, species === option.value && styles.chipSelected]}
+                onPress={() => setSpecies(option.value)}
+              >
+                <Text style={[styles.chipText, species === option.value && styles.chipTextSelected]}>
+                  {option.emoji} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input label="Breed" value={breed} onChangeText={setBreed} placeholder="e.g. Golden Retriever" />
+          <Input
+            label="Birthday"
+            value={birthday}
+            onChangeText={setBirthday}
+            placeholder="YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+          />
+
+          <Text style={styles.label}>Sex</Text>
+          <View style={styles.chipRow}>
+            {SEX_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, sex === option.value && styles.chipSelected]}
+                onPress={() => setSex(option.value)}
+              >
+                <Text style={[styles.chipText, sex === option.value && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label="Weight (kg)"
+            value={weight}
+            onChangeText={setWeight}
+            placeholder="e.g. 12.5"
+            keyboardType="decimal-pad"
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Spayed / neutered</Text>
+            <Switch value={neutered} onValueChange={setNeutered} />
+          </View>
+
+          <Input
+            label="Microchip ID"
+            value={microchipId}
+            onChangeText={setMicrochipId}
+            placeholder="15-digit chip number"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={15}
+          />
+
+          <Text style={styles.label}>Temperament</Text>
+          <View style={styles.chipRow}>
+            {PET_TEMPERAMENTS.map(tag => (
+              <TouchableOpacity
+                key={tag}
+                style={[styles.chip, temperament.includes(tag) && styles.chipSelected]}
+                onPress={() => toggleTemperament(tag)}
+              >
+                <Text style={[styles.chipText, temperament.includes(tag) && styles.chipTextSelected]}>
+                  {tag}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map(error => (
+                <Text key={error} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <Button title={petId ? 'Save Changes' : 'Add Pet'} onPress={handleSave} loading={saving} fullWidth />
+          {petId && (
+            <View style={styles.deleteButton}>
+              <Button title="Remove Pet" variant="danger" onPress={handleDelete} disabled={saving} fullWidth />
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  photoSection: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  photo: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    backgroundColor: '#E8F0FE',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  photoPlaceholder: {
+    fontSize: 48,
+  },
+  photoActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+    gap: 20,
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  removeText: {
+    color: '#FF3B30',
+  },
+  menu: {
+    marginBottom: 12,
+  },
+  menuItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  menuItemText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  lostText: {
+    color: '#FF3B30',
+  },
+  menuItemChevron: {
+    fontSize: 20,
+    color: '#999',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 2,
+  },
+  deleteButton: {
+    marginTop: 12,
+  },
+});
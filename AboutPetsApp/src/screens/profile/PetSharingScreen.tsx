@@ -0,0 +1,293 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../auth/hooks/useAuth';
+import { Avatar, Input, LoadingSpinner } from '../../components';
+import { PetService } from '../../services/petService';
+import { PetSharingService } from '../../services/petSharingService';
+import { UserService, UserProfile } from '../../services/userService';
+import { Pet, PetInvite } from '../../types/pet';
+import type { ProfileStackParamList } from '../../types/navigation';
+
+/**
+ * PetSharingScreen
+ *
+ * Lets a pet's owner invite other users to co-own the pet, see pending
+ * invites and remove co-owners. Co-owners share the pet's activity log.
+ */
+
+type PetSharingScreenRouteProp = RouteProp<ProfileStackParamList, 'PetSharing'>;
+
+interface PetSharingScreenProps {
+  route: PetSharingScreenRouteProp;
+  navigation: any;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const PetSharingScreen: React.FC<PetSharingScreenProps> = ({ route, navigation }) => {
+  const { petId } = route.params;
+  const { user } = useAuth();
+
+  const [pet, setPet] = useState<Pet | null>(null);
+  const [coOwners, setCoOwners] = useState<UserProfile[]>([]);
+  const [invites, setInvites] = useState<PetInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [invitingId, setInvitingId] = useState<string | null>(null);
+  // Ignore responses of searches that were superseded by newer input
+  const searchIdRef = useRef(0);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: pet ? `Share ${pet.name}` : 'Sharing' });
+  }, [navigation, pet]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribePet = PetService.subscribeToPet(
+      user.uid,
+      petId,
+      (updatedPet) => {
+        if (!updatedPet) {
+          navigation.goBack();
+          return;
+        }
+        setPet(updatedPet);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+    const unsubscribeInvites = PetSharingService.subscribeToPetInvites(user.uid, petId, setInvites);
+
+    return () => {
+      unsubscribePet();
+      unsubscribeInvites();
+    };
+  }, [navigation, petId, user]);
+
+  // Resolve co-owner names whenever the list changes
+  const coOwnerKey = pet?.coOwnerIds.join(',') || '';
+  useEffect(() => {
+    if (!coOwnerKey) {
+      setCoOwners([]);
+      return;
+    }
+
+    let mounted = true;
+    Promise.all(coOwnerKey.split(',').map(uid => UserService.getUserProfile(uid))).then(profiles => {
+      if (mounted) {
+        setCoOwners(profiles.filter((profile): profile is UserProfile => !!profile));
+      }
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [coOwnerKey]);
+
+  // Run a debounced user search whenever the term changes
+  useEffect(() => {
+    if (!user) return;
+
+    const searchId = ++searchIdRef.current;
+    setSearchResults([]);
+    if (!searchTerm.trim()) {
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const page = await UserService.searchUsers(searchTerm, user.uid);
+        if (searchId === searchIdRef.current) {
+          setSearchResults(page.users);
+        }
+      } catch (error) {
+        console.error('Error searching users:', error);
+      } finally {
+        if (searchId === searchIdRef.current) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [user, searchTerm]);
+
+  const handleInvite = async (profile: UserProfile) => {
+    if (!user || !pet) return;
+
+    setInvitingId(profile.uid);
+    try {
+      await PetSharingService.sendInvite(user, pet, profile.uid);
+      setSearchTerm('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send the invite. Please try again.');
+    } finally {
+      setInvitingId(null);
+    }
+  };
+
+  const handleCancelInvite = async (invite: PetInvite) => {
+    try {
+      await PetSharingService.deleteInvite(invite.petId, invite.inviteeId);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to cancel the invite. Please try again.');
+    }
+  };
+
+  const handleRemoveCoOwner = (profile: UserProfile) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Remove Co-owner',
+      `${profile.displayName} will no longer see ${pet?.name}'s activity log.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await PetService.removeCoOwner(user.uid, petId, profile.uid);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to remove the co-owner. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading || !pet) {
+    return <LoadingSpinner />;
+  }
+
+  const invitedIds = new Set(invites.map(invite => invite.inviteeId));
+  const candidates = searchResults.filter(profile => !pet.coOwnerIds.includes(profile.uid));
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Co-owners</Text>
+          {coOwners.length === 0 && (
+            <Text style={styles.emptyText}>Invite family members to share {pet.name}'s care log.</Text>
+          )}
+          {coOwners.map(profile => (
+            <View key={profile.uid} style={styles.userRow}>
+              <Avatar source={profile.photoURL} name={profile.displayName} size="small" />
+              <Text style={styles.userName}>{profile.displayName}</Text>
+              <TouchableOpacity onPress={() => handleRemoveCoOwner(profile)}>
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+
+        {invites.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Pending invites</Text>
+            {invites.map(invite => (
+              <View key={invite.id} style={styles.userRow}>
+                <Text style={styles.userName}>{invite.inviteeName}</Text>
+                <TouchableOpacity onPress={() => handleCancelInvite(invite)}>
+                  <Text style={styles.removeText}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Invite</Text>
+          <Input
+            value={searchTerm}
+            onChangeText={setSearchTerm}
+            placeholder="Search by name or email"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {searching && <ActivityIndicator color="#007AFF" />}
+          {!searching && !!searchTerm.trim() && candidates.length === 0 && (
+            <Text style={styles.emptyText}>No users found</Text>
+          )}
+          {candidates.map(profile => (
+            <View key={profile.uid} style={styles.userRow}>
+              <Avatar source={profile.photoURL} name={profile.displayName} size="small" />
+              <Text style={styles.userName}>{profile.displayName}</Text>
+              {invitedIds.has(profile.uid) ? (
+                <Text style={styles.invitedText}>Invited</Text>
+              ) : (
+                <TouchableOpacity onPress={() => handleInvite(profile)} disabled={invitingId !== null}>
+                  {invitingId === profile.uid ? (
+                    <ActivityIndicator color="#007AFF" />
+                  ) : (
+                    <Text style={styles.inviteText}>Invite</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e1e1e1',
+  },
+  userName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 12,
+  },
+  inviteText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  invitedText: {
+    fontSize: 15,
+    color: '#999',
+  },
+  removeText: {
+    fontSize: 15,
+    color: '#FF3B30',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+  },
+});
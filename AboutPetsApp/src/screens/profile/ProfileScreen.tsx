@@ -1,17 +1,28 @@
 import React from 'react';
-import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, Alert } from 'react-native';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity, Image, Alert, ActivityIndicator } from 'react-native';
 import { useAuth } from '../../auth/hooks/useAuth';
 import { Avatar, Button } from '../../components';
+import { usePets } from '../../hooks/usePets';
+import { useSharedPets } from '../../hooks/useSharedPets';
+import { PetSharingService } from '../../services/petSharingService';
+import { Pet, PetInvite, PET_SPECIES } from '../../types/pet';
+import { formatPetAge } from '../../utils/dateUtils';
 
 /**
  * ProfileScreen
  * 
- * User profile screen displaying user information and settings.
- * Provides access to account management and app settings.
+ * User profile screen displaying user information, pets and settings.
+ * Provides access to pet profiles, account management and app settings.
  */
 
-export const ProfileScreen: React.FC = () => {
+interface ProfileScreenProps {
+  navigation: any;
+}
+
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
   const { user, signOut } = useAuth();
+  const { pets, loading: petsLoading, error: petsError } = usePets(user?.uid);
+  const { sharedPets, invites, error: sharedError } = useSharedPets(user?.uid);
 
   const handleSignOut = () => {
     Alert.alert(
@@ -34,13 +45,68 @@ export const ProfileScreen: React.FC = () => {
     );
   };
 
+  const handleAcceptInvite = async (invite: PetInvite) => {
+    if (!user) return;
+
+    try {
+      await PetSharingService.acceptInvite(user.uid, invite);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to accept the invite. Please try again.');
+    }
+  };
+
+  const handleDeclineInvite = async (invite: PetInvite) => {
+    try {
+      await PetSharingService.declineInvite(invite.id);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to decline the invite. Please try again.');
+    }
+  };
+
+  const renderPet = (pet: Pet) => {
+    const isShared = pet.ownerId !== user?.uid;
+    const species = PET_SPECIES.find(option => option.value === pet.species);
+    const details = [
+      pet.breed || species?.label,
+      pet.birthday && formatPetAge(pet.birthday),
+      isShared && 'Shared with you',
+      pet.lostAlertId && '🚨 Missing',
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+    return (
+      <TouchableOpacity
+        key={`${pet.ownerId}-${pet.id}`}
+        style={[styles.menuItem, styles.petItem]}
+        onPress={() =>
+          isShared
+            ? navigation.navigate('PetActivity', { ownerId: pet.ownerId, petId: pet.id, petName: pet.name })
+            : navigation.navigate('PetForm', { petId: pet.id })
+        }
+      >
+        <View style={styles.petPhoto}>
+          {pet.photoURL ? (
+            <Image source={{ uri: pet.photoURL }} style={styles.petPhotoImage} />
+          ) : (
+            <Text style={styles.petEmoji}>{species?.emoji || '🐾'}</Text>
+          )}
+        </View>
+        <View style={styles.petInfo}>
+          <Text style={styles.menuItemText}>{pet.name}</Text>
+          {!!details && <Text style={styles.petDetails}>{details}</Text>}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   if (!user) {
     return null;
   }
 
   return (
     <SafeAreaView style={styles.container}>
-      <View style={styles.content}>
+      <ScrollView contentContainerStyle={styles.content}>
         <View style={styles.header}>
           <Avatar 
             source={user.photoURL}
@@ -51,20 +117,84 @@ export const ProfileScreen: React.FC = () => {
           <Text style={styles.email}>{user.email}</Text>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>My Pets</Text>
+
+          {invites.map(invite => (
+            <View key={invite.id} style={[styles.menuItem, styles.inviteItem]}>
+              <Text style={styles.menuItemText}>
+                {invite.ownerName} invited you to co-own {invite.petName}
+              </Text>
+              <View style={styles.inviteActions}>
+                <TouchableOpacity onPress={() => handleDeclineInvite(invite)}>
+                  <Text style={styles.declineText}>Decline</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleAcceptInvite(invite)}>
+                  <Text style={styles.acceptText}>Accept</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {petsLoading ? (
+            <ActivityIndicator style={styles.petsLoading} color="#007AFF" />
+          ) : (
+            [...pets, ...sharedPets].map(renderPet)
+          )}
+          {petsError && <Text style={styles.petsError}>{petsError}</Text>}
+          {sharedError && <Text style={styles.petsError}>{sharedError}</Text>}
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('PetForm')}>
+            <Text style={[styles.menuItemText, styles.addPetText]}>+ Add Pet</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Care</Text>
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('Today')}>
+            <Text style={styles.menuItemText}>📅 Today's tasks & reminders</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Community</Text>
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('Feed')}>
+            <Text style={styles.menuItemText}>📰 Community feed</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('LostPetAlerts')}>
+            <Text style={styles.menuItemText}>🚨 Lost & found alerts</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('AdoptionListings')}>
+            <Text style={styles.menuItemText}>🏡 Adoption & rehoming</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('Events')}>
+            <Text style={styles.menuItemText}>📅 Playdates & meetups</Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Account</Text>
           
-          <TouchableOpacity style={styles.menuItem}>
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('EditProfile')}>
             <Text style={styles.menuItemText}>Edit Profile</Text>
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.menuItem}>
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('ChangePassword')}>
             <Text style={styles.menuItemText}>Change Password</Text>
           </TouchableOpacity>
           
           <TouchableOpacity style={styles.menuItem}>
             <Text style={styles.menuItemText}>Privacy Settings</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('DeleteAccount')}>
+            <Text style={[styles.menuItemText, styles.destructiveText]}>Delete Account</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.section}>
@@ -91,7 +221,7 @@ export const ProfileScreen: React.FC = () => {
             fullWidth
           />
         </View>
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 };
@@ -102,7 +232,7 @@ const styles = StyleSheet.create({
     backgroundColor: '#f8f9fa',
   },
   content: {
-    flex: 1,
+    flexGrow: 1,
     padding: 20,
   },
   header: {
@@ -143,6 +273,69 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  destructiveText: {
+    color: '#FF3B30',
+  },
+  petItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  petPhoto: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#E8F0FE',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    marginRight: 12,
+  },
+  petPhotoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  petEmoji: {
+    fontSize: 24,
+  },
+  petInfo: {
+    flex: 1,
+  },
+  petDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  petsLoading: {
+    marginVertical: 12,
+  },
+  petsError: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 8,
+  },
+  inviteItem: {
+    borderColor: '#007AFF',
+  },
+  inviteActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  acceptText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 24,
+  },
+  declineText: {
+    fontSize: 15,
+    color: '#666',
+  },
+  addPetText: {
+    color: '#007AFF',
+    fontWeight: '500',
+  },
   footer: {
     marginTop: 'auto',
     paddingTop: 20,
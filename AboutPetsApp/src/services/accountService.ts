@@ -0,0 +1,48 @@
+import { AdoptionService } from './adoptionService';
+import { ChatFirestoreService } from './chatFirestoreService';
+import { DynamicChatService } from './dynamicChatService';
+import { FeedService } from './feedService';
+import { FollowService } from './followService';
+import { LostPetAlertService } from './lostPetAlertService';
+import { PetService } from './petService';
+import { ReminderService } from './reminderService';
+import { UserService } from './userService';
+
+/**
+ * Account service for removing a user's data when they delete their account
+ * Messages stay in their chats for the other participants, but no longer
+ * carry the user's name, and their attachments are deleted. The Firebase Auth
+ * user itself is deleted by useAuth.
+ */
+
+export class AccountService {
+  /**
+   * Delete or anonymize everything stored for a user
+   * Runs while the user is still signed in, since security rules only let
+   * them change their own data. Every step only acts on what is left, so
+   * after a failure the whole run can simply be repeated.
+   */
+  static async deleteUserData(userId: string): Promise<void> {
+    try {
+      // Anonymize messages before leaving, while the chats are still readable
+      const chats = await DynamicChatService.getAllUserChats(userId);
+      for (const chat of chats) {
+        await ChatFirestoreService.anonymizeSender(chat.id, userId);
+        await DynamicChatService.removeParticipant(chat.id, userId);
+      }
+
+      await PetService.deleteAllPets(userId);
+      await ReminderService.deleteAllReminders(userId);
+      await LostPetAlertService.deleteNotifications(userId);
+      await FeedService.deleteAllForAuthor(userId);
+      await AdoptionService.deleteAllForLister(userId);
+      await FollowService.removeAllFollows(userId);
+
+      // Last, since deleting pets above still updates the profile's pet summary
+      await UserService.deleteProfile(userId);
+    } catch (error) {
+      console.error('Error deleting user data:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,361 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  serverTimestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { AttachmentService } from './attachmentService';
+import { DynamicChatService } from './dynamicChatService';
+import { User } from '../types/auth';
+import { PickedAttachment } from '../types/chat';
+import { AdoptionListing, AdoptionListingInput, AdoptionListingStatus } from '../types/adoption';
+import { PET_SPECIES } from '../types/pet';
+import { canChangeListingStatus, getListingStatusLabel } from '../utils/adoptionUtils';
+
+/**
+ * Adoption service for listings of pets that need a new home
+ * Listings live in adoptionListings and move through the lifecycle in
+ * ADOPTION_STATUSES; favorites are kept per user in
+ * users/{uid}/favoriteListings/{listingId}
+ */
+
+/** Statuses shown when browsing; adopted and private listings are left out */
+const BROWSE_STATUSES: AdoptionListingStatus[] = ['active', 'pending'];
+
+export class AdoptionService {
+  private static getListingsRef() {
+    return collection(db, 'adoptionListings');
+  }
+
+  private static getFavoritesRef(userId: string) {
+    return collection(db, 'users', userId, 'favoriteListings');
+  }
+
+  /**
+   * Create a listing, either as a draft or published right away, and resolve with its ID
+   */
+  static async createListing(
+    lister: User,
+    input: AdoptionListingInput,
+    newPhotos: PickedAttachment[] = [],
+    status: 'draft' | 'active' = 'draft'
+  ): Promise<string> {
+    try {
+      const listingRef = doc(this.getListingsRef());
+
+      await setDoc(listingRef, {
+        ...this.toFirestoreData(input),
+        listerId: lister.uid,
+        listerName: lister.displayName,
+        status,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      // Storage only accepts listing photos from the lister of an existing listing
+      if (newPhotos.length > 0) {
+        const uploadedURLs = await this.uploadPhotos(listingRef.id, newPhotos);
+        await updateDoc(listingRef, { photoURLs: [...input.photoURLs, ...uploadedURLs] });
+      }
+
+      return listingRef.id;
+    } catch (error) {
+      console.error('Error creating adoption listing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a listing's details; photos missing from input.photoURLs are deleted
+   */
+  static async updateListing(
+    listing: AdoptionListing,
+    input: AdoptionListingInput,
+    newPhotos: PickedAttachment[] = []
+  ): Promise<void> {
+    try {
+      const uploadedURLs = await this.uploadPhotos(listing.id, newPhotos);
+
+      const data = this.toFirestoreData({ ...input, photoURLs: [...input.photoURLs, ...uploadedURLs] });
+
+      // Clear optional fields the user emptied
+      const clearedFields: Record<string, ReturnType<typeof deleteField>> = {};
+      (['breed', 'ageMonths', 'description'] as const).forEach(field => {
+        if (!(field in data)) {
+          clearedFields[field] = deleteField();
+        }
+      });
+
+      await updateDoc(doc(this.getListingsRef(), listing.id), {
+        ...data,
+        ...clearedFields,
+        updatedAt: serverTimestamp(),
+      });
+
+      const removedURLs = listing.photoURLs.filter(url => !input.photoURLs.includes(url));
+      await Promise.all(removedURLs.map(url => AttachmentService.deleteAttachment(url)));
+    } catch (error) {
+      console.error('Error updating adoption listing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a listing to the next lifecycle status, e.g. publish a draft or mark it adopted
+   */
+  static async setStatus(listing: AdoptionListing, status: AdoptionListingStatus): Promise<void> {
+    if (!canChangeListingStatus(listing.status, status)) {
+      throw new Error(
+        `A listing that is ${getListingStatusLabel(listing.status).toLowerCase()} cannot be marked ${getListingStatusLabel(status).toLowerCase()}`
+      );
+    }
+
+    try {
+      await updateDoc(doc(this.getListingsRef(), listing.id), {
+        status,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error changing adoption listing status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a listing and its photos
+   */
+  static async deleteListing(listing: AdoptionListing): Promise<void> {
+    try {
+      // Photos go before the listing that holds their URLs, so a retry can still find them
+      await Promise.all(listing.photoURLs.map(url => AttachmentService.deleteAttachment(url)));
+      await deleteDoc(doc(this.getListingsRef(), listing.id));
+    } catch (error) {
+      console.error('Error deleting adoption listing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all listings a user created, with their photos, and the user's favorites
+   */
+  static async deleteAllForLister(userId: string): Promise<void> {
+    try {
+      const [listings, favorites] = await Promise.all([
+        getDocs(query(this.getListingsRef(), where('listerId', '==', userId))),
+        getDocs(this.getFavoritesRef(userId)),
+      ]);
+
+      await Promise.all(
+        listings.docs.map(listingDoc => this.deleteListing(this.toListing(listingDoc.id, listingDoc.data())))
+      );
+      await Promise.all(favorites.docs.map(favoriteDoc => deleteDoc(favoriteDoc.ref)));
+    } catch (error) {
+      console.error('Error deleting adoption listings for user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to a single listing; the callback receives null once it was deleted
+   */
+  static subscribeToListing(
+    listingId: string,
+    callback: (listing: AdoptionListing | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      doc(this.getListingsRef(), listingId),
+      (listingDoc) => {
+        callback(
+          listingDoc.exists() ? this.toListing(listingDoc.id, listingDoc.data({ serverTimestamps: 'estimate' })) : null
+        );
+      },
+      (error) => {
+        console.error('Error subscribing to adoption listing:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to available and pending listings, newest first, optionally of one pet type
+   */
+  static subscribeToListings(
+    petType: string | null,
+    callback: (listings: AdoptionListing[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    const constraints = [
+      where('status', 'in', BROWSE_STATUSES),
+      ...(petType ? [where('petType', '==', petType)] : []),
+      orderBy('updatedAt', 'desc'),
+    ];
+
+    return onSnapshot(
+      query(this.getListingsRef(), ...constraints),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map(listingDoc => this.toListing(listingDoc.id, listingDoc.data({ serverTimestamps: 'estimate' })))
+        );
+      },
+      (error) => {
+        console.error('Error subscribing to adoption listings:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to all listings a user created, in any status, most recently updated first
+   */
+  static subscribeToMyListings(
+    userId: string,
+    callback: (listings: AdoptionListing[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getListingsRef(), where('listerId', '==', userId)),
+      (snapshot) => {
+        const listings = snapshot.docs
+          .map(listingDoc => this.toListing(listingDoc.id, listingDoc.data({ serverTimestamps: 'estimate' })))
+          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+        callback(listings);
+      },
+      (error) => {
+        console.error('Error subscribing to my adoption listings:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Load listings by ID, skipping those that were deleted or are no longer public
+   */
+  static async getListings(listingIds: string[]): Promise<AdoptionListing[]> {
+    const listings = await Promise.all(
+      listingIds.map(async listingId => {
+        try {
+          const listingDoc = await getDoc(doc(this.getListingsRef(), listingId));
+          return listingDoc.exists() ? this.toListing(listingDoc.id, listingDoc.data()) : null;
+        } catch (error) {
+          // Drafts and withdrawn listings of other users are not readable
+          return null;
+        }
+      })
+    );
+    return listings.filter((listing): listing is AdoptionListing => !!listing);
+  }
+
+  /**
+   * Subscribe to the IDs of a user's favorite listings
+   */
+  static subscribeToFavoriteIds(
+    userId: string,
+    callback: (listingIds: string[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getFavoritesRef(userId), orderBy('createdAt', 'desc')),
+      (snapshot) => {
+        callback(snapshot.docs.map(favoriteDoc => favoriteDoc.id));
+      },
+      (error) => {
+        console.error('Error subscribing to favorite listings:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  static async setFavorite(userId: string, listingId: string, favorite: boolean): Promise<void> {
+    try {
+      const favoriteRef = doc(this.getFavoritesRef(userId), listingId);
+      if (favorite) {
+        await setDoc(favoriteRef, { createdAt: serverTimestamp() });
+      } else {
+        await deleteDoc(favoriteRef);
+      }
+    } catch (error) {
+      console.error('Error updating favorite listing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Message the lister about a listing in a direct chat and resolve with the chat ID
+   */
+  static async inquire(user: User, listing: AdoptionListing): Promise<string> {
+    try {
+      return await DynamicChatService.sendDirectMessage(
+        user.uid,
+        user.displayName,
+        listing.listerId,
+        listing.listerName,
+        `🏡 Hi! I'm interested in adopting ${listing.name}. Is ${listing.name} still looking for a home?`
+      );
+    } catch (error) {
+      console.error('Error sending adoption inquiry:', error);
+      throw error;
+    }
+  }
+
+  private static uploadPhotos(listingId: string, photos: PickedAttachment[]): Promise<string[]> {
+    return Promise.all(
+      photos.map(photo => AttachmentService.uploadFile(`adoptionListings/${listingId}/${photo.fileName}`, photo))
+    );
+  }
+
+  /**
+   * Firestore rejects undefined values, so optional fields are only written when set
+   */
+  private static toFirestoreData(input: AdoptionListingInput): DocumentData {
+    const data: DocumentData = {
+      listerType: input.listerType,
+      name: input.name.trim(),
+      species: input.species,
+      petType: PET_SPECIES.find(option => option.value === input.species)?.petType || 'other',
+      sex: input.sex,
+      location: input.location.trim(),
+      requirements: input.requirements,
+      photoURLs: input.photoURLs,
+    };
+
+    if (input.breed?.trim()) data.breed = input.breed.trim();
+    if (input.ageMonths !== undefined) data.ageMonths = input.ageMonths;
+    if (input.description?.trim()) data.description = input.description.trim();
+
+    return data;
+  }
+
+  private static toListing(id: string, data: DocumentData): AdoptionListing {
+    return {
+      id,
+      listerId: data.listerId,
+      listerName: data.listerName,
+      listerType: data.listerType || 'individual',
+      name: data.name,
+      species: data.species || 'other',
+      petType: data.petType || 'other',
+      breed: data.breed,
+      ageMonths: data.ageMonths,
+      sex: data.sex || 'unknown',
+      location: data.location || '',
+      requirements: data.requirements || [],
+      description: data.description,
+      photoURLs: data.photoURLs || [],
+      status: data.status || 'draft',
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    };
+  }
+}
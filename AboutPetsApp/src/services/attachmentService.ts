@@ -0,0 +1,133 @@
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
+import { storage } from './firebase';
+import { PickedAttachment } from '../types/chat';
+
+/**
+ * Attachment service for chat photos and files
+ * Picks media from the device and uploads it to Firebase Storage
+ * under chats/{chatId}/{messageId}/{fileName}
+ */
+
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+export class AttachmentService {
+  /**
+   * Let the user pick a photo from the library, optionally cropping it to a square
+   */
+  static async pickImage(options: { cropSquare?: boolean } = {}): Promise<PickedAttachment | null> {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error('Photo library permission is required to share photos');
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.8,
+      ...(options.cropSquare ? { allowsEditing: true, aspect: [1, 1] as [number, number] } : {}),
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    return {
+      type: 'image',
+      uri: asset.uri,
+      fileName: asset.fileName || `photo-${Date.now()}.jpg`,
+      mimeType: asset.mimeType || 'image/jpeg',
+      fileSize: asset.fileSize,
+      width: asset.width,
+      height: asset.height,
+    };
+  }
+
+  /**
+   * Let the user pick any document
+   */
+  static async pickDocument(): Promise<PickedAttachment | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    const mimeType = asset.mimeType || 'application/octet-stream';
+    return {
+      type: mimeType.startsWith('image/') ? 'image' : 'file',
+      uri: asset.uri,
+      fileName: asset.name,
+      mimeType,
+      fileSize: asset.size,
+    };
+  }
+
+  /**
+   * Upload an attachment and resolve with its download URL
+   */
+  static async uploadAttachment(
+    chatId: string,
+    messageId: string,
+    attachment: PickedAttachment,
+    onProgress?: (progress: number) => void
+  ): Promise<string> {
+    return this.uploadFile(`chats/${chatId}/${messageId}/${attachment.fileName}`, attachment, onProgress);
+  }
+
+  /**
+   * Upload a picked file to the given storage path and resolve with its download URL
+   */
+  static async uploadFile(
+    path: string,
+    attachment: PickedAttachment,
+    onProgress?: (progress: number) => void
+  ): Promise<string> {
+    if (attachment.fileSize && attachment.fileSize > MAX_ATTACHMENT_SIZE) {
+      throw new Error('Attachments must be smaller than 20 MB');
+    }
+
+    try {
+      const response = await fetch(attachment.uri);
+      const blob = await response.blob();
+
+      const storageRef = ref(storage, path);
+      const uploadTask = uploadBytesResumable(storageRef, blob, {
+        contentType: attachment.mimeType,
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        uploadTask.on(
+          'state_changed',
+          (snapshot) => {
+            if (snapshot.totalBytes > 0) {
+              onProgress?.(snapshot.bytesTransferred / snapshot.totalBytes);
+            }
+          },
+          reject,
+          () => resolve()
+        );
+      });
+
+      return await getDownloadURL(uploadTask.snapshot.ref);
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an uploaded attachment, e.g. when its message is unsent
+   */
+  static async deleteAttachment(url: string): Promise<void> {
+    try {
+      await deleteObject(ref(storage, url));
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+    }
+  }
+}
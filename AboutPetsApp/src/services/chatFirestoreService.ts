@@ -1,29 +1,68 @@
 import { 
   collection, 
   doc, 
-  addDoc, 
+  getDoc,
+  getDocs,
   onSnapshot, 
   query, 
   orderBy, 
   limit, 
+  startAfter,
+  where,
   serverTimestamp,
-  updateDoc
+  runTransaction,
+  setDoc,
+  updateDoc,
+  deleteField,
+  writeBatch,
+  DocumentData,
+  QueryDocumentSnapshot
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { Message } from '../types/chat';
+import { AttachmentService } from './attachmentService';
+import { ChatReceipts, Message } from '../types/chat';
+import { toDateMap } from '../utils/dateUtils';
+import { toggleUserReaction } from '../utils/reactionUtils';
+import { matchesSearch, tokenizeText } from '../utils/searchUtils';
 
 /**
  * Firestore service for chat messages
  * Handles real-time message updates, sending messages, and status updates
  */
 
+/**
+ * Opaque pagination cursor pointing at the oldest message loaded so far
+ */
+export type MessageCursor = QueryDocumentSnapshot<DocumentData>;
+
+/**
+ * Own messages can be edited for this long after they were sent
+ */
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export const DELETED_MESSAGE_TEXT = 'This message was deleted';
+
+/**
+ * Shown as the sender of messages whose account was deleted
+ */
+export const DELETED_USER_NAME = 'Deleted user';
+
+const MAX_BATCH_WRITES = 500;
+
+export interface MessagePage {
+  messages: Message[];
+  cursor: MessageCursor | null;
+  hasMore: boolean;
+}
+
 export class ChatFirestoreService {
   /**
    * Subscribe to real-time messages for a specific chat
+   * The callback also receives the cursor of the oldest message in the live window
    */
   static subscribeToMessages(
     chatId: string,
-    callback: (messages: Message[]) => void,
+    callback: (messages: Message[], cursor: MessageCursor | null, hasMore: boolean) => void,
     onError?: (error: Error) => void,
     messageLimit: number = 50
   ) {
@@ -34,24 +73,14 @@ export class ChatFirestoreService {
       limit(messageLimit)
     );
 
+    // Metadata changes let local writes flip from 'sending' to 'sent' once acknowledged
     return onSnapshot(
       q,
+      { includeMetadataChanges: true },
       (snapshot) => {
-        const messages: Message[] = snapshot.docs.map((doc) => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            text: data.text,
-            senderId: data.senderId,
-            senderName: data.senderName,
-            timestamp: data.timestamp?.toDate() || new Date(),
-            chatId: data.chatId,
-            type: data.type || 'text',
-            status: data.status || 'sent',
-            metadata: data.metadata,
-          };
-        });
-        callback(messages);
+        const messages: Message[] = snapshot.docs.map(this.toMessage);
+        const cursor = snapshot.docs[snapshot.docs.length - 1] ?? null;
+        callback(messages, cursor, snapshot.size >= messageLimit);
       },
       (error) => {
         console.error('Error listening to messages:', error);
@@ -60,20 +89,80 @@ export class ChatFirestoreService {
     );
   }
 
+  /**
+   * Load a page of messages older than the given cursor
+   */
+  static async loadOlderMessages(
+    chatId: string,
+    beforeCursor: MessageCursor,
+    pageSize: number = 50
+  ): Promise<MessagePage> {
+    try {
+      const messagesRef = collection(db, 'chats', chatId, 'messages');
+      // Fetch one extra document to find out whether another page exists
+      const q = query(
+        messagesRef,
+        orderBy('timestamp', 'desc'),
+        startAfter(beforeCursor),
+        limit(pageSize + 1)
+      );
+
+      const snapshot = await getDocs(q);
+      const pageDocs = snapshot.docs.slice(0, pageSize);
+
+      return {
+        messages: pageDocs.map(this.toMessage),
+        cursor: pageDocs[pageDocs.length - 1] ?? null,
+        hasMore: snapshot.docs.length > pageSize,
+      };
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      throw error;
+    }
+  }
+
   /**
    * Send a new message to Firestore
+   * Messages with a client-generated ID are created under that ID only if it is
+   * still free, so replaying a delivered message never overwrites its later
+   * reactions, edits or unsend. Also updates chats/{chatId}.lastMessage so the
+   * chat list shows and sorts by it.
    */
-  static async sendMessage(message: Omit<Message, 'id' | 'timestamp' | 'status'>): Promise<string> {
+  static async sendMessage(message: Omit<Message, 'timestamp' | 'status'>): Promise<string> {
     try {
-      const messagesRef = collection(db, 'chats', message.chatId, 'messages');
+      const chatRef = doc(db, 'chats', message.chatId);
+      const messagesRef = collection(chatRef, 'messages');
+      const messageRef = message.id ? doc(messagesRef, message.id) : doc(messagesRef);
+      const { id, metadata, ...messageFields } = message;
+      // Firestore rejects undefined values, so drop unset optional fields
       const messageData = {
-        ...message,
+        ...this.withoutUndefined(messageFields),
+        ...(metadata && { metadata: this.withoutUndefined(metadata) }),
+        searchTokens: this.getSearchTokens(message),
         timestamp: serverTimestamp(),
         status: 'sent',
       };
 
-      const docRef = await addDoc(messagesRef, messageData);
-      return docRef.id;
+      await runTransaction(db, async (transaction) => {
+        const existingDoc = await transaction.get(messageRef);
+        if (existingDoc.exists()) {
+          return;
+        }
+
+        transaction.set(messageRef, messageData);
+        transaction.update(chatRef, {
+          lastMessage: {
+            id: messageRef.id,
+            text: this.getPreviewText(message),
+            senderId: message.senderId,
+            senderName: message.senderName,
+            timestamp: serverTimestamp(),
+          },
+          lastActivity: serverTimestamp(),
+        });
+      });
+
+      return messageRef.id;
     } catch (error) {
       console.error('Error sending message:', error);
       throw error;
@@ -86,7 +175,7 @@ export class ChatFirestoreService {
   static async updateMessageStatus(
     chatId: string, 
     messageId: string, 
-    status: 'sending' | 'sent' | 'failed'
+    status: NonNullable<Message['status']>
   ): Promise<void> {
     try {
       const messageRef = doc(db, 'chats', chatId, 'messages', messageId);
@@ -96,4 +185,328 @@ export class ChatFirestoreService {
       throw error;
     }
   }
+
+  /**
+   * Add or remove a user's emoji reaction on a message
+   * Runs in a transaction so concurrent reactions never overwrite each other
+   */
+  static async toggleReaction(
+    chatId: string,
+    messageId: string,
+    emoji: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const messageRef = doc(db, 'chats', chatId, 'messages', messageId);
+
+      await runTransaction(db, async (transaction) => {
+        const messageDoc = await transaction.get(messageRef);
+        if (!messageDoc.exists()) {
+          throw new Error('Message not found');
+        }
+
+        const reactions = toggleUserReaction(messageDoc.data().reactions, emoji, userId);
+        transaction.update(messageRef, { reactions });
+      });
+    } catch (error) {
+      console.error('Error toggling reaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a user may still edit a message under the edit window policy
+   */
+  static canEditMessage(message: Message, userId: string, now: Date = new Date()): boolean {
+    return (
+      message.senderId === userId &&
+      !message.deleted &&
+      (message.type || 'text') === 'text' &&
+      now.getTime() - message.timestamp.getTime() <= MESSAGE_EDIT_WINDOW_MS
+    );
+  }
+
+  /**
+   * Edit the text of an own message within the edit window
+   * Keeps chats/{chatId}.lastMessage in sync when the edited message is the latest one
+   */
+  static async editMessage(chatId: string, messageId: string, userId: string, text: string): Promise<void> {
+    try {
+      const chatRef = doc(db, 'chats', chatId);
+      const messageRef = doc(chatRef, 'messages', messageId);
+
+      await runTransaction(db, async (transaction) => {
+        const [messageDoc, chatDoc] = await Promise.all([
+          transaction.get(messageRef),
+          transaction.get(chatRef),
+        ]);
+        if (!messageDoc.exists()) {
+          throw new Error('Message not found');
+        }
+
+        const message = this.toMessage(messageDoc);
+        if (!this.canEditMessage(message, userId)) {
+          throw new Error('This message can no longer be edited');
+        }
+
+        transaction.update(messageRef, {
+          text,
+          searchTokens: this.getSearchTokens({ ...message, text }),
+          editedAt: serverTimestamp(),
+        });
+
+        if (chatDoc.exists() && chatDoc.data().lastMessage?.id === messageId) {
+          transaction.update(chatRef, { 'lastMessage.text': text });
+        }
+      });
+    } catch (error) {
+      console.error('Error editing message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unsend an own message, leaving a tombstone in place of its content
+   * Keeps chats/{chatId}.lastMessage in sync when the deleted message is the latest one
+   */
+  static async deleteMessage(chatId: string, messageId: string, userId: string): Promise<void> {
+    try {
+      const chatRef = doc(db, 'chats', chatId);
+      const messageRef = doc(chatRef, 'messages', messageId);
+
+      await runTransaction(db, async (transaction) => {
+        const [messageDoc, chatDoc] = await Promise.all([
+          transaction.get(messageRef),
+          transaction.get(chatRef),
+        ]);
+        if (!messageDoc.exists()) {
+          throw new Error('Message not found');
+        }
+        if (messageDoc.data().senderId !== userId) {
+          throw new Error('You can only delete your own messages');
+        }
+
+        transaction.update(messageRef, {
+          text: '',
+          deleted: true,
+          deletedAt: serverTimestamp(),
+          metadata: deleteField(),
+          searchTokens: deleteField(),
+          reactions: deleteField(),
+          replyTo: deleteField(),
+        });
+
+        if (chatDoc.exists() && chatDoc.data().lastMessage?.id === messageId) {
+          transaction.update(chatRef, { 'lastMessage.text': DELETED_MESSAGE_TEXT });
+        }
+      });
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search a chat's messages through the searchTokens index
+   * Firestore matches a single token, so the remaining terms are checked locally
+   */
+  static async searchMessages(chatId: string, searchQuery: string, resultLimit: number = 20): Promise<Message[]> {
+    const terms = tokenizeText(searchQuery);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    // The longest term is usually the most selective one
+    const indexTerm = terms.reduce((longest, term) => (term.length > longest.length ? term : longest));
+
+    try {
+      const messagesQuery = query(
+        collection(db, 'chats', chatId, 'messages'),
+        where('searchTokens', 'array-contains', indexTerm),
+        orderBy('timestamp', 'desc'),
+        limit(resultLimit)
+      );
+
+      const snapshot = await getDocs(messagesQuery);
+      return snapshot.docs
+        .map(messageDoc => this.toMessage(messageDoc))
+        .filter(message => matchesSearch(this.getSearchableText(message), searchQuery));
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the delivery and read cursors of a chat
+   */
+  static subscribeToReceipts(
+    chatId: string,
+    callback: (receipts: ChatReceipts) => void,
+    onError?: (error: Error) => void
+  ) {
+    const chatRef = doc(db, 'chats', chatId);
+
+    return onSnapshot(
+      chatRef,
+      (snapshot) => {
+        // Estimate pending server timestamps so our own cursor updates apply immediately
+        const data = snapshot.data({ serverTimestamps: 'estimate' }) || {};
+        const participantNames: Record<string, string> = {};
+        (data.participants || []).forEach((participant: { uid: string; displayName: string }) => {
+          participantNames[participant.uid] = participant.displayName;
+        });
+
+        callback({
+          participantIds: data.participantIds || [],
+          participantNames,
+          deliveredTo: toDateMap(data.deliveredTo),
+          readBy: toDateMap(data.readBy),
+        });
+      },
+      (error) => {
+        console.error('Error listening to receipts:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Record that a user's device has received the chat's messages
+   */
+  static async markAsDelivered(chatId: string, userId: string): Promise<void> {
+    try {
+      const chatRef = doc(db, 'chats', chatId);
+      await updateDoc(chatRef, {
+        [`deliveredTo.${userId}`]: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error marking chat as delivered:', error);
+    }
+  }
+
+  /**
+   * Record that a user has seen the chat's messages up to now
+   */
+  static async markAsRead(chatId: string, userId: string): Promise<void> {
+    try {
+      const chatRef = doc(db, 'chats', chatId);
+      await updateDoc(chatRef, {
+        [`deliveredTo.${userId}`]: serverTimestamp(),
+        [`readBy.${userId}`]: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error marking chat as read:', error);
+    }
+  }
+
+  /**
+   * Replace a user's name on all their messages in a chat, and on the chat's
+   * last message when they sent it, e.g. when their account is deleted.
+   * Their attachments are unsent and the uploaded files deleted. Safe to run
+   * again after a failure, since files are deleted before the messages lose their URLs.
+   */
+  static async anonymizeSender(chatId: string, userId: string, senderName: string = DELETED_USER_NAME): Promise<void> {
+    try {
+      const chatRef = doc(db, 'chats', chatId);
+      const snapshot = await getDocs(query(collection(chatRef, 'messages'), where('senderId', '==', userId)));
+      const attachmentDocs = snapshot.docs.filter(messageDoc => messageDoc.data().metadata?.url);
+
+      await Promise.all(
+        attachmentDocs.map(messageDoc => AttachmentService.deleteAttachment(messageDoc.data().metadata.url))
+      );
+
+      for (let i = 0; i < snapshot.docs.length; i += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db);
+        snapshot.docs.slice(i, i + MAX_BATCH_WRITES).forEach(messageDoc => {
+          if (!attachmentDocs.includes(messageDoc)) {
+            batch.update(messageDoc.ref, { senderName });
+            return;
+          }
+
+          batch.update(messageDoc.ref, {
+            senderName,
+            text: '',
+            deleted: true,
+            deletedAt: serverTimestamp(),
+            metadata: deleteField(),
+            searchTokens: deleteField(),
+            reactions: deleteField(),
+            replyTo: deleteField(),
+          });
+        });
+        await batch.commit();
+      }
+
+      const chatDoc = await getDoc(chatRef);
+      const lastMessage = chatDoc.exists() ? chatDoc.data().lastMessage : undefined;
+      if (lastMessage?.senderId === userId) {
+        const unsent = attachmentDocs.some(messageDoc => messageDoc.id === lastMessage.id);
+        await updateDoc(chatRef, {
+          'lastMessage.senderName': senderName,
+          ...(unsent && { 'lastMessage.text': DELETED_MESSAGE_TEXT }),
+        });
+      }
+    } catch (error) {
+      console.error('Error anonymizing message sender:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy an object without its undefined fields
+   */
+  private static withoutUndefined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)
+    ) as Partial<T>;
+  }
+
+  /**
+   * Text of a message that search matches against, including an attachment's file name
+   */
+  private static getSearchableText(message: Pick<Message, 'text' | 'metadata'>): string {
+    return [message.text, message.metadata?.fileName].filter(Boolean).join(' ');
+  }
+
+  /**
+   * Short text of a message for the chat list
+   */
+  private static getPreviewText(message: Pick<Message, 'text' | 'type' | 'metadata'>): string {
+    switch (message.type) {
+      case 'image':
+        return message.text ? `📷 ${message.text}` : '📷 Photo';
+      case 'file':
+        return `📄 ${message.metadata?.fileName || 'File'}`;
+      default:
+        return message.text;
+    }
+  }
+
+  private static getSearchTokens(message: Pick<Message, 'text' | 'metadata'>): string[] {
+    return tokenizeText(this.getSearchableText(message));
+  }
+
+  /**
+   * Map a Firestore message document to a Message
+   */
+  private static toMessage(messageDoc: QueryDocumentSnapshot<DocumentData>): Message {
+    // Estimate pending server timestamps so local edits render straight away
+    const data = messageDoc.data({ serverTimestamps: 'estimate' });
+    return {
+      id: messageDoc.id,
+      text: data.text,
+      senderId: data.senderId,
+      senderName: data.senderName,
+      timestamp: data.timestamp?.toDate() || new Date(),
+      chatId: data.chatId,
+      type: data.type || 'text',
+      status: messageDoc.metadata.hasPendingWrites ? 'sending' : data.status || 'sent',
+      metadata: data.metadata,
+      replyTo: data.replyTo,
+      reactions: data.reactions,
+      editedAt: data.editedAt?.toDate(),
+      deleted: data.deleted || undefined,
+    };
+  }
 }
@@ -1,5 +1,6 @@
 import { collection, doc, setDoc, updateDoc, deleteDoc, getDoc, getDocs, query, where } from 'firebase/firestore';
 import { db } from './firebase';
+import { UserService, UserProfile } from './userService';
 import type { Chat, Message } from '../types/chat';
 
 /**
@@ -188,27 +189,11 @@ class ChatService {
 
   /**
    * Search for users to start a chat with
+   * Delegates to the indexed UserService search
    */
-  async searchUsers(query: string, currentUserId: string): Promise<any[]> {
-    try {
-      // This is a placeholder - in a real app, you'd have a users collection
-      // and implement proper search functionality
-      const usersQuery = collection(db, 'users');
-      const snapshot = await getDocs(usersQuery);
-      
-      const users = snapshot.docs
-        .map(doc => ({ id: doc.id, ...doc.data() }))
-        .filter(user => 
-          user.id !== currentUserId &&
-          (user.displayName?.toLowerCase().includes(query.toLowerCase()) ||
-           user.email?.toLowerCase().includes(query.toLowerCase()))
-        );
-
-      return users;
-    } catch (error) {
-      console.error('Error searching users:', error);
-      return [];
-    }
+  async searchUsers(query: string, currentUserId: string): Promise<UserProfile[]> {
+    const page = await UserService.searchUsers(query, currentUserId);
+    return page.users;
   }
 }
 
@@ -10,10 +10,15 @@ import {
   orderBy,
   onSnapshot,
   arrayUnion,
-  serverTimestamp
+  arrayRemove,
+  serverTimestamp,
+  DocumentData
 } from 'firebase/firestore';
-import { db } from './firebase';
+import { auth, db } from './firebase';
+import { ChatFirestoreService } from './chatFirestoreService';
 import { Message } from '../types/chat';
+import { toDateMap } from '../utils/dateUtils';
+import { requiresEmailVerification } from '../utils/authUtils';
 
 /**
  * Dynamic Chat service for creating and managing chats between users
@@ -44,6 +49,8 @@ export interface DynamicChat {
   };
   lastActivity: Date;
   isActive: boolean;
+  deliveredTo?: Record<string, Date>;
+  readBy?: Record<string, Date>;
 }
 
 export class DynamicChatService {
@@ -58,6 +65,8 @@ export class DynamicChatService {
         return existingChatId;
       }
 
+      this.assertCanCreateChats();
+
       // Create new chat ID (deterministic based on user IDs)
       const chatId = this.generateDirectChatId(currentUserId, targetUserId);
       const chatRef = doc(db, 'chats', chatId);
@@ -98,6 +107,39 @@ export class DynamicChatService {
     }
   }
 
+  /**
+   * Send a text message to another user, creating their direct chat if needed
+   * Resolves with the chat ID
+   */
+  static async sendDirectMessage(
+    senderId: string,
+    senderName: string,
+    targetUserId: string,
+    targetUserName: string,
+    text: string
+  ): Promise<string> {
+    try {
+      const chatId = await this.createDirectChat(senderId, senderName, targetUserId, targetUserName);
+      await this.sendTextMessage(chatId, senderId, senderName, text);
+      return chatId;
+    } catch (error) {
+      console.error('Error sending direct message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a text message to a chat; sendMessage updates its last message
+   */
+  static async sendTextMessage(chatId: string, senderId: string, senderName: string, text: string): Promise<void> {
+    try {
+      await ChatFirestoreService.sendMessage({ text, senderId, senderName, chatId, type: 'text' });
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create a group chat with multiple users
    */
@@ -109,6 +151,8 @@ export class DynamicChatService {
     groupName?: string
   ): Promise<string> {
     try {
+      this.assertCanCreateChats();
+
       const chatRef = doc(collection(db, 'chats'));
       const chatId = chatRef.id;
 
@@ -193,34 +237,29 @@ export class DynamicChatService {
       );
 
       const snapshot = await getDocs(q);
-      const chats: DynamicChat[] = [];
-
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        chats.push({
-          id: doc.id,
-          name: data.name,
-          type: data.type,
-          participants: data.participants || [],
-          participantIds: data.participantIds || [],
-          createdBy: data.createdBy,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          lastMessage: data.lastMessage ? {
-            ...data.lastMessage,
-            timestamp: data.lastMessage.timestamp?.toDate() || new Date(),
-          } : undefined,
-          lastActivity: data.lastActivity?.toDate() || new Date(),
-          isActive: data.isActive !== false,
-        });
-      });
-
-      return chats;
+      return snapshot.docs.map(chatDoc => this.toDynamicChat(chatDoc.id, chatDoc.data()));
     } catch (error) {
       console.error('Error getting user chats:', error);
       return [];
     }
   }
 
+  /**
+   * Get every chat a user takes part in, including inactive ones
+   * Unlike getUserChats, errors are thrown, for callers that must not skip a chat
+   */
+  static async getAllUserChats(userId: string): Promise<DynamicChat[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(db, 'chats'), where('participantIds', 'array-contains', userId))
+      );
+      return snapshot.docs.map(chatDoc => this.toDynamicChat(chatDoc.id, chatDoc.data()));
+    } catch (error) {
+      console.error('Error getting all user chats:', error);
+      throw error;
+    }
+  }
+
   /**
    * Subscribe to real-time chat updates for a user
    */
@@ -241,26 +280,7 @@ export class DynamicChatService {
       q,
       (snapshot) => {
         try {
-          const chats: DynamicChat[] = [];
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            chats.push({
-              id: doc.id,
-              name: data.name,
-              type: data.type,
-              participants: data.participants || [],
-              participantIds: data.participantIds || [],
-              createdBy: data.createdBy,
-              createdAt: data.createdAt?.toDate() || new Date(),
-              lastMessage: data.lastMessage ? {
-                ...data.lastMessage,
-                timestamp: data.lastMessage.timestamp?.toDate() || new Date(),
-              } : undefined,
-              lastActivity: data.lastActivity?.toDate() || new Date(),
-              isActive: data.isActive !== false,
-            });
-          });
-          callback(chats);
+          callback(snapshot.docs.map(chatDoc => this.toDynamicChat(chatDoc.id, chatDoc.data())));
         } catch (processingError) {
           console.error('Error processing chat data:', processingError);
           onError?.(new Error('Failed to process chat data'));
@@ -307,6 +327,17 @@ export class DynamicChatService {
     }
   }
 
+  /**
+   * Name to show for a chat: the other participant of a direct chat, or the group name
+   */
+  static getDisplayName(chat: DynamicChat, currentUserId: string): string {
+    if (chat.type === 'direct') {
+      const otherParticipant = chat.participants.find(p => p.uid !== currentUserId);
+      return otherParticipant?.displayName || 'Chat';
+    }
+    return chat.name || `Group (${chat.participants.length})`;
+  }
+
   /**
    * Get chat details by ID
    */
@@ -319,28 +350,48 @@ export class DynamicChatService {
         return null;
       }
 
-      const data = chatDoc.data();
-      return {
-        id: chatDoc.id,
-        name: data.name,
-        type: data.type,
-        participants: data.participants || [],
-        participantIds: data.participantIds || [],
-        createdBy: data.createdBy,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        lastMessage: data.lastMessage ? {
-          ...data.lastMessage,
-          timestamp: data.lastMessage.timestamp?.toDate() || new Date(),
-        } : undefined,
-        lastActivity: data.lastActivity?.toDate() || new Date(),
-        isActive: data.isActive !== false,
-      };
+      return this.toDynamicChat(chatDoc.id, chatDoc.data());
     } catch (error) {
       console.error('Error getting chat by ID:', error);
       return null;
     }
   }
 
+  /**
+   * Map a chat document to a DynamicChat
+   */
+  private static toDynamicChat(id: string, data: DocumentData): DynamicChat {
+    return {
+      id,
+      name: data.name,
+      type: data.type,
+      participants: data.participants || [],
+      participantIds: data.participantIds || [],
+      createdBy: data.createdBy,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      lastMessage: data.lastMessage ? {
+        ...data.lastMessage,
+        timestamp: data.lastMessage.timestamp?.toDate() || new Date(),
+      } : undefined,
+      lastActivity: data.lastActivity?.toDate() || new Date(),
+      isActive: data.isActive !== false,
+      deliveredTo: toDateMap(data.deliveredTo),
+      readBy: toDateMap(data.readBy),
+    };
+  }
+
+  /**
+   * Only accounts with a verified email may start new chats, to keep
+   * throwaway signups from spamming other users. Accounts from before
+   * verification was introduced are let through.
+   */
+  private static assertCanCreateChats(): void {
+    const currentUser = auth.currentUser;
+    if (!currentUser || requiresEmailVerification(currentUser.emailVerified, currentUser.metadata.creationTime)) {
+      throw new Error('Verify your email address before starting new chats');
+    }
+  }
+
   /**
    * Generate a deterministic chat ID for direct chats
    */
@@ -350,6 +401,53 @@ export class DynamicChatService {
     return `direct_${sortedIds[0]}_${sortedIds[1]}`;
   }
 
+  /**
+   * Rename a user in the participant lists of all their chats, e.g. after
+   * they changed their display name. Inactive chats are renamed too.
+   */
+  static async updateParticipantName(userId: string, displayName: string): Promise<void> {
+    try {
+      const chats = await this.getAllUserChats(userId);
+      await Promise.all(
+        chats.map(chat =>
+          updateDoc(doc(db, 'chats', chat.id), {
+            participants: chat.participants.map(participant =>
+              participant.uid === userId ? { ...participant, displayName } : participant
+            ),
+          })
+        )
+      );
+    } catch (error) {
+      console.error('Error updating participant name:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a participant from a chat's participants and participant IDs
+   * lastActivity is left alone, so the chat doesn't jump to the top of the
+   * other participants' chat lists without a new message
+   */
+  static async removeParticipant(chatId: string, userId: string): Promise<void> {
+    try {
+      const chatRef = doc(db, 'chats', chatId);
+      const chatDoc = await getDoc(chatRef);
+      if (!chatDoc.exists()) {
+        throw new Error('Chat not found');
+      }
+
+      // Participants are objects with a join date, so arrayRemove can't match them
+      const data = chatDoc.data();
+      await updateDoc(chatRef, {
+        participants: (data.participants || []).filter((participant: ChatParticipant) => participant.uid !== userId),
+        participantIds: arrayRemove(userId),
+      });
+    } catch (error) {
+      console.error('Error removing participant:', error);
+      throw error;
+    }
+  }
+
   /**
    * Add participant to group chat
    */
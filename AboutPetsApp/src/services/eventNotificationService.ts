@@ -0,0 +1,87 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { PetEvent, PET_EVENT_TYPES } from '../types/event';
+import { EVENT_REMINDER_MINUTES } from '../utils/eventUtils';
+import { EventService } from './eventService';
+import { ReminderNotificationService } from './reminderNotificationService';
+
+/**
+ * Local notifications before events the user is going to or might attend
+ */
+
+const NOTIFICATION_KIND = 'event-reminder';
+const CHANNEL_ID = 'events';
+
+/** Care reminders may already hold up to 60 of the 64 pending notifications iOS allows */
+const MAX_SCHEDULED = 4;
+
+export class EventNotificationService {
+  private static syncQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Keep notifications scheduled for the user's upcoming events until the returned cleanup is called
+   */
+  static start(userId: string): () => void {
+    ReminderNotificationService.configure();
+    if (Platform.OS === 'android') {
+      Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Events',
+        importance: Notifications.AndroidImportance.HIGH,
+      }).catch(error => console.error('Error configuring event notifications:', error));
+    }
+
+    return EventService.subscribeToMyEvents(userId, (events) => {
+      this.syncQueue = this.syncQueue.then(() => this.scheduleUpcoming(userId, events));
+    });
+  }
+
+  /**
+   * Cancel every scheduled event notification, e.g. on sign out
+   */
+  static async cancelAll(): Promise<void> {
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      await Promise.all(
+        scheduled
+          .filter(request => request.content.data?.kind === NOTIFICATION_KIND)
+          .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+      );
+    } catch (error) {
+      console.error('Error cancelling event notifications:', error);
+    }
+  }
+
+  private static async scheduleUpcoming(userId: string, events: PetEvent[]): Promise<void> {
+    try {
+      const now = Date.now();
+      const upcoming = events
+        .filter(event => !event.cancelled)
+        .filter(event => ['going', 'maybe'].includes(event.rsvps[userId]?.status))
+        .map(event => ({ event, triggerAt: new Date(event.startsAt.getTime() - EVENT_REMINDER_MINUTES * 60 * 1000) }))
+        .filter(({ triggerAt }) => triggerAt.getTime() > now)
+        .sort((a, b) => a.triggerAt.getTime() - b.triggerAt.getTime())
+        .slice(0, MAX_SCHEDULED);
+
+      await this.cancelAll();
+      if (upcoming.length === 0 || !(await Notifications.getPermissionsAsync()).granted) {
+        return;
+      }
+
+      await Promise.all(
+        upcoming.map(({ event, triggerAt }) => {
+          const type = PET_EVENT_TYPES.find(option => option.value === event.type);
+          return Notifications.scheduleNotificationAsync({
+            content: {
+              title: `${type?.emoji || '📅'} ${event.title} starts in ${EVENT_REMINDER_MINUTES} minutes`,
+              body: event.location,
+              data: { kind: NOTIFICATION_KIND, eventId: event.id },
+            },
+            trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID, date: triggerAt } : triggerAt,
+          });
+        })
+      );
+    } catch (error) {
+      console.error('Error scheduling event notifications:', error);
+    }
+  }
+}
@@ -0,0 +1,353 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteField,
+  query,
+  where,
+  onSnapshot,
+  runTransaction,
+  arrayUnion,
+  serverTimestamp,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { db } from './firebase';
+import { DynamicChatService, DynamicChat } from './dynamicChatService';
+import { User } from '../types/auth';
+import { EventRsvp, PetEvent, PetEventInput, RsvpStatus } from '../types/event';
+import { buildEventIcs, countRsvps, formatEventTime, isEventFull } from '../utils/eventUtils';
+
+/**
+ * Event service for playdates and meetups
+ * Events live in events; the host and invited users are listed in
+ * memberIds and RSVP in the rsvps map. Every event gets a group chat
+ * with all members when it is created.
+ */
+
+export interface EventInvitee {
+  uid: string;
+  displayName: string;
+}
+
+export class EventService {
+  private static getEventsRef() {
+    return collection(db, 'events');
+  }
+
+  /**
+   * Create an event with its group chat and resolve with the event ID
+   * The host is counted as going
+   */
+  static async createEvent(host: User, input: PetEventInput, invitees: EventInvitee[] = []): Promise<string> {
+    try {
+      const guests = invitees.filter(invitee => invitee.uid !== host.uid);
+      const chatId = await DynamicChatService.createGroupChat(
+        host.uid,
+        host.displayName,
+        guests.map(guest => guest.uid),
+        guests.map(guest => guest.displayName),
+        `📅 ${input.title.trim()}`
+      );
+
+      const eventRef = doc(this.getEventsRef());
+      await setDoc(eventRef, {
+        ...this.toFirestoreData(input),
+        hostId: host.uid,
+        hostName: host.displayName,
+        chatId,
+        memberIds: [host.uid, ...guests.map(guest => guest.uid)],
+        rsvps: {
+          [host.uid]: { status: 'going', userName: host.displayName, respondedAt: serverTimestamp() },
+        },
+        cancelled: false,
+        createdAt: serverTimestamp(),
+      });
+
+      await DynamicChatService.sendTextMessage(
+        chatId,
+        host.uid,
+        host.displayName,
+        `📅 ${input.title.trim()} · ${formatEventTime(input)} at ${input.location.trim()}. Let everyone know if you can make it!`
+      );
+
+      return eventRef.id;
+    } catch (error) {
+      console.error('Error creating event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an event's details and tell its chat
+   */
+  static async updateEvent(host: User, event: PetEvent, input: PetEventInput): Promise<void> {
+    if (input.capacity !== undefined && input.capacity < countRsvps(event, 'going')) {
+      throw new Error(`${countRsvps(event, 'going')} people are already going; the capacity cannot be lower`);
+    }
+
+    try {
+      const data = this.toFirestoreData(input);
+
+      // Clear optional fields the user emptied
+      const clearedFields: Record<string, ReturnType<typeof deleteField>> = {};
+      (['description', 'capacity'] as const).forEach(field => {
+        if (!(field in data)) {
+          clearedFields[field] = deleteField();
+        }
+      });
+
+      await updateDoc(doc(this.getEventsRef(), event.id), { ...data, ...clearedFields });
+
+      if (
+        input.startsAt.getTime() !== event.startsAt.getTime() ||
+        input.endsAt.getTime() !== event.endsAt.getTime() ||
+        input.location.trim() !== event.location
+      ) {
+        await DynamicChatService.sendTextMessage(
+          event.chatId,
+          host.uid,
+          host.displayName,
+          `📅 Updated: ${input.title.trim()} is now ${formatEventTime(input)} at ${input.location.trim()}.`
+        );
+      }
+    } catch (error) {
+      console.error('Error updating event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an event; it stays visible so members see it was called off
+   */
+  static async cancelEvent(host: User, event: PetEvent): Promise<void> {
+    try {
+      await updateDoc(doc(this.getEventsRef(), event.id), { cancelled: true });
+      await DynamicChatService.sendTextMessage(
+        event.chatId,
+        host.uid,
+        host.displayName,
+        `📅 ${event.title} on ${formatEventTime(event)} has been cancelled.`
+      );
+    } catch (error) {
+      console.error('Error cancelling event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invite users to an event and add them to its group chat
+   */
+  static async inviteUsers(event: PetEvent, invitees: EventInvitee[]): Promise<void> {
+    try {
+      const newInvitees = invitees.filter(invitee => !event.memberIds.includes(invitee.uid));
+      if (newInvitees.length === 0) return;
+
+      await updateDoc(doc(this.getEventsRef(), event.id), {
+        memberIds: arrayUnion(...newInvitees.map(invitee => invitee.uid)),
+      });
+
+      const chat = await DynamicChatService.getChatById(event.chatId);
+      for (const invitee of newInvitees) {
+        if (!chat?.participantIds.includes(invitee.uid)) {
+          await DynamicChatService.addParticipant(event.chatId, invitee.uid, invitee.displayName);
+        }
+      }
+    } catch (error) {
+      console.error('Error inviting users to event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invite everyone in one of the host's chats and post the invitation there
+   */
+  static async inviteChat(host: User, event: PetEvent, chat: DynamicChat): Promise<void> {
+    try {
+      await this.inviteUsers(
+        event,
+        chat.participants.map(participant => ({ uid: participant.uid, displayName: participant.displayName }))
+      );
+      await DynamicChatService.sendTextMessage(
+        chat.id,
+        host.uid,
+        host.displayName,
+        `📅 You're invited to ${event.title} · ${formatEventTime(event)} at ${event.location}. RSVP under Events in your profile.`
+      );
+    } catch (error) {
+      console.error('Error inviting chat to event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a member's RSVP; "going" is refused once the event is full
+   */
+  static async respond(user: User, eventId: string, status: RsvpStatus): Promise<void> {
+    try {
+      const eventRef = doc(this.getEventsRef(), eventId);
+      await runTransaction(db, async (transaction) => {
+        const eventDoc = await transaction.get(eventRef);
+        if (!eventDoc.exists()) {
+          throw new Error('This event no longer exists');
+        }
+
+        const event = this.toEvent(eventDoc.id, eventDoc.data());
+        if (event.cancelled) {
+          throw new Error('This event has been cancelled');
+        }
+        if (!event.memberIds.includes(user.uid)) {
+          throw new Error('You are not invited to this event');
+        }
+        if (
+          status === 'going' &&
+          event.rsvps[user.uid]?.status !== 'going' &&
+          isEventFull(event)
+        ) {
+          throw new Error('This event is full');
+        }
+
+        transaction.update(eventRef, {
+          [`rsvps.${user.uid}`]: { status, userName: user.displayName, respondedAt: serverTimestamp() },
+        });
+      });
+    } catch (error) {
+      console.error('Error responding to event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single event, or null if it does not exist
+   */
+  static async getEvent(eventId: string): Promise<PetEvent | null> {
+    try {
+      const eventDoc = await getDoc(doc(this.getEventsRef(), eventId));
+      return eventDoc.exists() ? this.toEvent(eventDoc.id, eventDoc.data()) : null;
+    } catch (error) {
+      console.error('Error getting event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to a single event; the callback receives null once it was deleted
+   */
+  static subscribeToEvent(
+    eventId: string,
+    callback: (event: PetEvent | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      doc(this.getEventsRef(), eventId),
+      (eventDoc) => {
+        callback(eventDoc.exists() ? this.toEvent(eventDoc.id, eventDoc.data({ serverTimestamps: 'estimate' })) : null);
+      },
+      (error) => {
+        console.error('Error subscribing to event:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to all events a user hosts or was invited to, soonest first
+   */
+  static subscribeToMyEvents(
+    userId: string,
+    callback: (events: PetEvent[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getEventsRef(), where('memberIds', 'array-contains', userId)),
+      (snapshot) => {
+        const events = snapshot.docs
+          .map(eventDoc => this.toEvent(eventDoc.id, eventDoc.data({ serverTimestamps: 'estimate' })))
+          .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+        callback(events);
+      },
+      (error) => {
+        console.error('Error subscribing to events:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Write the event to an .ics file and open the share sheet to add it to a calendar
+   */
+  static async exportIcs(event: PetEvent): Promise<void> {
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+      }
+
+      const fileName = `${event.title.replace(/[^\w-]+/g, '_')}.ics`;
+      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(fileUri, buildEventIcs(event));
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'text/calendar',
+        UTI: 'com.apple.ical.ics',
+        dialogTitle: `Add ${event.title} to your calendar`,
+      });
+    } catch (error) {
+      console.error('Error exporting event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Firestore rejects undefined values, so optional fields are only written when set
+   */
+  private static toFirestoreData(input: PetEventInput): DocumentData {
+    const data: DocumentData = {
+      type: input.type,
+      title: input.title.trim(),
+      location: input.location.trim(),
+      startsAt: Timestamp.fromDate(input.startsAt),
+      endsAt: Timestamp.fromDate(input.endsAt),
+      allowedSpecies: input.allowedSpecies,
+      allowedSizes: input.allowedSizes,
+    };
+
+    if (input.description?.trim()) data.description = input.description.trim();
+    if (input.capacity !== undefined) data.capacity = input.capacity;
+
+    return data;
+  }
+
+  private static toEvent(id: string, data: DocumentData): PetEvent {
+    const rsvps: Record<string, EventRsvp> = {};
+    Object.entries(data.rsvps || {}).forEach(([userId, rsvp]: [string, any]) => {
+      rsvps[userId] = {
+        status: rsvp.status,
+        userName: rsvp.userName,
+        respondedAt: rsvp.respondedAt?.toDate() || new Date(),
+      };
+    });
+
+    return {
+      id,
+      type: data.type || 'meetup',
+      title: data.title,
+      description: data.description,
+      location: data.location,
+      startsAt: data.startsAt?.toDate() || new Date(),
+      endsAt: data.endsAt?.toDate() || new Date(),
+      allowedSpecies: data.allowedSpecies || [],
+      allowedSizes: data.allowedSizes || [],
+      capacity: data.capacity,
+      hostId: data.hostId,
+      hostName: data.hostName,
+      chatId: data.chatId,
+      memberIds: data.memberIds || [],
+      rsvps,
+      cancelled: !!data.cancelled,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    };
+  }
+}
@@ -0,0 +1,346 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  onSnapshot,
+  runTransaction,
+  writeBatch,
+  increment,
+  serverTimestamp,
+  DocumentData,
+  QueryConstraint,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { AttachmentService } from './attachmentService';
+import { FollowService } from './followService';
+import { User } from '../types/auth';
+import { PickedAttachment } from '../types/chat';
+import { FeedPost, FeedPostInput, FeedSource, PostComment } from '../types/feed';
+
+/**
+ * Feed service for community posts, likes and comments
+ * Posts live in posts with likeCount and commentCount kept next to
+ * the likes and comments subcollections. Photos are uploaded to
+ * posts/{postId}/{fileName}.
+ */
+
+/**
+ * Opaque pagination cursor: creation time of the oldest post loaded so far
+ */
+export type FeedCursor = Timestamp;
+
+export interface FeedPage {
+  posts: FeedPost[];
+  cursor: FeedCursor | null;
+  hasMore: boolean;
+}
+
+/** Firestore allows at most 30 values in an "in" filter */
+const MAX_IN_VALUES = 30;
+
+/** Deletes are committed in batches below Firestore's 500 write limit */
+const MAX_BATCH_WRITES = 500;
+
+export class FeedService {
+  private static getPostsRef() {
+    return collection(db, 'posts');
+  }
+
+  private static getLikesRef(postId: string) {
+    return collection(db, 'posts', postId, 'likes');
+  }
+
+  private static getCommentsRef(postId: string) {
+    return collection(db, 'posts', postId, 'comments');
+  }
+
+  /**
+   * Publish a post and resolve with its ID
+   */
+  static async createPost(author: User, input: FeedPostInput, photos: PickedAttachment[] = []): Promise<string> {
+    try {
+      const postRef = doc(this.getPostsRef());
+
+      const data: DocumentData = {
+        authorId: author.uid,
+        authorName: author.displayName,
+        text: input.text.trim(),
+        photoURLs: [],
+        petTypes: input.petTypes,
+        likeCount: 0,
+        commentCount: 0,
+        createdAt: serverTimestamp(),
+      };
+      if (author.photoURL) data.authorPhotoURL = author.photoURL;
+
+      await setDoc(postRef, data);
+
+      // Storage only accepts post photos from the author of an existing post
+      if (photos.length > 0) {
+        const photoURLs = await Promise.all(
+          photos.map(photo => AttachmentService.uploadFile(`posts/${postRef.id}/${photo.fileName}`, photo))
+        );
+        await updateDoc(postRef, { photoURLs });
+      }
+
+      return postRef.id;
+    } catch (error) {
+      console.error('Error creating post:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a post with its likes, comments and photos
+   */
+  static async deletePost(post: FeedPost): Promise<void> {
+    try {
+      const [likes, comments] = await Promise.all([
+        getDocs(this.getLikesRef(post.id)),
+        getDocs(this.getCommentsRef(post.id)),
+      ]);
+      const refs = [...likes.docs, ...comments.docs].map(childDoc => childDoc.ref);
+
+      for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db);
+        refs.slice(i, i + MAX_BATCH_WRITES).forEach(ref => batch.delete(ref));
+        await batch.commit();
+      }
+
+      // Photos go before the post that holds their URLs, so a retry can still find them
+      await Promise.all(post.photoURLs.map(url => AttachmentService.deleteAttachment(url)));
+      await deleteDoc(doc(this.getPostsRef(), post.id));
+    } catch (error) {
+      console.error('Error deleting post:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all posts by an author, e.g. when their account is deleted
+   */
+  static async deleteAllForAuthor(authorId: string): Promise<void> {
+    try {
+      const snapshot = await getDocs(query(this.getPostsRef(), where('authorId', '==', authorId)));
+      await Promise.all(snapshot.docs.map(postDoc => this.deletePost(this.toPost(postDoc.id, postDoc.data()))));
+    } catch (error) {
+      console.error('Error deleting posts for author:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a page of posts, newest first
+   * The following feed holds the user's own posts and those of everyone they follow.
+   */
+  static async getPosts(
+    source: FeedSource,
+    userId: string,
+    cursor: FeedCursor | null = null,
+    pageSize: number = 20
+  ): Promise<FeedPage> {
+    try {
+      let filters: QueryConstraint[][];
+      if (source.type === 'following') {
+        const authorIds = [userId, ...(await FollowService.getFollowingIds(userId))];
+        filters = [];
+        for (let i = 0; i < authorIds.length; i += MAX_IN_VALUES) {
+          filters.push([where('authorId', 'in', authorIds.slice(i, i + MAX_IN_VALUES))]);
+        }
+      } else if (source.type === 'author') {
+        filters = [[where('authorId', '==', source.authorId)]];
+      } else {
+        filters = [source.petType ? [where('petTypes', 'array-contains', source.petType)] : []];
+      }
+
+      // Fetch one extra post per query to find out whether another page exists
+      const snapshots = await Promise.all(
+        filters.map(constraints =>
+          getDocs(
+            query(
+              this.getPostsRef(),
+              ...constraints,
+              orderBy('createdAt', 'desc'),
+              ...(cursor ? [startAfter(cursor)] : []),
+              limit(pageSize + 1)
+            )
+          )
+        )
+      );
+
+      const entries = snapshots
+        .flatMap(snapshot => snapshot.docs)
+        .map(postDoc => {
+          const data = postDoc.data({ serverTimestamps: 'estimate' });
+          return { post: this.toPost(postDoc.id, data), createdAt: data.createdAt as Timestamp };
+        })
+        .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+      const page = entries.slice(0, pageSize);
+
+      return {
+        posts: page.map(entry => entry.post),
+        cursor: page.length > 0 ? page[page.length - 1].createdAt : cursor,
+        hasMore: entries.length > pageSize,
+      };
+    } catch (error) {
+      console.error('Error loading posts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to a single post; the callback receives null once it was deleted
+   */
+  static subscribeToPost(
+    postId: string,
+    callback: (post: FeedPost | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      doc(this.getPostsRef(), postId),
+      (postDoc) => {
+        callback(postDoc.exists() ? this.toPost(postDoc.id, postDoc.data({ serverTimestamps: 'estimate' })) : null);
+      },
+      (error) => {
+        console.error('Error subscribing to post:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * IDs of the given posts the user has liked
+   */
+  static async getLikedPostIds(userId: string, postIds: string[]): Promise<Set<string>> {
+    try {
+      const likes = await Promise.all(postIds.map(postId => getDoc(doc(this.getLikesRef(postId), userId))));
+      return new Set(postIds.filter((_, index) => likes[index].exists()));
+    } catch (error) {
+      console.error('Error loading likes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Like or unlike a post, keeping its like count in step
+   */
+  static async setLiked(postId: string, userId: string, liked: boolean): Promise<void> {
+    try {
+      const postRef = doc(this.getPostsRef(), postId);
+      const likeRef = doc(this.getLikesRef(postId), userId);
+      await runTransaction(db, async (transaction) => {
+        const likeDoc = await transaction.get(likeRef);
+        if (likeDoc.exists() === liked) return;
+
+        if (liked) {
+          transaction.set(likeRef, { createdAt: serverTimestamp() });
+        } else {
+          transaction.delete(likeRef);
+        }
+        transaction.update(postRef, { likeCount: increment(liked ? 1 : -1) });
+      });
+    } catch (error) {
+      console.error('Error updating like:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Comment on a post, optionally as a reply to a top-level comment
+   */
+  static async addComment(author: User, postId: string, text: string, parentId?: string): Promise<void> {
+    try {
+      const commentRef = doc(this.getCommentsRef(postId));
+      const data: DocumentData = {
+        authorId: author.uid,
+        authorName: author.displayName,
+        text: text.trim(),
+        createdAt: serverTimestamp(),
+      };
+      if (author.photoURL) data.authorPhotoURL = author.photoURL;
+      if (parentId) data.parentId = parentId;
+
+      const batch = writeBatch(db);
+      batch.set(commentRef, data);
+      batch.update(doc(this.getPostsRef(), postId), { commentCount: increment(1) });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a comment; its replies stay and are shown on their own
+   */
+  static async deleteComment(postId: string, commentId: string): Promise<void> {
+    try {
+      const batch = writeBatch(db);
+      batch.delete(doc(this.getCommentsRef(postId), commentId));
+      batch.update(doc(this.getPostsRef(), postId), { commentCount: increment(-1) });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to all comments on a post, oldest first
+   */
+  static subscribeToComments(
+    postId: string,
+    callback: (comments: PostComment[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getCommentsRef(postId), orderBy('createdAt', 'asc')),
+      (snapshot) => {
+        callback(snapshot.docs.map(commentDoc =>
+          this.toComment(commentDoc.id, commentDoc.data({ serverTimestamps: 'estimate' }))
+        ));
+      },
+      (error) => {
+        console.error('Error subscribing to comments:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  private static toComment(id: string, data: DocumentData): PostComment {
+    return {
+      id,
+      authorId: data.authorId,
+      authorName: data.authorName,
+      authorPhotoURL: data.authorPhotoURL,
+      text: data.text || '',
+      parentId: data.parentId,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    };
+  }
+
+  private static toPost(id: string, data: DocumentData): FeedPost {
+    return {
+      id,
+      authorId: data.authorId,
+      authorName: data.authorName,
+      authorPhotoURL: data.authorPhotoURL,
+      text: data.text || '',
+      photoURLs: data.photoURLs || [],
+      petTypes: data.petTypes || [],
+      likeCount: data.likeCount || 0,
+      commentCount: data.commentCount || 0,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
 import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 
 /**
  * Firebase Configuration and Initialization
@@ -8,6 +9,7 @@ import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
  * Configures Firebase services for the chat app:
  * - Firebase Auth for user authentication
  * - Firestore for real-time chat data
+ * - Storage for chat attachments (photos and files)
  * - React Native persistence for auth state
  * 
  * NOTE: Replace with your actual Firebase config from Firebase Console
@@ -32,10 +34,17 @@ const auth = getAuth(app);
 // Initialize Firestore
 const db = getFirestore(app);
 
-// Connect to Firestore emulator in development (optional)
+// Initialize Storage
+const storage = getStorage(app);
+
+// Connect to emulators in development (optional)
 if (__DEV__) {
+  // Uncomment the line below to use the Auth emulator (password reset emails show up in its UI)
+  // connectAuthEmulator(auth, 'http://localhost:9099');
   // Uncomment the line below to use Firestore emulator during development
   // connectFirestoreEmulator(db, 'localhost', 8080);
+  // Uncomment the line below to upload attachments to the Storage emulator
+  // connectStorageEmulator(storage, 'localhost', 9199);
 }
 
-export { app, auth, db };
\ No newline at end of file
+export { app, auth, db, storage };
\ No newline at end of file
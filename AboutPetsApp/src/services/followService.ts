@@ -0,0 +1,139 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  deleteDoc,
+  onSnapshot,
+  writeBatch,
+  getCountFromServer,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { User } from '../types/auth';
+
+/**
+ * Follow service for the community feed
+ * A follow is stored twice, as users/{uid}/following/{targetId} and
+ * users/{targetId}/followers/{uid}, so both sides can be listed and counted
+ */
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+export class FollowService {
+  private static getFollowingRef(userId: string) {
+    return collection(db, 'users', userId, 'following');
+  }
+
+  private static getFollowersRef(userId: string) {
+    return collection(db, 'users', userId, 'followers');
+  }
+
+  /**
+   * Follow another user
+   */
+  static async follow(user: User, target: { uid: string; displayName: string }): Promise<void> {
+    if (target.uid === user.uid) {
+      throw new Error('You cannot follow yourself');
+    }
+
+    try {
+      const batch = writeBatch(db);
+      batch.set(doc(this.getFollowingRef(user.uid), target.uid), {
+        displayName: target.displayName,
+        createdAt: serverTimestamp(),
+      });
+      batch.set(doc(this.getFollowersRef(target.uid), user.uid), {
+        displayName: user.displayName,
+        createdAt: serverTimestamp(),
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error following user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop following a user
+   */
+  static async unfollow(userId: string, targetId: string): Promise<void> {
+    try {
+      const batch = writeBatch(db);
+      batch.delete(doc(this.getFollowingRef(userId), targetId));
+      batch.delete(doc(this.getFollowersRef(targetId), userId));
+      await batch.commit();
+    } catch (error) {
+      console.error('Error unfollowing user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove all of a user's follows in both directions, e.g. when their account is deleted
+   * Their followers' own following lists are left to the followers to clean up.
+   */
+  static async removeAllFollows(userId: string): Promise<void> {
+    try {
+      const [following, followers] = await Promise.all([
+        getDocs(this.getFollowingRef(userId)),
+        getDocs(this.getFollowersRef(userId)),
+      ]);
+
+      await Promise.all(following.docs.map(followDoc => this.unfollow(userId, followDoc.id)));
+      await Promise.all(followers.docs.map(followDoc => deleteDoc(followDoc.ref)));
+    } catch (error) {
+      console.error('Error removing follows:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * IDs of the users someone follows
+   */
+  static async getFollowingIds(userId: string): Promise<string[]> {
+    try {
+      const snapshot = await getDocs(this.getFollowingRef(userId));
+      return snapshot.docs.map(followDoc => followDoc.id);
+    } catch (error) {
+      console.error('Error getting followed users:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the IDs of the users someone follows
+   */
+  static subscribeToFollowingIds(
+    userId: string,
+    callback: (followingIds: string[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      this.getFollowingRef(userId),
+      (snapshot) => callback(snapshot.docs.map(followDoc => followDoc.id)),
+      (error) => {
+        console.error('Error subscribing to followed users:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Number of followers and followed users, counted on the server
+   */
+  static async getFollowCounts(userId: string): Promise<FollowCounts> {
+    try {
+      const [followers, following] = await Promise.all([
+        getCountFromServer(this.getFollowersRef(userId)),
+        getCountFromServer(this.getFollowingRef(userId)),
+      ]);
+      return { followers: followers.data().count, following: following.data().count };
+    } catch (error) {
+      console.error('Error counting follows:', error);
+      throw error;
+    }
+  }
+}
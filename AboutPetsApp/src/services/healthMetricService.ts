@@ -0,0 +1,181 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  serverTimestamp,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { db } from './firebase';
+import { storage } from '../storage/asyncStorage';
+import { HealthMetricEntry, HealthMetricInput, WeightUnit } from '../types/health';
+import { formatDateInput } from '../utils/dateUtils';
+import { buildHealthCsv } from '../utils/healthUtils';
+
+/**
+ * Health metric service for a pet's weight, body condition and intake history
+ * Entries live in users/{uid}/pets/{petId}/healthMetrics; the pet's weight
+ * field follows the latest weight entry so the profile stays current
+ */
+
+const WEIGHT_UNIT_KEY = 'weight_unit';
+
+export class HealthMetricService {
+  private static getEntriesRef(userId: string, petId: string) {
+    return collection(db, 'users', userId, 'pets', petId, 'healthMetrics');
+  }
+
+  /**
+   * Subscribe to all of a pet's entries, oldest first
+   */
+  static subscribeToEntries(
+    userId: string,
+    petId: string,
+    callback: (entries: HealthMetricEntry[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getEntriesRef(userId, petId), orderBy('recordedAt', 'asc')),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map(entryDoc =>
+            this.toEntry(entryDoc.id, petId, entryDoc.data({ serverTimestamps: 'estimate' }))
+          )
+        );
+      },
+      (error) => {
+        console.error('Error subscribing to health metrics:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Record a measurement and resolve with its ID
+   */
+  static async addEntry(userId: string, petId: string, input: HealthMetricInput): Promise<string> {
+    try {
+      const data: DocumentData = {
+        type: input.type,
+        value: input.value,
+        recordedAt: Timestamp.fromDate(input.recordedAt),
+        createdAt: serverTimestamp(),
+      };
+      if (input.note?.trim()) data.note = input.note.trim();
+
+      const entryRef = await addDoc(this.getEntriesRef(userId, petId), data);
+      if (input.type === 'weight') {
+        await this.syncPetWeight(userId, petId);
+      }
+      return entryRef.id;
+    } catch (error) {
+      console.error('Error adding health metric:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a measurement
+   */
+  static async deleteEntry(userId: string, petId: string, entry: HealthMetricEntry): Promise<void> {
+    try {
+      await deleteDoc(doc(this.getEntriesRef(userId, petId), entry.id));
+      if (entry.type === 'weight') {
+        await this.syncPetWeight(userId, petId);
+      }
+    } catch (error) {
+      console.error('Error deleting health metric:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a pet's whole history, e.g. when the pet is removed
+   */
+  static async deleteAllEntries(userId: string, petId: string): Promise<void> {
+    try {
+      const snapshot = await getDocs(this.getEntriesRef(userId, petId));
+      await Promise.all(snapshot.docs.map(entryDoc => deleteDoc(entryDoc.ref)));
+    } catch (error) {
+      console.error('Error deleting health metrics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write the entries to a CSV file and open the share sheet, e.g. to send them to the vet
+   */
+  static async exportCsv(petName: string, entries: HealthMetricEntry[], unit: WeightUnit): Promise<void> {
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+      }
+
+      const fileName = `${petName.replace(/[^\w-]+/g, '_')}_health_${formatDateInput(new Date())}.csv`;
+      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(fileUri, buildHealthCsv(entries, unit));
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'text/csv',
+        UTI: 'public.comma-separated-values-text',
+        dialogTitle: `${petName}'s health data`,
+      });
+    } catch (error) {
+      console.error('Error exporting health metrics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The unit this device shows weights in
+   */
+  static async getWeightUnit(): Promise<WeightUnit> {
+    try {
+      const unit = await storage.getStringAsync(WEIGHT_UNIT_KEY);
+      return unit === 'lb' ? 'lb' : 'kg';
+    } catch (error) {
+      console.error('Error loading weight unit:', error);
+      return 'kg';
+    }
+  }
+
+  static async setWeightUnit(unit: WeightUnit): Promise<void> {
+    try {
+      await storage.setAsync(WEIGHT_UNIT_KEY, unit);
+    } catch (error) {
+      console.error('Error saving weight unit:', error);
+    }
+  }
+
+  private static async syncPetWeight(userId: string, petId: string): Promise<void> {
+    const snapshot = await getDocs(query(this.getEntriesRef(userId, petId), where('type', '==', 'weight')));
+    const latest = snapshot.docs
+      .map(entryDoc => this.toEntry(entryDoc.id, petId, entryDoc.data()))
+      .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime())[0];
+
+    await updateDoc(doc(db, 'users', userId, 'pets', petId), {
+      weight: latest ? latest.value : deleteField(),
+    });
+  }
+
+  private static toEntry(id: string, petId: string, data: DocumentData): HealthMetricEntry {
+    return {
+      id,
+      petId,
+      type: data.type,
+      value: data.value,
+      recordedAt: data.recordedAt?.toDate() || new Date(),
+      note: data.note,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    };
+  }
+}
@@ -2,4 +2,22 @@
 export { app, auth, db } from './firebase';
 export { chatService } from './chatService';
 export { ChatFirestoreService } from './chatFirestoreService';
-export { MessageCacheService } from './messageCacheService';
\ No newline at end of file
+export { MessageCacheService } from './messageCacheService';
+export { MessageOutboxService } from './messageOutboxService';
+export { MessageSearchService } from './messageSearchService';
+export { PresenceService } from './presenceService';
+export { PetService } from './petService';
+export { PetSharingService } from './petSharingService';
+export { PetActivityService } from './petActivityService';
+export { MedicalRecordService } from './medicalRecordService';
+export { HealthMetricService } from './healthMetricService';
+export { ReminderService } from './reminderService';
+export { ReminderNotificationService } from './reminderNotificationService';
+export { LostPetAlertService } from './lostPetAlertService';
+export { LocationService } from './locationService';
+export { AdoptionService } from './adoptionService';
+export { EventService } from './eventService';
+export { EventNotificationService } from './eventNotificationService';
+export { FeedService } from './feedService';
+export { FollowService } from './followService';
+export { AccountService } from './accountService';
\ No newline at end of file
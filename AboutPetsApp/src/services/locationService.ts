@@ -0,0 +1,30 @@
+import * as Location from 'expo-location';
+import { GeoCoordinates } from '../types/lostPet';
+
+/**
+ * Location service for the device's current position
+ */
+
+export class LocationService {
+  /**
+   * Ask for permission if needed and resolve with the current position,
+   * or null when the user declined
+   */
+  static async getCurrentCoordinates(): Promise<GeoCoordinates | null> {
+    try {
+      const permission = await Location.requestForegroundPermissionsAsync();
+      if (!permission.granted) {
+        return null;
+      }
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      return {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      };
+    } catch (error) {
+      console.error('Error getting current location:', error);
+      throw error;
+    }
+  }
+}
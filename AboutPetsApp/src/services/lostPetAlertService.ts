@@ -0,0 +1,396 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAt,
+  endAt,
+  onSnapshot,
+  writeBatch,
+  serverTimestamp,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import { geohashForLocation, geohashQueryBounds, distanceBetween } from 'geofire-common';
+import { db } from './firebase';
+import { AttachmentService } from './attachmentService';
+import { DynamicChatService } from './dynamicChatService';
+import { UserService } from './userService';
+import { User } from '../types/auth';
+import { PickedAttachment } from '../types/chat';
+import { GeoCoordinates, LostPetAlert, LostPetNotification, LostPetReportInput } from '../types/lostPet';
+import { Pet } from '../types/pet';
+
+/**
+ * Lost pet alert service
+ * Alerts live in lostPetAlerts with the geohash of the last-seen location.
+ * Publishing an alert copies it into users/{uid}/lostPetNotifications/{alertId}
+ * for every user whose stored position is within the alert's radius; their
+ * app turns new copies into local notifications.
+ */
+
+const NOTIFICATION_KIND = 'lost-pet-alert';
+const CHANNEL_ID = 'lost-pets';
+
+/** Firestore batches hold at most 500 writes */
+const BATCH_SIZE = 500;
+
+export class LostPetAlertService {
+  private static getAlertsRef() {
+    return collection(db, 'lostPetAlerts');
+  }
+
+  private static getNotificationsRef(userId: string) {
+    return collection(db, 'users', userId, 'lostPetNotifications');
+  }
+
+  /**
+   * Mark a pet as lost, publish the alert and notify nearby users
+   * Resolves with the alert ID and how many users were notified
+   */
+  static async reportLost(
+    owner: User,
+    pet: Pet,
+    input: LostPetReportInput,
+    newPhotos: PickedAttachment[] = []
+  ): Promise<{ alertId: string; notifiedCount: number }> {
+    try {
+      const alertRef = doc(this.getAlertsRef());
+      const { latitude, longitude } = input.lastSeenLocation;
+      const data: DocumentData = {
+        ownerId: owner.uid,
+        ownerName: owner.displayName,
+        petId: pet.id,
+        petName: pet.name,
+        species: pet.species,
+        photoURLs: input.photoURLs,
+        lastSeenAt: Timestamp.fromDate(input.lastSeenAt),
+        lastSeenLocation: { latitude, longitude },
+        geohash: geohashForLocation([latitude, longitude]),
+        radiusKm: input.radiusKm,
+        status: 'active',
+        createdAt: serverTimestamp(),
+      };
+      if (input.description?.trim()) data.description = input.description.trim();
+      if (input.locationDescription?.trim()) data.locationDescription = input.locationDescription.trim();
+
+      await setDoc(alertRef, data);
+
+      // Storage only accepts alert photos from the owner of an existing alert
+      if (newPhotos.length > 0) {
+        const uploadedURLs = await Promise.all(
+          newPhotos.map(photo => AttachmentService.uploadFile(`lostPetAlerts/${alertRef.id}/${photo.fileName}`, photo))
+        );
+        await updateDoc(alertRef, { photoURLs: [...input.photoURLs, ...uploadedURLs] });
+      }
+
+      await updateDoc(doc(db, 'users', owner.uid, 'pets', pet.id), { lostAlertId: alertRef.id });
+
+      const notifiedCount = await this.notifyNearbyUsers(alertRef.id, owner, pet, input);
+      return { alertId: alertRef.id, notifiedCount };
+    } catch (error) {
+      console.error('Error reporting lost pet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close an alert once the pet is back home
+   */
+  static async markFound(alert: LostPetAlert): Promise<void> {
+    try {
+      await updateDoc(doc(this.getAlertsRef(), alert.id), {
+        status: 'found',
+        foundAt: serverTimestamp(),
+      });
+
+      const petRef = doc(db, 'users', alert.ownerId, 'pets', alert.petId);
+      const petDoc = await getDoc(petRef);
+      if (petDoc.exists() && petDoc.data().lostAlertId === alert.id) {
+        await updateDoc(petRef, { lostAlertId: deleteField() });
+      }
+    } catch (error) {
+      console.error('Error marking pet as found:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all alerts of a pet and their photos, e.g. when the pet is removed
+   */
+  static async deleteAlertsForPet(ownerId: string, petId: string): Promise<void> {
+    try {
+      const alerts = await getDocs(
+        query(this.getAlertsRef(), where('ownerId', '==', ownerId), where('petId', '==', petId))
+      );
+      await Promise.all(
+        alerts.docs.map(async alertDoc => {
+          const ownPhotos: string[] = (alertDoc.data().photoURLs || []).filter((url: string) =>
+            url.includes(encodeURIComponent(`lostPetAlerts/${alertDoc.id}/`))
+          );
+          // Photos first, while the alert still proves ownership to the Storage rules
+          await Promise.all(ownPhotos.map(url => AttachmentService.deleteAttachment(url)));
+          await deleteDoc(alertDoc.ref);
+        })
+      );
+    } catch (error) {
+      console.error('Error deleting lost pet alerts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to a single alert; the callback receives null once it was deleted
+   */
+  static subscribeToAlert(
+    alertId: string,
+    callback: (alert: LostPetAlert | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      doc(this.getAlertsRef(), alertId),
+      (alertDoc) => {
+        callback(alertDoc.exists() ? this.toAlert(alertDoc.id, alertDoc.data({ serverTimestamps: 'estimate' })) : null);
+      },
+      (error) => {
+        console.error('Error subscribing to lost pet alert:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to the alerts a user has published, newest first
+   */
+  static subscribeToMyAlerts(
+    userId: string,
+    callback: (alerts: LostPetAlert[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getAlertsRef(), where('ownerId', '==', userId)),
+      (snapshot) => {
+        const alerts = snapshot.docs
+          .map(alertDoc => this.toAlert(alertDoc.id, alertDoc.data({ serverTimestamps: 'estimate' })))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        callback(alerts);
+      },
+      (error) => {
+        console.error('Error subscribing to my lost pet alerts:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Active alerts whose last-seen location is within radiusKm of the center, nearest first
+   */
+  static async getNearbyAlerts(
+    center: GeoCoordinates,
+    radiusKm: number
+  ): Promise<{ alert: LostPetAlert; distanceKm: number }[]> {
+    try {
+      const centerPoint: [number, number] = [center.latitude, center.longitude];
+      const bounds = geohashQueryBounds(centerPoint, radiusKm * 1000);
+      const snapshots = await Promise.all(
+        bounds.map(([start, end]) =>
+          getDocs(query(this.getAlertsRef(), orderBy('geohash'), startAt(start), endAt(end)))
+        )
+      );
+
+      const alerts = new Map<string, { alert: LostPetAlert; distanceKm: number }>();
+      snapshots.forEach(snapshot => {
+        snapshot.docs.forEach(alertDoc => {
+          const alert = this.toAlert(alertDoc.id, alertDoc.data());
+          const distanceKm = distanceBetween(
+            [alert.lastSeenLocation.latitude, alert.lastSeenLocation.longitude],
+            centerPoint
+          );
+          if (alert.status === 'active' && distanceKm <= radiusKm) {
+            alerts.set(alert.id, { alert, distanceKm });
+          }
+        });
+      });
+
+      return Array.from(alerts.values()).sort((a, b) => a.distanceKm - b.distanceKm);
+    } catch (error) {
+      console.error('Error getting nearby lost pet alerts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the alerts a user was notified about, newest first
+   */
+  static subscribeToNotifications(
+    userId: string,
+    callback: (notifications: LostPetNotification[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getNotificationsRef(userId), orderBy('createdAt', 'desc'), limit(50)),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map(notificationDoc =>
+            this.toNotification(notificationDoc.id, notificationDoc.data({ serverTimestamps: 'estimate' }))
+          )
+        );
+      },
+      (error) => {
+        console.error('Error subscribing to lost pet notifications:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  static async markNotificationRead(userId: string, alertId: string): Promise<void> {
+    try {
+      await updateDoc(doc(this.getNotificationsRef(userId), alertId), { read: true, delivered: true });
+    } catch (error) {
+      console.error('Error marking lost pet notification as read:', error);
+    }
+  }
+
+  /**
+   * Clear a user's lost pet notifications, e.g. when their account is deleted
+   */
+  static async deleteNotifications(userId: string): Promise<void> {
+    try {
+      const notifications = await getDocs(this.getNotificationsRef(userId));
+      await Promise.all(notifications.docs.map(notificationDoc => deleteDoc(notificationDoc.ref)));
+    } catch (error) {
+      console.error('Error deleting lost pet notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Message the owner about an alert in a direct chat, creating the chat if needed
+   * Resolves with the chat ID
+   */
+  static async replyToAlert(finder: User, alert: LostPetAlert, text: string): Promise<string> {
+    try {
+      return await DynamicChatService.sendDirectMessage(
+        finder.uid,
+        finder.displayName,
+        alert.ownerId,
+        alert.ownerName,
+        `🚨 About ${alert.petName} (lost pet alert): ${text.trim()}`
+      );
+    } catch (error) {
+      console.error('Error replying to lost pet alert:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Show a local notification for every new nearby alert until the returned cleanup is called
+   */
+  static startNotifications(userId: string): () => void {
+    if (Platform.OS === 'android') {
+      Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Lost pets nearby',
+        importance: Notifications.AndroidImportance.HIGH,
+      }).catch(error => console.error('Error configuring lost pet notifications:', error));
+    }
+
+    return onSnapshot(
+      query(this.getNotificationsRef(userId), where('delivered', '==', false)),
+      (snapshot) => {
+        snapshot.docs.forEach(async notificationDoc => {
+          const notification = this.toNotification(notificationDoc.id, notificationDoc.data());
+          try {
+            await updateDoc(notificationDoc.ref, { delivered: true });
+            await Notifications.scheduleNotificationAsync({
+              content: {
+                title: `🚨 Lost ${notification.species === 'other' ? 'pet' : notification.species} nearby: ${notification.petName}`,
+                body: `${notification.ownerName} is looking for ${notification.petName}, last seen ${notification.distanceKm < 1 ? 'under 1' : Math.round(notification.distanceKm)} km from you.`,
+                data: { kind: NOTIFICATION_KIND, alertId: notification.alertId },
+              },
+              trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID } : null,
+            });
+          } catch (error) {
+            console.error('Error showing lost pet notification:', error);
+          }
+        });
+      },
+      (error) => {
+        console.error('Error subscribing to new lost pet notifications:', error);
+      }
+    );
+  }
+
+  private static async notifyNearbyUsers(
+    alertId: string,
+    owner: User,
+    pet: Pet,
+    input: LostPetReportInput
+  ): Promise<number> {
+    const recipients = (await UserService.getUsersNear(input.lastSeenLocation, input.radiusKm)).filter(
+      ({ profile }) => profile.uid !== owner.uid && !pet.coOwnerIds.includes(profile.uid)
+    );
+
+    for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      recipients.slice(i, i + BATCH_SIZE).forEach(({ profile, distanceKm }) => {
+        batch.set(doc(this.getNotificationsRef(profile.uid), alertId), {
+          alertId,
+          petName: pet.name,
+          species: pet.species,
+          ownerName: owner.displayName,
+          distanceKm: Math.round(distanceKm * 10) / 10,
+          read: false,
+          delivered: false,
+          createdAt: serverTimestamp(),
+        });
+      });
+      await batch.commit();
+    }
+
+    return recipients.length;
+  }
+
+  private static toAlert(id: string, data: DocumentData): LostPetAlert {
+    return {
+      id,
+      ownerId: data.ownerId,
+      ownerName: data.ownerName,
+      petId: data.petId,
+      petName: data.petName,
+      species: data.species || 'other',
+      photoURLs: data.photoURLs || [],
+      description: data.description,
+      lastSeenAt: data.lastSeenAt?.toDate() || new Date(),
+      lastSeenLocation: data.lastSeenLocation,
+      locationDescription: data.locationDescription,
+      geohash: data.geohash,
+      radiusKm: data.radiusKm,
+      status: data.status || 'active',
+      createdAt: data.createdAt?.toDate() || new Date(),
+      foundAt: data.foundAt?.toDate(),
+    };
+  }
+
+  private static toNotification(id: string, data: DocumentData): LostPetNotification {
+    return {
+      alertId: data.alertId || id,
+      petName: data.petName,
+      species: data.species || 'other',
+      ownerName: data.ownerName,
+      distanceKm: data.distanceKm,
+      read: !!data.read,
+      delivered: !!data.delivered,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    };
+  }
+}
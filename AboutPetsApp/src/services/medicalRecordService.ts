@@ -0,0 +1,326 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  orderBy,
+  onSnapshot,
+  serverTimestamp,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { AttachmentService } from './attachmentService';
+import { cacheStorage } from '../storage/asyncStorage';
+import { AttachmentMetadata, PickedAttachment } from '../types/chat';
+import { MedicalRecord, MedicalRecordInput } from '../types/medical';
+
+/**
+ * Medical record service for a pet's health history
+ * Records live in users/{uid}/pets/{petId}/medicalRecords and every snapshot
+ * is mirrored to the local cache so the history can be read offline. The
+ * cache is kept per user and cleared when they sign out.
+ */
+
+const CACHE_PREFIX = 'medical_records_';
+
+const OPTIONAL_FIELDS = ['clinic', 'notes', 'intervalMonths', 'nextDueDate', 'dosage', 'endDate', 'severity'] as const;
+
+export class MedicalRecordService {
+  private static getRecordsRef(userId: string, petId: string) {
+    return collection(db, 'users', userId, 'pets', petId, 'medicalRecords');
+  }
+
+  private static getUserCachePrefix(userId: string): string {
+    return `${CACHE_PREFIX}${userId}_`;
+  }
+
+  private static getCacheKey(userId: string, petId: string): string {
+    return `${this.getUserCachePrefix(userId)}${petId}`;
+  }
+
+  /**
+   * Subscribe to a pet's records, newest first, caching each update
+   */
+  static subscribeToRecords(
+    userId: string,
+    petId: string,
+    callback: (records: MedicalRecord[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getRecordsRef(userId, petId), orderBy('date', 'desc')),
+      (snapshot) => {
+        const records = snapshot.docs.map(recordDoc =>
+          this.toRecord(recordDoc.id, petId, recordDoc.data({ serverTimestamps: 'estimate' }))
+        );
+        callback(records);
+        this.saveCachedRecords(userId, petId, records);
+      },
+      (error) => {
+        console.error('Error subscribing to medical records:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Get a single record by ID, falling back to the cached copy
+   */
+  static async getRecord(userId: string, petId: string, recordId: string): Promise<MedicalRecord | null> {
+    try {
+      const recordDoc = await getDoc(doc(this.getRecordsRef(userId, petId), recordId));
+      return recordDoc.exists() ? this.toRecord(recordDoc.id, petId, recordDoc.data()) : null;
+    } catch (error) {
+      console.error('Error getting medical record:', error);
+      const cachedRecords = await this.loadCachedRecords(userId, petId);
+      return cachedRecords.find(record => record.id === recordId) || null;
+    }
+  }
+
+  /**
+   * Add a record, uploading any newly picked documents
+   */
+  static async addRecord(
+    userId: string,
+    petId: string,
+    input: MedicalRecordInput,
+    newDocuments: PickedAttachment[] = []
+  ): Promise<string> {
+    try {
+      const recordRef = doc(this.getRecordsRef(userId, petId));
+      const uploaded = await this.uploadDocuments(userId, petId, recordRef.id, newDocuments);
+
+      await setDoc(recordRef, {
+        ...this.toFirestoreData({ ...input, attachments: [...input.attachments, ...uploaded] }),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      return recordRef.id;
+    } catch (error) {
+      console.error('Error adding medical record:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a record; documents dropped from input.attachments are removed from storage
+   */
+  static async updateRecord(
+    userId: string,
+    petId: string,
+    recordId: string,
+    input: MedicalRecordInput,
+    newDocuments: PickedAttachment[] = []
+  ): Promise<void> {
+    try {
+      const recordRef = doc(this.getRecordsRef(userId, petId), recordId);
+      const recordDoc = await getDoc(recordRef);
+      if (!recordDoc.exists()) {
+        throw new Error('Medical record not found');
+      }
+
+      const uploaded = await this.uploadDocuments(userId, petId, recordId, newDocuments);
+      const data = this.toFirestoreData({ ...input, attachments: [...input.attachments, ...uploaded] });
+
+      // Clear optional fields the user emptied or that no longer apply to the record type
+      const clearedFields: Record<string, ReturnType<typeof deleteField>> = {};
+      OPTIONAL_FIELDS.forEach(field => {
+        if (!(field in data)) {
+          clearedFields[field] = deleteField();
+        }
+      });
+
+      await updateDoc(recordRef, {
+        ...data,
+        ...clearedFields,
+        updatedAt: serverTimestamp(),
+      });
+
+      const keptUrls = new Set(input.attachments.map(attachment => attachment.url));
+      const removed: AttachmentMetadata[] = (recordDoc.data().attachments || [])
+        .filter((attachment: AttachmentMetadata) => attachment.url && !keptUrls.has(attachment.url));
+      await Promise.all(removed.map(attachment => AttachmentService.deleteAttachment(attachment.url!)));
+    } catch (error) {
+      console.error('Error updating medical record:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a record and its documents
+   */
+  static async deleteRecord(userId: string, petId: string, recordId: string): Promise<void> {
+    try {
+      const recordRef = doc(this.getRecordsRef(userId, petId), recordId);
+      const recordDoc = await getDoc(recordRef);
+      const attachments: AttachmentMetadata[] = recordDoc.data()?.attachments || [];
+
+      // Documents go before the record that holds their URLs, so a retry can still find them
+      await Promise.all(
+        attachments
+          .filter(attachment => attachment.url)
+          .map(attachment => AttachmentService.deleteAttachment(attachment.url!))
+      );
+      await deleteDoc(recordRef);
+    } catch (error) {
+      console.error('Error deleting medical record:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all of a pet's records, e.g. when the pet is removed
+   */
+  static async deleteAllRecords(userId: string, petId: string): Promise<void> {
+    try {
+      const snapshot = await getDocs(this.getRecordsRef(userId, petId));
+      await Promise.all(snapshot.docs.map(recordDoc => this.deleteRecord(userId, petId, recordDoc.id)));
+      await this.clearCachedRecords(userId, petId);
+    } catch (error) {
+      console.error('Error deleting medical records:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a pet's records from the local cache
+   */
+  static async loadCachedRecords(userId: string, petId: string): Promise<MedicalRecord[]> {
+    try {
+      const cachedData = await cacheStorage.getStringAsync(this.getCacheKey(userId, petId));
+      if (!cachedData) {
+        return [];
+      }
+
+      // Convert ISO strings back to Date objects
+      return JSON.parse(cachedData).map((record: any) => ({
+        ...record,
+        date: new Date(record.date),
+        nextDueDate: record.nextDueDate ? new Date(record.nextDueDate) : undefined,
+        endDate: record.endDate ? new Date(record.endDate) : undefined,
+        createdAt: new Date(record.createdAt),
+        updatedAt: new Date(record.updatedAt),
+      }));
+    } catch (error) {
+      console.error('Error loading medical records from cache:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove a pet's cached records
+   */
+  static async clearCachedRecords(userId: string, petId: string): Promise<void> {
+    try {
+      await cacheStorage.deleteAsync(this.getCacheKey(userId, petId));
+    } catch (error) {
+      console.error('Error clearing medical records cache:', error);
+    }
+  }
+
+  /**
+   * Remove every pet's cached records for a user, e.g. when they sign out
+   */
+  static async clearAllCachedRecords(userId: string): Promise<void> {
+    try {
+      const prefix = this.getUserCachePrefix(userId);
+      const keys = await cacheStorage.getAllKeysAsync();
+      const recordKeys = keys
+        .map(key => key.replace(/^[^:]+:/, ''))
+        .filter(key => key.startsWith(prefix));
+
+      await Promise.all(recordKeys.map(key => cacheStorage.deleteAsync(key)));
+    } catch (error) {
+      console.error('Error clearing medical records caches:', error);
+    }
+  }
+
+  private static async saveCachedRecords(userId: string, petId: string, records: MedicalRecord[]): Promise<void> {
+    try {
+      await cacheStorage.setAsync(this.getCacheKey(userId, petId), JSON.stringify(records));
+    } catch (error) {
+      console.error('Error saving medical records to cache:', error);
+    }
+  }
+
+  private static async uploadDocuments(
+    userId: string,
+    petId: string,
+    recordId: string,
+    documents: PickedAttachment[]
+  ): Promise<AttachmentMetadata[]> {
+    return Promise.all(
+      documents.map(async document => ({
+        fileName: document.fileName,
+        fileSize: document.fileSize,
+        mimeType: document.mimeType,
+        url: await AttachmentService.uploadFile(
+          `users/${userId}/pets/${petId}/records/${recordId}/${document.fileName}`,
+          document
+        ),
+        ...(document.width && document.height ? { width: document.width, height: document.height } : {}),
+      }))
+    );
+  }
+
+  /**
+   * Firestore rejects undefined values, so optional fields are only written when set
+   * and type-specific fields only for the matching record type
+   */
+  private static toFirestoreData(input: MedicalRecordInput): DocumentData {
+    const data: DocumentData = {
+      type: input.type,
+      title: input.title.trim(),
+      date: Timestamp.fromDate(input.date),
+      attachments: input.attachments.map(attachment =>
+        Object.fromEntries(Object.entries(attachment).filter(([, value]) => value !== undefined))
+      ),
+    };
+
+    if (input.clinic?.trim()) data.clinic = input.clinic.trim();
+    if (input.notes?.trim()) data.notes = input.notes.trim();
+
+    if (input.type === 'vaccination') {
+      if (input.intervalMonths) data.intervalMonths = input.intervalMonths;
+      if (input.nextDueDate) data.nextDueDate = Timestamp.fromDate(input.nextDueDate);
+    }
+
+    if (input.type === 'prescription') {
+      if (input.dosage?.trim()) data.dosage = input.dosage.trim();
+      if (input.endDate) data.endDate = Timestamp.fromDate(input.endDate);
+    }
+
+    if (input.type === 'allergy' && input.severity) {
+      data.severity = input.severity;
+    }
+
+    return data;
+  }
+
+  private static toRecord(id: string, petId: string, data: DocumentData): MedicalRecord {
+    return {
+      id,
+      petId,
+      type: data.type,
+      title: data.title,
+      date: data.date?.toDate() || new Date(),
+      clinic: data.clinic,
+      notes: data.notes,
+      attachments: data.attachments || [],
+      intervalMonths: data.intervalMonths,
+      nextDueDate: data.nextDueDate?.toDate(),
+      dosage: data.dosage,
+      endDate: data.endDate?.toDate(),
+      severity: data.severity,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    };
+  }
+}
@@ -53,6 +53,7 @@ export class MessageCacheService {
       return parsedMessages.map((message: any) => ({
         ...message,
         timestamp: new Date(message.timestamp),
+        editedAt: message.editedAt ? new Date(message.editedAt) : undefined,
       }));
     } catch (error) {
       console.error('Error loading messages from cache:', error);
@@ -60,6 +61,26 @@ export class MessageCacheService {
     }
   }
 
+  /**
+   * Patch a single cached message, e.g. after it was edited or deleted
+   * so the stale copy is not shown while offline
+   */
+  static async updateMessage(chatId: string, messageId: string, changes: Partial<Message>): Promise<void> {
+    try {
+      const cachedMessages = await this.loadMessages(chatId);
+      if (!cachedMessages.some(message => message.id === messageId)) {
+        return;
+      }
+
+      const updatedMessages = cachedMessages.map(message =>
+        message.id === messageId ? { ...message, ...changes } : message
+      );
+      await this.saveMessages(chatId, updatedMessages);
+    } catch (error) {
+      console.error('Error updating cached message:', error);
+    }
+  }
+
   /**
    * Clear cached messages for a specific chat
    */
@@ -0,0 +1,235 @@
+import NetInfo from '@react-native-community/netinfo';
+import { cacheStorage } from '../storage/asyncStorage';
+import { Message } from '../types/chat';
+import { ChatFirestoreService } from './chatFirestoreService';
+
+/**
+ * Durable outbox for messages that could not be sent yet
+ * Queues messages per user and chat in AsyncStorage and replays them in order
+ * once connectivity returns. Messages keep their client-generated ID, and a
+ * replay of a message that already reached Firestore is skipped instead of
+ * overwriting it.
+ */
+
+const OUTBOX_PREFIX = 'outbox_';
+
+export class MessageOutboxService {
+  private static flushes = new Map<string, Promise<number>>();
+  // Tail of the pending writes per outbox, so read-modify-writes never interleave
+  private static writes = new Map<string, Promise<void>>();
+
+  private static getUserPrefix(userId: string): string {
+    return `${OUTBOX_PREFIX}${userId}_`;
+  }
+
+  private static getOutboxKey(userId: string, chatId: string): string {
+    return `${this.getUserPrefix(userId)}${chatId}`;
+  }
+
+  /**
+   * Load a user's queued messages for a chat, oldest first
+   */
+  static async getQueuedMessages(userId: string, chatId: string): Promise<Message[]> {
+    const key = this.getOutboxKey(userId, chatId);
+    // Wait for queued writes so callers never see a stale outbox
+    await this.writes.get(key)?.catch(() => undefined);
+    return this.readQueue(key);
+  }
+
+  /**
+   * Add a message to the outbox of its chat
+   * A message that is already queued keeps its place in the queue
+   */
+  static async enqueue(userId: string, message: Message): Promise<void> {
+    if (!message.id) {
+      throw new Error('Outbox messages need a client-generated ID');
+    }
+
+    await this.updateQueue(userId, message.chatId, queued =>
+      queued.some(item => item.id === message.id)
+        ? queued.map(item => (item.id === message.id ? message : item))
+        : [...queued, message]
+    );
+  }
+
+  /**
+   * Remove a message from the outbox once it has been delivered
+   */
+  static async remove(userId: string, chatId: string, messageId: string): Promise<void> {
+    await this.updateQueue(userId, chatId, queued => queued.filter(item => item.id !== messageId));
+  }
+
+  /**
+   * Replay a user's queued messages of a chat in order
+   * Stops at the first failure so later messages never overtake earlier ones.
+   * Concurrent calls share the replay in progress, which also sends messages
+   * queued while it runs.
+   */
+  static flush(userId: string, chatId: string, onSent?: (message: Message) => void): Promise<number> {
+    const key = this.getOutboxKey(userId, chatId);
+    const inProgress = this.flushes.get(key);
+    if (inProgress) {
+      return inProgress;
+    }
+
+    const replay = (async () => {
+      let sentCount = 0;
+
+      try {
+        // Take the head each time so messages queued meanwhile are picked up
+        let [message] = await this.getQueuedMessages(userId, chatId);
+
+        while (message) {
+          try {
+            await ChatFirestoreService.sendMessage({
+              id: message.id,
+              text: message.text,
+              senderId: message.senderId,
+              senderName: message.senderName,
+              chatId: message.chatId,
+              replyTo: message.replyTo,
+            });
+          } catch (error) {
+            console.error('Error replaying queued message:', error);
+            break;
+          }
+
+          await this.remove(userId, chatId, message.id!);
+          sentCount += 1;
+          onSent?.(message);
+
+          [message] = await this.getQueuedMessages(userId, chatId);
+        }
+      } finally {
+        this.flushes.delete(key);
+      }
+
+      return sentCount;
+    })();
+
+    this.flushes.set(key, replay);
+    return replay;
+  }
+
+  /**
+   * Replay all of a user's outboxes
+   */
+  static async flushAll(userId: string): Promise<void> {
+    try {
+      const prefix = this.getUserPrefix(userId);
+      const keys = await cacheStorage.getAllKeysAsync();
+      const chatIds = keys
+        .map(key => key.replace(/^[^:]+:/, ''))
+        .filter(key => key.startsWith(prefix))
+        .map(key => key.slice(prefix.length));
+
+      for (const chatId of chatIds) {
+        await this.flush(userId, chatId);
+      }
+    } catch (error) {
+      console.error('Error flushing outboxes:', error);
+    }
+  }
+
+  /**
+   * Drop all of a user's queued messages, e.g. when they sign out
+   */
+  static async clearAll(userId: string): Promise<void> {
+    try {
+      const prefix = this.getUserPrefix(userId);
+      const keys = await cacheStorage.getAllKeysAsync();
+      const outboxKeys = keys
+        .map(key => key.replace(/^[^:]+:/, ''))
+        .filter(key => key.startsWith(prefix));
+
+      for (const key of outboxKeys) {
+        await this.writes.get(key)?.catch(() => undefined);
+        await cacheStorage.deleteAsync(key);
+      }
+    } catch (error) {
+      console.error('Error clearing outboxes:', error);
+    }
+  }
+
+  /**
+   * Replay a user's outboxes whenever the device comes back online
+   */
+  static startAutoReplay(userId: string): () => void {
+    // NetInfo reports the current state right away, which also replays on cold start
+    let wasConnected = false;
+
+    return NetInfo.addEventListener(state => {
+      const isConnected = !!state.isConnected && state.isInternetReachable !== false;
+      if (isConnected && !wasConnected) {
+        this.flushAll(userId);
+      }
+      wasConnected = isConnected;
+    });
+  }
+
+  /**
+   * Apply a change to an outbox once the writes queued before it have finished
+   */
+  private static updateQueue(
+    userId: string,
+    chatId: string,
+    update: (queued: Message[]) => Message[]
+  ): Promise<void> {
+    const key = this.getOutboxKey(userId, chatId);
+    const previous = this.writes.get(key) ?? Promise.resolve();
+
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const queued = await this.readQueue(key);
+        await this.saveQueue(key, update(queued));
+      });
+
+    this.writes.set(key, write);
+    const cleanUp = () => {
+      if (this.writes.get(key) === write) {
+        this.writes.delete(key);
+      }
+    };
+    write.then(cleanUp, cleanUp);
+
+    return write;
+  }
+
+  private static async readQueue(key: string): Promise<Message[]> {
+    try {
+      const storedData = await cacheStorage.getStringAsync(key);
+
+      if (!storedData) {
+        return [];
+      }
+
+      const parsedMessages = JSON.parse(storedData);
+
+      // Convert ISO strings back to Date objects
+      return parsedMessages.map((message: any) => ({
+        ...message,
+        timestamp: new Date(message.timestamp),
+        status: 'queued',
+      }));
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+      return [];
+    }
+  }
+
+  private static async saveQueue(key: string, messages: Message[]): Promise<void> {
+    if (messages.length === 0) {
+      await cacheStorage.deleteAsync(key);
+      return;
+    }
+
+    // Convert dates to ISO strings for storage
+    const messagesToStore = messages.map(message => ({
+      ...message,
+      timestamp: message.timestamp.toISOString(),
+    }));
+
+    await cacheStorage.setAsync(key, JSON.stringify(messagesToStore));
+  }
+}
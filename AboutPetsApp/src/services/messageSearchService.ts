@@ -0,0 +1,127 @@
+import { cacheStorage } from '../storage/asyncStorage';
+import { Message } from '../types/chat';
+import { matchesSearch } from '../utils/searchUtils';
+import { ChatFirestoreService } from './chatFirestoreService';
+import { DynamicChatService } from './dynamicChatService';
+import { MessageCacheService } from './messageCacheService';
+
+/**
+ * Keyword search across a user's chats
+ * Searches the local message cache first for instant offline results,
+ * then the server-side searchTokens index of each chat
+ */
+
+export interface SearchableChat {
+  id: string;
+  name: string;
+}
+
+export interface MessageSearchGroup {
+  chatId: string;
+  chatName: string;
+  messages: Message[];
+}
+
+export class MessageSearchService {
+  private static getChatsKey(userId: string): string {
+    return `search_chats_${userId}`;
+  }
+
+  /**
+   * Chats the user belongs to, remembered locally so search also works offline
+   */
+  static async getSearchableChats(userId: string): Promise<SearchableChat[]> {
+    const userChats = await DynamicChatService.getUserChats(userId);
+
+    if (userChats.length > 0) {
+      const chats = userChats.map(chat => ({
+        id: chat.id,
+        name: DynamicChatService.getDisplayName(chat, userId),
+      }));
+      await cacheStorage.setAsync(this.getChatsKey(userId), JSON.stringify(chats));
+      return chats;
+    }
+
+    try {
+      const storedChats = await cacheStorage.getStringAsync(this.getChatsKey(userId));
+      return storedChats ? JSON.parse(storedChats) : [];
+    } catch (error) {
+      console.error('Error loading searchable chats:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Search messages cached on this device
+   */
+  static async searchCache(chats: SearchableChat[], searchQuery: string): Promise<MessageSearchGroup[]> {
+    const groups = await Promise.all(
+      chats.map(async chat => {
+        const cachedMessages = await MessageCacheService.loadMessages(chat.id);
+        return this.toGroup(
+          chat,
+          cachedMessages.filter(message =>
+            !message.deleted &&
+            matchesSearch([message.text, message.metadata?.fileName].filter(Boolean).join(' '), searchQuery)
+          )
+        );
+      })
+    );
+
+    return groups.filter(group => group.messages.length > 0);
+  }
+
+  /**
+   * Search the server-side index, skipping chats that fail rather than the whole search
+   */
+  static async searchServer(chats: SearchableChat[], searchQuery: string): Promise<MessageSearchGroup[]> {
+    const groups = await Promise.all(
+      chats.map(async chat => {
+        try {
+          return this.toGroup(chat, await ChatFirestoreService.searchMessages(chat.id, searchQuery));
+        } catch (error) {
+          console.error(`Error searching chat ${chat.id}:`, error);
+          return this.toGroup(chat, []);
+        }
+      })
+    );
+
+    return groups.filter(group => group.messages.length > 0);
+  }
+
+  /**
+   * Combine result sets, keeping one copy of each message and the newest first
+   */
+  static mergeResults(...resultSets: MessageSearchGroup[][]): MessageSearchGroup[] {
+    const groupsByChat = new Map<string, MessageSearchGroup>();
+
+    resultSets.flat().forEach(group => {
+      const existing = groupsByChat.get(group.chatId);
+      if (!existing) {
+        groupsByChat.set(group.chatId, { ...group, messages: [...group.messages] });
+        return;
+      }
+
+      const knownIds = new Set(existing.messages.map(message => message.id));
+      existing.messages.push(...group.messages.filter(message => !knownIds.has(message.id)));
+    });
+
+    const groups = Array.from(groupsByChat.values());
+    groups.forEach(group => {
+      group.messages.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    });
+
+    // Chats with the most recent match come first
+    return groups.sort(
+      (a, b) => b.messages[0].timestamp.getTime() - a.messages[0].timestamp.getTime()
+    );
+  }
+
+  private static toGroup(chat: SearchableChat, messages: Message[]): MessageSearchGroup {
+    return {
+      chatId: chat.id,
+      chatName: chat.name,
+      messages,
+    };
+  }
+}
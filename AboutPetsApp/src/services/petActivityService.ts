@@ -0,0 +1,120 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  serverTimestamp,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { PetActivity, PetActivityInput } from '../types/activity';
+import { User } from '../types/auth';
+
+/**
+ * Pet activity service for the care log shared by a pet's owner and co-owners
+ * Entries live in users/{ownerId}/pets/{petId}/activities. Every entry is its
+ * own document and is never updated, so concurrent logs from several devices
+ * (or offline ones) cannot overwrite each other.
+ */
+
+/** How many days of history the activity log shows */
+export const ACTIVITY_HISTORY_DAYS = 7;
+
+export class PetActivityService {
+  private static getActivitiesRef(ownerId: string, petId: string) {
+    return collection(db, 'users', ownerId, 'pets', petId, 'activities');
+  }
+
+  /**
+   * Subscribe to a pet's activities since the given date, newest first
+   */
+  static subscribeToActivities(
+    ownerId: string,
+    petId: string,
+    since: Date,
+    callback: (activities: PetActivity[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(
+        this.getActivitiesRef(ownerId, petId),
+        where('occurredAt', '>=', Timestamp.fromDate(since)),
+        orderBy('occurredAt', 'desc')
+      ),
+      (snapshot) => {
+        callback(snapshot.docs.map(activityDoc => this.toActivity(activityDoc.id, petId, activityDoc.data())));
+      },
+      (error) => {
+        console.error('Error subscribing to pet activities:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Append an entry to a pet's activity log and resolve with its ID
+   */
+  static async logActivity(ownerId: string, petId: string, author: User, input: PetActivityInput): Promise<string> {
+    try {
+      const data: DocumentData = {
+        type: input.type,
+        userId: author.uid,
+        userName: author.displayName,
+        occurredAt: Timestamp.fromDate(input.occurredAt),
+        createdAt: serverTimestamp(),
+      };
+      if (input.note?.trim()) data.note = input.note.trim();
+      if (input.durationMinutes) data.durationMinutes = input.durationMinutes;
+
+      const activityRef = await addDoc(this.getActivitiesRef(ownerId, petId), data);
+      return activityRef.id;
+    } catch (error) {
+      console.error('Error logging pet activity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an entry, e.g. one logged by mistake
+   */
+  static async deleteActivity(ownerId: string, petId: string, activityId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(this.getActivitiesRef(ownerId, petId), activityId));
+    } catch (error) {
+      console.error('Error deleting pet activity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a pet's whole activity log, e.g. when the pet is removed
+   */
+  static async deleteAllActivities(ownerId: string, petId: string): Promise<void> {
+    try {
+      const snapshot = await getDocs(this.getActivitiesRef(ownerId, petId));
+      await Promise.all(snapshot.docs.map(activityDoc => deleteDoc(activityDoc.ref)));
+    } catch (error) {
+      console.error('Error deleting pet activities:', error);
+      throw error;
+    }
+  }
+
+  private static toActivity(id: string, petId: string, data: DocumentData): PetActivity {
+    return {
+      id,
+      petId,
+      type: data.type || 'other',
+      note: data.note,
+      durationMinutes: data.durationMinutes,
+      userId: data.userId,
+      userName: data.userName,
+      occurredAt: data.occurredAt?.toDate() || new Date(),
+    };
+  }
+}
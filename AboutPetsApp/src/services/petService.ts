@@ -0,0 +1,373 @@
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  arrayRemove,
+  serverTimestamp,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { AttachmentService } from './attachmentService';
+import { HealthMetricService } from './healthMetricService';
+import { MedicalRecordService } from './medicalRecordService';
+import { PetActivityService } from './petActivityService';
+import { PetSharingService } from './petSharingService';
+import { LostPetAlertService } from './lostPetAlertService';
+import { ReminderService } from './reminderService';
+import { UserService } from './userService';
+import { PickedAttachment } from '../types/chat';
+import { WeightAlertSettings } from '../types/health';
+import { Pet, PetInput, PET_SPECIES } from '../types/pet';
+
+/**
+ * Pet service for managing pet profiles
+ * Pets live in users/{uid}/pets; every change refreshes the owner's
+ * derived petTypes/petCount so user discovery reflects the actual pets.
+ * Co-owners are listed in the pet's coOwnerIds and find shared pets
+ * through a collection group query.
+ */
+
+export interface PetSummary {
+  petTypes: string[];
+  petCount: number;
+}
+
+export class PetService {
+  private static getPetsRef(userId: string) {
+    return collection(db, 'users', userId, 'pets');
+  }
+
+  /**
+   * Get all pets of a user, oldest first
+   */
+  static async getPets(userId: string): Promise<Pet[]> {
+    try {
+      const snapshot = await getDocs(query(this.getPetsRef(userId), orderBy('createdAt', 'asc')));
+      return snapshot.docs.map(petDoc => this.toPet(petDoc.id, userId, petDoc.data()));
+    } catch (error) {
+      console.error('Error getting pets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single pet by ID
+   */
+  static async getPet(userId: string, petId: string): Promise<Pet | null> {
+    try {
+      const petDoc = await getDoc(doc(this.getPetsRef(userId), petId));
+      return petDoc.exists() ? this.toPet(petDoc.id, userId, petDoc.data()) : null;
+    } catch (error) {
+      console.error('Error getting pet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to a user's pets
+   */
+  static subscribeToPets(
+    userId: string,
+    callback: (pets: Pet[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getPetsRef(userId), orderBy('createdAt', 'asc')),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map(petDoc =>
+            this.toPet(petDoc.id, userId, petDoc.data({ serverTimestamps: 'estimate' }))
+          )
+        );
+      },
+      (error) => {
+        console.error('Error subscribing to pets:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to a single pet, e.g. to follow changes to its co-owners
+   * The callback receives null once the pet was deleted
+   */
+  static subscribeToPet(
+    ownerId: string,
+    petId: string,
+    callback: (pet: Pet | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      doc(this.getPetsRef(ownerId), petId),
+      (petDoc) => {
+        callback(
+          petDoc.exists() ? this.toPet(petDoc.id, ownerId, petDoc.data({ serverTimestamps: 'estimate' })) : null
+        );
+      },
+      (error) => {
+        console.error('Error subscribing to pet:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to pets other users share with the given user
+   */
+  static subscribeToSharedPets(
+    userId: string,
+    callback: (pets: Pet[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(collectionGroup(db, 'pets'), where('coOwnerIds', 'array-contains', userId)),
+      (snapshot) => {
+        const pets = snapshot.docs
+          .map(petDoc =>
+            this.toPet(petDoc.id, petDoc.ref.parent.parent!.id, petDoc.data({ serverTimestamps: 'estimate' }))
+          )
+          .sort((a, b) => a.name.localeCompare(b.name));
+        callback(pets);
+      },
+      (error) => {
+        console.error('Error subscribing to shared pets:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Remove a co-owner from a pet; co-owners may also remove themselves
+   */
+  static async removeCoOwner(ownerId: string, petId: string, coOwnerId: string): Promise<void> {
+    try {
+      await updateDoc(doc(this.getPetsRef(ownerId), petId), {
+        coOwnerIds: arrayRemove(coOwnerId),
+      });
+      await PetSharingService.deleteInvite(petId, coOwnerId);
+    } catch (error) {
+      console.error('Error removing co-owner:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a pet, optionally uploading its photo, and resolve with the new pet ID
+   */
+  static async addPet(userId: string, input: PetInput, photo?: PickedAttachment | null): Promise<string> {
+    try {
+      const petRef = doc(this.getPetsRef(userId));
+      const photoURL = photo ? await this.uploadPhoto(userId, petRef.id, photo) : input.photoURL;
+
+      await setDoc(petRef, {
+        ...this.toFirestoreData({ ...input, photoURL }),
+        coOwnerIds: [],
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      await this.syncPetSummary(userId);
+      return petRef.id;
+    } catch (error) {
+      console.error('Error adding pet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a pet, replacing its photo when a new one is given
+   */
+  static async updatePet(
+    userId: string,
+    petId: string,
+    input: PetInput,
+    photo?: PickedAttachment | null
+  ): Promise<void> {
+    try {
+      const petRef = doc(this.getPetsRef(userId), petId);
+      const petDoc = await getDoc(petRef);
+      if (!petDoc.exists()) {
+        throw new Error('Pet not found');
+      }
+
+      const previousPhotoURL: string | undefined = petDoc.data().photoURL;
+      const photoURL = photo ? await this.uploadPhoto(userId, petId, photo) : input.photoURL;
+      const data = this.toFirestoreData({ ...input, photoURL });
+
+      // Clear optional fields the user emptied
+      const clearedFields: Record<string, ReturnType<typeof deleteField>> = {};
+      (['breed', 'birthday', 'weight', 'photoURL', 'microchipId'] as const).forEach(field => {
+        if (!(field in data)) {
+          clearedFields[field] = deleteField();
+        }
+      });
+
+      await updateDoc(petRef, {
+        ...data,
+        ...clearedFields,
+        updatedAt: serverTimestamp(),
+      });
+
+      if (previousPhotoURL && previousPhotoURL !== photoURL) {
+        await AttachmentService.deleteAttachment(previousPhotoURL);
+      }
+
+      if (petDoc.data().name !== data.name) {
+        await ReminderService.updatePetName(userId, petId, data.name);
+      }
+
+      await this.syncPetSummary(userId);
+    } catch (error) {
+      console.error('Error updating pet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change when a pet's weight changes trigger an alert
+   */
+  static async updateWeightAlert(userId: string, petId: string, settings: WeightAlertSettings): Promise<void> {
+    try {
+      await updateDoc(doc(this.getPetsRef(userId), petId), {
+        weightAlert: settings,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error updating weight alert:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a pet with its photo, health history, medical records, reminders, activity log and invites
+   */
+  static async deletePet(userId: string, petId: string): Promise<void> {
+    try {
+      const petRef = doc(this.getPetsRef(userId), petId);
+      const petDoc = await getDoc(petRef);
+      const photoURL: string | undefined = petDoc.data()?.photoURL;
+
+      // Firestore does not delete subcollections with their parent
+      await MedicalRecordService.deleteAllRecords(userId, petId);
+      await HealthMetricService.deleteAllEntries(userId, petId);
+      await ReminderService.deleteRemindersForPet(userId, petId);
+      await PetActivityService.deleteAllActivities(userId, petId);
+      await PetSharingService.deleteInvitesForPet(userId, petId);
+      await LostPetAlertService.deleteAlertsForPet(userId, petId);
+      // The photo goes before the document that holds its URL, so a retry can still find it
+      if (photoURL) {
+        await AttachmentService.deleteAttachment(photoURL);
+      }
+      await deleteDoc(petRef);
+
+      await this.syncPetSummary(userId);
+    } catch (error) {
+      console.error('Error deleting pet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all of a user's pets and leave the pets others share with them,
+   * e.g. when their account is deleted
+   */
+  static async deleteAllPets(userId: string): Promise<void> {
+    try {
+      const [pets, sharedPets] = await Promise.all([
+        this.getPets(userId),
+        getDocs(query(collectionGroup(db, 'pets'), where('coOwnerIds', 'array-contains', userId))),
+      ]);
+
+      for (const pet of pets) {
+        await this.deletePet(userId, pet.id);
+      }
+      await Promise.all(
+        sharedPets.docs.map(petDoc => this.removeCoOwner(petDoc.ref.parent.parent!.id, petDoc.id, userId))
+      );
+    } catch (error) {
+      console.error('Error deleting pets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Derive the owner's petTypes and petCount from their pets
+   */
+  static getPetSummary(pets: Pick<Pet, 'species'>[]): PetSummary {
+    const petTypes = new Set<string>();
+    pets.forEach(pet => {
+      const option = PET_SPECIES.find(species => species.value === pet.species);
+      if (option) {
+        petTypes.add(option.petType);
+      }
+    });
+
+    return {
+      petTypes: Array.from(petTypes),
+      petCount: pets.length,
+    };
+  }
+
+  private static async syncPetSummary(userId: string): Promise<void> {
+    const { petTypes, petCount } = this.getPetSummary(await this.getPets(userId));
+    await UserService.updatePetSummary(userId, petTypes, petCount);
+  }
+
+  private static uploadPhoto(userId: string, petId: string, photo: PickedAttachment): Promise<string> {
+    return AttachmentService.uploadFile(`users/${userId}/pets/${petId}/${Date.now()}-${photo.fileName}`, photo);
+  }
+
+  /**
+   * Firestore rejects undefined values, so optional fields are only written when set
+   */
+  private static toFirestoreData(input: PetInput): DocumentData {
+    const data: DocumentData = {
+      name: input.name.trim(),
+      species: input.species,
+      sex: input.sex,
+      neutered: input.neutered,
+      temperament: input.temperament,
+    };
+
+    if (input.breed?.trim()) data.breed = input.breed.trim();
+    if (input.birthday) data.birthday = Timestamp.fromDate(input.birthday);
+    if (input.weight !== undefined) data.weight = input.weight;
+    if (input.photoURL) data.photoURL = input.photoURL;
+    if (input.microchipId?.trim()) data.microchipId = input.microchipId.trim();
+
+    return data;
+  }
+
+  private static toPet(id: string, ownerId: string, data: DocumentData): Pet {
+    return {
+      id,
+      ownerId,
+      name: data.name,
+      species: data.species || 'other',
+      breed: data.breed,
+      birthday: data.birthday?.toDate(),
+      sex: data.sex || 'unknown',
+      weight: data.weight,
+      photoURL: data.photoURL,
+      neutered: !!data.neutered,
+      microchipId: data.microchipId,
+      temperament: data.temperament || [],
+      coOwnerIds: data.coOwnerIds || [],
+      weightAlert: data.weightAlert,
+      lostAlertId: data.lostAlertId,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot,
+  runTransaction,
+  arrayUnion,
+  serverTimestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { UserService } from './userService';
+import { Pet, PetInvite } from '../types/pet';
+import { User } from '../types/auth';
+
+/**
+ * Pet sharing service for co-ownership invites
+ * Invites live in petInvites/{petId}_{inviteeId}, so a user has at most one
+ * invite per pet. Accepting adds the invitee to the pet's coOwnerIds.
+ */
+
+export class PetSharingService {
+  private static getInvitesRef() {
+    return collection(db, 'petInvites');
+  }
+
+  private static getInviteId(petId: string, inviteeId: string): string {
+    return `${petId}_${inviteeId}`;
+  }
+
+  /**
+   * Invite another user, by uid, to co-own a pet
+   */
+  static async sendInvite(owner: User, pet: Pet, inviteeId: string): Promise<void> {
+    if (inviteeId === owner.uid) {
+      throw new Error('You already own this pet');
+    }
+    if (pet.coOwnerIds.includes(inviteeId)) {
+      throw new Error('This user already co-owns the pet');
+    }
+
+    try {
+      const invitee = await UserService.getUserProfile(inviteeId);
+      if (!invitee) {
+        throw new Error('User not found');
+      }
+
+      await setDoc(doc(this.getInvitesRef(), this.getInviteId(pet.id, inviteeId)), {
+        petId: pet.id,
+        petName: pet.name,
+        ownerId: owner.uid,
+        ownerName: owner.displayName,
+        inviteeId,
+        inviteeName: invitee.displayName,
+        status: 'pending',
+        createdAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error sending pet invite:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the pending invites a user has received
+   */
+  static subscribeToIncomingInvites(
+    userId: string,
+    callback: (invites: PetInvite[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getInvitesRef(), where('inviteeId', '==', userId), where('status', '==', 'pending')),
+      (snapshot) => {
+        callback(snapshot.docs.map(inviteDoc => this.toInvite(inviteDoc.id, inviteDoc.data({ serverTimestamps: 'estimate' }))));
+      },
+      (error) => {
+        console.error('Error subscribing to pet invites:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to the pending invites an owner has sent for a pet
+   */
+  static subscribeToPetInvites(
+    ownerId: string,
+    petId: string,
+    callback: (invites: PetInvite[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(
+        this.getInvitesRef(),
+        where('ownerId', '==', ownerId),
+        where('petId', '==', petId),
+        where('status', '==', 'pending')
+      ),
+      (snapshot) => {
+        callback(snapshot.docs.map(inviteDoc => this.toInvite(inviteDoc.id, inviteDoc.data({ serverTimestamps: 'estimate' }))));
+      },
+      (error) => {
+        console.error('Error subscribing to pet invites:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Accept an invite, making the user a co-owner of the pet
+   */
+  static async acceptInvite(userId: string, invite: PetInvite): Promise<void> {
+    try {
+      const inviteRef = doc(this.getInvitesRef(), invite.id);
+      const petRef = doc(db, 'users', invite.ownerId, 'pets', invite.petId);
+
+      await runTransaction(db, async (transaction) => {
+        const inviteDoc = await transaction.get(inviteRef);
+        if (!inviteDoc.exists() || inviteDoc.data().status !== 'pending' || inviteDoc.data().inviteeId !== userId) {
+          throw new Error('This invite is no longer valid');
+        }
+
+        const petDoc = await transaction.get(petRef);
+        if (!petDoc.exists()) {
+          throw new Error('This pet no longer exists');
+        }
+
+        transaction.update(petRef, { coOwnerIds: arrayUnion(userId) });
+        transaction.update(inviteRef, { status: 'accepted' });
+      });
+    } catch (error) {
+      console.error('Error accepting pet invite:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Decline an invite; the owner may invite the user again later
+   */
+  static async declineInvite(inviteId: string): Promise<void> {
+    try {
+      await updateDoc(doc(this.getInvitesRef(), inviteId), { status: 'declined' });
+    } catch (error) {
+      console.error('Error declining pet invite:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the invite of a user for a pet, e.g. when it is cancelled or the co-owner is removed
+   */
+  static async deleteInvite(petId: string, inviteeId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(this.getInvitesRef(), this.getInviteId(petId, inviteeId)));
+    } catch (error) {
+      console.error('Error deleting pet invite:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all invites for a pet, e.g. when the pet is removed
+   */
+  static async deleteInvitesForPet(ownerId: string, petId: string): Promise<void> {
+    try {
+      const invites = await getDocs(
+        query(this.getInvitesRef(), where('ownerId', '==', ownerId), where('petId', '==', petId))
+      );
+      await Promise.all(invites.docs.map(inviteDoc => deleteDoc(inviteDoc.ref)));
+    } catch (error) {
+      console.error('Error deleting pet invites:', error);
+      throw error;
+    }
+  }
+
+  private static toInvite(id: string, data: DocumentData): PetInvite {
+    return {
+      id,
+      petId: data.petId,
+      petName: data.petName,
+      ownerId: data.ownerId,
+      ownerName: data.ownerName,
+      inviteeId: data.inviteeId,
+      inviteeName: data.inviteeName,
+      status: data.status,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    };
+  }
+}
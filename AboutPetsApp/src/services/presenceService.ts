@@ -0,0 +1,96 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from './firebase';
+import { UserService } from './userService';
+
+/**
+ * Presence service for online status
+ * Marks the signed-in user online while the app is in the foreground and
+ * refreshes users/{uid}.lastSeen as a heartbeat. A user whose heartbeat is
+ * older than PRESENCE_STALE_MS counts as offline, which covers apps that were
+ * killed or lost connectivity before they could sign off.
+ */
+
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+export const PRESENCE_STALE_MS = 2.5 * HEARTBEAT_INTERVAL_MS;
+
+export interface UserPresence {
+  isOnline: boolean;
+  lastSeen: Date | null;
+}
+
+export class PresenceService {
+  /**
+   * Track the current user's presence until the returned cleanup is called
+   * Cleanup only stops tracking; use goOffline() to mark the user offline
+   */
+  static start(userId: string): () => void {
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    const goOnline = () => {
+      UserService.updateOnlineStatus(userId, true);
+      if (!heartbeat) {
+        heartbeat = setInterval(() => UserService.updateOnlineStatus(userId, true), HEARTBEAT_INTERVAL_MS);
+      }
+    };
+
+    const stopHeartbeat = () => {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+      }
+    };
+
+    const handleAppStateChange = (state: AppStateStatus) => {
+      if (state === 'active') {
+        goOnline();
+      } else if (state === 'background') {
+        stopHeartbeat();
+        UserService.updateOnlineStatus(userId, false);
+      }
+    };
+
+    if (AppState.currentState === 'active') {
+      goOnline();
+    }
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+
+    return () => {
+      stopHeartbeat();
+      subscription.remove();
+    };
+  }
+
+  /**
+   * Mark the user offline, e.g. before signing out
+   */
+  static async goOffline(userId: string): Promise<void> {
+    await UserService.updateOnlineStatus(userId, false);
+  }
+
+  /**
+   * Whether a stored status still counts as online
+   */
+  static isActive(isOnline: boolean, lastSeen: Date | null, now: Date = new Date()): boolean {
+    return isOnline && !!lastSeen && now.getTime() - lastSeen.getTime() < PRESENCE_STALE_MS;
+  }
+
+  /**
+   * Subscribe to a user's stored presence
+   */
+  static subscribeToPresence(userId: string, callback: (presence: UserPresence) => void): () => void {
+    return onSnapshot(
+      doc(db, 'users', userId),
+      (snapshot) => {
+        const data = snapshot.data({ serverTimestamps: 'estimate' });
+        callback({
+          isOnline: !!data?.isOnline,
+          lastSeen: data?.lastSeen?.toDate() || null,
+        });
+      },
+      (error) => {
+        console.error('Error subscribing to presence:', error);
+      }
+    );
+  }
+}
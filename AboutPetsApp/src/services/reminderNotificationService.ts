@@ -0,0 +1,209 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Reminder, ReminderLog, REMINDER_CATEGORIES } from '../types/reminder';
+import { ReminderService, MISSED_LOOKBACK_DAYS } from './reminderService';
+
+/**
+ * Local notifications for care reminders
+ * Keeps the device's scheduled notifications in line with the user's
+ * reminders and handles the Done / Snooze actions on delivered notifications
+ */
+
+const NOTIFICATION_KIND = 'care-reminder';
+const CATEGORY_ID = 'care-reminder';
+const CHANNEL_ID = 'reminders';
+const COMPLETE_ACTION = 'complete';
+const SNOOZE_ACTION = 'snooze';
+
+export const SNOOZE_MINUTES = 15;
+
+/** How far ahead occurrences are scheduled; refreshed whenever the app syncs */
+const SCHEDULE_AHEAD_DAYS = 7;
+
+/** iOS keeps at most 64 pending local notifications per app */
+const MAX_SCHEDULED = 60;
+
+interface ReminderNotificationData {
+  kind: typeof NOTIFICATION_KIND;
+  reminderId: string;
+  occurrenceAt: number;
+}
+
+export class ReminderNotificationService {
+  private static configured = false;
+  private static syncQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Register the notification handler, actions and Android channel once
+   */
+  static async configure(): Promise<void> {
+    if (this.configured) return;
+    this.configured = true;
+
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowAlert: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+
+    try {
+      await Notifications.setNotificationCategoryAsync(CATEGORY_ID, [
+        { identifier: COMPLETE_ACTION, buttonTitle: 'Done' },
+        { identifier: SNOOZE_ACTION, buttonTitle: `Snooze ${SNOOZE_MINUTES} min` },
+      ]);
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Care reminders',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+    } catch (error) {
+      console.error('Error configuring reminder notifications:', error);
+    }
+  }
+
+  /**
+   * Keep notifications scheduled for the user's reminders until the returned cleanup is called
+   */
+  static start(userId: string): () => void {
+    let reminders: Reminder[] = [];
+    let logs: ReminderLog[] = [];
+    let remindersLoaded = false;
+    let logsLoaded = false;
+
+    const sync = () => {
+      if (remindersLoaded && logsLoaded) {
+        this.syncNotifications(reminders, logs);
+      }
+    };
+
+    this.configure();
+
+    const since = new Date(Date.now() - MISSED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const unsubscribeReminders = ReminderService.subscribeToReminders(userId, (updatedReminders) => {
+      reminders = updatedReminders;
+      remindersLoaded = true;
+      sync();
+    });
+    const unsubscribeLogs = ReminderService.subscribeToLogs(userId, since, (updatedLogs) => {
+      logs = updatedLogs;
+      logsLoaded = true;
+      sync();
+    });
+
+    const responseSubscription = Notifications.addNotificationResponseReceivedListener(response => {
+      this.handleResponse(userId, response);
+    });
+
+    return () => {
+      unsubscribeReminders();
+      unsubscribeLogs();
+      responseSubscription.remove();
+    };
+  }
+
+  /**
+   * Replace the scheduled reminder notifications with the upcoming open occurrences
+   * Syncs run one at a time so overlapping snapshots cannot double-schedule
+   */
+  static syncNotifications(reminders: Reminder[], logs: ReminderLog[]): Promise<void> {
+    this.syncQueue = this.syncQueue.then(() => this.scheduleUpcoming(reminders, logs));
+    return this.syncQueue;
+  }
+
+  /**
+   * Cancel every scheduled reminder notification, e.g. on sign out
+   */
+  static async cancelAll(): Promise<void> {
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      await Promise.all(
+        scheduled
+          .filter(request => request.content.data?.kind === NOTIFICATION_KIND)
+          .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+      );
+    } catch (error) {
+      console.error('Error cancelling reminder notifications:', error);
+    }
+  }
+
+  private static async scheduleUpcoming(reminders: Reminder[], logs: ReminderLog[]): Promise<void> {
+    try {
+      const now = new Date();
+      const until = new Date(now.getTime() + SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000);
+      // Start from the lookback so earlier occurrences that were snoozed are rescheduled too
+      const since = new Date(now.getTime() - MISSED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+      const upcoming = ReminderService.getOccurrences(reminders, logs, since, until, now)
+        .filter(occurrence => occurrence.status === 'pending' || occurrence.status === 'snoozed')
+        .map(occurrence => ({ ...occurrence, triggerAt: occurrence.snoozedUntil || occurrence.occurrenceAt }))
+        .filter(occurrence => occurrence.triggerAt.getTime() > now.getTime())
+        .sort((a, b) => a.triggerAt.getTime() - b.triggerAt.getTime())
+        .slice(0, MAX_SCHEDULED);
+
+      await this.cancelAll();
+      if (upcoming.length === 0 || !(await this.ensurePermission())) {
+        return;
+      }
+
+      await Promise.all(
+        upcoming.map(({ reminder, occurrenceAt, triggerAt }) => {
+          const category = REMINDER_CATEGORIES.find(option => option.value === reminder.category);
+          const data: ReminderNotificationData = {
+            kind: NOTIFICATION_KIND,
+            reminderId: reminder.id,
+            occurrenceAt: occurrenceAt.getTime(),
+          };
+
+          return Notifications.scheduleNotificationAsync({
+            content: {
+              title: `${category?.emoji || '🐾'} ${reminder.title}`,
+              body: reminder.petName ? `Time to take care of ${reminder.petName}` : undefined,
+              data: data as unknown as Record<string, unknown>,
+              categoryIdentifier: CATEGORY_ID,
+            },
+            trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID, date: triggerAt } : triggerAt,
+          });
+        })
+      );
+    } catch (error) {
+      console.error('Error scheduling reminder notifications:', error);
+    }
+  }
+
+  private static async ensurePermission(): Promise<boolean> {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) {
+      return true;
+    }
+    if (!current.canAskAgain) {
+      return false;
+    }
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  }
+
+  private static async handleResponse(userId: string, response: Notifications.NotificationResponse): Promise<void> {
+    const data = response.notification.request.content.data as unknown as ReminderNotificationData | undefined;
+    if (data?.kind !== NOTIFICATION_KIND) return;
+
+    const occurrenceAt = new Date(data.occurrenceAt);
+    try {
+      if (response.actionIdentifier === COMPLETE_ACTION) {
+        await ReminderService.completeOccurrence(userId, data.reminderId, occurrenceAt);
+      } else if (response.actionIdentifier === SNOOZE_ACTION) {
+        await ReminderService.snoozeOccurrence(
+          userId,
+          data.reminderId,
+          occurrenceAt,
+          new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000)
+        );
+      }
+    } catch (error) {
+      console.error('Error handling reminder notification action:', error);
+    }
+  }
+}
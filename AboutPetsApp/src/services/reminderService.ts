@@ -0,0 +1,367 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  getDocs,
+  query,
+  where,
+  onSnapshot,
+  serverTimestamp,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  RecurrenceRule,
+  Reminder,
+  ReminderInput,
+  ReminderLog,
+  ReminderOccurrence,
+} from '../types/reminder';
+import { expandOccurrences } from '../utils/recurrenceUtils';
+
+/**
+ * Reminder service for recurring pet care tasks
+ * Reminders live in users/{uid}/reminders; completing or snoozing an
+ * occurrence writes users/{uid}/reminderLogs/{reminderId}_{occurrenceTime}
+ * so each occurrence has at most one log entry
+ */
+
+/** Occurrences left pending this long after they were due count as missed */
+export const MISSED_AFTER_MS = 60 * 60 * 1000;
+
+/** How far back the agenda looks for missed tasks */
+export const MISSED_LOOKBACK_DAYS = 7;
+
+export class ReminderService {
+  private static getRemindersRef(userId: string) {
+    return collection(db, 'users', userId, 'reminders');
+  }
+
+  private static getLogsRef(userId: string) {
+    return collection(db, 'users', userId, 'reminderLogs');
+  }
+
+  private static getLogId(reminderId: string, occurrenceAt: Date): string {
+    return `${reminderId}_${occurrenceAt.getTime()}`;
+  }
+
+  /**
+   * Subscribe to all of a user's reminders
+   */
+  static subscribeToReminders(
+    userId: string,
+    callback: (reminders: Reminder[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      this.getRemindersRef(userId),
+      (snapshot) => {
+        const reminders = snapshot.docs
+          .map(reminderDoc => this.toReminder(reminderDoc.id, reminderDoc.data({ serverTimestamps: 'estimate' })))
+          .sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+        callback(reminders);
+      },
+      (error) => {
+        console.error('Error subscribing to reminders:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to logs of occurrences due since the given date
+   */
+  static subscribeToLogs(
+    userId: string,
+    since: Date,
+    callback: (logs: ReminderLog[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.getLogsRef(userId), where('occurrenceAt', '>=', Timestamp.fromDate(since))),
+      (snapshot) => {
+        callback(snapshot.docs.map(logDoc => this.toLog(logDoc.id, logDoc.data())));
+      },
+      (error) => {
+        console.error('Error subscribing to reminder logs:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Get a single reminder by ID
+   */
+  static async getReminder(userId: string, reminderId: string): Promise<Reminder | null> {
+    try {
+      const reminderDoc = await getDoc(doc(this.getRemindersRef(userId), reminderId));
+      return reminderDoc.exists() ? this.toReminder(reminderDoc.id, reminderDoc.data()) : null;
+    } catch (error) {
+      console.error('Error getting reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a reminder and resolve with its ID
+   */
+  static async addReminder(userId: string, input: ReminderInput): Promise<string> {
+    try {
+      const reminderRef = doc(this.getRemindersRef(userId));
+      await setDoc(reminderRef, {
+        ...this.toFirestoreData(input),
+        createdAt: serverTimestamp(),
+      });
+      return reminderRef.id;
+    } catch (error) {
+      console.error('Error adding reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a reminder's schedule and details
+   */
+  static async updateReminder(userId: string, reminderId: string, input: ReminderInput): Promise<void> {
+    try {
+      const data = this.toFirestoreData(input);
+      await updateDoc(doc(this.getRemindersRef(userId), reminderId), {
+        ...data,
+        notes: data.notes ?? deleteField(),
+      });
+    } catch (error) {
+      console.error('Error updating reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pause or resume a reminder
+   */
+  static async setActive(userId: string, reminderId: string, active: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(this.getRemindersRef(userId), reminderId), { active });
+    } catch (error) {
+      console.error('Error updating reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a reminder together with its occurrence logs
+   */
+  static async deleteReminder(userId: string, reminderId: string): Promise<void> {
+    try {
+      const logs = await getDocs(query(this.getLogsRef(userId), where('reminderId', '==', reminderId)));
+      await Promise.all(logs.docs.map(logDoc => deleteDoc(logDoc.ref)));
+      await deleteDoc(doc(this.getRemindersRef(userId), reminderId));
+    } catch (error) {
+      console.error('Error deleting reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the pet name shown on a pet's reminders current after it was renamed
+   */
+  static async updatePetName(userId: string, petId: string, petName: string): Promise<void> {
+    try {
+      const reminders = await getDocs(query(this.getRemindersRef(userId), where('petId', '==', petId)));
+      await Promise.all(
+        reminders.docs
+          .filter(reminderDoc => reminderDoc.data().petName !== petName)
+          .map(reminderDoc => updateDoc(reminderDoc.ref, { petName }))
+      );
+    } catch (error) {
+      console.error('Error updating reminder pet name:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all reminders of a pet, e.g. when the pet is removed
+   */
+  static async deleteRemindersForPet(userId: string, petId: string): Promise<void> {
+    try {
+      const reminders = await getDocs(query(this.getRemindersRef(userId), where('petId', '==', petId)));
+      await Promise.all(reminders.docs.map(reminderDoc => this.deleteReminder(userId, reminderDoc.id)));
+    } catch (error) {
+      console.error('Error deleting pet reminders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all of a user's reminders and occurrence logs, e.g. when their account is deleted
+   */
+  static async deleteAllReminders(userId: string): Promise<void> {
+    try {
+      const [reminders, logs] = await Promise.all([
+        getDocs(this.getRemindersRef(userId)),
+        getDocs(this.getLogsRef(userId)),
+      ]);
+      await Promise.all([...reminders.docs, ...logs.docs].map(reminderDoc => deleteDoc(reminderDoc.ref)));
+    } catch (error) {
+      console.error('Error deleting reminders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an occurrence as done
+   */
+  static async completeOccurrence(userId: string, reminderId: string, occurrenceAt: Date): Promise<void> {
+    try {
+      await setDoc(doc(this.getLogsRef(userId), this.getLogId(reminderId, occurrenceAt)), {
+        reminderId,
+        occurrenceAt: Timestamp.fromDate(occurrenceAt),
+        status: 'done',
+        completedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error completing reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Postpone an occurrence; it is due again at snoozedUntil
+   */
+  static async snoozeOccurrence(
+    userId: string,
+    reminderId: string,
+    occurrenceAt: Date,
+    snoozedUntil: Date
+  ): Promise<void> {
+    try {
+      await setDoc(doc(this.getLogsRef(userId), this.getLogId(reminderId, occurrenceAt)), {
+        reminderId,
+        occurrenceAt: Timestamp.fromDate(occurrenceAt),
+        status: 'snoozed',
+        snoozedUntil: Timestamp.fromDate(snoozedUntil),
+      });
+    } catch (error) {
+      console.error('Error snoozing reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Undo a completion or snooze, making the occurrence pending again
+   */
+  static async resetOccurrence(userId: string, reminderId: string, occurrenceAt: Date): Promise<void> {
+    try {
+      await deleteDoc(doc(this.getLogsRef(userId), this.getLogId(reminderId, occurrenceAt)));
+    } catch (error) {
+      console.error('Error resetting reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Expand active reminders into occurrences between rangeStart and rangeEnd,
+   * with their status derived from the logs
+   */
+  static getOccurrences(
+    reminders: Reminder[],
+    logs: ReminderLog[],
+    rangeStart: Date,
+    rangeEnd: Date,
+    now: Date = new Date()
+  ): ReminderOccurrence[] {
+    const logsById = new Map(logs.map(log => [log.id, log]));
+
+    return reminders
+      .filter(reminder => reminder.active)
+      .flatMap(reminder =>
+        expandOccurrences(reminder.startAt, reminder.rule, rangeStart, rangeEnd).map(occurrenceAt => {
+          const log = logsById.get(this.getLogId(reminder.id, occurrenceAt));
+          return {
+            reminder,
+            occurrenceAt,
+            status: this.getStatus(occurrenceAt, log, now),
+            snoozedUntil: log?.status === 'snoozed' ? log.snoozedUntil : undefined,
+          };
+        })
+      )
+      .sort((a, b) => a.occurrenceAt.getTime() - b.occurrenceAt.getTime());
+  }
+
+  private static getStatus(occurrenceAt: Date, log: ReminderLog | undefined, now: Date): ReminderOccurrence['status'] {
+    if (log?.status === 'done') {
+      return 'done';
+    }
+
+    const dueAt = log?.status === 'snoozed' && log.snoozedUntil ? log.snoozedUntil : occurrenceAt;
+    if (now.getTime() - dueAt.getTime() > MISSED_AFTER_MS) {
+      return 'missed';
+    }
+
+    return log?.status === 'snoozed' ? 'snoozed' : 'pending';
+  }
+
+  /**
+   * Firestore rejects undefined values, so optional fields are only written when set
+   */
+  private static toFirestoreData(input: ReminderInput): DocumentData {
+    const rule: DocumentData = {
+      frequency: input.rule.frequency,
+      interval: Math.max(1, Math.floor(input.rule.interval || 1)),
+    };
+    if (input.rule.frequency === 'weekly' && input.rule.byWeekday?.length) rule.byWeekday = input.rule.byWeekday;
+    if (input.rule.frequency === 'monthly' && input.rule.byMonthDay) rule.byMonthDay = input.rule.byMonthDay;
+    if (input.rule.until) rule.until = Timestamp.fromDate(input.rule.until);
+
+    const data: DocumentData = {
+      petId: input.petId,
+      petName: input.petName,
+      title: input.title.trim(),
+      category: input.category,
+      startAt: Timestamp.fromDate(input.startAt),
+      rule,
+      active: input.active,
+    };
+    if (input.notes?.trim()) data.notes = input.notes.trim();
+
+    return data;
+  }
+
+  private static toReminder(id: string, data: DocumentData): Reminder {
+    const rule: RecurrenceRule = {
+      frequency: data.rule?.frequency || 'once',
+      interval: data.rule?.interval || 1,
+      byWeekday: data.rule?.byWeekday,
+      byMonthDay: data.rule?.byMonthDay,
+      until: data.rule?.until?.toDate(),
+    };
+
+    return {
+      id,
+      petId: data.petId,
+      petName: data.petName,
+      title: data.title,
+      category: data.category || 'other',
+      startAt: data.startAt?.toDate() || new Date(),
+      rule,
+      notes: data.notes,
+      active: data.active !== false,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    };
+  }
+
+  private static toLog(id: string, data: DocumentData): ReminderLog {
+    return {
+      id,
+      reminderId: data.reminderId,
+      occurrenceAt: data.occurrenceAt?.toDate() || new Date(),
+      status: data.status,
+      completedAt: data.completedAt?.toDate(),
+      snoozedUntil: data.snoozedUntil?.toDate(),
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { 
+  collection, 
+  doc, 
+  setDoc, 
+  deleteDoc,
+  onSnapshot,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from './firebase';
+
+/**
+ * Typing presence service
+ * Stores ephemeral typing markers under chats/{chatId}/typing/{uid}.
+ * Each marker carries an expiry timestamp so stale markers (e.g. from a
+ * killed app) are ignored by readers and can be purged by a Firestore TTL policy.
+ */
+
+export const TYPING_TTL_MS = 6000;
+
+export interface TypingUser {
+  uid: string;
+  displayName: string;
+  expiresAt: Date;
+}
+
+export class TypingService {
+  /**
+   * Mark a user as typing in a chat for the next TYPING_TTL_MS
+   */
+  static async setTyping(chatId: string, userId: string, displayName: string): Promise<void> {
+    try {
+      const typingRef = doc(db, 'chats', chatId, 'typing', userId);
+      await setDoc(typingRef, {
+        uid: userId,
+        displayName,
+        expiresAt: Timestamp.fromMillis(Date.now() + TYPING_TTL_MS),
+      });
+    } catch (error) {
+      console.error('Error setting typing status:', error);
+    }
+  }
+
+  /**
+   * Remove a user's typing marker
+   */
+  static async clearTyping(chatId: string, userId: string): Promise<void> {
+    try {
+      const typingRef = doc(db, 'chats', chatId, 'typing', userId);
+      await deleteDoc(typingRef);
+    } catch (error) {
+      console.error('Error clearing typing status:', error);
+    }
+  }
+
+  /**
+   * Subscribe to typing markers of a chat (expired markers included;
+   * callers filter by expiresAt since markers expire without a write)
+   */
+  static subscribeToTyping(
+    chatId: string,
+    callback: (typingUsers: TypingUser[]) => void,
+    onError?: (error: Error) => void
+  ) {
+    const typingRef = collection(db, 'chats', chatId, 'typing');
+
+    return onSnapshot(
+      typingRef,
+      (snapshot) => {
+        const typingUsers: TypingUser[] = snapshot.docs.map((typingDoc) => {
+          const data = typingDoc.data();
+          return {
+            uid: typingDoc.id,
+            displayName: data.displayName || 'Someone',
+            expiresAt: data.expiresAt?.toDate() || new Date(0),
+          };
+        });
+        callback(typingUsers);
+      },
+      (error) => {
+        console.error('Error listening to typing status:', error);
+        onError?.(error);
+      }
+    );
+  }
+}
@@ -5,20 +5,40 @@ import {
   getDocs, 
   setDoc, 
   updateDoc,
+  deleteDoc,
+  deleteField,
   query,
   where,
   orderBy,
   limit,
-  serverTimestamp
+  startAfter,
+  startAt,
+  endAt,
+  serverTimestamp,
+  DocumentData,
+  QueryDocumentSnapshot
 } from 'firebase/firestore';
-import { db } from './firebase';
+import { updateProfile as updateAuthProfile } from 'firebase/auth';
+import { geohashForLocation, geohashQueryBounds, distanceBetween } from 'geofire-common';
+import { auth, db } from './firebase';
+import { AttachmentService } from './attachmentService';
+import { DynamicChatService } from './dynamicChatService';
 import { User } from '../types/auth';
+import { PickedAttachment } from '../types/chat';
+import { GeoCoordinates } from '../types/lostPet';
+import { buildSearchKeywords, getSearchKeyword, matchesSearch, tokenizeText } from '../utils/searchUtils';
 
 /**
  * User service for managing user profiles and discovery
  * Handles user profile creation, updates, and finding other users
  */
 
+/**
+ * Decimal places kept of a stored home position, about 1 km, since every
+ * signed-in user can read profiles
+ */
+const COORDINATE_DECIMALS = 2;
+
 export interface UserProfile {
   uid: string;
   displayName: string;
@@ -27,12 +47,32 @@ export interface UserProfile {
   bio?: string;
   petTypes?: string[];
   location?: string;
+  /** Home position rounded to about 1 km, used for nearby lost pet alerts */
+  coordinates?: GeoCoordinates;
+  geohash?: string;
   isOnline: boolean;
   lastSeen: Date;
   createdAt: Date;
   petCount?: number;
 }
 
+/**
+ * The parts of a profile the user edits themselves
+ * petTypes is left out, since it is derived from the user's pets
+ */
+export type UserProfileInput = Pick<UserProfile, 'displayName' | 'bio' | 'location' | 'photoURL'>;
+
+/**
+ * Opaque pagination cursor for user search results
+ */
+export type UserSearchCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface UserSearchPage {
+  users: UserProfile[];
+  cursor: UserSearchCursor | null;
+  hasMore: boolean;
+}
+
 export class UserService {
   /**
    * Create or update user profile in Firestore
@@ -58,17 +98,24 @@ export class UserService {
 
       if (!userDoc.exists()) {
         // Create new profile
-        await setDoc(userRef, {
+        const newProfile = {
           ...profileData,
-          createdAt: serverTimestamp(),
           bio: additionalData?.bio || '🐾 Pet lover and enthusiast',
-          petTypes: additionalData?.petTypes || ['dogs', 'cats'],
-          petCount: additionalData?.petCount || 1,
+          petTypes: additionalData?.petTypes || [],
+          petCount: additionalData?.petCount || 0,
+        };
+        await setDoc(userRef, {
+          ...newProfile,
+          searchKeywords: this.getSearchKeywords(newProfile),
+          createdAt: serverTimestamp(),
         });
       } else {
-        // Update existing profile
+        // Update existing profile, re-indexing it with the fields that were not changed
         await updateDoc(userRef, {
           ...profileData,
+          // The auth profile is the source of the photo, so a removed photo is cleared here too
+          ...(user.photoURL ? {} : { photoURL: deleteField() }),
+          searchKeywords: this.getSearchKeywords({ ...userDoc.data(), ...profileData }),
           lastSeen: serverTimestamp(),
         });
       }
@@ -78,6 +125,71 @@ export class UserService {
     }
   }
 
+  /**
+   * Save the user's own profile edits, uploading a new avatar when given
+   * Updates the Firebase Auth profile as well as the Firestore profile, and
+   * the name shown for the user in their chats. Resolves with the updated user.
+   */
+  static async updateProfile(user: User, input: UserProfileInput, photo?: PickedAttachment | null): Promise<User> {
+    try {
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser || firebaseUser.uid !== user.uid) {
+        throw new Error('You can only edit your own profile');
+      }
+
+      const displayName = input.displayName.trim();
+      const photoURL = photo
+        ? await AttachmentService.uploadFile(`users/${user.uid}/avatar/${Date.now()}-${photo.fileName}`, photo)
+        : input.photoURL || null;
+
+      await updateAuthProfile(firebaseUser, { displayName, photoURL });
+
+      const updatedUser: User = { ...user, displayName, photoURL };
+      await this.createOrUpdateProfile(updatedUser, {
+        bio: input.bio?.trim() || '',
+        location: input.location?.trim() || '',
+      });
+
+      if (displayName !== user.displayName) {
+        try {
+          await DynamicChatService.updateParticipantName(user.uid, displayName);
+        } catch (renameError) {
+          // The signed-in user keeps the old name, so saving again retries the rename
+          throw new Error('Your profile was saved, but your name could not be updated in all of your chats. Save again to retry');
+        }
+      }
+
+      if (user.photoURL && user.photoURL !== photoURL && this.isUploadedAvatar(user.uid, user.photoURL)) {
+        await AttachmentService.deleteAttachment(user.photoURL);
+      }
+
+      return updatedUser;
+    } catch (error) {
+      console.error('Error updating user profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a user's profile document
+   * Firestore keeps subcollections, so their data has to be removed first
+   */
+  static async deleteProfile(userId: string): Promise<void> {
+    try {
+      const userRef = doc(db, 'users', userId);
+      const photoURL: string | undefined = (await getDoc(userRef)).data()?.photoURL;
+
+      // The file goes first, so a retry still finds its URL if deleting the profile fails
+      if (photoURL && this.isUploadedAvatar(userId, photoURL)) {
+        await AttachmentService.deleteAttachment(photoURL);
+      }
+      await deleteDoc(userRef);
+    } catch (error) {
+      console.error('Error deleting user profile:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get user profile by ID
    */
@@ -90,20 +202,7 @@ export class UserService {
         return null;
       }
 
-      const data = userDoc.data();
-      return {
-        uid: data.uid,
-        displayName: data.displayName,
-        email: data.email,
-        photoURL: data.photoURL,
-        bio: data.bio,
-        petTypes: data.petTypes || [],
-        location: data.location,
-        isOnline: data.isOnline || false,
-        lastSeen: data.lastSeen?.toDate() || new Date(),
-        createdAt: data.createdAt?.toDate() || new Date(),
-        petCount: data.petCount || 0,
-      };
+      return this.toUserProfile(userDoc.data());
     } catch (error) {
       console.error('Error getting user profile:', error);
       return null;
@@ -111,51 +210,74 @@ export class UserService {
   }
 
   /**
-   * Search for users by display name or email
+   * Search users by name, email, location or pet type
+   * Looks up one keyword of the searchKeywords index, then checks the whole term locally.
+   * Pages may hold fewer than pageSize users after filtering; use hasMore to keep paging.
+   * Pages come in index order, not by relevance: rank with getSearchScore, keeping in
+   * mind that later pages can still hold better matches. Returns an empty page on errors.
    */
-  static async searchUsers(searchTerm: string, currentUserId: string): Promise<UserProfile[]> {
-    try {
-      if (!searchTerm.trim()) {
-        return [];
-      }
+  static async searchUsers(
+    searchTerm: string,
+    currentUserId: string,
+    cursor: UserSearchCursor | null = null,
+    pageSize: number = 20
+  ): Promise<UserSearchPage> {
+    const keyword = getSearchKeyword(searchTerm);
+    if (!keyword) {
+      return { users: [], cursor: null, hasMore: false };
+    }
 
+    try {
       const usersRef = collection(db, 'users');
-      
-      // Search by display name (case-insensitive contains)
-      const nameQuery = query(
-        usersRef,
-        where('displayName', '>=', searchTerm),
-        where('displayName', '<=', searchTerm + '\uf8ff'),
-        limit(10)
-      );
+      const constraints = [
+        where('searchKeywords', 'array-contains', keyword),
+        ...(cursor ? [startAfter(cursor)] : []),
+        limit(pageSize),
+      ];
 
-      const nameSnapshot = await getDocs(nameQuery);
-      const users: UserProfile[] = [];
-
-      nameSnapshot.forEach((doc) => {
-        if (doc.id !== currentUserId) { // Exclude current user
-          const data = doc.data();
-          users.push({
-            uid: data.uid,
-            displayName: data.displayName,
-            email: data.email,
-            photoURL: data.photoURL,
-            bio: data.bio,
-            petTypes: data.petTypes || [],
-            location: data.location,
-            isOnline: data.isOnline || false,
-            lastSeen: data.lastSeen?.toDate() || new Date(),
-            createdAt: data.createdAt?.toDate() || new Date(),
-            petCount: data.petCount || 0,
-          });
-        }
-      });
+      const snapshot = await getDocs(query(usersRef, ...constraints));
+      const users = snapshot.docs
+        .filter(userDoc => userDoc.id !== currentUserId) // Exclude current user
+        .map(userDoc => this.toUserProfile(userDoc.data()))
+        .filter(profile => matchesSearch(this.getSearchableText(profile), searchTerm));
 
-      return users;
+      return {
+        users,
+        cursor: snapshot.docs[snapshot.docs.length - 1] || cursor,
+        hasMore: snapshot.size === pageSize,
+      };
     } catch (error) {
       console.error('Error searching users:', error);
-      return [];
+      return { users: [], cursor, hasMore: false };
+    }
+  }
+
+  /**
+   * Relevance of a profile for a search term, higher is better
+   * Name matches outrank email, location and pet type matches
+   */
+  static getSearchScore(profile: UserProfile, searchTerm: string): number {
+    const term = tokenizeText(searchTerm).join(' ');
+    const name = tokenizeText(profile.displayName || '').join(' ');
+    let score = 0;
+
+    if (name === term) {
+      score = 100;
+    } else if (name.startsWith(term)) {
+      score = 80;
+    } else if (tokenizeText(profile.displayName || '').some(word => word.startsWith(term))) {
+      score = 60;
+    } else if (name.includes(term)) {
+      score = 40;
+    } else if (profile.email?.toLowerCase().includes(term)) {
+      score = 30;
+    } else if (profile.location?.toLowerCase().includes(term)) {
+      score = 20;
+    } else {
+      score = 10;
     }
+
+    return profile.isOnline ? score + 5 : score;
   }
 
   /**
@@ -167,28 +289,9 @@ export class UserService {
       const q = query(usersRef, orderBy('lastSeen', 'desc'), limit(50));
       
       const snapshot = await getDocs(q);
-      const users: UserProfile[] = [];
-
-      snapshot.forEach((doc) => {
-        if (doc.id !== currentUserId) { // Exclude current user
-          const data = doc.data();
-          users.push({
-            uid: data.uid,
-            displayName: data.displayName,
-            email: data.email,
-            photoURL: data.photoURL,
-            bio: data.bio,
-            petTypes: data.petTypes || [],
-            location: data.location,
-            isOnline: data.isOnline || false,
-            lastSeen: data.lastSeen?.toDate() || new Date(),
-            createdAt: data.createdAt?.toDate() || new Date(),
-            petCount: data.petCount || 0,
-          });
-        }
-      });
-
-      return users;
+      return snapshot.docs
+        .filter(userDoc => userDoc.id !== currentUserId) // Exclude current user
+        .map(userDoc => this.toUserProfile(userDoc.data()));
     } catch (error) {
       console.error('Error getting all users:', error);
       return [];
@@ -210,6 +313,89 @@ export class UserService {
     }
   }
 
+  /**
+   * Store the pet summary derived from the user's pets and re-index the profile
+   */
+  static async updatePetSummary(userId: string, petTypes: string[], petCount: number): Promise<void> {
+    try {
+      const userRef = doc(db, 'users', userId);
+      const userDoc = await getDoc(userRef);
+
+      await updateDoc(userRef, {
+        petTypes,
+        petCount,
+        searchKeywords: this.getSearchKeywords({ ...userDoc.data(), petTypes }),
+      });
+    } catch (error) {
+      console.error('Error updating pet summary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the user's approximate position, geohash-indexed for radius queries
+   * The position is rounded before it is written, so the exact location never
+   * reaches the public profile
+   */
+  static async updateCoordinates(userId: string, coordinates: GeoCoordinates): Promise<void> {
+    try {
+      const factor = 10 ** COORDINATE_DECIMALS;
+      const approximate: GeoCoordinates = {
+        latitude: Math.round(coordinates.latitude * factor) / factor,
+        longitude: Math.round(coordinates.longitude * factor) / factor,
+      };
+
+      await updateDoc(doc(db, 'users', userId), {
+        coordinates: approximate,
+        geohash: geohashForLocation([approximate.latitude, approximate.longitude]),
+      });
+    } catch (error) {
+      console.error('Error updating user coordinates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Users whose stored position is within radiusKm of the center, nearest first
+   * Geohash ranges may over-match near their edges, so distances are checked locally.
+   * Stored positions are rounded, so distances are only accurate to about 1 km.
+   */
+  static async getUsersNear(
+    center: GeoCoordinates,
+    radiusKm: number
+  ): Promise<{ profile: UserProfile; distanceKm: number }[]> {
+    try {
+      const centerPoint: [number, number] = [center.latitude, center.longitude];
+      const bounds = geohashQueryBounds(centerPoint, radiusKm * 1000);
+      const snapshots = await Promise.all(
+        bounds.map(([start, end]) =>
+          getDocs(query(collection(db, 'users'), orderBy('geohash'), startAt(start), endAt(end)))
+        )
+      );
+
+      const users = new Map<string, { profile: UserProfile; distanceKm: number }>();
+      snapshots.forEach(snapshot => {
+        snapshot.docs.forEach(userDoc => {
+          const profile = this.toUserProfile(userDoc.data());
+          if (!profile.coordinates) return;
+
+          const distanceKm = distanceBetween(
+            [profile.coordinates.latitude, profile.coordinates.longitude],
+            centerPoint
+          );
+          if (distanceKm <= radiusKm) {
+            users.set(userDoc.id, { profile, distanceKm });
+          }
+        });
+      });
+
+      return Array.from(users.values()).sort((a, b) => a.distanceKm - b.distanceKm);
+    } catch (error) {
+      console.error('Error getting nearby users:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get users by pet type for targeted discovery
    */
@@ -224,31 +410,53 @@ export class UserService {
       );
       
       const snapshot = await getDocs(q);
-      const users: UserProfile[] = [];
-
-      snapshot.forEach((doc) => {
-        if (doc.id !== currentUserId) { // Exclude current user
-          const data = doc.data();
-          users.push({
-            uid: data.uid,
-            displayName: data.displayName,
-            email: data.email,
-            photoURL: data.photoURL,
-            bio: data.bio,
-            petTypes: data.petTypes || [],
-            location: data.location,
-            isOnline: data.isOnline || false,
-            lastSeen: data.lastSeen?.toDate() || new Date(),
-            createdAt: data.createdAt?.toDate() || new Date(),
-            petCount: data.petCount || 0,
-          });
-        }
-      });
-
-      return users;
+      return snapshot.docs
+        .filter(userDoc => userDoc.id !== currentUserId) // Exclude current user
+        .map(userDoc => this.toUserProfile(userDoc.data()));
     } catch (error) {
       console.error('Error getting users by pet type:', error);
       return [];
     }
   }
+
+  private static getSearchableText(profile: Partial<UserProfile>): string {
+    return [profile.displayName, profile.email, profile.location, ...(profile.petTypes || [])]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private static getSearchKeywords(profile: Partial<UserProfile>): string[] {
+    return buildSearchKeywords([
+      profile.displayName,
+      profile.email,
+      profile.location,
+      ...(profile.petTypes || []),
+    ]);
+  }
+
+  private static toUserProfile(data: DocumentData): UserProfile {
+    return {
+      uid: data.uid,
+      displayName: data.displayName,
+      email: data.email,
+      photoURL: data.photoURL,
+      bio: data.bio,
+      petTypes: data.petTypes || [],
+      location: data.location,
+      coordinates: data.coordinates,
+      geohash: data.geohash,
+      isOnline: data.isOnline || false,
+      lastSeen: data.lastSeen?.toDate() || new Date(),
+      createdAt: data.createdAt?.toDate() || new Date(),
+      petCount: data.petCount || 0,
+    };
+  }
+
+  /**
+   * Whether a photo URL points at an avatar this user uploaded, as opposed
+   * to one from another provider that must not be deleted
+   */
+  private static isUploadedAvatar(userId: string, photoURL: string): boolean {
+    return photoURL.includes(encodeURIComponent(`users/${userId}/avatar/`));
+  }
 }
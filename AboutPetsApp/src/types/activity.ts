@@ -0,0 +1,51 @@
+/**
+ * Pet Activity Types
+ *
+ * TypeScript definitions for the care log shared by a pet's owner and co-owners.
+ * Entries are stored in users/{ownerId}/pets/{petId}/activities.
+ */
+
+export type PetActivityType = 'fed' | 'walked' | 'medication' | 'groomed' | 'played' | 'other';
+
+export interface PetActivity {
+  id: string;
+  petId: string;
+  type: PetActivityType;
+  note?: string;
+  /** Walks and play sessions */
+  durationMinutes?: number;
+  userId: string;
+  userName: string;
+  occurredAt: Date;
+}
+
+/**
+ * Fields of a new log entry; the author is added by the service
+ */
+export type PetActivityInput = Pick<PetActivity, 'type' | 'note' | 'durationMinutes' | 'occurredAt'>;
+
+export interface PetActivityTypeOption {
+  value: PetActivityType;
+  /** Past tense, as shown in the log, e.g. "Fed" */
+  label: string;
+  emoji: string;
+  tracksDuration: boolean;
+}
+
+export const PET_ACTIVITY_TYPES: PetActivityTypeOption[] = [
+  { value: 'fed', label: 'Fed', emoji: '🍖', tracksDuration: false },
+  { value: 'walked', label: 'Walked', emoji: '🦮', tracksDuration: true },
+  { value: 'medication', label: 'Gave meds', emoji: '💊', tracksDuration: false },
+  { value: 'groomed', label: 'Groomed', emoji: '✂️', tracksDuration: false },
+  { value: 'played', label: 'Played', emoji: '🎾', tracksDuration: true },
+  { value: 'other', label: 'Other', emoji: '📝', tracksDuration: false },
+];
+
+export interface DailyActivitySummary {
+  date: Date;
+  counts: Partial<Record<PetActivityType, number>>;
+  /** Minutes walked or played */
+  activeMinutes: number;
+  lastFed?: PetActivity;
+  lastMedication?: PetActivity;
+}
@@ -0,0 +1,74 @@
+import { PetSex, PetSpecies } from './pet';
+
+/**
+ * Adoption Types
+ *
+ * TypeScript definitions for adoption and rehoming listings.
+ * Listings are stored in adoptionListings; each user's favorites
+ * live in users/{uid}/favoriteListings/{listingId}.
+ */
+
+export type AdoptionListingStatus = 'draft' | 'active' | 'pending' | 'adopted' | 'withdrawn';
+
+export type ListerType = 'shelter' | 'individual';
+
+export interface AdoptionListing {
+  id: string;
+  listerId: string;
+  listerName: string;
+  listerType: ListerType;
+  name: string;
+  species: PetSpecies;
+  /** Pet type category derived from the species, used for filtering */
+  petType: string;
+  breed?: string;
+  /** Approximate age in months */
+  ageMonths?: number;
+  sex: PetSex;
+  /** City or area, e.g. "Portland, OR" */
+  location: string;
+  requirements: string[];
+  description?: string;
+  photoURLs: string[];
+  status: AdoptionListingStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Editable fields of a listing, as entered in the listing form
+ */
+export type AdoptionListingInput = Omit<
+  AdoptionListing,
+  'id' | 'listerId' | 'listerName' | 'petType' | 'status' | 'createdAt' | 'updatedAt'
+>;
+
+export interface AdoptionStatusOption {
+  value: AdoptionListingStatus;
+  label: string;
+  /** Statuses the lister can move the listing to next */
+  next: AdoptionListingStatus[];
+}
+
+export const ADOPTION_STATUSES: AdoptionStatusOption[] = [
+  { value: 'draft', label: 'Draft', next: ['active', 'withdrawn'] },
+  { value: 'active', label: 'Available', next: ['pending', 'adopted', 'withdrawn'] },
+  { value: 'pending', label: 'Adoption pending', next: ['active', 'adopted', 'withdrawn'] },
+  { value: 'adopted', label: 'Adopted', next: [] },
+  { value: 'withdrawn', label: 'Withdrawn', next: ['active'] },
+];
+
+/** Statuses other users can see; drafts and withdrawn listings stay private */
+export const PUBLIC_ADOPTION_STATUSES: AdoptionListingStatus[] = ['active', 'pending', 'adopted'];
+
+export const ADOPTION_REQUIREMENTS = [
+  'fenced yard',
+  'no other pets',
+  'no young children',
+  'experienced owner',
+  'indoor only',
+  'home visit',
+  'adoption fee',
+] as const;
+
+export const MAX_LISTING_PHOTOS = 6;
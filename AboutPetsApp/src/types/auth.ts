@@ -10,6 +10,31 @@ export interface User {
   email: string;
   displayName: string;
   photoURL?: string | null;
+  emailVerified: boolean;
+  /** Unverified account created since email verification was introduced */
+  requiresEmailVerification: boolean;
+}
+
+/**
+ * When email verification was introduced; older accounts keep full access
+ * without verifying. Matches the cutoff in the Firestore chat rules.
+ */
+export const EMAIL_VERIFICATION_REQUIRED_SINCE = new Date('2026-10-19T00:00:00Z');
+
+/** How long to wait before another verification or password reset email can be sent */
+export const EMAIL_RESEND_COOLDOWN_SECONDS = 60;
+
+/** Minimum length for new passwords; Firebase itself only requires 6 characters */
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type PasswordStrengthLevel = 'very-weak' | 'weak' | 'fair' | 'strong' | 'very-strong';
+
+export interface PasswordStrength {
+  /** 0 (very weak) to 4 (very strong) */
+  score: number;
+  level: PasswordStrengthLevel;
+  /** Short hints on how to make the password stronger */
+  suggestions: string[];
 }
 
 export interface AuthState {
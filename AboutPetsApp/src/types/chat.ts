@@ -13,12 +13,50 @@ export interface Message {
   timestamp: Date;
   chatId: string;
   type?: 'text' | 'image' | 'file';
-  status?: 'sending' | 'sent' | 'failed';
-  metadata?: {
-    fileName?: string;
-    fileSize?: number;
-    mimeType?: string;
-  };
+  status?: 'sending' | 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+  metadata?: AttachmentMetadata;
+  /** Snapshot of the message this one replies to */
+  replyTo?: MessageReply;
+  /** Set when the sender edited the text after sending */
+  editedAt?: Date;
+  /** Tombstone of an unsent message; its content has been removed */
+  deleted?: boolean;
+  /** User IDs who reacted, keyed by emoji */
+  reactions?: Record<string, string[]>;
+  /** Local-only upload progress (0-1) of an attachment that is being sent */
+  uploadProgress?: number;
+}
+
+export interface AttachmentMetadata {
+  fileName?: string;
+  fileSize?: number;
+  mimeType?: string;
+  url?: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Quoted reference to an earlier message, stored with the reply
+ */
+export interface MessageReply {
+  id: string;
+  senderName: string;
+  text: string;
+  type: 'text' | 'image' | 'file';
+}
+
+/**
+ * A photo or document picked on the device, before it is uploaded
+ */
+export interface PickedAttachment {
+  type: 'image' | 'file';
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  fileSize?: number;
+  width?: number;
+  height?: number;
 }
 
 export interface Chat {
@@ -37,6 +75,18 @@ export interface Chat {
   unreadCount: number;
 }
 
+/**
+ * Per-participant delivery and read cursors stored on the chat document.
+ * A message counts as delivered/read for a user once their cursor
+ * is at or past the message timestamp.
+ */
+export interface ChatReceipts {
+  participantIds: string[];
+  participantNames: Record<string, string>;
+  deliveredTo: Record<string, Date>;
+  readBy: Record<string, Date>;
+}
+
 export interface ChatListState {
   chats: Chat[];
   loading: boolean;
@@ -0,0 +1,76 @@
+import { PetSpecies } from './pet';
+
+/**
+ * Event Types
+ *
+ * TypeScript definitions for playdates and meetups.
+ * Events are stored in events; each event has its own group chat.
+ */
+
+export type PetEventType = 'playdate' | 'meetup';
+
+export type RsvpStatus = 'going' | 'maybe' | 'no';
+
+export type PetSize = 'small' | 'medium' | 'large';
+
+export interface EventRsvp {
+  status: RsvpStatus;
+  userName: string;
+  respondedAt: Date;
+}
+
+export interface PetEvent {
+  id: string;
+  type: PetEventType;
+  title: string;
+  description?: string;
+  location: string;
+  startsAt: Date;
+  endsAt: Date;
+  /** Species welcome at the event; empty means any */
+  allowedSpecies: PetSpecies[];
+  /** Pet sizes welcome at the event; empty means any */
+  allowedSizes: PetSize[];
+  /** Maximum number of "going" RSVPs, including the host */
+  capacity?: number;
+  hostId: string;
+  hostName: string;
+  chatId: string;
+  /** Host and invited users; everyone listed can see the event and RSVP */
+  memberIds: string[];
+  /** RSVPs keyed by user ID */
+  rsvps: Record<string, EventRsvp>;
+  cancelled: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Editable fields of an event, as entered in the event form
+ */
+export type PetEventInput = Pick<
+  PetEvent,
+  'type' | 'title' | 'description' | 'location' | 'startsAt' | 'endsAt' | 'allowedSpecies' | 'allowedSizes' | 'capacity'
+>;
+
+export interface PetEventTypeOption {
+  value: PetEventType;
+  label: string;
+  emoji: string;
+}
+
+export const PET_EVENT_TYPES: PetEventTypeOption[] = [
+  { value: 'playdate', label: 'Playdate', emoji: '🐕' },
+  { value: 'meetup', label: 'Meetup', emoji: '👋' },
+];
+
+export const RSVP_OPTIONS: { value: RsvpStatus; label: string }[] = [
+  { value: 'going', label: 'Going' },
+  { value: 'maybe', label: 'Maybe' },
+  { value: 'no', label: "Can't go" },
+];
+
+export const PET_SIZES: { value: PetSize; label: string; description: string }[] = [
+  { value: 'small', label: 'Small', description: 'under 10 kg' },
+  { value: 'medium', label: 'Medium', description: '10-25 kg' },
+  { value: 'large', label: 'Large', description: 'over 25 kg' },
+];
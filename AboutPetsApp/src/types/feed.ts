@@ -0,0 +1,52 @@
+/**
+ * Feed Types
+ *
+ * TypeScript definitions for the community feed.
+ * Posts are stored in posts with likes in posts/{postId}/likes/{uid}
+ * and comments in posts/{postId}/comments; follows are kept in
+ * users/{uid}/following and users/{uid}/followers.
+ */
+
+export interface FeedPost {
+  id: string;
+  authorId: string;
+  authorName: string;
+  authorPhotoURL?: string;
+  text: string;
+  photoURLs: string[];
+  /** Pet type categories the post is tagged with, e.g. "dogs" */
+  petTypes: string[];
+  likeCount: number;
+  commentCount: number;
+  createdAt: Date;
+}
+
+/**
+ * Fields of a post, as entered in the post form
+ */
+export type FeedPostInput = Pick<FeedPost, 'text' | 'petTypes'>;
+
+export interface PostComment {
+  id: string;
+  authorId: string;
+  authorName: string;
+  authorPhotoURL?: string;
+  text: string;
+  /** Top-level comment this one replies to; replies are not nested further */
+  parentId?: string;
+  createdAt: Date;
+}
+
+export interface CommentThread {
+  comment: PostComment;
+  replies: PostComment[];
+}
+
+export type FeedSource =
+  | { type: 'following' }
+  | { type: 'discover'; petType: string | null }
+  | { type: 'author'; authorId: string };
+
+export const MAX_POST_PHOTOS = 4;
+export const MAX_POST_LENGTH = 2000;
+export const MAX_COMMENT_LENGTH = 500;
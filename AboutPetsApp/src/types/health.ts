@@ -0,0 +1,59 @@
+/**
+ * Health Metric Types
+ *
+ * TypeScript definitions for time-series health metrics of a pet.
+ * Entries are stored in users/{uid}/pets/{petId}/healthMetrics with values
+ * in canonical units; weights are converted for display only.
+ */
+
+export type HealthMetricType = 'weight' | 'body-condition' | 'food-intake' | 'water-intake';
+
+export type WeightUnit = 'kg' | 'lb';
+
+export interface HealthMetricEntry {
+  id: string;
+  petId: string;
+  type: HealthMetricType;
+  /** kg for weight, 1-9 score for body condition, grams of food, ml of water */
+  value: number;
+  recordedAt: Date;
+  note?: string;
+  createdAt: Date;
+}
+
+export type HealthMetricInput = Pick<HealthMetricEntry, 'type' | 'value' | 'recordedAt' | 'note'>;
+
+export interface HealthMetricOption {
+  value: HealthMetricType;
+  label: string;
+  emoji: string;
+  /** Unit of the stored value; weights are shown in the user's unit instead */
+  unit: string;
+}
+
+export const HEALTH_METRICS: HealthMetricOption[] = [
+  { value: 'weight', label: 'Weight', emoji: '⚖️', unit: 'kg' },
+  { value: 'body-condition', label: 'Body condition', emoji: '🩻', unit: '/9' },
+  { value: 'food-intake', label: 'Food intake', emoji: '🥣', unit: 'g' },
+  { value: 'water-intake', label: 'Water intake', emoji: '💧', unit: 'ml' },
+];
+
+export interface TargetRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Alert when weight changes by more than changePercent within periodDays
+ */
+export interface WeightAlertSettings {
+  changePercent: number;
+  periodDays: number;
+}
+
+export interface WeightChangeAlert {
+  changePercent: number;
+  from: HealthMetricEntry;
+  to: HealthMetricEntry;
+  periodDays: number;
+}
@@ -1,4 +1,13 @@
 // Types exports
 export * from './auth';
 export * from './chat';
-export * from './navigation';
\ No newline at end of file
+export * from './navigation';
+export * from './pet';
+export * from './medical';
+export * from './reminder';
+export * from './activity';
+export * from './health';
+export * from './lostPet';
+export * from './adoption';
+export * from './event';
+export * from './feed';
\ No newline at end of file
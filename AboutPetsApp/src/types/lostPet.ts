@@ -0,0 +1,62 @@
+import { PetSpecies } from './pet';
+
+/**
+ * Lost Pet Types
+ *
+ * TypeScript definitions for lost & found alerts.
+ * Alerts are stored in lostPetAlerts; users near the last-seen location
+ * receive a copy in users/{uid}/lostPetNotifications/{alertId}.
+ */
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export type LostPetAlertStatus = 'active' | 'found';
+
+export interface LostPetAlert {
+  id: string;
+  ownerId: string;
+  ownerName: string;
+  petId: string;
+  petName: string;
+  species: PetSpecies;
+  photoURLs: string[];
+  description?: string;
+  lastSeenAt: Date;
+  lastSeenLocation: GeoCoordinates;
+  /** Human-readable hint such as "Near the park entrance on Elm St" */
+  locationDescription?: string;
+  geohash: string;
+  radiusKm: number;
+  status: LostPetAlertStatus;
+  createdAt: Date;
+  foundAt?: Date;
+}
+
+export interface LostPetReportInput {
+  lastSeenAt: Date;
+  lastSeenLocation: GeoCoordinates;
+  locationDescription?: string;
+  description?: string;
+  radiusKm: number;
+  /** Already uploaded photos to include, e.g. the pet's profile photo */
+  photoURLs: string[];
+}
+
+export interface LostPetNotification {
+  alertId: string;
+  petName: string;
+  species: PetSpecies;
+  ownerName: string;
+  distanceKm: number;
+  read: boolean;
+  /** Set once the device showed a local notification for it */
+  delivered: boolean;
+  createdAt: Date;
+}
+
+export const ALERT_RADIUS_OPTIONS_KM = [2, 5, 10, 25];
+
+export const MAX_ALERT_PHOTOS = 4;
@@ -0,0 +1,55 @@
+import { AttachmentMetadata } from './chat';
+
+/**
+ * Medical Record Types
+ *
+ * TypeScript definitions for a pet's health history.
+ * Records are stored in users/{uid}/pets/{petId}/medicalRecords.
+ */
+
+export type MedicalRecordType = 'vaccination' | 'vet-visit' | 'allergy' | 'prescription';
+
+export type VaccineStatus = 'up-to-date' | 'due-soon' | 'overdue';
+
+export interface MedicalRecord {
+  id: string;
+  petId: string;
+  type: MedicalRecordType;
+  /** Vaccine, visit reason, allergen or medication name */
+  title: string;
+  date: Date;
+  clinic?: string;
+  notes?: string;
+  /** Uploaded documents such as certificates or lab results */
+  attachments: AttachmentMetadata[];
+  /** Vaccinations: months until the booster is due */
+  intervalMonths?: number;
+  /** Vaccinations: explicit booster date, overrides intervalMonths */
+  nextDueDate?: Date;
+  /** Prescriptions: dosage instructions */
+  dosage?: string;
+  /** Prescriptions: last day of the course */
+  endDate?: Date;
+  /** Allergies: reaction severity */
+  severity?: 'mild' | 'moderate' | 'severe';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Editable fields of a medical record, as entered in the record form
+ */
+export type MedicalRecordInput = Omit<MedicalRecord, 'id' | 'petId' | 'createdAt' | 'updatedAt'>;
+
+export interface MedicalRecordTypeOption {
+  value: MedicalRecordType;
+  label: string;
+  emoji: string;
+}
+
+export const MEDICAL_RECORD_TYPES: MedicalRecordTypeOption[] = [
+  { value: 'vaccination', label: 'Vaccination', emoji: '💉' },
+  { value: 'vet-visit', label: 'Vet visit', emoji: '🩺' },
+  { value: 'allergy', label: 'Allergy', emoji: '⚠️' },
+  { value: 'prescription', label: 'Prescription', emoji: '💊' },
+];
@@ -1,3 +1,5 @@
+import type { HealthMetricType } from './health';
+
 /**
  * Navigation Types
  * 
@@ -27,8 +29,10 @@ export type ChatStackParamList = {
   Chat: {
     chatId: string;
     chatName?: string;
+    messageId?: string;
   };
   UserDiscovery: undefined;
+  MessageSearch: undefined;
   ChatSettings: {
     chatId: string;
   };
@@ -36,8 +40,32 @@ export type ChatStackParamList = {
 
 export type ProfileStackParamList = {
   Profile: undefined;
+  PetForm: { petId?: string } | undefined;
+  MedicalRecords: { petId: string; petName: string };
+  MedicalRecordForm: { petId: string; recordId?: string };
+  HealthMetrics: { petId: string; petName: string };
+  HealthMetricForm: { petId: string; type?: HealthMetricType };
+  PetSharing: { petId: string };
+  PetActivity: { ownerId: string; petId: string; petName: string };
+  LostPetAlerts: undefined;
+  LostPetReport: { petId: string };
+  LostPetAlert: { alertId: string };
+  AdoptionListings: undefined;
+  AdoptionListing: { listingId: string };
+  AdoptionListingForm: { listingId?: string } | undefined;
+  Events: undefined;
+  Event: { eventId: string };
+  EventForm: { eventId?: string } | undefined;
+  EventInvite: { eventId: string };
+  Feed: undefined;
+  PostForm: undefined;
+  Post: { postId: string };
+  UserProfile: { userId: string };
+  Today: undefined;
+  ReminderForm: { reminderId?: string; petId?: string } | undefined;
   EditProfile: undefined;
   ChangePassword: undefined;
+  DeleteAccount: undefined;
 };
 
 export type SettingsStackParamList = {
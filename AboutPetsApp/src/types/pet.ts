@@ -0,0 +1,90 @@
+import { WeightAlertSettings } from './health';
+
+/**
+ * Pet Types
+ *
+ * TypeScript definitions for pet profiles.
+ * Pets are stored per owner in the users/{uid}/pets subcollection.
+ */
+
+export type PetSpecies = 'dog' | 'cat' | 'bird' | 'fish' | 'reptile' | 'small-pet' | 'other';
+
+export type PetSex = 'male' | 'female' | 'unknown';
+
+export interface Pet {
+  id: string;
+  ownerId: string;
+  name: string;
+  species: PetSpecies;
+  breed?: string;
+  birthday?: Date;
+  sex: PetSex;
+  /** Weight in kilograms */
+  weight?: number;
+  photoURL?: string;
+  neutered: boolean;
+  microchipId?: string;
+  temperament: string[];
+  /** Users who share care of the pet with its owner */
+  coOwnerIds: string[];
+  /** Overrides the default weight change alert */
+  weightAlert?: WeightAlertSettings;
+  /** Open lost pet alert, while the pet is missing */
+  lostAlertId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Editable fields of a pet, as entered in the pet form
+ */
+export type PetInput = Omit<Pet, 'id' | 'ownerId' | 'coOwnerIds' | 'weightAlert' | 'lostAlertId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Invitation to co-own a pet, stored in petInvites/{petId}_{inviteeId}
+ */
+export interface PetInvite {
+  id: string;
+  petId: string;
+  petName: string;
+  ownerId: string;
+  ownerName: string;
+  inviteeId: string;
+  inviteeName: string;
+  status: 'pending' | 'accepted' | 'declined';
+  createdAt: Date;
+}
+
+export interface PetSpeciesOption {
+  value: PetSpecies;
+  label: string;
+  emoji: string;
+  /** Category used for the owner's petTypes in user discovery */
+  petType: string;
+}
+
+export const PET_SPECIES: PetSpeciesOption[] = [
+  { value: 'dog', label: 'Dog', emoji: '🐶', petType: 'dogs' },
+  { value: 'cat', label: 'Cat', emoji: '🐱', petType: 'cats' },
+  { value: 'bird', label: 'Bird', emoji: '🐦', petType: 'birds' },
+  { value: 'fish', label: 'Fish', emoji: '🐠', petType: 'fish' },
+  { value: 'reptile', label: 'Reptile', emoji: '🦎', petType: 'reptiles' },
+  { value: 'small-pet', label: 'Small pet', emoji: '🐹', petType: 'small-pets' },
+  { value: 'other', label: 'Other', emoji: '🐾', petType: 'other' },
+];
+
+/**
+ * Pet type categories offered as filters in user discovery, adoption listings and the feed
+ */
+export const PET_TYPES: string[] = PET_SPECIES.map(option => option.petType).filter(petType => petType !== 'other');
+
+export const PET_TEMPERAMENTS = [
+  'friendly',
+  'playful',
+  'calm',
+  'shy',
+  'energetic',
+  'anxious',
+  'good with kids',
+  'good with pets',
+] as const;
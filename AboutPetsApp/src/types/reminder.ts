@@ -0,0 +1,81 @@
+/**
+ * Reminder Types
+ *
+ * TypeScript definitions for recurring pet care reminders.
+ * Reminders are stored in users/{uid}/reminders and what happened to each
+ * occurrence in users/{uid}/reminderLogs.
+ */
+
+export type ReminderCategory = 'feeding' | 'walk' | 'medication' | 'vaccine' | 'grooming' | 'other';
+
+export type RecurrenceFrequency = 'once' | 'daily' | 'weekly' | 'monthly';
+
+/**
+ * RRULE-style recurrence, anchored at the reminder's startAt date and time
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Repeat every N days, weeks or months */
+  interval: number;
+  /** Weekly: days of the week (0 = Sunday), defaults to the start day */
+  byWeekday?: number[];
+  /** Monthly: day of the month, clamped to the last day of shorter months */
+  byMonthDay?: number;
+  /** No occurrences after this date */
+  until?: Date;
+}
+
+export interface Reminder {
+  id: string;
+  petId: string;
+  petName: string;
+  title: string;
+  category: ReminderCategory;
+  /** First occurrence; its time of day is used for every occurrence */
+  startAt: Date;
+  rule: RecurrenceRule;
+  notes?: string;
+  active: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Editable fields of a reminder, as entered in the reminder form
+ */
+export type ReminderInput = Omit<Reminder, 'id' | 'createdAt'>;
+
+export interface ReminderLog {
+  id: string;
+  reminderId: string;
+  occurrenceAt: Date;
+  status: 'done' | 'snoozed';
+  completedAt?: Date;
+  snoozedUntil?: Date;
+}
+
+export type OccurrenceStatus = 'pending' | 'done' | 'snoozed' | 'missed';
+
+/**
+ * A single expanded occurrence of a reminder, as shown in the agenda
+ */
+export interface ReminderOccurrence {
+  reminder: Reminder;
+  occurrenceAt: Date;
+  status: OccurrenceStatus;
+  snoozedUntil?: Date;
+}
+
+export interface ReminderCategoryOption {
+  value: ReminderCategory;
+  label: string;
+  emoji: string;
+}
+
+export const REMINDER_CATEGORIES: ReminderCategoryOption[] = [
+  { value: 'feeding', label: 'Feeding', emoji: '🍖' },
+  { value: 'walk', label: 'Walk', emoji: '🦮' },
+  { value: 'medication', label: 'Medication', emoji: '💊' },
+  { value: 'vaccine', label: 'Vaccine', emoji: '💉' },
+  { value: 'grooming', label: 'Grooming', emoji: '✂️' },
+  { value: 'other', label: 'Other', emoji: '📝' },
+];
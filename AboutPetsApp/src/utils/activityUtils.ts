@@ -0,0 +1,99 @@
+import { DailyActivitySummary, PetActivity, PetActivityType, PET_ACTIVITY_TYPES } from '../types/activity';
+
+/**
+ * Pet Activity Utilities
+ *
+ * Helpers for the shared care log: one-line descriptions, daily
+ * summaries and the warning against logging the same care twice.
+ */
+
+/** Logging one of these again within the window asks for confirmation first */
+export const DUPLICATE_WARNING_HOURS: Partial<Record<PetActivityType, number>> = {
+  fed: 3,
+  medication: 4,
+};
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+const isSameDay = (a: Date, b: Date): boolean => startOfDay(a).getTime() === startOfDay(b).getTime();
+
+export const formatActivityTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * One-line description of a log entry, e.g. "Fed 8:05 by Sam" or "Walked 30 min by Sam"
+ */
+export const formatActivity = (activity: PetActivity): string => {
+  const label = PET_ACTIVITY_TYPES.find(option => option.value === activity.type)?.label || 'Other';
+  const detail = activity.durationMinutes ? `${activity.durationMinutes} min` : formatActivityTime(activity.occurredAt);
+  return `${label} ${detail} by ${activity.userName}`;
+};
+
+/**
+ * Counts, active minutes and the latest feeding and medication on the given day
+ */
+export const summarizeDay = (activities: PetActivity[], day: Date): DailyActivitySummary => {
+  const summary: DailyActivitySummary = { date: startOfDay(day), counts: {}, activeMinutes: 0 };
+
+  activities
+    .filter(activity => isSameDay(activity.occurredAt, day))
+    .forEach(activity => {
+      summary.counts[activity.type] = (summary.counts[activity.type] || 0) + 1;
+      summary.activeMinutes += activity.durationMinutes || 0;
+
+      if (activity.type === 'fed' && (!summary.lastFed || activity.occurredAt > summary.lastFed.occurredAt)) {
+        summary.lastFed = activity;
+      }
+      if (
+        activity.type === 'medication' &&
+        (!summary.lastMedication || activity.occurredAt > summary.lastMedication.occurredAt)
+      ) {
+        summary.lastMedication = activity;
+      }
+    });
+
+  return summary;
+};
+
+/**
+ * Group entries by calendar day, newest day and entry first
+ */
+export const groupActivitiesByDay = (activities: PetActivity[]): { date: Date; activities: PetActivity[] }[] => {
+  const groups = new Map<number, PetActivity[]>();
+  [...activities]
+    .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+    .forEach(activity => {
+      const key = startOfDay(activity.occurredAt).getTime();
+      groups.set(key, [...(groups.get(key) || []), activity]);
+    });
+
+  return Array.from(groups.entries()).map(([key, dayActivities]) => ({
+    date: new Date(key),
+    activities: dayActivities,
+  }));
+};
+
+/**
+ * The latest entry of a type that would make logging it again a likely duplicate
+ */
+export const findRecentDuplicate = (
+  activities: PetActivity[],
+  type: PetActivityType,
+  now: Date = new Date()
+): PetActivity | null => {
+  const windowHours = DUPLICATE_WARNING_HOURS[type];
+  if (!windowHours) {
+    return null;
+  }
+
+  const since = now.getTime() - windowHours * 60 * 60 * 1000;
+  return (
+    activities
+      .filter(activity => activity.type === type && activity.occurredAt.getTime() >= since)
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())[0] || null
+  );
+};
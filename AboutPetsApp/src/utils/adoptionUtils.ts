@@ -0,0 +1,39 @@
+import { AdoptionListing, AdoptionListingStatus, ADOPTION_STATUSES } from '../types/adoption';
+import { matchesSearch } from './searchUtils';
+
+/**
+ * Adoption Utilities
+ *
+ * Helpers for adoption listings: ages, the status lifecycle and
+ * the local text filter of the browse screen.
+ */
+
+/**
+ * Human-readable age, e.g. "4 months" or "2 years"
+ */
+export const formatListingAge = (ageMonths: number): string => {
+  if (ageMonths < 12) {
+    return ageMonths === 1 ? '1 month' : `${ageMonths} months`;
+  }
+  const years = Math.floor(ageMonths / 12);
+  return years === 1 ? '1 year' : `${years} years`;
+};
+
+export const getListingStatusLabel = (status: AdoptionListingStatus): string =>
+  ADOPTION_STATUSES.find(option => option.value === status)?.label || status;
+
+/**
+ * Whether a listing may move from one lifecycle status to another
+ */
+export const canChangeListingStatus = (from: AdoptionListingStatus, to: AdoptionListingStatus): boolean =>
+  !!ADOPTION_STATUSES.find(option => option.value === from)?.next.includes(to);
+
+/**
+ * Whether a listing's name, breed, location or requirements match a search term
+ */
+export const matchesListingSearch = (listing: AdoptionListing, searchQuery: string): boolean =>
+  !searchQuery.trim() ||
+  matchesSearch(
+    [listing.name, listing.breed, listing.location, ...listing.requirements].filter(Boolean).join(' '),
+    searchQuery
+  );
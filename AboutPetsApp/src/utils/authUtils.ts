@@ -0,0 +1,18 @@
+import { EMAIL_VERIFICATION_REQUIRED_SINCE } from '../types/auth';
+
+/**
+ * Auth Utilities
+ *
+ * Helpers for deciding what a signed-in account is allowed to do.
+ */
+
+/**
+ * Whether an account still has to verify its email before using the app
+ * Accounts created before verification was introduced are never asked to.
+ */
+export const requiresEmailVerification = (emailVerified: boolean, creationTime?: string): boolean => {
+  if (emailVerified) return false;
+  // Without a creation time the account is treated as new
+  if (!creationTime) return true;
+  return new Date(creationTime) >= EMAIL_VERIFICATION_REQUIRED_SINCE;
+};
@@ -81,4 +81,91 @@ export const formatChatListTime = (timestamp: Date): string => {
   }
   
   return timestamp.toLocaleDateString([], { month: 'short', day: 'numeric' });
-};
\ No newline at end of file
+};
+
+/**
+ * Format a calendar date as YYYY-MM-DD for date text fields
+ */
+export const formatDateInput = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Parse a YYYY-MM-DD date field as a local date, or null if it is not a real date
+ */
+export const parseDateInput = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+
+  return date;
+};
+
+/**
+ * Human-readable age from a birthday, e.g. "3 months" or "2 years"
+ */
+export const formatPetAge = (birthday: Date, now: Date = new Date()): string => {
+  let months = (now.getFullYear() - birthday.getFullYear()) * 12 + now.getMonth() - birthday.getMonth();
+  if (now.getDate() < birthday.getDate()) {
+    months -= 1;
+  }
+
+  if (months < 1) {
+    return 'Under 1 month';
+  }
+
+  if (months < 12) {
+    return `${months} ${months === 1 ? 'month' : 'months'}`;
+  }
+
+  const years = Math.floor(months / 12);
+  return `${years} ${years === 1 ? 'year' : 'years'}`;
+};
+
+
+/**
+ * Format a time of day as HH:MM (24-hour) for time text fields
+ */
+export const formatTimeInput = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+/**
+ * Parse an HH:MM time field, or null if it is not a valid time
+ */
+export const parseTimeInput = (value: string): { hours: number; minutes: number } | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return { hours, minutes };
+};
+
+/**
+ * Convert a map of Firestore timestamps, e.g. per-user receipt cursors, to Dates
+ * Entries whose server timestamp is still pending are left out
+ */
+export const toDateMap = (map?: Record<string, { toDate: () => Date } | null>): Record<string, Date> => {
+  const dates: Record<string, Date> = {};
+  Object.entries(map || {}).forEach(([key, timestamp]) => {
+    if (timestamp) {
+      dates[key] = timestamp.toDate();
+    }
+  });
+  return dates;
+};
@@ -0,0 +1,88 @@
+import { PetEvent, RsvpStatus, PET_SIZES } from '../types/event';
+import { PET_SPECIES } from '../types/pet';
+
+/**
+ * Event Utilities
+ *
+ * Helpers for playdates and meetups: display strings, RSVP counts
+ * and the iCalendar (.ics) export.
+ */
+
+/** Reminder offset used for local notifications and the exported calendar alarm */
+export const EVENT_REMINDER_MINUTES = 60;
+
+/**
+ * Date and time range, e.g. "Sat, Oct 24 · 3:00 PM - 4:30 PM"
+ */
+export const formatEventTime = (event: Pick<PetEvent, 'startsAt' | 'endsAt'>): string => {
+  const day = event.startsAt.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+  const start = event.startsAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  const end = event.endsAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return `${day} · ${start} - ${end}`;
+};
+
+export const countRsvps = (event: PetEvent, status: RsvpStatus): number =>
+  Object.values(event.rsvps).filter(rsvp => rsvp.status === status).length;
+
+export const isEventFull = (event: PetEvent): boolean =>
+  event.capacity !== undefined && countRsvps(event, 'going') >= event.capacity;
+
+/**
+ * Who is welcome, e.g. "Dogs, Cats · Small, Medium", or null when anyone is
+ */
+export const formatEventRestrictions = (event: Pick<PetEvent, 'allowedSpecies' | 'allowedSizes'>): string | null => {
+  const species = PET_SPECIES.filter(option => event.allowedSpecies.includes(option.value)).map(option => option.label);
+  const sizes = PET_SIZES.filter(option => event.allowedSizes.includes(option.value)).map(option => option.label);
+  const parts = [species.join(', '), sizes.join(', ')].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+const formatIcsDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcs = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Lines longer than 75 characters are folded onto continuation lines starting with a space */
+const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push(line.slice(i, i + 74));
+  }
+  return parts.join('\r\n ');
+};
+
+/**
+ * iCalendar file with the event and an alarm before it starts
+ */
+export const buildEventIcs = (event: PetEvent, now: Date = new Date()): string => {
+  const restrictions = formatEventRestrictions(event);
+  const description = [event.description, restrictions && `Welcome: ${restrictions}`, `Hosted by ${event.hostName}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//About Pets//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.id}@aboutpets`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(event.startsAt)}`,
+    `DTEND:${formatIcsDate(event.endsAt)}`,
+    `SUMMARY:${escapeIcs(event.title)}`,
+    `LOCATION:${escapeIcs(event.location)}`,
+    `DESCRIPTION:${escapeIcs(description)}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeIcs(event.title)}`,
+    `TRIGGER:-PT${EVENT_REMINDER_MINUTES}M`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
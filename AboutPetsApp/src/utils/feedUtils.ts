@@ -0,0 +1,60 @@
+import { CommentThread, FeedPost, PostComment } from '../types/feed';
+
+/**
+ * Feed Utilities
+ *
+ * Helpers for the community feed: comment threading and merging
+ * pages of posts.
+ */
+
+/**
+ * Group comments into threads, oldest first; replies whose parent is
+ * gone are shown as top-level comments
+ */
+export const buildCommentThreads = (comments: PostComment[]): CommentThread[] => {
+  const sorted = [...comments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const threads = new Map<string, CommentThread>();
+
+  sorted
+    .filter(comment => !comment.parentId)
+    .forEach(comment => threads.set(comment.id, { comment, replies: [] }));
+
+  sorted
+    .filter(comment => comment.parentId)
+    .forEach(comment => {
+      const thread = threads.get(comment.parentId!);
+      if (thread) {
+        thread.replies.push(comment);
+      } else {
+        threads.set(comment.id, { comment, replies: [] });
+      }
+    });
+
+  return Array.from(threads.values()).sort(
+    (a, b) => a.comment.createdAt.getTime() - b.comment.createdAt.getTime()
+  );
+};
+
+/**
+ * Merge post lists newest first, dropping duplicates by ID.
+ * Earlier lists win, so pass the freshest source first.
+ */
+export const mergePosts = (...lists: FeedPost[][]): FeedPost[] => {
+  const seen = new Set<string>();
+  const merged: FeedPost[] = [];
+
+  lists.forEach(list => {
+    list.forEach(post => {
+      if (seen.has(post.id)) return;
+      seen.add(post.id);
+      merged.push(post);
+    });
+  });
+
+  return merged.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+/**
+ * Human readable pet type tag, e.g. "dogs" -> "#dogs"
+ */
+export const formatPetTypeTag = (petType: string): string => `#${petType.replace(/\s+/g, '')}`;
@@ -0,0 +1,196 @@
+import {
+  HealthMetricEntry,
+  HealthMetricType,
+  HEALTH_METRICS,
+  TargetRange,
+  WeightAlertSettings,
+  WeightChangeAlert,
+  WeightUnit,
+} from '../types/health';
+import { Pet } from '../types/pet';
+import { formatDateInput, formatTimeInput } from './dateUtils';
+
+/**
+ * Health Metric Utilities
+ *
+ * Unit conversion, target ranges, weight change alerts, chart data
+ * and CSV export for a pet's health metrics.
+ */
+
+export const KG_PER_LB = 0.45359237;
+
+export const DEFAULT_WEIGHT_ALERT: WeightAlertSettings = {
+  changePercent: 10,
+  periodDays: 30,
+};
+
+/** Ideal score on the 9-point body condition scale */
+export const BODY_CONDITION_TARGET: TargetRange = { min: 4, max: 5 };
+
+/** Daily water need of cats and dogs in ml per kg of body weight */
+const WATER_ML_PER_KG: TargetRange = { min: 40, max: 60 };
+
+/** Typical adult weights in kg; breeds are matched by name */
+const BREED_WEIGHT_RANGES: Record<string, TargetRange> = {
+  'labrador retriever': { min: 25, max: 36 },
+  'golden retriever': { min: 25, max: 34 },
+  'german shepherd': { min: 22, max: 40 },
+  'french bulldog': { min: 8, max: 14 },
+  bulldog: { min: 18, max: 25 },
+  beagle: { min: 9, max: 11 },
+  poodle: { min: 18, max: 32 },
+  chihuahua: { min: 1.5, max: 3 },
+  dachshund: { min: 7, max: 15 },
+  'yorkshire terrier': { min: 2, max: 3.2 },
+  boxer: { min: 25, max: 32 },
+  'siberian husky': { min: 16, max: 27 },
+  'shih tzu': { min: 4, max: 7.5 },
+  pug: { min: 6, max: 8 },
+  'border collie': { min: 12, max: 20 },
+  'maine coon': { min: 5, max: 8 },
+  siamese: { min: 2.5, max: 5.5 },
+  persian: { min: 3, max: 5.5 },
+  'british shorthair': { min: 4, max: 8 },
+  ragdoll: { min: 4.5, max: 9 },
+  bengal: { min: 3.5, max: 7 },
+};
+
+/** Fallback when the breed is unknown; dogs vary too much for a useful default */
+const SPECIES_WEIGHT_RANGES: Partial<Record<Pet['species'], TargetRange>> = {
+  cat: { min: 3.5, max: 5.5 },
+};
+
+export const kgToWeightUnit = (kg: number, unit: WeightUnit): number => (unit === 'lb' ? kg / KG_PER_LB : kg);
+
+export const weightUnitToKg = (value: number, unit: WeightUnit): number => (unit === 'lb' ? value * KG_PER_LB : value);
+
+/**
+ * Display value of a metric in the given weight unit, e.g. "12.4 lb" or "350 ml"
+ */
+export const formatMetricValue = (type: HealthMetricType, value: number, unit: WeightUnit): string => {
+  if (type === 'weight') {
+    return `${Math.round(kgToWeightUnit(value, unit) * 10) / 10} ${unit}`;
+  }
+
+  const option = HEALTH_METRICS.find(metric => metric.value === type);
+  return type === 'body-condition' ? `${value}${option?.unit}` : `${Math.round(value)} ${option?.unit}`;
+};
+
+/**
+ * Typical adult weight range in kg for the pet's breed, or its species as a fallback
+ */
+export const getTargetWeightRange = (pet: Pick<Pet, 'species' | 'breed'>): TargetRange | null => {
+  const breed = pet.breed?.trim().toLowerCase();
+  if (breed) {
+    const match = Object.keys(BREED_WEIGHT_RANGES).find(key => breed.includes(key));
+    if (match) {
+      return BREED_WEIGHT_RANGES[match];
+    }
+  }
+
+  return SPECIES_WEIGHT_RANGES[pet.species] || null;
+};
+
+/**
+ * Target range of a metric in its stored unit, or null when there is none
+ * Water intake targets scale with the latest weight (cats and dogs only)
+ */
+export const getMetricTargetRange = (
+  type: HealthMetricType,
+  pet: Pick<Pet, 'species' | 'breed'>,
+  latestWeightKg?: number
+): TargetRange | null => {
+  switch (type) {
+    case 'weight':
+      return getTargetWeightRange(pet);
+    case 'body-condition':
+      return BODY_CONDITION_TARGET;
+    case 'water-intake':
+      if (!latestWeightKg || (pet.species !== 'dog' && pet.species !== 'cat')) return null;
+      return {
+        min: Math.round(latestWeightKg * WATER_ML_PER_KG.min),
+        max: Math.round(latestWeightKg * WATER_ML_PER_KG.max),
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Chart points of a metric, one per day: intake entries are summed,
+ * weight and body condition use the day's last measurement
+ */
+export const getDailyPoints = (
+  entries: HealthMetricEntry[],
+  type: HealthMetricType
+): { date: Date; value: number }[] => {
+  const days = new Map<number, number>();
+  entries
+    .filter(entry => entry.type === type)
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+    .forEach(entry => {
+      const day = new Date(entry.recordedAt);
+      day.setHours(0, 0, 0, 0);
+      const key = day.getTime();
+      const isIntake = type === 'food-intake' || type === 'water-intake';
+      days.set(key, isIntake ? (days.get(key) || 0) + entry.value : entry.value);
+    });
+
+  return Array.from(days.entries()).map(([key, value]) => ({ date: new Date(key), value }));
+};
+
+/**
+ * Compare the latest weight with the earliest one in the preceding period
+ * and return an alert when it changed by more than the allowed percentage
+ */
+export const detectWeightChange = (
+  entries: HealthMetricEntry[],
+  settings: WeightAlertSettings = DEFAULT_WEIGHT_ALERT
+): WeightChangeAlert | null => {
+  const weights = entries
+    .filter(entry => entry.type === 'weight' && entry.value > 0)
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  if (weights.length < 2) {
+    return null;
+  }
+
+  const latest = weights[weights.length - 1];
+  const periodStart = latest.recordedAt.getTime() - settings.periodDays * 24 * 60 * 60 * 1000;
+  const baseline = weights.find(entry => entry.recordedAt.getTime() >= periodStart);
+  if (!baseline || baseline === latest) {
+    return null;
+  }
+
+  const changePercent = ((latest.value - baseline.value) / baseline.value) * 100;
+  if (Math.abs(changePercent) <= settings.changePercent) {
+    return null;
+  }
+
+  return { changePercent, from: baseline, to: latest, periodDays: settings.periodDays };
+};
+
+const escapeCsv = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * CSV of all entries, oldest first, with weights in the given unit
+ */
+export const buildHealthCsv = (entries: HealthMetricEntry[], unit: WeightUnit): string => {
+  const rows = [...entries]
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+    .map(entry => {
+      const option = HEALTH_METRICS.find(metric => metric.value === entry.type);
+      const value = entry.type === 'weight' ? Math.round(kgToWeightUnit(entry.value, unit) * 100) / 100 : entry.value;
+      return [
+        formatDateInput(entry.recordedAt),
+        formatTimeInput(entry.recordedAt),
+        option?.label || entry.type,
+        String(value),
+        entry.type === 'weight' ? unit : option?.unit || '',
+        entry.note || '',
+      ]
+        .map(escapeCsv)
+        .join(',');
+    });
+
+  return ['Date,Time,Metric,Value,Unit,Note', ...rows].join('\n');
+};
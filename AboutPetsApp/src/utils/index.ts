@@ -1,4 +1,16 @@
 // Utils exports
 export * from './dateUtils';
 export * from './validation';
-export * from './stringUtils';
\ No newline at end of file
+export * from './stringUtils';
+export * from './reactionUtils';
+export * from './replyUtils';
+export * from './searchUtils';
+export * from './medicalUtils';
+export * from './recurrenceUtils';
+export * from './activityUtils';
+export * from './healthUtils';
+export * from './adoptionUtils';
+export * from './eventUtils';
+export * from './feedUtils';
+export * from './passwordUtils';
+export * from './authUtils';
\ No newline at end of file
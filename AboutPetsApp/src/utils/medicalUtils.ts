@@ -0,0 +1,95 @@
+import { MedicalRecord, VaccineStatus } from '../types/medical';
+
+/**
+ * Medical Record Utilities
+ *
+ * Helpers for vaccine due dates and the medical timeline.
+ */
+
+/** Vaccines due within this many days are flagged as due soon */
+export const VACCINE_DUE_SOON_DAYS = 30;
+
+/**
+ * Add calendar months, clamping to the last day of shorter months
+ */
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+};
+
+/**
+ * When a vaccination needs its booster, or null for other records and one-off shots
+ */
+export const getVaccineNextDueDate = (record: MedicalRecord): Date | null => {
+  if (record.type !== 'vaccination') {
+    return null;
+  }
+
+  if (record.nextDueDate) {
+    return record.nextDueDate;
+  }
+
+  if (record.intervalMonths) {
+    return addMonths(record.date, record.intervalMonths);
+  }
+
+  return null;
+};
+
+/**
+ * Whether a booster is overdue, due within VACCINE_DUE_SOON_DAYS, or up to date
+ */
+export const getVaccineStatus = (dueDate: Date, now: Date = new Date()): VaccineStatus => {
+  const daysLeft = (dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
+
+  if (daysLeft < 0) {
+    return 'overdue';
+  }
+
+  if (daysLeft <= VACCINE_DUE_SOON_DAYS) {
+    return 'due-soon';
+  }
+
+  return 'up-to-date';
+};
+
+/**
+ * The latest dose of each vaccine, so superseded shots do not show as overdue
+ */
+export const getCurrentVaccinations = (records: MedicalRecord[]): MedicalRecord[] => {
+  const latestByVaccine = new Map<string, MedicalRecord>();
+
+  records
+    .filter(record => record.type === 'vaccination')
+    .forEach(record => {
+      const key = record.title.trim().toLowerCase();
+      const latest = latestByVaccine.get(key);
+      if (!latest || record.date.getTime() > latest.date.getTime()) {
+        latestByVaccine.set(key, record);
+      }
+    });
+
+  return Array.from(latestByVaccine.values());
+};
+
+/**
+ * Group records by year, newest first, for the timeline
+ */
+export const groupRecordsByYear = (records: MedicalRecord[]): { year: number; data: MedicalRecord[] }[] => {
+  const sorted = [...records].sort((a, b) => b.date.getTime() - a.date.getTime());
+  const groups: { year: number; data: MedicalRecord[] }[] = [];
+
+  sorted.forEach(record => {
+    const year = record.date.getFullYear();
+    const group = groups[groups.length - 1];
+    if (group && group.year === year) {
+      group.data.push(record);
+    } else {
+      groups.push({ year, data: [record] });
+    }
+  });
+
+  return groups;
+};
@@ -0,0 +1,137 @@
+import { MIN_PASSWORD_LENGTH, PasswordStrength, PasswordStrengthLevel } from '../types/auth';
+
+/**
+ * Password Utilities
+ *
+ * Local password strength estimate for choosing a new password. Checks
+ * against a bundled list of the most common leaked passwords, so no
+ * password ever leaves the device for the check.
+ */
+
+const STRENGTH_LEVELS: PasswordStrengthLevel[] = ['very-weak', 'weak', 'fair', 'strong', 'very-strong'];
+
+// Most frequent passwords from public breach compilations, lower-cased
+const COMMON_PASSWORDS = new Set([
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '123123', '111111',
+  '000000', '654321', '666666', '121212', '112233', '123321', '987654321', '159753',
+  'password', 'password1', 'passw0rd', 'p@ssw0rd', 'p@ssword', 'pass1234', 'password123',
+  'qwerty', 'qwerty123', 'qwertyuiop', 'qwe123', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx',
+  'zaq12wsx', 'asdfgh', 'asdfghjkl', 'zxcvbnm', 'abc123', 'abcd1234', 'aa123456',
+  'iloveyou', 'letmein', 'welcome', 'welcome1', 'admin', 'admin123', 'root', 'login',
+  'master', 'monkey', 'dragon', 'football', 'baseball', 'soccer', 'hockey', 'basketball',
+  'superman', 'batman', 'starwars', 'pokemon', 'princess', 'sunshine', 'shadow', 'flower',
+  'charlie', 'michael', 'jennifer', 'jordan', 'michelle', 'daniel', 'jessica', 'ashley',
+  'hunter', 'hunter2', 'trustno1', 'freedom', 'whatever', 'secret', 'mustang', 'killer',
+  'computer', 'internet', 'access', 'ninja', 'azerty', 'lovely', 'loveme', 'babygirl',
+  'changeme', 'default', 'google', 'samsung', 'liverpool', 'chelsea', 'arsenal',
+  'puppy', 'kitten', 'doggy', 'buddy', 'bailey', 'max', 'bella', 'lucky', 'coco',
+  'daisy', 'molly', 'luna', 'pepper', 'ginger', 'snoopy', 'tigger', 'cookie',
+  'aboutpets', 'ilovemydog', 'ilovemycat', 'doglover', 'catlover', 'petlover',
+]);
+
+const SEQUENCES = ['abcdefghijklmnopqrstuvwxyz', '0123456789', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+/**
+ * Whether a password is, or is a lightly decorated version of, a common one,
+ * e.g. "Password123!" or "qwerty2024"
+ */
+export const isCommonPassword = (password: string): boolean => {
+  const normalized = password.trim().toLowerCase();
+  if (COMMON_PASSWORDS.has(normalized)) return true;
+
+  const base = normalized.replace(/[\d\W_]+$/, '');
+  return base.length > 0 && COMMON_PASSWORDS.has(base);
+};
+
+/**
+ * Whether a password has a run of three or more repeated or consecutive
+ * characters, e.g. "aaa", "123" or "qwe"
+ */
+const hasPredictablePattern = (password: string): boolean => {
+  const lower = password.toLowerCase();
+  if (/(.)\1\1/.test(lower)) return true;
+
+  for (let i = 0; i <= lower.length - 3; i++) {
+    const chunk = lower.slice(i, i + 3);
+    const reversed = chunk.split('').reverse().join('');
+    if (SEQUENCES.some(sequence => sequence.includes(chunk) || sequence.includes(reversed))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Estimate how hard a password is to guess. Personal details such as the
+ * user's name or the local part of their email weaken it when they appear in it.
+ */
+export const getPasswordStrength = (password: string, personalInfo: string[] = []): PasswordStrength => {
+  const suggestions: string[] = [];
+
+  if (!password) {
+    return { score: 0, level: STRENGTH_LEVELS[0], suggestions };
+  }
+
+  if (isCommonPassword(password)) {
+    return {
+      score: 0,
+      level: STRENGTH_LEVELS[0],
+      suggestions: ['This is one of the most commonly used passwords'],
+    };
+  }
+
+  const characterClasses = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z\d]/]
+    .filter(pattern => pattern.test(password)).length;
+
+  let score = 0;
+  if (password.length >= MIN_PASSWORD_LENGTH) score++;
+  if (password.length >= 12) score++;
+  if (characterClasses >= 3) score++;
+  if (characterClasses === 4 || password.length >= 16) score++;
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    suggestions.push(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  } else if (password.length < 12) {
+    suggestions.push('Longer passwords are harder to guess');
+  }
+  if (characterClasses < 3) {
+    suggestions.push('Mix upper and lower case letters, numbers and symbols');
+  }
+
+  if (hasPredictablePattern(password)) {
+    score--;
+    suggestions.push('Avoid repeated characters and sequences like "abc" or "123"');
+  }
+
+  const lower = password.toLowerCase();
+  const containsPersonalInfo = personalInfo
+    .flatMap(info => info.toLowerCase().split('@')[0].split(/[\s._-]+/))
+    .some(part => part.length >= 3 && lower.includes(part));
+  if (containsPersonalInfo) {
+    score--;
+    suggestions.push("Don't use your name or email address");
+  }
+
+  // Short passwords stay weak however varied they are
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    score = Math.min(score, 1);
+  }
+
+  score = Math.max(0, Math.min(4, score));
+  return { score, level: STRENGTH_LEVELS[score], suggestions };
+};
+
+export const getPasswordStrengthLabel = (level: PasswordStrengthLevel): string => {
+  switch (level) {
+    case 'very-weak':
+      return 'Very weak';
+    case 'weak':
+      return 'Weak';
+    case 'fair':
+      return 'Fair';
+    case 'strong':
+      return 'Strong';
+    case 'very-strong':
+      return 'Very strong';
+  }
+};
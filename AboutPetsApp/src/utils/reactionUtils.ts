@@ -0,0 +1,34 @@
+/**
+ * Reaction Utilities
+ * 
+ * Helper functions for message emoji reactions.
+ * Shared by optimistic updates and the Firestore transaction.
+ */
+
+export type Reactions = Record<string, string[]>;
+
+export const toggleUserReaction = (
+  reactions: Reactions | undefined,
+  emoji: string,
+  userId: string
+): Reactions => {
+  const nextReactions: Reactions = { ...(reactions || {}) };
+  const userIds = nextReactions[emoji] || [];
+
+  if (userIds.includes(userId)) {
+    const remaining = userIds.filter(id => id !== userId);
+    if (remaining.length > 0) {
+      nextReactions[emoji] = remaining;
+    } else {
+      delete nextReactions[emoji];
+    }
+  } else {
+    nextReactions[emoji] = [...userIds, userId];
+  }
+
+  return nextReactions;
+};
+
+export const getUserReactions = (reactions: Reactions | undefined, userId: string): string[] => {
+  return Object.keys(reactions || {}).filter(emoji => reactions![emoji].includes(userId));
+};
@@ -0,0 +1,161 @@
+import { RecurrenceRule } from '../types/reminder';
+
+/**
+ * Recurrence Utilities
+ *
+ * Pure expansion of RRULE-style reminder schedules into concrete dates.
+ * All arithmetic uses local calendar fields so occurrences keep their
+ * time of day across daylight saving changes.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Safety cap for a single expansion */
+export const MAX_OCCURRENCES = 500;
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+const atTimeOf = (year: number, month: number, day: number, time: Date): Date =>
+  new Date(year, month, day, time.getHours(), time.getMinutes(), 0, 0);
+
+/**
+ * Whole calendar days from a to b, ignoring time of day and DST shifts
+ */
+const calendarDaysBetween = (a: Date, b: Date): number =>
+  Math.round(
+    (Date.UTC(b.getFullYear(), b.getMonth(), b.getDate()) - Date.UTC(a.getFullYear(), a.getMonth(), a.getDate())) /
+      DAY_MS
+  );
+
+/**
+ * Occurrences of a schedule between rangeStart and rangeEnd (both inclusive), in order
+ */
+export const expandOccurrences = (
+  startAt: Date,
+  rule: RecurrenceRule,
+  rangeStart: Date,
+  rangeEnd: Date,
+  limit: number = MAX_OCCURRENCES
+): Date[] => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const end = rule.until && rule.until.getTime() < rangeEnd.getTime() ? rule.until : rangeEnd;
+  const from = Math.max(startAt.getTime(), rangeStart.getTime());
+  const occurrences: Date[] = [];
+
+  if (end.getTime() < from) {
+    return occurrences;
+  }
+
+  const push = (date: Date): boolean => {
+    if (date.getTime() > end.getTime()) {
+      return false;
+    }
+    if (date.getTime() >= from) {
+      occurrences.push(date);
+    }
+    return occurrences.length < limit;
+  };
+
+  switch (rule.frequency) {
+    case 'once': {
+      push(new Date(startAt));
+      break;
+    }
+
+    case 'daily': {
+      // Skip straight to the period containing rangeStart
+      let step = Math.max(0, Math.floor(calendarDaysBetween(startAt, new Date(from)) / interval));
+      while (push(atTimeOf(startAt.getFullYear(), startAt.getMonth(), startAt.getDate() + step * interval, startAt))) {
+        step += 1;
+      }
+      break;
+    }
+
+    case 'weekly': {
+      const weekdays = (rule.byWeekday && rule.byWeekday.length > 0 ? [...rule.byWeekday] : [startAt.getDay()])
+        .filter(day => day >= 0 && day <= 6)
+        .sort((a, b) => a - b);
+      const weekStartDay = startAt.getDate() - startAt.getDay();
+      let step = Math.max(0, Math.floor(calendarDaysBetween(startAt, new Date(from)) / 7 / interval));
+
+      for (;;) {
+        const weekOffset = weekStartDay + step * interval * 7;
+        const dates = weekdays.map(day =>
+          atTimeOf(startAt.getFullYear(), startAt.getMonth(), weekOffset + day, startAt)
+        );
+        if (dates[0].getTime() > end.getTime() || !dates.every(push)) {
+          break;
+        }
+        step += 1;
+      }
+      break;
+    }
+
+    case 'monthly': {
+      const monthDay = rule.byMonthDay || startAt.getDate();
+      const fromDate = new Date(from);
+      const monthsToFrom =
+        (fromDate.getFullYear() - startAt.getFullYear()) * 12 + fromDate.getMonth() - startAt.getMonth();
+      let step = Math.max(0, Math.floor(monthsToFrom / interval) - 1);
+
+      for (;;) {
+        const first = new Date(startAt.getFullYear(), startAt.getMonth() + step * interval, 1);
+        const day = Math.min(monthDay, daysInMonth(first.getFullYear(), first.getMonth()));
+        if (!push(atTimeOf(first.getFullYear(), first.getMonth(), day, startAt))) {
+          break;
+        }
+        step += 1;
+      }
+      break;
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * The first occurrence strictly after the given time, or null when the schedule has ended
+ */
+export const getNextOccurrence = (startAt: Date, rule: RecurrenceRule, after: Date): Date | null => {
+  const searchEnd = new Date(after.getTime() + (rule.interval || 1) * 366 * DAY_MS);
+  const [next] = expandOccurrences(startAt, rule, new Date(after.getTime() + 1), searchEnd, 1);
+  return next || null;
+};
+
+const ordinal = (day: number): string => {
+  const suffix = day % 100 >= 11 && day % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][day % 10] || 'th';
+  return `${day}${suffix}`;
+};
+
+/**
+ * Human-readable schedule, e.g. "Daily at 08:00" or "Every 3 weeks on Mon, Thu at 18:30"
+ */
+export const describeRecurrence = (startAt: Date, rule: RecurrenceRule): string => {
+  const time = startAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  let description: string;
+
+  switch (rule.frequency) {
+    case 'once':
+      return `Once on ${startAt.toLocaleDateString()} at ${time}`;
+    case 'daily':
+      description = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      break;
+    case 'weekly': {
+      const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [startAt.getDay()];
+      description = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`} on ${[...weekdays]
+        .sort((a, b) => a - b)
+        .map(day => WEEKDAY_NAMES[day])
+        .join(', ')}`;
+      break;
+    }
+    case 'monthly':
+      description = `${interval === 1 ? 'Monthly' : `Every ${interval} months`} on the ${ordinal(
+        rule.byMonthDay || startAt.getDate()
+      )}`;
+      break;
+  }
+
+  return `${description} at ${time}`;
+};
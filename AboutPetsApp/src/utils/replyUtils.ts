@@ -0,0 +1,31 @@
+/**
+ * Reply Utilities
+ * 
+ * Helper functions for quoted replies.
+ * Builds the snippet stored with a reply and its preview text.
+ */
+
+import { Message, MessageReply } from '../types/chat';
+import { truncateText } from './stringUtils';
+
+const REPLY_SNIPPET_LENGTH = 120;
+
+export const createMessageReply = (message: Message): MessageReply => {
+  return {
+    id: message.id!,
+    senderName: message.senderName,
+    text: truncateText(message.text || message.metadata?.fileName || '', REPLY_SNIPPET_LENGTH),
+    type: message.type || 'text',
+  };
+};
+
+export const getReplyPreviewText = (reply: MessageReply): string => {
+  switch (reply.type) {
+    case 'image':
+      return reply.text ? `📷 ${reply.text}` : '📷 Photo';
+    case 'file':
+      return `📄 ${reply.text || 'File'}`;
+    default:
+      return reply.text;
+  }
+};
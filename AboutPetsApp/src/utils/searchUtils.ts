@@ -0,0 +1,76 @@
+/**
+ * Search Utilities
+ * 
+ * Helper functions for keyword search over message text.
+ * Tokens are lowercase words shared by the local and server-side search.
+ */
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKENS = 50;
+const NGRAM_LENGTH = 3;
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export const tokenizeText = (text: string): string[] => {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00C0-\u024F]+/)
+    .filter(word => word.length >= MIN_TOKEN_LENGTH);
+
+  return Array.from(new Set(words)).slice(0, MAX_TOKENS);
+};
+
+export const matchesSearch = (text: string, searchQuery: string): boolean => {
+  const lowerText = text.toLowerCase();
+  const terms = tokenizeText(searchQuery);
+  return terms.length > 0 && terms.every(term => lowerText.includes(term));
+};
+
+export const splitHighlights = (text: string, searchQuery: string): HighlightSegment[] => {
+  const terms = tokenizeText(searchQuery);
+  if (terms.length === 0) {
+    return [{ text, highlight: false }];
+  }
+
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+
+  return text
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, highlight: terms.includes(part.toLowerCase()) }));
+};
+
+/**
+ * Keywords for substring search in Firestore: the two-letter prefix and every
+ * trigram of each word, so any part of a word of three or more letters matches.
+ */
+export const buildSearchKeywords = (values: (string | undefined | null)[]): string[] => {
+  const keywords = new Set<string>();
+
+  tokenizeText(values.filter(Boolean).join(' ')).forEach(word => {
+    keywords.add(word.slice(0, MIN_TOKEN_LENGTH));
+    for (let i = 0; i + NGRAM_LENGTH <= word.length; i++) {
+      keywords.add(word.slice(i, i + NGRAM_LENGTH));
+    }
+  });
+
+  return Array.from(keywords);
+};
+
+/**
+ * The single keyword to look up for a query, taken from its longest word.
+ * Returns null when the query has no searchable words.
+ */
+export const getSearchKeyword = (searchQuery: string): string | null => {
+  const terms = tokenizeText(searchQuery);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const longest = terms.reduce((a, b) => (b.length > a.length ? b : a));
+  return longest.slice(0, Math.min(longest.length, NGRAM_LENGTH));
+};
@@ -64,4 +64,30 @@ export const highlightMentions = (text: string, currentUserId: string): string =
     }
     return match;
   });
-};
\ No newline at end of file
+};
+
+export const formatTypingText = (names: string[]): string | null => {
+  if (names.length === 0) {
+    return null;
+  }
+  if (names.length === 1) {
+    return `${names[0]} is typing…`;
+  }
+  if (names.length === 2) {
+    return `${names[0]} and ${names[1]} are typing…`;
+  }
+  return `${names.length} people are typing…`;
+};
+
+export const formatFileSize = (bytes?: number): string => {
+  if (!bytes) {
+    return '';
+  }
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
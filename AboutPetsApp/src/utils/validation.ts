@@ -5,6 +5,12 @@
  * Provides consistent validation logic across the app.
  */
 
+import { HealthMetricType } from '../types/health';
+import { MAX_POST_LENGTH } from '../types/feed';
+import { MIN_PASSWORD_LENGTH } from '../types/auth';
+import { parseDateInput, parseTimeInput } from './dateUtils';
+import { getPasswordStrength, isCommonPassword } from './passwordUtils';
+
 export const validateEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
@@ -84,4 +90,374 @@ export const validateRegisterForm = (
     isValid: errors.length === 0,
     errors,
   };
-};
\ No newline at end of file
+};
+
+export const validatePetForm = (
+  name: string,
+  birthday: string,
+  weight: string,
+  microchipId: string
+): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!name.trim()) {
+    errors.push('Pet name is required');
+  } else if (name.trim().length > 50) {
+    errors.push('Pet name must be 50 characters or less');
+  }
+
+  if (birthday.trim()) {
+    const date = parseDateInput(birthday);
+    if (!date) {
+      errors.push('Birthday must be a valid date (YYYY-MM-DD)');
+    } else if (date.getTime() > Date.now()) {
+      errors.push('Birthday cannot be in the future');
+    }
+  }
+
+  if (weight.trim()) {
+    const value = Number(weight.replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0 || value > 500) {
+      errors.push('Weight must be a number between 0 and 500 kg');
+    }
+  }
+
+  if (microchipId.trim() && !/^[0-9A-Za-z]{9,15}$/.test(microchipId.trim())) {
+    errors.push('Microchip ID must be 9 to 15 letters or digits');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+
+export const validateMedicalRecordForm = (
+  title: string,
+  date: string,
+  intervalMonths: string,
+  nextDueDate: string,
+  endDate: string
+): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!title.trim()) {
+    errors.push('Title is required');
+  }
+
+  const recordDate = parseDateInput(date);
+  if (!recordDate) {
+    errors.push('Date must be a valid date (YYYY-MM-DD)');
+  }
+
+  if (intervalMonths.trim()) {
+    const months = Number(intervalMonths);
+    if (!Number.isInteger(months) || months < 1 || months > 120) {
+      errors.push('Booster interval must be between 1 and 120 months');
+    }
+  }
+
+  const optionalDates: [string, string][] = [
+    [nextDueDate, 'Next due date'],
+    [endDate, 'End date'],
+  ];
+  optionalDates.forEach(([value, label]) => {
+    if (!value.trim()) return;
+
+    const parsed = parseDateInput(value);
+    if (!parsed) {
+      errors.push(`${label} must be a valid date (YYYY-MM-DD)`);
+    } else if (recordDate && parsed.getTime() < recordDate.getTime()) {
+      errors.push(`${label} cannot be before the record date`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+
+export const validateReminderForm = (
+  petId: string | null,
+  title: string,
+  startDate: string,
+  time: string,
+  interval: string,
+  untilDate: string
+): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!petId) {
+    errors.push('Choose a pet');
+  }
+
+  if (!title.trim()) {
+    errors.push('Title is required');
+  }
+
+  const start = parseDateInput(startDate);
+  if (!start) {
+    errors.push('Start date must be a valid date (YYYY-MM-DD)');
+  }
+
+  if (!parseTimeInput(time)) {
+    errors.push('Time must be a valid time (HH:MM)');
+  }
+
+  const intervalValue = Number(interval);
+  if (!Number.isInteger(intervalValue) || intervalValue < 1 || intervalValue > 365) {
+    errors.push('Repeat interval must be a whole number between 1 and 365');
+  }
+
+  if (untilDate.trim()) {
+    const until = parseDateInput(untilDate);
+    if (!until) {
+      errors.push('End date must be a valid date (YYYY-MM-DD)');
+    } else if (start && until.getTime() < start.getTime()) {
+      errors.push('End date cannot be before the start date');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+export const validateHealthMetricForm = (
+  type: HealthMetricType,
+  value: string,
+  date: string,
+  time: string
+): ValidationResult => {
+  const errors: string[] = [];
+
+  const number = Number(value.replace(',', '.'));
+  if (!value.trim() || !Number.isFinite(number) || number <= 0) {
+    errors.push('Value must be a positive number');
+  } else if (type === 'body-condition' && (!Number.isInteger(number) || number > 9)) {
+    errors.push('Body condition score must be a whole number from 1 to 9');
+  }
+
+  const recordDate = parseDateInput(date);
+  if (!recordDate) {
+    errors.push('Date must be a valid date (YYYY-MM-DD)');
+  }
+
+  const recordTime = parseTimeInput(time);
+  if (!recordTime) {
+    errors.push('Time must be a valid time (HH:MM)');
+  }
+
+  if (recordDate && recordTime) {
+    recordDate.setHours(recordTime.hours, recordTime.minutes);
+    if (recordDate.getTime() > Date.now()) {
+      errors.push('Measurements cannot be in the future');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+export const validateLostPetReport = (
+  date: string,
+  time: string,
+  hasLocation: boolean
+): ValidationResult => {
+  const errors: string[] = [];
+
+  const lastSeenDate = parseDateInput(date);
+  if (!lastSeenDate) {
+    errors.push('Date must be a valid date (YYYY-MM-DD)');
+  }
+
+  const lastSeenTime = parseTimeInput(time);
+  if (!lastSeenTime) {
+    errors.push('Time must be a valid time (HH:MM)');
+  }
+
+  if (lastSeenDate && lastSeenTime) {
+    lastSeenDate.setHours(lastSeenTime.hours, lastSeenTime.minutes);
+    if (lastSeenDate.getTime() > Date.now()) {
+      errors.push('Last seen time cannot be in the future');
+    }
+  }
+
+  if (!hasLocation) {
+    errors.push('Set the last seen location');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+export const validateAdoptionListingForm = (
+  name: string,
+  ageYears: string,
+  ageMonths: string,
+  location: string
+): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!name.trim()) {
+    errors.push('Pet name is required');
+  } else if (name.trim().length > 50) {
+    errors.push('Pet name must be 50 characters or less');
+  }
+
+  const years = ageYears.trim() ? Number(ageYears) : 0;
+  const months = ageMonths.trim() ? Number(ageMonths) : 0;
+  if (!Number.isInteger(years) || years < 0 || years > 40) {
+    errors.push('Age in years must be a whole number up to 40');
+  }
+  if (!Number.isInteger(months) || months < 0 || months > 11) {
+    errors.push('Age in months must be a whole number from 0 to 11');
+  }
+
+  if (!location.trim()) {
+    errors.push('Location is required');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+export const validateEventForm = (
+  title: string,
+  location: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  capacity: string
+): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!title.trim()) {
+    errors.push('Title is required');
+  } else if (title.trim().length > 80) {
+    errors.push('Title must be 80 characters or less');
+  }
+
+  if (!location.trim()) {
+    errors.push('Location is required');
+  }
+
+  const eventDate = parseDateInput(date);
+  if (!eventDate) {
+    errors.push('Date must be a valid date (YYYY-MM-DD)');
+  }
+
+  const start = parseTimeInput(startTime);
+  const end = parseTimeInput(endTime);
+  if (!start || !end) {
+    errors.push('Times must be valid times (HH:MM)');
+  } else if (end.hours * 60 + end.minutes <= start.hours * 60 + start.minutes) {
+    errors.push('The event must end after it starts');
+  }
+
+  if (eventDate && start) {
+    eventDate.setHours(start.hours, start.minutes);
+    if (eventDate.getTime() <= Date.now()) {
+      errors.push('The event must start in the future');
+    }
+  }
+
+  if (capacity.trim()) {
+    const value = Number(capacity);
+    if (!Number.isInteger(value) || value < 2 || value > 500) {
+      errors.push('Capacity must be a whole number from 2 to 500');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+export const validatePostForm = (text: string, photoCount: number): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!text.trim() && photoCount === 0) {
+    errors.push('Write something or add a photo');
+  } else if (text.trim().length > MAX_POST_LENGTH) {
+    errors.push(`Posts must be ${MAX_POST_LENGTH} characters or less`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Stricter rules than validatePassword for choosing a new password:
+ * long enough, not a common password and at least "fair" strength
+ */
+export const validateNewPassword = (
+  currentPassword: string,
+  newPassword: string,
+  confirmPassword: string,
+  personalInfo: string[] = []
+): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!currentPassword) {
+    errors.push('Current password is required');
+  }
+
+  if (!newPassword) {
+    errors.push('New password is required');
+  } else if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    errors.push(`New password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  } else if (isCommonPassword(newPassword)) {
+    errors.push('New password is too common. Choose something harder to guess');
+  } else if (newPassword === currentPassword) {
+    errors.push('New password must be different from your current password');
+  } else if (getPasswordStrength(newPassword, personalInfo).score < 2) {
+    errors.push('New password is too weak');
+  }
+
+  if (newPassword && newPassword !== confirmPassword) {
+    errors.push('Passwords do not match');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+export const MAX_BIO_LENGTH = 160;
+export const MAX_LOCATION_LENGTH = 100;
+
+export const validateProfileForm = (displayName: string, bio: string, location: string): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!validateDisplayName(displayName)) {
+    errors.push('Display name must be between 2 and 50 characters');
+  }
+
+  if (bio.trim().length > MAX_BIO_LENGTH) {
+    errors.push(`Bio must be ${MAX_BIO_LENGTH} characters or less`);
+  }
+
+  if (location.trim().length > MAX_LOCATION_LENGTH) {
+    errors.push(`Location must be ${MAX_LOCATION_LENGTH} characters or less`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};